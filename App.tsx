@@ -1,19 +1,41 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { analyzeUIScreen } from './services/geminiService';
-import { getCaptureStream, captureFrame } from './services/captureService';
-import { DarkPatternScan, Severity, HistoryItem, CatalogAnchor, DefensiveStatus } from './types';
+import { VerifyOptions } from './services/auditService';
+import { requestPageAudit } from './services/auditApi';
+import { pageResponse } from './services/pageAudit';
+import { calculateSafetyMetrics } from './services/scoring';
+import { ProviderError } from './services/providerError';
+import { DEFAULT_PROVIDER_ID, PROVIDER_OPTIONS, ProviderId } from './services/auditProvider';
+import { getCaptureStream, captureFrame, captureFrameCanvas, encodeForUpload, encodeThumbnail, loadImage } from './services/captureService';
+import { snapshotFromHtml } from './services/domSnapshot';
+import { ChangeDetector, ChangeReason, sampleVideoSignature } from './services/frameDiff';
+import { DEFAULT_RULE_PACK, RULE_PACKS, RulePack, getRulePack, validateRulePack } from './services/rulePack';
+import { createTesseractRecognizer, TextRecognizer } from './services/ocr';
+import { DEFAULT_WATCH_OPTIONS, WatchTrack, runTimerWatch, timerWatchScans } from './services/timerWatch';
+import { annotateScreenshot, buildAuditReport, downloadFile, renderReportHtml } from './services/reportExport';
+import { appendStep, clearSession, createSession, currentSignature, loadSession, saveSession } from './services/sessionStore';
+import { PATTERN_TAXONOMY, normalizeHistory } from './services/taxonomy';
+import { addedScan, buildFeedbackDataset, moveScan, reviewScan, stepRulePack, updateStepScans } from './services/feedback';
+import { DarkPatternScan, HistoryItem, DefensiveStatus, AuditSession, ScanResponse, DomSnapshot, PatternType } from './types';
 import { PatternCard } from './components/PatternCard';
 import { AuditOverlay } from './components/AuditOverlay';
+import { SessionTimeline } from './components/SessionTimeline';
+import { ScoreBreakdownPanel } from './components/ScoreBreakdownPanel';
+import { AnnotationLayer } from './components/AnnotationLayer';
 
 const STORAGE_KEYS = {
-  SIGNATURE: 'shadowguard_session_signature',
   HISTORY: 'shadowguard_audit_history',
-  DARK_MODE: 'shadowguard_theme'
+  DARK_MODE: 'shadowguard_theme',
+  PROVIDER: 'shadowguard_provider',
+  STREAMING: 'shadowguard_streaming',
+  COARSE_PASS: 'shadowguard_coarse_pass',
+  RULE_PACK: 'shadowguard_rule_pack',
+  VERIFIER: 'shadowguard_verifier',
+  AUDIT_TOKEN: 'shadowguard_audit_token'
 };
 
-// Increased for Gemini 3 Pro rate-limit friendliness
-const TILE_COOLDOWN = 5000; 
+type VerifierMode = 'off' | VerifyOptions['rejected'];
+const VERIFIER_MODES: VerifierMode[] = ['off', 'mark', 'hide'];
 
 const THEATRICAL_STAGES = [
   "Synchronizing Neural Buffers...",
@@ -26,6 +48,17 @@ const THEATRICAL_STAGES = [
   "Finalizing Deep Forensic Scan..."
 ];
 
+// How often the live viewfinder is sampled for change detection while monitoring
+const MONITOR_SAMPLE_MS = 500;
+
+const MONITOR_LABELS: Record<ChangeReason, string> = {
+  first: 'Auditing first frame',
+  changed: 'Change detected',
+  unchanged: 'Waiting for changes',
+  settling: 'Waiting for the page to settle',
+  cooldown: 'Change queued'
+};
+
 const App: React.FC = () => {
   const [isDarkMode, setIsDarkMode] = useState(() => {
     try {
@@ -35,6 +68,27 @@ const App: React.FC = () => {
       return false;
     }
   });
+  const [providerId, setProviderId] = useState<ProviderId>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.PROVIDER) as ProviderId | null;
+    return saved && PROVIDER_OPTIONS.some(p => p.id === saved) ? saved : DEFAULT_PROVIDER_ID;
+  });
+  const [isStreaming, setIsStreaming] = useState(() => localStorage.getItem(STORAGE_KEYS.STREAMING) !== 'false');
+  const [useCoarsePass, setUseCoarsePass] = useState(() => localStorage.getItem(STORAGE_KEYS.COARSE_PASS) === 'true');
+  const [verifierMode, setVerifierMode] = useState<VerifierMode>(() => {
+    const saved = localStorage.getItem(STORAGE_KEYS.VERIFIER) as VerifierMode | null;
+    return saved && VERIFIER_MODES.includes(saved) ? saved : 'off';
+  });
+  const [auditToken, setAuditToken] = useState(() => localStorage.getItem(STORAGE_KEYS.AUDIT_TOKEN) || '');
+  // Built-in packs are stored by id so they pick up updates; a user-loaded pack is stored whole
+  const [rulePack, setRulePack] = useState<RulePack>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEYS.RULE_PACK);
+      if (!saved) return DEFAULT_RULE_PACK;
+      return saved.startsWith('{') ? validateRulePack(JSON.parse(saved)) : getRulePack(saved) || DEFAULT_RULE_PACK;
+    } catch {
+      return DEFAULT_RULE_PACK;
+    }
+  });
   const [image, setImage] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [isCancelling, setIsCancelling] = useState(false);
@@ -42,20 +96,21 @@ const App: React.FC = () => {
   const [auditHistory, setAuditHistory] = useState<HistoryItem[]>(() => {
     try {
       const saved = localStorage.getItem(STORAGE_KEYS.HISTORY);
-      return saved ? JSON.parse(saved) : [];
+      return saved ? normalizeHistory(JSON.parse(saved)) : [];
     } catch {
       return [];
     }
   });
-  const [viewportMeta, setViewportMeta] = useState<{ threat_count: number; status: DefensiveStatus; advice: string } | null>(null);
-  const [lastSignature, setLastSignature] = useState<Record<string, any>>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.SIGNATURE);
-      return saved ? JSON.parse(saved) : {};
-    } catch {
-      return {};
-    }
-  });
+  const [viewportMeta, setViewportMeta] = useState<ScanResponse['viewport_meta'] | null>(null);
+  const [session, setSession] = useState<AuditSession>(() => loadSession());
+  // Index of a past step being reviewed; null means the live (latest) state
+  const [viewingStep, setViewingStep] = useState<number | null>(null);
+  const [domSnapshot, setDomSnapshot] = useState<DomSnapshot | null>(null);
+  // Findings from watching the live stream; merged into the audit of the frame taken when the watch ends
+  const [watchScans, setWatchScans] = useState<DarkPatternScan[]>([]);
+  const [watchProgress, setWatchProgress] = useState<{ tracks: WatchTrack[]; elapsedMs: number } | null>(null);
+  const [drawType, setDrawType] = useState<PatternType>(PatternType.FakeUrgency);
+  const [isDrawing, setIsDrawing] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -67,17 +122,46 @@ const App: React.FC = () => {
   
   const [isCapturing, setIsCapturing] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [isMonitoring, setIsMonitoring] = useState(false);
+  const [monitorStatus, setMonitorStatus] = useState<{ reason: ChangeReason; audits: number } | null>(null);
   
   const imageRef = useRef<HTMLImageElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const isScanningRef = useRef(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const watchControllerRef = useRef<AbortController | null>(null);
+  // Latest auditImage, so the monitor loop records steps against current session state
+  const auditImageRef = useRef<(img: HTMLImageElement, live?: boolean) => Promise<boolean>>(async () => false);
 
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.DARK_MODE, JSON.stringify(isDarkMode));
   }, [isDarkMode]);
 
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.PROVIDER, providerId);
+  }, [providerId]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.STREAMING, String(isStreaming));
+  }, [isStreaming]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.COARSE_PASS, String(useCoarsePass));
+  }, [useCoarsePass]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.VERIFIER, verifierMode);
+  }, [verifierMode]);
+
+  useEffect(() => {
+    if (auditToken) localStorage.setItem(STORAGE_KEYS.AUDIT_TOKEN, auditToken);
+    else localStorage.removeItem(STORAGE_KEYS.AUDIT_TOKEN);
+  }, [auditToken]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.RULE_PACK, RULE_PACKS.includes(rulePack) ? rulePack.id : JSON.stringify(rulePack));
+  }, [rulePack]);
+
   useEffect(() => {
     return () => {
       if (stream) stream.getTracks().forEach(track => track.stop());
@@ -104,21 +188,90 @@ const App: React.FC = () => {
   }, [loading]);
 
   const stopCapturing = useCallback(() => {
+    watchControllerRef.current?.abort('cancel');
     if (stream) stream.getTracks().forEach(track => track.stop());
     setStream(null);
     setIsCapturing(false);
+    setIsMonitoring(false);
   }, [stream]);
 
-  const persistScanState = useCallback((signature: Record<string, any>, history: HistoryItem[]) => {
+  // Continuous monitoring: sample small frames, and audit a full frame only when the view has really changed
+  useEffect(() => {
+    if (!isMonitoring || !isCapturing) return;
+    const detector = new ChangeDetector();
+    const sampler = document.createElement('canvas');
+    let audits = 0;
+    let busy = false;
+    setMonitorStatus({ reason: 'settling', audits });
+    const timer = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (busy || isScanningRef.current || !video || video.videoWidth === 0) return;
+      busy = true;
+      try {
+        const signature = sampleVideoSignature(video, sampler);
+        const decision = detector.observe(signature, Date.now());
+        setMonitorStatus({ reason: decision.reason, audits });
+        if (!decision.audit) return;
+        const dataUrl = captureFrame(video);
+        if (await auditImageRef.current(await loadImage(dataUrl), true)) {
+          detector.commit(signature, Date.now());
+          audits++;
+          // The static view shown after monitoring stops is the last frame that was audited
+          setImage(dataUrl);
+          setMonitorStatus({ reason: 'unchanged', audits });
+        }
+      } catch (err: any) {
+        setError(err.message || "Monitoring failed.");
+      } finally {
+        busy = false;
+      }
+    }, MONITOR_SAMPLE_MS);
+    return () => {
+      window.clearInterval(timer);
+      abortControllerRef.current?.abort();
+      setMonitorStatus(null);
+    };
+  }, [isMonitoring, isCapturing]);
+
+  const lastSignature = useMemo(() => currentSignature(session), [session]);
+  const displayedSignature = viewingStep !== null && session.steps[viewingStep]
+    ? session.steps[viewingStep].response.thought_signature
+    : lastSignature;
+
+  const persistScanState = useCallback((nextSession: AuditSession, history: HistoryItem[]) => {
+    setSession(saveSession(nextSession));
     try {
-      localStorage.setItem(STORAGE_KEYS.SIGNATURE, JSON.stringify(signature));
       localStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(history.slice(-100)));
     } catch (e) {
       console.warn("Storage Quota Hit.");
     }
   }, []);
 
+  const handleMarkupFile = useCallback(async (file: File) => {
+    try {
+      // Lay the markup out at the screenshot's width so element boxes line up with it
+      const width = imageRef.current?.naturalWidth || 1280;
+      setDomSnapshot(await snapshotFromHtml(await file.text(), width));
+    } catch (err: any) {
+      setError(err.message || "Could not read the HTML file.");
+    }
+  }, []);
+
+  const handleRulePackFile = async (file: File) => {
+    try {
+      const pack = validateRulePack(JSON.parse(await file.text()));
+      if (getRulePack(pack.id)) throw new Error(`A built-in pack already uses the id "${pack.id}".`);
+      setRulePack(pack);
+    } catch (err: any) {
+      setError(err.message || "Could not load the rule pack.");
+    }
+  };
+
   const handleFile = useCallback((file: File) => {
+    if (file.type === 'text/html' || /\.html?$/i.test(file.name)) {
+      handleMarkupFile(file);
+      return;
+    }
     if (!file.type.startsWith('image/')) return;
     const reader = new FileReader();
     reader.onload = (e) => {
@@ -127,7 +280,10 @@ const App: React.FC = () => {
         abortControllerRef.current.abort();
       }
       stopCapturing();
+      setViewingStep(null);
       setImage(e.target?.result as string);
+      setDomSnapshot(null);
+      setWatchScans([]);
       setScans([]);
       setViewportMeta(null);
       setError(null);
@@ -135,14 +291,14 @@ const App: React.FC = () => {
       setHasCompletedInitialScan(false);
     };
     reader.readAsDataURL(file);
-  }, [stopCapturing]);
+  }, [stopCapturing, handleMarkupFile]);
 
   const handlePaste = useCallback((e: ClipboardEvent) => {
     if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
     const items = e.clipboardData?.items;
     if (!items) return;
     for (let i = 0; i < items.length; i++) {
-      if (items[i].type.indexOf('image') !== -1) {
+      if (items[i].type.indexOf('image') !== -1 || (items[i].kind === 'file' && items[i].type === 'text/html')) {
         const blob = items[i].getAsFile();
         if (blob) handleFile(blob);
         break;
@@ -170,17 +326,76 @@ const App: React.FC = () => {
     setScanProgress(null);
     isScanningRef.current = false;
     setHasCompletedInitialScan(false);
+    setViewingStep(null);
+    setDomSnapshot(null);
+    setWatchScans([]);
+    setIsDrawing(false);
     setTimeout(() => setIsCancelling(false), 300);
   };
 
   const handleClear = () => {
     handleDiscard();
-    setLastSignature({});
+    setSession(createSession());
     setAuditHistory([]);
-    localStorage.removeItem(STORAGE_KEYS.SIGNATURE);
+    clearSession();
     localStorage.removeItem(STORAGE_KEYS.HISTORY);
   };
 
+  const handleSelectStep = (index: number) => {
+    if (loading) return;
+    const step = session.steps[index];
+    if (!step) return;
+    stopCapturing();
+    setViewingStep(index === session.steps.length - 1 ? null : index);
+    setImage(step.screenshot);
+    setScans(step.response.scans);
+    setViewportMeta(step.response.viewport_meta);
+    setSelectedIndex(null);
+    setIsDrawing(false);
+    setError(step.screenshot ? null : "Screenshot for this step was evicted from storage.");
+    setHasCompletedInitialScan(true);
+  };
+
+  const handleExport = (format: 'html' | 'json') => {
+    const stepIndex = viewingStep ?? session.steps.length - 1;
+    if (stepIndex < 0) return;
+    try {
+      const report = buildAuditReport(session, stepIndex, {
+        provider: PROVIDER_OPTIONS.find(p => p.id === providerId)?.label,
+        screenshot: image
+      });
+      const basename = `audit-${session.id}-step${stepIndex + 1}`;
+      if (format === 'json') {
+        downloadFile(`${basename}.json`, JSON.stringify(report, null, 2), 'application/json');
+        return;
+      }
+      const annotated = imageRef.current ? annotateScreenshot(imageRef.current, report.findings) : null;
+      downloadFile(`${basename}.html`, renderReportHtml(report, annotated), 'text/html');
+    } catch (err: any) {
+      setError(err.message || "Report export failed.");
+    }
+  };
+
+  const handleExportDataset = () => {
+    const dataset = buildFeedbackDataset(session, { loaded: rulePack });
+    if (dataset.items.length === 0) {
+      setError("Confirm, dispute or draw at least one finding before exporting a dataset.");
+      return;
+    }
+    downloadFile(`dataset-${session.id}.json`, JSON.stringify(dataset, null, 2), 'application/json');
+  };
+
+  // Corrections apply to the step on screen and are saved with the session
+  const reviewStepIndex = viewingStep ?? session.steps.length - 1;
+  const canReview = !!image && !loading && !isCapturing && hasCompletedInitialScan && reviewStepIndex >= 0;
+
+  const applyReview = (nextScans: DarkPatternScan[]) => {
+    const nextSession = updateStepScans(session, reviewStepIndex, nextScans, stepRulePack(session, reviewStepIndex, rulePack));
+    setSession(saveSession(nextSession));
+    setScans(nextScans);
+    setViewportMeta(nextSession.steps[reviewStepIndex].response.viewport_meta);
+  };
+
   const onCaptureTab = async () => {
     try {
       if (abortControllerRef.current) abortControllerRef.current.abort();
@@ -188,11 +403,15 @@ const App: React.FC = () => {
       if (stream) stream.getTracks().forEach(t => t.stop());
       setStream(newStream);
       setIsCapturing(true);
+      setViewingStep(null);
       setImage(null);
       setScans([]);
+      setWatchScans([]);
+      setDomSnapshot(null);
       setError(null);
       setHasCompletedInitialScan(false);
       newStream.getVideoTracks()[0].addEventListener('ended', () => {
+        watchControllerRef.current?.abort('cancel');
         setIsCapturing(false);
         setStream(null);
       });
@@ -213,6 +432,36 @@ const App: React.FC = () => {
     }
   };
 
+  const handleWatch = async () => {
+    if (!videoRef.current || !isCapturing || watchControllerRef.current) return;
+    const video = videoRef.current;
+    const controller = new AbortController();
+    watchControllerRef.current = controller;
+    setError(null);
+    setWatchProgress({ tracks: [], elapsedMs: 0 });
+    let recognizer: TextRecognizer | null = null;
+    try {
+      recognizer = await createTesseractRecognizer();
+      const tracks = await runTimerWatch(() => captureFrameCanvas(video), recognizer, {
+        signal: controller.signal,
+        onUpdate: (current, elapsedMs) => setWatchProgress({ tracks: [...current], elapsedMs })
+      });
+      // Closing the viewfinder cancels; Stop & Analyze ends the watch early and keeps what was seen
+      if (controller.signal.reason === 'cancel') return;
+      watchControllerRef.current = null;
+      setWatchScans(timerWatchScans(tracks));
+      setImage(captureFrame(video));
+      stopCapturing();
+      setTimeout(() => handleScan(), 50);
+    } catch (err: any) {
+      setError(err.message || "Timer watch failed.");
+    } finally {
+      recognizer?.terminate();
+      if (watchControllerRef.current === controller) watchControllerRef.current = null;
+      setWatchProgress(null);
+    }
+  };
+
   const handleScan = async () => {
     if (loading || isScanningRef.current || !image) return;
     const imgSource = imageRef.current;
@@ -220,118 +469,67 @@ const App: React.FC = () => {
         setTimeout(handleScan, 100);
         return;
     }
+    await auditImage(imgSource);
+  };
+
+  /**
+   * Audits one screenshot on the audit server and records it as a session step; resolves true once the
+   * step is recorded. In `live` mode the current findings stay on screen until the new ones are final,
+   * so monitoring overlays are replaced in place instead of being cleared and streamed back in.
+   */
+  const auditImage = async (imgSource: HTMLImageElement, live = false): Promise<boolean> => {
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
     isScanningRef.current = true;
     setLoading(true);
     setError(null);
-    setScans([]); // Clear scans at the beginning to allow progressive addition
-    
-    const fullWidth = imgSource.naturalWidth;
-    const fullHeight = imgSource.naturalHeight;
-    const maxTileHeight = 1536; 
-    const overlap = 150; 
-    const effectiveTileHeight = maxTileHeight - overlap;
-    const numTiles = fullHeight <= maxTileHeight ? 1 : Math.ceil((fullHeight - overlap) / effectiveTileHeight);
+    if (!live) setScans([]); // Clear scans at the beginning to allow progressive addition
     
     // Set initial progress immediately to avoid empty stage
-    setScanProgress({ current: 0, total: numTiles, stage: THEATRICAL_STAGES[0] });
-
-    let loopSignature = { ...lastSignature };
-    let currentTotalScans: DarkPatternScan[] = [];
-    let loopHistory: HistoryItem[] = [...auditHistory];
-    let finalStatus = DefensiveStatus.Safe;
-    let finalAdvice = "Interface appears transparent. Safe to proceed.";
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    setScanProgress({ current: 0, total: 1, stage: THEATRICAL_STAGES[0] });
 
     try {
-      for (let i = 0; i < numTiles; i++) {
-        if (abortController.signal.aborted) throw new Error("AbortError");
-        
-        // Cooldown between requests to manage Pro-tier rate limits
-        if (i > 0) {
-            setScanProgress(prev => ({ ...prev!, current: i, stage: "Rate Limit Buffering..." }));
-            await new Promise(r => setTimeout(r, TILE_COOLDOWN)); 
-        }
-
-        const stageMessage = THEATRICAL_STAGES[i % THEATRICAL_STAGES.length];
-        setScanProgress({ current: i + 1, total: numTiles, stage: stageMessage });
-        
-        let offsetY = Math.floor(i * effectiveTileHeight);
-        let currentTileHeight = Math.floor(Math.min(maxTileHeight, fullHeight - offsetY));
-        
-        canvas.width = fullWidth;
-        canvas.height = currentTileHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(imgSource, 0, offsetY, fullWidth, currentTileHeight, 0, 0, fullWidth, currentTileHeight);
-        
-        const tileDataUrl = canvas.toDataURL('image/jpeg', 0.9);
-        const result = await analyzeUIScreen(tileDataUrl, loopSignature, abortController.signal);
-        
-        if (result.error) {
-          setError(result.error);
-          // If we have some scans from previous tiles, we still show them, but stop the loop.
-          break;
+      const result = await requestPageAudit({
+        image: encodeForUpload(imgSource),
+        previous_signature: lastSignature,
+        provider: providerId,
+        // Built-in packs go by id; a loaded pack is sent whole and validated by the server
+        rule_pack: RULE_PACKS.includes(rulePack) ? rulePack.id : rulePack,
+        coarse_pass: useCoarsePass,
+        stream: isStreaming,
+        verify: verifierMode === 'off' ? undefined : verifierMode,
+        dom: domSnapshot || undefined
+      }, {
+        token: auditToken || undefined,
+        signal: abortController.signal,
+        onProgress: (current, total, stage) => setScanProgress({ current, total, stage: stage || THEATRICAL_STAGES[current % THEATRICAL_STAGES.length] }),
+        onScans: (currentScans) => {
+          // PROGRESSIVE UPDATE: Push state updates for real-time visualization
+          if (live) return;
+          setScans(currentScans);
+          setViewportMeta(calculateSafetyMetrics(currentScans, rulePack));
         }
+      });
+      // A failed tile keeps whatever the other tiles produced
+      if (result.error) setError(result.error);
 
-        const tileSpecificScans: DarkPatternScan[] = [];
-        const catalogAnchors: CatalogAnchor[] = result.thought_signature.catalog_anchors || [];
-        
-        catalogAnchors.forEach(anchor => {
-          if (anchor.is_violation && anchor.is_currently_visible && !anchor.coordinates.every(c => c === 0)) {
-             const [lymin, lxmin, lymax, lxmax] = anchor.coordinates;
-             const gy1 = (((lymin / 1000 * currentTileHeight) + offsetY) / fullHeight) * 1000;
-             const gy2 = (((lymax / 1000 * currentTileHeight) + offsetY) / fullHeight) * 1000;
-             
-             tileSpecificScans.push({
-               pattern_type: "BAIT-AND-SWITCH",
-               coordinates: [gy1, lxmin, gy2, lxmax],
-               severity: Severity.High,
-               truth_label: `${anchor.name}: Price hiked since session start.`,
-               action_fix: "Suspicious price movement detected. Re-verify the total before confirming."
-             });
-          }
-        });
-
-        result.scans.forEach(scan => {
-          if (!scan.coordinates || scan.coordinates.every(c => c === 0)) return;
-          const [lymin, lxmin, lymax, lxmax] = scan.coordinates;
-          const gy1 = (((lymin / 1000 * currentTileHeight) + offsetY) / fullHeight) * 1000;
-          const gy2 = (((lymax / 1000 * currentTileHeight) + offsetY) / fullHeight) * 1000;
-          
-          tileSpecificScans.push({ ...scan, coordinates: [gy1, lxmin, gy2, lxmax] });
-        });
-
-        // PROGRESSIVE UPDATE: Update results as they come in
-        currentTotalScans = [...currentTotalScans, ...tileSpecificScans];
-        loopHistory = [...loopHistory, ...tileSpecificScans.map(m => ({ type: m.pattern_type, label: m.truth_label }))];
-        
-        if (result.viewport_meta.status === DefensiveStatus.Compromised) {
-          finalStatus = DefensiveStatus.Compromised;
-          finalAdvice = result.viewport_meta.advice;
-        } else if (result.viewport_meta.status === DefensiveStatus.Caution && finalStatus !== DefensiveStatus.Compromised) {
-          finalStatus = DefensiveStatus.Caution;
-          finalAdvice = result.viewport_meta.advice;
-        }
+      // Price findings come from the local drift engine, never from the model's is_violation flag
+      const response = pageResponse(result, session, { rulePack, localScans: watchScans });
+      const { scans: totalScans, viewport_meta: pageMeta } = response;
+      const loopHistory: HistoryItem[] = [...auditHistory, ...totalScans.map(m => ({ type: m.pattern_type, label: m.truth_label }))];
+      const nextSession = appendStep(session, encodeThumbnail(imgSource), response, rulePack);
 
-        loopSignature = { ...loopSignature, ...result.thought_signature };
-        
-        // Push state updates for real-time visualization
-        setScans(currentTotalScans);
-        setAuditHistory(loopHistory);
-        setViewportMeta({ threat_count: currentTotalScans.length, status: finalStatus, advice: finalAdvice });
-        setLastSignature(loopSignature);
-      }
-      
-      persistScanState(loopSignature, loopHistory);
+      setScans(totalScans);
+      setViewportMeta(pageMeta);
+      setAuditHistory(loopHistory);
+      persistScanState(nextSession, loopHistory);
       setHasCompletedInitialScan(true);
+      return true;
     } catch (err: any) {
-      if (err.message !== "AbortError") setError("Audit Failure. System Overload.");
+      if (err.message === "AbortError") return false;
+      // Token, quota and request problems come back from the server in words worth showing
+      setError(err instanceof ProviderError ? err.message : "Audit Failure. System Overload.");
+      return false;
     } finally {
       setLoading(false);
       setScanProgress(null);
@@ -339,6 +537,13 @@ const App: React.FC = () => {
     }
   };
 
+  auditImageRef.current = auditImage;
+
+  const stopMonitoring = () => {
+    setIsMonitoring(false);
+    stopCapturing();
+  };
+
   const sortedScansForOverlay = useMemo(() => {
     return [...scans]
       .map((s, originalIdx) => ({ ...s, originalIdx }))
@@ -351,7 +556,6 @@ const App: React.FC = () => {
 
   return (
     <div className={`min-h-screen flex flex-col transition-all ${isDarkMode ? 'bg-[#09090b] text-zinc-100' : 'bg-zinc-50 text-zinc-900'}`}>
-      <canvas ref={canvasRef} className="hidden" />
       <header className={`sticky top-0 z-[100] border-b p-4 backdrop-blur-md ${isDarkMode ? 'bg-[#18181b]/95 border-zinc-700' : 'bg-white/95 border-zinc-200 shadow-sm'}`}>
         <div className="max-w-7xl mx-auto flex justify-between items-center px-4">
           <div className="flex items-center gap-3">
@@ -366,8 +570,79 @@ const App: React.FC = () => {
                 <span className="font-bold">{viewportMeta.advice}</span>
               </div>
             )}
+            {viewportMeta?.breakdown && (
+              <ScoreBreakdownPanel breakdown={viewportMeta.breakdown} isDarkMode={isDarkMode} onSelectFinding={setSelectedIndex} />
+            )}
           </div>
           <div className="flex items-center gap-4">
+             <select
+               value={providerId}
+               onChange={(e) => setProviderId(e.target.value as ProviderId)}
+               disabled={loading}
+               aria-label="Analysis backend"
+               className={`px-3 py-2 text-[10px] font-black uppercase rounded-full border-2 outline-none ${isDarkMode ? 'bg-zinc-900 border-zinc-700 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-600'}`}
+             >
+               {PROVIDER_OPTIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+             </select>
+             <select
+               value={rulePack.id}
+               onChange={(e) => {
+                 if (e.target.value === '__load') document.getElementById('rulePackInput')?.click();
+                 else setRulePack(getRulePack(e.target.value) || rulePack);
+               }}
+               disabled={loading}
+               aria-label="Rule pack"
+               title={`${rulePack.name} v${rulePack.version}: ${rulePack.description}`}
+               className={`px-3 py-2 text-[10px] font-black uppercase rounded-full border-2 outline-none ${isDarkMode ? 'bg-zinc-900 border-zinc-700 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-600'}`}
+             >
+               {RULE_PACKS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+               {!RULE_PACKS.includes(rulePack) && <option value={rulePack.id}>{rulePack.name} (loaded)</option>}
+               <option value="__load">Load pack...</option>
+             </select>
+             <input id="rulePackInput" type="file" accept=".json,application/json" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleRulePackFile(f); e.target.value = ''; }} />
+             <button
+               onClick={() => setIsStreaming(!isStreaming)}
+               disabled={loading}
+               aria-pressed={isStreaming}
+               title="Render findings as the model emits them"
+               className={`px-3 py-2 text-[10px] font-black uppercase rounded-full border-2 transition-colors ${isStreaming ? 'border-indigo-500/40 text-indigo-400 bg-indigo-500/10' : 'border-zinc-500/30 text-zinc-500'}`}
+             >
+               Stream {isStreaming ? 'On' : 'Off'}
+             </button>
+             <button
+               onClick={() => setUseCoarsePass(!useCoarsePass)}
+               disabled={loading}
+               aria-pressed={useCoarsePass}
+               title="Scan a low-resolution overview first, then only re-scan flagged regions at full resolution"
+               className={`px-3 py-2 text-[10px] font-black uppercase rounded-full border-2 transition-colors ${useCoarsePass ? 'border-indigo-500/40 text-indigo-400 bg-indigo-500/10' : 'border-zinc-500/30 text-zinc-500'}`}
+             >
+               Pre-Pass {useCoarsePass ? 'On' : 'Off'}
+             </button>
+             <button
+               onClick={() => setVerifierMode(VERIFIER_MODES[(VERIFIER_MODES.indexOf(verifierMode) + 1) % VERIFIER_MODES.length])}
+               disabled={loading}
+               title="Second model call per boxed finding, on a crop of the box. Mark: keep rejected findings as low confidence. Hide: drop them."
+               className={`px-3 py-2 text-[10px] font-black uppercase rounded-full border-2 transition-colors ${verifierMode !== 'off' ? 'border-indigo-500/40 text-indigo-400 bg-indigo-500/10' : 'border-zinc-500/30 text-zinc-500'}`}
+             >
+               Verify {verifierMode === 'off' ? 'Off' : verifierMode === 'mark' ? 'Mark' : 'Hide'}
+             </button>
+             <input
+               type="password"
+               value={auditToken}
+               onChange={(e) => setAuditToken(e.target.value.trim())}
+               disabled={loading}
+               placeholder="Access token"
+               aria-label="Audit server access token"
+               title="Token issued by the audit server operator. The local dev server needs none."
+               className={`w-28 px-3 py-2 text-[10px] font-bold rounded-full border-2 outline-none ${isDarkMode ? 'bg-zinc-900 border-zinc-700 text-zinc-300' : 'bg-white border-zinc-200 text-zinc-600'}`}
+             />
+             {hasCompletedInitialScan && !loading && session.steps.length > 0 && (
+               <div className="flex rounded-full border-2 border-zinc-500/30 overflow-hidden" role="group" aria-label="Export audit">
+                 <button onClick={() => handleExport('html')} title="Self-contained report with the annotated screenshot; print it to save as PDF" className="px-3 py-2 text-[10px] font-black uppercase text-zinc-500 hover:bg-zinc-500/10">Report</button>
+                 <button onClick={() => handleExport('json')} title="Machine-readable findings, verdict and price anchors" className="px-3 py-2 text-[10px] font-black uppercase text-zinc-500 hover:bg-zinc-500/10 border-l-2 border-zinc-500/30">JSON</button>
+                 <button onClick={handleExportDataset} title="Reviewed steps of this session as labelled data for evaluating providers" className="px-3 py-2 text-[10px] font-black uppercase text-zinc-500 hover:bg-zinc-500/10 border-l-2 border-zinc-500/30">Dataset</button>
+               </div>
+             )}
              {image && !loading && (
                <button onClick={handleDiscard} className="px-4 py-2 text-[10px] font-black uppercase rounded-full border-2 border-zinc-500/30 text-zinc-500 hover:bg-zinc-500/10">Discard Viewport</button>
              )}
@@ -398,11 +673,45 @@ const App: React.FC = () => {
               </div>
             ) : isCapturing ? (
               <div className="relative w-full h-full flex flex-col items-center justify-center bg-black rounded-3xl overflow-hidden p-2">
-                 <video ref={videoRef} autoPlay muted playsInline className="w-full h-auto max-h-[600px] rounded-2xl object-contain border border-zinc-800" />
+                 {/* Sized to the video's own aspect ratio so overlay boxes line up with the frame */}
+                 <div className="relative inline-block max-w-full" onClick={() => setSelectedIndex(null)}>
+                   <video ref={videoRef} autoPlay muted playsInline className="block max-w-full max-h-[600px] rounded-2xl border border-zinc-800" />
+                   {isMonitoring && (
+                     <div className="absolute inset-0 pointer-events-none overflow-visible">
+                       {sortedScansForOverlay.map((s, renderIdx) => (
+                         <AuditOverlay key={s.originalIdx} scan={s} idx={s.originalIdx} renderIdx={renderIdx} isDarkMode={isDarkMode} isSelected={selectedIndex === s.originalIdx} isHovered={hoveredIndex === s.originalIdx} onSelect={(idx) => setSelectedIndex(prev => prev === idx ? null : idx)} />
+                       ))}
+                     </div>
+                   )}
+                 </div>
                   <div className="absolute top-6 left-6 flex items-center gap-2 bg-black/60 backdrop-blur-md px-3 py-1.5 rounded-full border border-zinc-700/50">
                     <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
-                    <span className="text-[9px] font-black uppercase tracking-widest text-zinc-100">Live Viewfinder</span>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-zinc-100">
+                      {isMonitoring && monitorStatus
+                        ? `Monitoring • ${loading ? 'Auditing...' : MONITOR_LABELS[monitorStatus.reason]} • ${monitorStatus.audits} audited`
+                        : 'Live Viewfinder'}
+                    </span>
                   </div>
+                  {watchProgress && (
+                    <div className="absolute bottom-6 left-6 right-6 flex flex-col gap-2 bg-black/70 backdrop-blur-md px-4 py-3 rounded-2xl border border-zinc-700/50 text-zinc-100">
+                      <div className="flex justify-between text-[9px] font-black uppercase tracking-widest">
+                        <span>{watchProgress.tracks.length ? `Watching ${watchProgress.tracks.length} timer/counter region${watchProgress.tracks.length === 1 ? '' : 's'}` : 'Looking for timers and counters...'}</span>
+                        <span>{Math.round(watchProgress.elapsedMs / 1000)}s / {DEFAULT_WATCH_OPTIONS.durationMs / 1000}s</span>
+                      </div>
+                      <div className="h-1 rounded-full bg-zinc-800 overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.min(100, (watchProgress.elapsedMs / DEFAULT_WATCH_OPTIONS.durationMs) * 100)}%` }}></div>
+                      </div>
+                      {watchProgress.tracks.map(track => {
+                        const last = track.readings[track.readings.length - 1];
+                        return (
+                          <div key={track.id} className="flex justify-between gap-4 font-mono text-[10px] text-zinc-300">
+                            <span className="truncate">{track.label}</span>
+                            <span className="shrink-0">{last?.text || '—'} · {track.readings.length} readings</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
                   <button onClick={stopCapturing} className="absolute top-6 right-6 w-8 h-8 rounded-full bg-zinc-800 text-white flex items-center justify-center hover:bg-zinc-700 transition-colors">X</button>
               </div>
             ) : (
@@ -410,14 +719,33 @@ const App: React.FC = () => {
                 <div className="relative inline-block w-full overflow-visible cursor-default" onClick={() => setSelectedIndex(null)}>
                   <img ref={imageRef} src={image} alt="Audit" className="block w-full h-auto rounded-xl" />
                   <div className="absolute inset-0 pointer-events-none overflow-visible">
-                    {!loading && sortedScansForOverlay.map((s, renderIdx) => (
-                      <AuditOverlay key={s.originalIdx} scan={s} idx={s.originalIdx} renderIdx={renderIdx} isDarkMode={isDarkMode} isSelected={selectedIndex === s.originalIdx} isHovered={hoveredIndex === s.originalIdx} onSelect={(idx) => setSelectedIndex(prev => prev === idx ? null : idx)} />
+                    {(!loading || isStreaming) && sortedScansForOverlay.map((s, renderIdx) => (
+                      <AuditOverlay
+                        key={s.originalIdx} scan={s} idx={s.originalIdx} renderIdx={renderIdx} isDarkMode={isDarkMode}
+                        isSelected={selectedIndex === s.originalIdx} isHovered={hoveredIndex === s.originalIdx}
+                        onSelect={(idx) => setSelectedIndex(prev => prev === idx ? null : idx)}
+                        onMove={canReview ? (idx, box) => applyReview(scans.map((x, j) => (j === idx ? moveScan(x, box) : x))) : undefined}
+                      />
                     ))}
+                    {canReview && isDrawing && (
+                      <AnnotationLayer onDraw={(box) => {
+                        applyReview([...scans, addedScan(drawType, box, stepRulePack(session, reviewStepIndex, rulePack))]);
+                        setSelectedIndex(scans.length);
+                        setIsDrawing(false);
+                      }} />
+                    )}
                   </div>
                 </div>
               </div>
             )}
-            {(loading || isCancelling) && (
+            {loading && !isCancelling && isStreaming && scans.length > 0 ? (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-3 px-4 py-2 rounded-full bg-zinc-950/85 backdrop-blur-md text-white border border-zinc-700/50">
+                <div className="w-3 h-3 border-2 border-t-indigo-500 rounded-full animate-spin"></div>
+                <span className="font-black uppercase text-[9px] tracking-widest">
+                  {scans.length} Live Finding{scans.length === 1 ? '' : 's'}{scanProgress ? ` • Tile ${scanProgress.current} of ${scanProgress.total}` : ''}
+                </span>
+              </div>
+            ) : (loading || isCancelling) && !isMonitoring && (
               <div className="absolute inset-0 z-[60] flex flex-col items-center justify-center bg-zinc-950/80 backdrop-blur-md text-white rounded-3xl">
                 <div className="w-12 h-12 border-4 border-t-indigo-500 rounded-full animate-spin mb-4"></div>
                 <p className="font-black uppercase text-[10px] tracking-widest animate-pulse text-center px-4 max-w-[250px]">
@@ -439,7 +767,17 @@ const App: React.FC = () => {
           <div className="flex flex-col gap-3">
             <div className="flex gap-4">
               {isCapturing ? (
-                <button onClick={handleSnap} className="flex-1 py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-lg shadow-indigo-500/20 transition-all hover:scale-[1.02] active:scale-98 uppercase tracking-widest">Snap & Analyze</button>
+                watchProgress ? (
+                  <button onClick={() => watchControllerRef.current?.abort()} className="flex-1 py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-lg shadow-indigo-500/20 transition-all hover:scale-[1.02] active:scale-98 uppercase tracking-widest">Stop & Analyze</button>
+                ) : isMonitoring ? (
+                  <button onClick={stopMonitoring} className="flex-1 py-4 bg-red-600 text-white font-black rounded-2xl shadow-lg shadow-red-500/20 transition-all hover:scale-[1.02] active:scale-98 uppercase tracking-widest">Stop Monitoring</button>
+                ) : (
+                  <>
+                    <button onClick={handleSnap} className="flex-1 py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-lg shadow-indigo-500/20 transition-all hover:scale-[1.02] active:scale-98 uppercase tracking-widest">Snap & Analyze</button>
+                    <button onClick={handleWatch} title="Read countdowns and live counters over time to catch timers that reset and counts that are made up" className={`px-6 py-4 font-black rounded-2xl border-2 transition-all uppercase ${isDarkMode ? 'border-zinc-700 text-zinc-200 hover:bg-zinc-800/40' : 'border-zinc-300 text-zinc-500 hover:bg-zinc-100'}`}>Watch Timers</button>
+                    <button onClick={() => { setWatchScans([]); setIsMonitoring(true); }} title="Keep the stream open and re-audit automatically whenever the screen changes" className={`px-6 py-4 font-black rounded-2xl border-2 transition-all uppercase ${isDarkMode ? 'border-zinc-700 text-zinc-200 hover:bg-zinc-800/40' : 'border-zinc-300 text-zinc-500 hover:bg-zinc-100'}`}>Monitor</button>
+                  </>
+                )
               ) : (
                 <>
                   {(!image || hasCompletedInitialScan) && <button onClick={() => document.getElementById('fileInput')?.click()} className={`flex-1 py-4 font-black rounded-2xl border-2 bg-indigo-600 text-white border-transparent transition-all hover:bg-indigo-700 uppercase`}>UPLOAD UI</button>}
@@ -455,7 +793,42 @@ const App: React.FC = () => {
               )}
             </div>
           </div>
-          <input id="fileInput" type="file" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }} accept="image/*" className="hidden" />
+          {image && !loading && (
+            <div className={`flex items-center justify-between gap-3 px-4 py-2 rounded-2xl border-2 text-[10px] font-black uppercase tracking-widest ${isDarkMode ? 'border-zinc-800 text-zinc-400' : 'border-zinc-200 text-zinc-500'}`}>
+              {domSnapshot ? (
+                <>
+                  <span>Markup: {domSnapshot.nodes.length} elements checked by DOM rules</span>
+                  <button onClick={() => setDomSnapshot(null)} className="text-red-500/70 hover:text-red-500">Remove</button>
+                </>
+              ) : (
+                <>
+                  <span className="normal-case tracking-normal font-bold">Add the page's saved HTML to catch pre-ticked boxes, hidden fees and script timers.</span>
+                  <button onClick={() => document.getElementById('htmlInput')?.click()} className="shrink-0 text-indigo-400 hover:text-indigo-300">Add HTML</button>
+                </>
+              )}
+            </div>
+          )}
+          {canReview && (
+            <div className={`flex items-center justify-between gap-3 px-4 py-2 rounded-2xl border-2 text-[10px] font-black uppercase tracking-widest ${isDarkMode ? 'border-zinc-800 text-zinc-400' : 'border-zinc-200 text-zinc-500'}`}>
+              <span className="normal-case tracking-normal font-bold">{isDrawing ? 'Drag over the screenshot to mark the missed pattern.' : 'Missed something? Draw a box for it.'}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <select
+                  value={drawType}
+                  onChange={(e) => setDrawType(e.target.value as PatternType)}
+                  aria-label="Pattern type for the new box"
+                  className={`px-2 py-1.5 rounded-full border-2 bg-transparent text-[10px] font-black uppercase ${isDarkMode ? 'border-zinc-700' : 'border-zinc-200'}`}
+                >
+                  {Object.values(PatternType).filter(t => t !== PatternType.VerifiedFair && t !== PatternType.Other).map(t => (
+                    <option key={t} value={t}>{PATTERN_TAXONOMY[t].label}</option>
+                  ))}
+                </select>
+                <button onClick={() => setIsDrawing(!isDrawing)} aria-pressed={isDrawing} className="text-indigo-400 hover:text-indigo-300">{isDrawing ? 'Cancel' : 'Draw Box'}</button>
+              </div>
+            </div>
+          )}
+          <SessionTimeline session={session} activeStep={viewingStep} onSelectStep={handleSelectStep} isDarkMode={isDarkMode} />
+          <input id="fileInput" type="file" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ''; }} accept="image/*,.html,.htm,text/html" className="hidden" />
+          <input id="htmlInput" type="file" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleMarkupFile(f); e.target.value = ''; }} accept=".html,.htm,text/html" className="hidden" />
         </div>
         <div className="lg:col-span-5">
           <div className={`sticky top-[88px] border-2 rounded-[2.5rem] flex flex-col h-[calc(100vh-140px)] min-h-[500px] overflow-hidden transition-colors self-start ${isDarkMode ? 'bg-[#18181b] border-zinc-700' : 'bg-white border-zinc-200 shadow-xl'}`}>
@@ -476,10 +849,17 @@ const App: React.FC = () => {
                   {hasCompletedInitialScan && <div className="text-[32px] animate-bounce">🛡️</div>}
                 </div>
               )}
-              {scans.map((s, i) => <PatternCard key={i} scan={s} index={i} isSelected={selectedIndex === i} onSelect={() => setSelectedIndex(prev => prev === i ? null : i)} onHover={setHoveredIndex} isDarkMode={isDarkMode} />)}
+              {scans.map((s, i) => (
+                <PatternCard
+                  key={i} scan={s} index={i} isSelected={selectedIndex === i} isDarkMode={isDarkMode}
+                  onSelect={() => setSelectedIndex(prev => prev === i ? null : i)} onHover={setHoveredIndex}
+                  onReview={canReview ? (verdict) => applyReview(scans.map((x, j) => (j === i ? reviewScan(x, verdict) : x))) : undefined}
+                  onRemove={canReview ? () => { applyReview(scans.filter((_, j) => j !== i)); setSelectedIndex(null); } : undefined}
+                />
+              ))}
             </div>
             
-            <div className={`border-t-2 transition-all duration-300 flex flex-col overflow-hidden bg-black ${lastSignature.reasoning_path && !loading ? (logExpanded ? 'h-64' : 'h-32') : 'h-0 opacity-0'} ${isDarkMode ? 'border-zinc-700' : ''}`}>
+            <div className={`border-t-2 transition-all duration-300 flex flex-col overflow-hidden bg-black ${displayedSignature.reasoning_path && !loading ? (logExpanded ? 'h-64' : 'h-32') : 'h-0 opacity-0'} ${isDarkMode ? 'border-zinc-700' : ''}`}>
                 <div className="p-4 flex flex-col h-full overflow-hidden">
                     <div className="flex justify-between items-center mb-2 border-b border-zinc-900 pb-1 sticky top-0 bg-black py-1 z-10">
                         <div className="flex items-center gap-2">
@@ -492,7 +872,7 @@ const App: React.FC = () => {
                     </div>
                     <div className="flex-1 overflow-y-auto bg-[#050505] p-2 rounded-md">
                       <pre className="whitespace-pre-wrap font-mono text-[9px] text-[#00ff41] leather leading-relaxed drop-shadow-[0_0_2px_rgba(0,255,65,0.4)]">
-                        {`> SESSION_CONTEXT_RAWS\n> MEMORY: ${lastSignature.security_brief || "None"}\n> AUDITING...\n> ${lastSignature.reasoning_path || ""}`}
+                        {`> SESSION_CONTEXT_RAWS\n> MEMORY: ${displayedSignature.security_brief || "None"}\n> AUDITING...\n> ${displayedSignature.reasoning_path || ""}`}
                       </pre>
                     </div>
                 </div>
@@ -0,0 +1,54 @@
+import React, { useRef, useState } from 'react';
+
+type Box = [number, number, number, number];
+
+interface AnnotationLayerProps {
+  /** Called with the drawn box in 0-1000 coordinates once the pointer is released. */
+  onDraw: (coordinates: Box) => void;
+}
+
+/** Drag-to-draw surface laid over the screenshot while the reviewer is adding a finding. */
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ onDraw }) => {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<[number, number] | null>(null);
+  const [end, setEnd] = useState<[number, number] | null>(null);
+
+  const toGrid = (e: React.PointerEvent): [number, number] => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.max(0, Math.min(1000, v));
+    return [clamp(((e.clientY - rect.top) / rect.height) * 1000), clamp(((e.clientX - rect.left) / rect.width) * 1000)];
+  };
+
+  const draft: Box | null = start && end
+    ? [Math.min(start[0], end[0]), Math.min(start[1], end[1]), Math.max(start[0], end[0]), Math.max(start[1], end[1])]
+    : null;
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0 z-[10002] cursor-crosshair touch-none"
+      style={{ pointerEvents: 'auto' }}
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => {
+        if (e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setStart(toGrid(e));
+        setEnd(null);
+      }}
+      onPointerMove={(e) => { if (start) setEnd(toGrid(e)); }}
+      onPointerUp={() => {
+        // A click without a drag draws nothing
+        if (draft && draft[2] - draft[0] > 5 && draft[3] - draft[1] > 5) onDraw(draft);
+        setStart(null);
+        setEnd(null);
+      }}
+    >
+      {draft && (
+        <div
+          className="absolute border-2 border-dashed border-indigo-400 bg-indigo-500/20 rounded-sm"
+          style={{ top: `${draft[0] / 10}%`, left: `${draft[1] / 10}%`, width: `${(draft[3] - draft[1]) / 10}%`, height: `${(draft[2] - draft[0]) / 10}%` }}
+        />
+      )}
+    </div>
+  );
+};
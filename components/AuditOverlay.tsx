@@ -1,6 +1,7 @@
 
-import React from 'react';
-import { DarkPatternScan, Severity, CONSTANTS } from '../types';
+import React, { useRef, useState } from 'react';
+import { DarkPatternScan, Severity, PatternType, isLowConfidence } from '../types';
+import { patternLabel } from '../services/taxonomy';
 
 interface AuditOverlayProps {
   scan: DarkPatternScan;
@@ -10,14 +11,69 @@ interface AuditOverlayProps {
   isHovered?: boolean;
   isDarkMode: boolean;
   onSelect: (idx: number) => void;
+  /** Makes the selected box draggable and resizable from its corners; called once on release. */
+  onMove?: (idx: number, coordinates: Box) => void;
 }
 
-export const AuditOverlay: React.FC<AuditOverlayProps> = ({ scan, idx, renderIdx = 0, isSelected, isHovered, isDarkMode, onSelect }) => {
+type Box = [number, number, number, number];
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const CORNERS: { mode: DragMode; className: string }[] = [
+  { mode: 'nw', className: '-top-1.5 -left-1.5 cursor-nwse-resize' },
+  { mode: 'ne', className: '-top-1.5 -right-1.5 cursor-nesw-resize' },
+  { mode: 'sw', className: '-bottom-1.5 -left-1.5 cursor-nesw-resize' },
+  { mode: 'se', className: '-bottom-1.5 -right-1.5 cursor-nwse-resize' }
+];
+
+/** Applies a pointer delta (0-1000 units) to a box; moves keep their size and stay on the image. */
+function dragBox([ymin, xmin, ymax, xmax]: Box, mode: DragMode, dy: number, dx: number): Box {
+  if (mode === 'move') {
+    const y = Math.max(-ymin, Math.min(1000 - ymax, dy));
+    const x = Math.max(-xmin, Math.min(1000 - xmax, dx));
+    return [ymin + y, xmin + x, ymax + y, xmax + x];
+  }
+  return [
+    mode[0] === 'n' ? ymin + dy : ymin,
+    mode[1] === 'w' ? xmin + dx : xmin,
+    mode[0] === 's' ? ymax + dy : ymax,
+    mode[1] === 'e' ? xmax + dx : xmax
+  ];
+}
+
+export const AuditOverlay: React.FC<AuditOverlayProps> = ({ scan, idx, renderIdx = 0, isSelected, isHovered, isDarkMode, onSelect, onMove }) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; x: number; y: number; width: number; height: number; moved: boolean } | null>(null);
+  const [draft, setDraft] = useState<Box | null>(null);
+
   if (scan.coordinates.every(c => c === 0)) return null;
-  
-  const [ymin, xmin, ymax, xmax] = scan.coordinates;
+
+  const editable = isSelected && !!onMove;
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode) => {
+    const layer = boxRef.current?.offsetParent?.getBoundingClientRect();
+    if (!editable || !layer || e.button !== 0) return;
+    e.stopPropagation();
+    boxRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, x: e.clientX, y: e.clientY, width: layer.width, height: layer.height, moved: false };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    drag.moved = true;
+    setDraft(dragBox(scan.coordinates, drag.mode, ((e.clientY - drag.y) / drag.height) * 1000, ((e.clientX - drag.x) / drag.width) * 1000));
+  };
+
+  const endDrag = () => {
+    if (dragRef.current?.moved && draft) onMove?.(idx, draft);
+    dragRef.current = dragRef.current?.moved ? dragRef.current : null;
+    setDraft(null);
+  };
+
+  const [ymin, xmin, ymax, xmax] = draft || scan.coordinates;
   const isHighRisk = scan.severity === Severity.High;
-  const isUnclear = scan.pattern_type.toLowerCase().includes('unclear') || scan.pattern_type.toLowerCase().includes('suspicious');
+  const isUnclear = scan.pattern_type === PatternType.Unclear;
+  const label = patternLabel(scan.pattern_type);
   
   const isNearRight = xmin > 700;
   const isNearLeft = xmin < 300;
@@ -37,15 +93,16 @@ export const AuditOverlay: React.FC<AuditOverlayProps> = ({ scan, idx, renderIdx
     width: `${boxWidth / 10}%`,
     height: `${boxHeight / 10}%`,
     borderWidth: `${adaptiveStrokeWidth}px`,
-    borderStyle: 'solid',
+    borderStyle: isLowConfidence(scan) ? 'dashed' : 'solid',
     zIndex: isSelected ? 9999 : (isHovered ? 9998 : Math.min(80, 50 + renderIdx)), 
     // Outer white glow/outline added via secondary boxShadow part for visibility on all backgrounds
     boxShadow: (isSelected ? '0 0 15px rgba(255,255,255,0.4), ' : (isHovered ? '0 0 20px rgba(79, 70, 229, 0.6), ' : '')) + '0 0 0 1px rgba(255,255,255,0.5)',
-    transform: isHovered ? 'scale(1.02)' : 'scale(1)',
+    transform: isHovered && !editable ? 'scale(1.02)' : 'scale(1)',
+    cursor: editable ? 'move' : undefined,
     pointerEvents: 'auto'
   };
   
-  let colorClass = scan.pattern_type === CONSTANTS.DESIGN_VERIFIED_FAIR ? 'border-emerald-500 bg-emerald-500/10' :
+  let colorClass = scan.pattern_type === PatternType.VerifiedFair ? 'border-emerald-500 bg-emerald-500/10' :
     (isUnclear ? 'border-amber-500 bg-amber-500/20' : 
     (scan.severity === Severity.High ? 'border-red-600 bg-red-600/30' : 
     (scan.severity === Severity.Medium ? 'border-amber-500 bg-amber-500/20' : 'border-blue-500 bg-blue-500/15')));
@@ -56,18 +113,36 @@ export const AuditOverlay: React.FC<AuditOverlayProps> = ({ scan, idx, renderIdx
 
   return (
     <div
+      ref={boxRef}
       role="button"
       tabIndex={0}
       draggable="false"
       onDragStart={(e) => { e.preventDefault(); e.stopPropagation(); }}
-      className={`absolute transition-all rounded-sm cursor-pointer outline-none focus-visible:ring-2 focus-visible:ring-white ${colorClass}`}
+      className={`absolute ${draft ? '' : 'transition-all'} rounded-sm cursor-pointer outline-none focus-visible:ring-2 focus-visible:ring-white ${colorClass}`}
       style={boxStyle}
-      onClick={(e) => { e.stopPropagation(); onSelect(idx); }}
+      onClick={(e) => {
+        e.stopPropagation();
+        // A drag ends with a click on the same box; it should not deselect it
+        if (dragRef.current) { dragRef.current = null; return; }
+        onSelect(idx);
+      }}
+      onPointerDown={(e) => startDrag(e, 'move')}
+      onPointerMove={onPointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={() => { dragRef.current = null; setDraft(null); }}
       onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.stopPropagation(); onSelect(idx); } }}
-      aria-label={`Audit Box ${idx + 1}: ${scan.severity} risk - ${scan.pattern_type}. ${scan.truth_label}`}
+      aria-label={`Audit Box ${idx + 1}: ${scan.severity} risk - ${label}. ${scan.truth_label}`}
       aria-expanded={isSelected}
     >
       <div className="absolute -inset-3" />
+      {editable && CORNERS.map(({ mode, className }) => (
+        <div
+          key={mode}
+          aria-hidden="true"
+          onPointerDown={(e) => startDrag(e, mode)}
+          className={`absolute w-3 h-3 rounded-full bg-white border-2 border-indigo-500 z-[10001] ${className}`}
+        />
+      ))}
 
       {(isSelected || isHovered) && (
         <div 
@@ -90,7 +165,7 @@ export const AuditOverlay: React.FC<AuditOverlayProps> = ({ scan, idx, renderIdx
           
           <div className={`flex items-center gap-2 w-full border-b pb-2 mb-1 relative z-10 ${isDarkMode ? 'border-zinc-800' : 'border-zinc-500/20'}`}>
             <div className={`w-2 h-2 rounded-full ${isUnclear ? 'bg-amber-500' : (isHighRisk ? 'bg-red-500' : 'bg-indigo-500')}`}></div>
-            <span className="truncate text-[10px] font-black tracking-tight">{scan.pattern_type}</span>
+            <span className="truncate text-[10px] font-black tracking-tight" title={scan.raw_pattern_type}>{label}</span>
           </div>
 
           <div className="overflow-y-auto pr-1 w-full flex flex-col gap-2 relative z-10 custom-scrollbar">
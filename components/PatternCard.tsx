@@ -1,6 +1,7 @@
 
 import React, { useEffect, useRef } from 'react';
-import { DarkPatternScan, Severity, CONSTANTS } from '../types';
+import { DarkPatternScan, Severity, PatternType, isLowConfidence } from '../types';
+import { PATTERN_TAXONOMY, patternLabel } from '../services/taxonomy';
 
 interface PatternCardProps {
   scan: DarkPatternScan;
@@ -9,10 +10,14 @@ interface PatternCardProps {
   onSelect: () => void;
   onHover: (idx: number | null) => void;
   isDarkMode: boolean;
+  /** Sets or clears (null) the reviewer verdict. Review controls are hidden without it. */
+  onReview?: (verdict: 'confirmed' | 'disputed' | null) => void;
+  /** Deletes a finding the reviewer drew in. */
+  onRemove?: () => void;
 }
 
-export const PatternCard: React.FC<PatternCardProps> = ({ scan, index, isSelected, onSelect, onHover, isDarkMode }) => {
-  const cardRef = useRef<HTMLButtonElement>(null);
+export const PatternCard: React.FC<PatternCardProps> = ({ scan, index, isSelected, onSelect, onHover, isDarkMode, onReview, onRemove }) => {
+  const cardRef = useRef<HTMLDivElement>(null);
   
   useEffect(() => {
     if (isSelected && cardRef.current) {
@@ -28,8 +33,11 @@ export const PatternCard: React.FC<PatternCardProps> = ({ scan, index, isSelecte
     }
   }, [isSelected]);
 
-  const isClean = scan.pattern_type === CONSTANTS.DESIGN_VERIFIED_FAIR;
-  const isUnclear = scan.pattern_type.toLowerCase().includes('unclear') || scan.pattern_type.toLowerCase().includes('suspicious');
+  const isClean = scan.pattern_type === PatternType.VerifiedFair;
+  const isUnclear = scan.pattern_type === PatternType.Unclear;
+  const category = PATTERN_TAXONOMY[scan.pattern_type]?.category.replace('_', ' ');
+  const isDoubtful = isLowConfidence(scan);
+  const verdict = scan.review?.verdict;
 
   const accentColors = {
     [Severity.Low]: isClean ? 'bg-emerald-500' : 'bg-blue-500',
@@ -42,29 +50,91 @@ export const PatternCard: React.FC<PatternCardProps> = ({ scan, index, isSelecte
     : (isSelected ? 'bg-zinc-100 border-zinc-300 shadow-inner' : 'bg-transparent hover:bg-black/5 border-zinc-100');
 
   return (
-    <button 
+    <div
       ref={cardRef}
-      type="button"
+      role="button"
+      tabIndex={0}
       draggable="false"
       onClick={onSelect}
+      onKeyDown={(e) => { if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) { e.preventDefault(); onSelect(); } }}
       onMouseEnter={() => onHover(index)}
       onMouseLeave={() => onHover(null)}
-      className={`w-full text-left relative pl-6 pr-4 py-6 cursor-pointer transition-all duration-300 border-2 rounded-2xl m-1 outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 ${bgClasses}`}
+      className={`w-full text-left relative pl-6 pr-4 py-6 cursor-pointer transition-all duration-300 border-2 rounded-2xl m-1 outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 ${bgClasses} ${isDoubtful && !isSelected ? 'opacity-60' : ''}`}
       aria-pressed={isSelected}
     >
       <div className={`absolute left-2 top-4 bottom-4 w-[4px] rounded-full ${accentColors[scan.severity]} ${isSelected ? 'opacity-100' : 'opacity-40'}`}></div>
       <div className="flex justify-between items-start mb-3">
-        <span className={`text-[9px] font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-zinc-400' : 'opacity-60'}`}>
-          {isClean ? "VERIFIED" : `AUDIT ${index + 1}`} • {scan.pattern_type}
+        <span className={`text-[9px] font-black uppercase tracking-[0.2em] ${isDarkMode ? 'text-zinc-400' : 'opacity-60'}`} title={scan.raw_pattern_type}>
+          {isClean ? "VERIFIED" : `AUDIT ${index + 1}`} • {patternLabel(scan.pattern_type)}
+          {!isClean && category && <span className="opacity-60"> · {category}</span>}
         </span>
+        {(scan.confidence !== undefined || scan.verification) && (
+          <span
+            className={`text-[8px] font-black uppercase tracking-widest ${isDoubtful ? 'text-amber-500' : (isDarkMode ? 'text-zinc-500' : 'opacity-40')}`}
+            title={scan.verification ? `Verifier: ${scan.verification.reason}` : undefined}
+          >
+            {scan.verification?.verdict === 'rejected' ? 'Rejected' : scan.verification ? 'Verified' : isDoubtful ? 'Low confidence' : 'Confidence'}
+            {scan.confidence !== undefined ? ` ${Math.round(scan.confidence * 100)}%` : ''}
+          </span>
+        )}
+        {scan.source_tiles && scan.source_tiles.length > 1 && (
+          <span className={`text-[8px] font-black uppercase tracking-widest ${isDarkMode ? 'text-zinc-500' : 'opacity-40'}`}>
+            Tiles {scan.source_tiles.map(t => t + 1).join(' + ')}
+          </span>
+        )}
       </div>
       <p className={`text-[13px] leading-relaxed mb-4 font-bold ${isDarkMode ? 'text-zinc-100' : 'text-zinc-800'}`}>
         {scan.truth_label}
       </p>
+      {scan.evidence_text && (
+        <p className={`mb-4 pl-3 border-l-2 text-[11px] italic leading-relaxed ${isDarkMode ? 'border-zinc-700 text-zinc-400' : 'border-zinc-300 text-zinc-500'}`}>
+          “{scan.evidence_text}”
+        </p>
+      )}
+      {scan.verification?.verdict === 'rejected' && (
+        <p className="mb-4 text-[11px] font-bold text-amber-500">Second look rejected this: {scan.verification.reason}</p>
+      )}
+      {scan.evidence && (
+        <div className={`mb-4 px-3 py-2 rounded-xl font-mono text-[10px] leading-relaxed ${isDarkMode ? 'bg-black/30 text-zinc-400' : 'bg-zinc-100 text-zinc-600'}`}>
+          <span className="block mb-1 font-black uppercase tracking-widest text-[8px] text-indigo-400">{scan.evidence.summary}</span>
+          {scan.evidence.math.map((line, i) => <div key={i}>{line}</div>)}
+        </div>
+      )}
       <div className={`mt-2 p-3.5 rounded-2xl border-l-4 border-2 transition-colors ${isDarkMode ? 'bg-black/40 border-zinc-800' : 'bg-zinc-100/50 border-zinc-200'}`}>
         <span className="text-[9px] font-black uppercase tracking-widest block mb-1 text-indigo-400">DEFENSIVE MANEUVER:</span>
         <p className={`text-sm font-black leading-snug ${isDarkMode ? 'text-zinc-200' : 'text-zinc-900'}`}>{scan.action_fix}</p>
       </div>
-    </button>
+      {onReview && (
+        <div className="mt-3 flex items-center gap-2 text-[9px] font-black uppercase tracking-widest" onClick={(e) => e.stopPropagation()}>
+          {verdict === 'added' ? (
+            <>
+              <span className="text-indigo-400">Added by you</span>
+              {onRemove && <button type="button" onClick={onRemove} className="ml-auto px-3 py-1.5 rounded-full border-2 border-red-500/30 text-red-500/80 hover:bg-red-500/10">Remove</button>}
+            </>
+          ) : (
+            <>
+              {scan.review?.original_coordinates && <span className={isDarkMode ? 'text-zinc-500' : 'opacity-40'}>Box corrected</span>}
+              <button
+                type="button"
+                aria-pressed={verdict === 'confirmed'}
+                onClick={() => onReview(verdict === 'confirmed' ? null : 'confirmed')}
+                className={`ml-auto px-3 py-1.5 rounded-full border-2 transition-colors ${verdict === 'confirmed' ? 'border-emerald-500/50 text-emerald-500 bg-emerald-500/10' : 'border-zinc-500/30 text-zinc-500 hover:bg-zinc-500/10'}`}
+              >
+                Confirm
+              </button>
+              <button
+                type="button"
+                aria-pressed={verdict === 'disputed'}
+                title="Wrong finding: it stops counting toward the score"
+                onClick={() => onReview(verdict === 'disputed' ? null : 'disputed')}
+                className={`px-3 py-1.5 rounded-full border-2 transition-colors ${verdict === 'disputed' ? 'border-red-500/50 text-red-500 bg-red-500/10' : 'border-zinc-500/30 text-zinc-500 hover:bg-zinc-500/10'}`}
+              >
+                Dispute
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
   );
 };
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { ScoreBreakdown } from '../types';
+import { patternLabel } from '../services/taxonomy';
+
+interface ScoreBreakdownPanelProps {
+  breakdown: ScoreBreakdown;
+  isDarkMode: boolean;
+  /** Highlights the finding a row refers to. */
+  onSelectFinding?: (index: number) => void;
+}
+
+const RULE_LABELS: Record<ScoreBreakdown['rule'], string> = {
+  critical_pattern: 'Critical pattern',
+  compromised_threshold: 'Compromised threshold',
+  caution_threshold: 'Caution threshold',
+  below_caution: 'Below caution threshold'
+};
+
+export const ScoreBreakdownPanel: React.FC<ScoreBreakdownPanelProps> = ({ breakdown, isDarkMode, onSelectFinding }) => {
+  const [open, setOpen] = useState(false);
+  const rows = [...breakdown.contributions].sort((a, b) => Number(b.critical) - Number(a.critical) || b.score - a.score);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        title={breakdown.explanation}
+        className={`px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border ${isDarkMode ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-zinc-200 text-zinc-600 hover:bg-zinc-100'}`}
+      >
+        Score {breakdown.score} · Why?
+      </button>
+      {open && (
+        <div className={`absolute left-0 top-[calc(100%+8px)] w-[360px] p-4 rounded-2xl border-2 shadow-2xl z-[200] text-left ${isDarkMode ? 'bg-zinc-900 border-zinc-700 text-zinc-100' : 'bg-white border-zinc-200 text-zinc-900'}`}>
+          <span className="block text-[9px] font-black uppercase tracking-widest text-indigo-400 mb-1">{RULE_LABELS[breakdown.rule]}</span>
+          <p className="text-xs font-bold leading-snug mb-3">{breakdown.explanation}</p>
+          {rows.length > 0 ? (
+            <table className="w-full text-[10px] font-mono">
+              <tbody>
+                {rows.map(c => (
+                  <tr
+                    key={c.index}
+                    title={c.excluded}
+                    onClick={() => onSelectFinding?.(c.index)}
+                    className={`${onSelectFinding ? 'cursor-pointer' : ''} ${isDarkMode ? 'hover:bg-zinc-800' : 'hover:bg-zinc-100'} ${c.critical ? 'text-red-500 font-bold' : ''} ${c.excluded ? 'opacity-40 line-through' : ''}`}
+                  >
+                    <td className="py-1 pr-2 opacity-60">#{c.index + 1}</td>
+                    <td className="py-1 pr-2 truncate max-w-[150px]">{patternLabel(c.pattern_type)}</td>
+                    <td className="py-1 pr-2 opacity-60">{c.severity}</td>
+                    <td className="py-1 text-right whitespace-nowrap">{c.severity_points} × {c.weight} = {c.score}{c.critical ? ' ⚑' : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-[10px] opacity-60">No findings scored.</p>
+          )}
+          <div className={`mt-3 pt-2 border-t text-[9px] font-bold uppercase tracking-widest ${isDarkMode ? 'border-zinc-800 text-zinc-500' : 'border-zinc-100 text-zinc-400'}`}>
+            Caution ≥ {breakdown.thresholds.caution} · Compromised ≥ {breakdown.thresholds.compromised} · {breakdown.source.rule_pack} v{breakdown.source.version}{breakdown.source.overridden ? ' + deployment overrides' : ''}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
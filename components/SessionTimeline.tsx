@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { AuditSession, DefensiveStatus } from '../types';
+import { anchorChanges } from '../services/sessionStore';
+
+interface SessionTimelineProps {
+  session: AuditSession;
+  activeStep: number | null;
+  onSelectStep: (index: number) => void;
+  isDarkMode: boolean;
+}
+
+const statusDot = (status: DefensiveStatus) =>
+  status === DefensiveStatus.Compromised ? 'bg-red-500' :
+  status === DefensiveStatus.Caution ? 'bg-amber-500' : 'bg-emerald-500';
+
+export const SessionTimeline: React.FC<SessionTimelineProps> = ({ session, activeStep, onSelectStep, isDarkMode }) => {
+  const changes = useMemo(() => anchorChanges(session), [session]);
+
+  // Every item ever anchored, in order of first appearance
+  const items = useMemo(() => {
+    const seen = new Map<string, string>();
+    session.steps.forEach(step => step.anchors.forEach(a => { if (!seen.has(a.id)) seen.set(a.id, a.name); }));
+    return [...seen.entries()].map(([id, name]) => ({ id, name }));
+  }, [session]);
+
+  if (session.steps.length === 0) return null;
+
+  const changeAt = (stepIndex: number, anchorId: string) =>
+    changes.find(c => c.step_index === stepIndex && c.anchor_id === anchorId);
+
+  return (
+    <div className={`rounded-3xl border-2 p-4 flex flex-col gap-4 ${isDarkMode ? 'bg-[#18181b] border-zinc-700' : 'bg-white border-zinc-200 shadow-xl'}`}>
+      <div className="flex justify-between items-center">
+        <span className="font-black text-xs uppercase tracking-widest text-indigo-500">Session Timeline</span>
+        <span className={`text-[9px] font-black uppercase ${isDarkMode ? 'text-zinc-500' : 'text-zinc-400'}`}>{session.steps.length} Step{session.steps.length === 1 ? '' : 's'}</span>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {session.steps.map(step => {
+          const isActive = (activeStep ?? session.steps.length - 1) === step.index;
+          return (
+            <button
+              key={step.id}
+              type="button"
+              onClick={() => onSelectStep(step.index)}
+              aria-pressed={isActive}
+              className={`shrink-0 w-28 rounded-xl border-2 overflow-hidden text-left transition-all ${isActive ? 'border-indigo-500 ring-2 ring-indigo-500/20' : (isDarkMode ? 'border-zinc-700 hover:border-zinc-500' : 'border-zinc-200 hover:border-zinc-400')}`}
+            >
+              {step.screenshot ? (
+                <img src={step.screenshot} alt={`Step ${step.index + 1}`} className="w-full h-16 object-cover object-top" />
+              ) : (
+                <div className={`w-full h-16 flex items-center justify-center text-[8px] font-black uppercase ${isDarkMode ? 'bg-zinc-900 text-zinc-600' : 'bg-zinc-100 text-zinc-400'}`}>No Preview</div>
+              )}
+              <div className="px-2 py-1.5 flex items-center gap-1.5">
+                <span className={`w-1.5 h-1.5 rounded-full ${statusDot(step.response.viewport_meta.status)}`}></span>
+                <span className="text-[9px] font-black uppercase">Step {step.index + 1}</span>
+                <span className={`ml-auto text-[9px] font-bold ${isDarkMode ? 'text-zinc-500' : 'text-zinc-400'}`}>{step.response.scans.length}</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {items.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px] font-bold">
+            <thead>
+              <tr className={isDarkMode ? 'text-zinc-500' : 'text-zinc-400'}>
+                <th className="text-left font-black uppercase py-1 pr-3">Item</th>
+                {session.steps.map(step => <th key={step.id} className="text-right font-black uppercase py-1 px-2">S{step.index + 1}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => (
+                <tr key={item.id} className={`border-t ${isDarkMode ? 'border-zinc-800' : 'border-zinc-100'}`}>
+                  <td className="py-1 pr-3 truncate max-w-[160px]">{item.name}</td>
+                  {session.steps.map(step => {
+                    const anchor = step.anchors.find(a => a.id === item.id);
+                    const change = changeAt(step.index, item.id);
+                    const tone = change?.kind === 'changed' ? 'text-red-500' : (change?.kind === 'added' && step.index > 0 ? 'text-amber-500' : '');
+                    return (
+                      <td key={step.id} className={`py-1 px-2 text-right mono ${tone}`} title={change?.kind === 'changed' ? `${change.from} → ${change.to}` : undefined}>
+                        {anchor ? anchor.price : '—'}
+                        {change?.kind === 'added' && step.index > 0 && <span className="ml-1 text-[8px] uppercase">new</span>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
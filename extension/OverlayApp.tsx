@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AuditOverlay } from '../components/AuditOverlay';
+import { PatternCard } from '../components/PatternCard';
+import { DefensiveStatus, ScanResponse } from '../types';
+import { PageMetrics } from './messages';
+
+export interface OverlayState {
+  stage: { text: string; current?: number; total?: number } | null;
+  response: ScanResponse | null;
+  page: PageMetrics | null;
+  error: string | null;
+  /** The audit server turned the scan away for want of a valid token. */
+  needsToken: boolean;
+}
+
+interface OverlayAppProps {
+  state: OverlayState;
+  onRescan: () => void;
+  /** Stores the token and scans again. */
+  onSaveToken: (token: string) => void;
+  onNewFlow: () => void;
+  onClose: () => void;
+}
+
+/**
+ * In-page counterpart of the app's results view. Boxes sit in a layer sized to the captured page and
+ * positioned in document coordinates, so they scroll with the content they mark.
+ */
+export const OverlayApp: React.FC<OverlayAppProps> = ({ state, onRescan, onSaveToken, onNewFlow, onClose }) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [showBoxes, setShowBoxes] = useState(true);
+  const [collapsed, setCollapsed] = useState(false);
+  const [token, setToken] = useState('');
+  const isDarkMode = window.matchMedia('(prefers-color-scheme: dark)').matches;
+  const { response, page, stage, error } = state;
+  const scans = response?.scans || [];
+  const meta = response?.viewport_meta;
+
+  const selectScan = (idx: number) => {
+    setSelectedIndex(prev => prev === idx ? null : idx);
+    const scan = scans[idx];
+    if (!page || !scan || scan.coordinates.every(c => c === 0)) return;
+    window.scrollTo({ top: Math.max(0, (scan.coordinates[0] / 1000) * page.height - 120), behavior: 'smooth' });
+  };
+
+  return (
+    <>
+      {page && showBoxes && scans.length > 0 && (
+        // The outer layer clips to the layout width so the scrollbar strip in the capture cannot widen the page
+        <div className="absolute top-0 left-0 overflow-hidden pointer-events-none" style={{ width: document.documentElement.clientWidth, height: page.height }}>
+          <div className="relative h-full" style={{ width: page.width }}>
+            {scans.map((s, i) => (
+              <AuditOverlay key={i} scan={s} idx={i} renderIdx={i} isSelected={selectedIndex === i} isHovered={hoveredIndex === i} isDarkMode={isDarkMode} onSelect={selectScan} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <aside className={`fixed top-4 right-4 w-[360px] max-h-[85vh] flex flex-col rounded-2xl border-2 shadow-2xl pointer-events-auto text-left ${isDarkMode ? 'bg-[#18181b] border-zinc-700 text-zinc-100' : 'bg-white border-zinc-200 text-zinc-900'}`}>
+        <div className={`flex items-center justify-between gap-2 p-3 border-b ${isDarkMode ? 'border-zinc-800' : 'border-zinc-100'}`}>
+          <button type="button" onClick={() => setCollapsed(!collapsed)} className="text-sm font-black tracking-tighter uppercase" aria-expanded={!collapsed}>
+            OPTIC-1 <span className="text-[10px] bg-indigo-600 text-white px-1.5 py-0.5 rounded-sm ml-1">{collapsed ? scans.length : 'PRO'}</span>
+          </button>
+          <div className="flex items-center gap-1">
+            <button type="button" onClick={onRescan} disabled={!!stage} className="px-2 py-1 text-[9px] font-black uppercase rounded-full border-2 border-indigo-500/40 text-indigo-400 disabled:opacity-40">Rescan</button>
+            <button type="button" onClick={() => setShowBoxes(!showBoxes)} aria-pressed={showBoxes} className="px-2 py-1 text-[9px] font-black uppercase rounded-full border-2 border-zinc-500/30 text-zinc-500">Boxes {showBoxes ? 'On' : 'Off'}</button>
+            <button type="button" onClick={onNewFlow} disabled={!!stage} title="Forget earlier steps on this tab and start a new price baseline" className="px-2 py-1 text-[9px] font-black uppercase rounded-full border-2 border-zinc-500/30 text-zinc-500 disabled:opacity-40">New Flow</button>
+            <button type="button" onClick={onClose} aria-label="Close overlay" className="w-6 h-6 rounded-full text-zinc-500 hover:bg-zinc-500/10">×</button>
+          </div>
+        </div>
+
+        {!collapsed && (
+          <div className="overflow-y-auto p-2">
+            {stage && (
+              <div className="px-3 py-2 text-[10px] font-black uppercase tracking-widest text-indigo-400">
+                {stage.text}{stage.total ? ` ${stage.current ?? 0}/${stage.total}` : ''}
+              </div>
+            )}
+            {error && <div className="m-1 p-3 rounded-xl bg-red-600/10 text-red-500 text-xs font-bold">{error}</div>}
+            {state.needsToken && (
+              <form className="m-1 flex gap-1" onSubmit={(e) => { e.preventDefault(); if (token.trim()) onSaveToken(token.trim()); }}>
+                <input
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="Audit server access token"
+                  aria-label="Audit server access token"
+                  className={`flex-1 min-w-0 px-3 py-1.5 text-xs rounded-full border-2 outline-none ${isDarkMode ? 'bg-zinc-900 border-zinc-700' : 'bg-white border-zinc-200'}`}
+                />
+                <button type="submit" className="px-3 py-1 text-[9px] font-black uppercase rounded-full border-2 border-indigo-500/40 text-indigo-400">Save &amp; Scan</button>
+              </form>
+            )}
+            {meta && (
+              <div className={`m-1 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${
+                meta.status === DefensiveStatus.Compromised ? 'bg-red-600 text-white' :
+                meta.status === DefensiveStatus.Caution ? 'bg-amber-500/20 text-amber-500' : 'bg-emerald-500/20 text-emerald-500'
+              }`}>
+                <div>{meta.status}</div>
+                <div className="font-bold normal-case tracking-normal mt-1">{meta.advice}</div>
+                {meta.breakdown && <div className="font-medium normal-case tracking-normal mt-1 opacity-80">{meta.breakdown.explanation}</div>}
+              </div>
+            )}
+            {scans.map((s, i) => (
+              <PatternCard key={i} scan={s} index={i} isSelected={selectedIndex === i} onSelect={() => selectScan(i)} onHover={setHoveredIndex} isDarkMode={isDarkMode} />
+            ))}
+          </div>
+        )}
+      </aside>
+    </>
+  );
+};
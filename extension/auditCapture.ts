@@ -0,0 +1,31 @@
+import { requestPageAudit } from "../services/auditApi";
+import { readEnv } from "../services/config";
+import { pageResponse } from "../services/pageAudit";
+import { currentSignature } from "../services/sessionStore";
+import { AuditSession, DomSnapshot, ScanResponse } from "../types";
+import { canvasToDataUrl } from "./stitch";
+
+/** Where the extension sends pages. The dev server answers here too, so a local build works out of the box. */
+export const AUDIT_SERVER_URL = readEnv('VITE_AUDIT_SERVER_URL') || 'http://localhost:3000';
+
+/**
+ * Worker-side counterpart of the app's scan: sends the stitched page to the audit server against the
+ * session's rolling signature, then runs price drift on the answer. No coarse pass or streaming; the
+ * overlay only updates once the page is done. Server refusals throw a ProviderError with the status.
+ */
+export async function auditCapture(
+  page: OffscreenCanvas,
+  session: AuditSession,
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal,
+  dom?: DomSnapshot,
+  token?: string
+): Promise<ScanResponse> {
+  const result = await requestPageAudit({
+    image: await canvasToDataUrl(page, 'image/jpeg', 0.95),
+    previous_signature: currentSignature(session),
+    dom
+  }, { baseUrl: AUDIT_SERVER_URL, token, signal, onProgress });
+
+  return pageResponse(result, session);
+}
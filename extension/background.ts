@@ -0,0 +1,101 @@
+import { ProviderError } from "../services/providerError";
+import { appendStep, createSession } from "../services/sessionStore";
+import { sleep } from "../services/tileScheduler";
+import { AuditSession, DomSnapshot } from "../types";
+import { auditCapture } from "./auditCapture";
+import { BackgroundMessage, ContentMessage, PageMetrics } from "./messages";
+import { ViewportCapture, maxCaptureHeight, planScrollPositions, stitchCaptures } from "./stitch";
+
+// captureVisibleTab is limited to two calls per second per extension
+const CAPTURE_INTERVAL_MS = 600;
+
+const inFlight = new Map<number, AbortController>();
+
+const send = <T = unknown>(tabId: number, message: ContentMessage) => chrome.tabs.sendMessage<ContentMessage, T>(tabId, message);
+
+// Sessions live in session storage, which survives the worker being suspended but not a browser restart.
+// Screenshots are not kept; the live page is the picture.
+const sessionKey = (tabId: number) => `session:${tabId}`;
+
+// The access token outlives browser restarts, unlike sessions
+const TOKEN_KEY = 'audit_token';
+
+async function loadTabSession(tabId: number): Promise<AuditSession> {
+  const stored = await chrome.storage.session.get(sessionKey(tabId));
+  return (stored[sessionKey(tabId)] as AuditSession | undefined) || createSession();
+}
+
+async function captureFullPage(tabId: number, windowId: number): Promise<{ captures: ViewportCapture[]; page: PageMetrics }> {
+  const page = await send<PageMetrics>(tabId, { type: 'prepare' });
+  const positions = planScrollPositions(page.height, page.viewportHeight, maxCaptureHeight(page.devicePixelRatio));
+  const captures: ViewportCapture[] = [];
+  try {
+    for (let i = 0; i < positions.length; i++) {
+      await send(tabId, { type: 'status', stage: 'Capturing page...', current: i, total: positions.length });
+      // Fixed headers and chat bubbles would otherwise repeat in every segment
+      const scrollY = await send<number>(tabId, { type: 'scroll', y: positions[i], hideFixed: i > 0 });
+      if (i > 0) await sleep(CAPTURE_INTERVAL_MS);
+      captures.push({ scrollY, dataUrl: await chrome.tabs.captureVisibleTab(windowId, { format: 'png' }) });
+    }
+  } finally {
+    await send(tabId, { type: 'restore' });
+  }
+  return { captures, page };
+}
+
+async function auditTab(tab: chrome.tabs.Tab) {
+  if (tab.id === undefined || inFlight.has(tab.id)) return;
+  const tabId = tab.id;
+  const controller = new AbortController();
+  inFlight.set(tabId, controller);
+
+  try {
+    await chrome.scripting.executeScript({ target: { tabId }, files: ['content.js'] });
+    await send(tabId, { type: 'status', stage: 'Reading page markup...' });
+    const snapshot = await send<DomSnapshot>(tabId, { type: 'snapshot' });
+    const { captures, page } = await captureFullPage(tabId, tab.windowId);
+    const capturedHeight = Math.min(page.height, maxCaptureHeight(page.devicePixelRatio));
+    await send(tabId, { type: 'status', stage: 'Stitching page...' });
+    const stitched = await stitchCaptures(captures, page);
+
+    const session = await loadTabSession(tabId);
+    // Match the markup to the stitched image: same width, and nothing below the captured height
+    const dom: DomSnapshot = {
+      ...snapshot,
+      page: { width: page.width, height: capturedHeight },
+      nodes: snapshot.nodes.filter(n => n.rect.y < capturedHeight)
+    };
+    const { [TOKEN_KEY]: token } = await chrome.storage.local.get(TOKEN_KEY);
+    const response = await auditCapture(stitched, session, (current, total) => {
+      send(tabId, { type: 'status', stage: 'Auditing page...', current, total }).catch(() => {});
+    }, controller.signal, dom, token as string | undefined);
+
+    if (!response.error || response.scans.length > 0) {
+      await chrome.storage.session.set({ [sessionKey(tabId)]: appendStep(session, null, response) });
+    }
+    await send(tabId, { type: 'result', response, page: { ...page, height: capturedHeight } });
+  } catch (err: any) {
+    if (err.message === "AbortError") return;
+    const needsToken = err instanceof ProviderError && err.status === 401;
+    await send(tabId, { type: 'error', message: err.message || "Audit Failure. System Overload.", needsToken }).catch(() => {});
+  } finally {
+    inFlight.delete(tabId);
+  }
+}
+
+chrome.action.onClicked.addListener(auditTab);
+
+chrome.runtime.onMessage.addListener((message: BackgroundMessage, sender) => {
+  if (!sender.tab?.id) return;
+  if (message.type === 'scan') auditTab(sender.tab);
+  if (message.type === 'reset') chrome.storage.session.remove(sessionKey(sender.tab.id));
+  if (message.type === 'token') {
+    const tab = sender.tab;
+    chrome.storage.local.set({ [TOKEN_KEY]: message.token }).then(() => auditTab(tab));
+  }
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  inFlight.get(tabId)?.abort();
+  chrome.storage.session.remove(sessionKey(tabId));
+});
@@ -0,0 +1,118 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import overlayCss from './overlay.css?inline';
+import { captureDomSnapshot } from '../services/domSnapshot';
+import { OverlayApp, OverlayState } from './OverlayApp';
+import { BackgroundMessage, ContentMessage, PageMetrics } from './messages';
+
+declare global {
+  interface Window {
+    __opticOverlayLoaded?: boolean;
+  }
+}
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+function init() {
+  let state: OverlayState = { stage: null, response: null, page: null, error: null, needsToken: false };
+  let root: ReactDOM.Root | null = null;
+  let host: HTMLElement | null = null;
+  let restoreScrollY = 0;
+  const hiddenFixed = new Map<HTMLElement, string>();
+
+  const notify = (message: BackgroundMessage) => chrome.runtime.sendMessage(message);
+
+  const ensureRoot = () => {
+    if (root && host?.isConnected) return root;
+    host = document.createElement('optic-overlay');
+    // Zero-sized host in document coordinates: children position against the page, not the viewport
+    host.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;overflow:visible;z-index:2147483646;pointer-events:none;';
+    const shadow = host.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = overlayCss;
+    const mount = document.createElement('div');
+    shadow.append(style, mount);
+    document.documentElement.appendChild(host);
+    root = ReactDOM.createRoot(mount);
+    return root;
+  };
+
+  const render = (patch: Partial<OverlayState>) => {
+    state = { ...state, ...patch };
+    ensureRoot().render(
+      <OverlayApp
+        state={state}
+        onRescan={() => notify({ type: 'scan' })}
+        onSaveToken={(token) => notify({ type: 'token', token })}
+        onNewFlow={() => { notify({ type: 'reset' }); render({ response: null, error: null }); }}
+        onClose={() => { root?.unmount(); host?.remove(); root = null; host = null; }}
+      />
+    );
+  };
+
+  const collectFixed = () => {
+    hiddenFixed.clear();
+    document.querySelectorAll<HTMLElement>('body *').forEach(el => {
+      const position = getComputedStyle(el).position;
+      if (position === 'fixed' || position === 'sticky') hiddenFixed.set(el, el.style.visibility);
+    });
+  };
+
+  const setFixedHidden = (hidden: boolean) => {
+    hiddenFixed.forEach((visibility, el) => { el.style.visibility = hidden ? 'hidden' : visibility; });
+  };
+
+  const handle = async (message: ContentMessage): Promise<unknown> => {
+    switch (message.type) {
+      case 'snapshot':
+        // Taken before capture starts, while the page is at rest and nothing is hidden
+        return captureDomSnapshot(document, { tickSampleMs: 1100 });
+      case 'prepare': {
+        restoreScrollY = window.scrollY;
+        if (host) host.style.display = 'none';
+        collectFixed();
+        const page: PageMetrics = {
+          width: window.innerWidth,
+          height: Math.max(document.documentElement.scrollHeight, document.body?.scrollHeight || 0),
+          viewportHeight: window.innerHeight,
+          devicePixelRatio: window.devicePixelRatio || 1,
+          scrollY: restoreScrollY
+        };
+        return page;
+      }
+      case 'scroll':
+        setFixedHidden(message.hideFixed);
+        window.scrollTo({ top: message.y, behavior: 'instant' });
+        // Let lazy content and the compositor catch up before the capture
+        await nextFrame();
+        await nextFrame();
+        return window.scrollY;
+      case 'restore':
+        setFixedHidden(false);
+        hiddenFixed.clear();
+        window.scrollTo({ top: restoreScrollY, behavior: 'instant' });
+        if (host) host.style.display = '';
+        return true;
+      case 'status':
+        render({ stage: { text: message.stage, current: message.current, total: message.total }, error: null, needsToken: false });
+        return true;
+      case 'result':
+        render({ stage: null, response: message.response, page: message.page, error: message.response.error || null });
+        return true;
+      case 'error':
+        render({ stage: null, error: message.message, needsToken: !!message.needsToken });
+        return true;
+    }
+  };
+
+  chrome.runtime.onMessage.addListener((message: ContentMessage, _sender, sendResponse) => {
+    handle(message).then(sendResponse, () => sendResponse(undefined));
+    return true;
+  });
+}
+
+// The background worker injects this script on every scan; only the first injection sets up
+if (!window.__opticOverlayLoaded) {
+  window.__opticOverlayLoaded = true;
+  init();
+}
@@ -0,0 +1,26 @@
+import { ScanResponse } from "../types";
+
+/** Page geometry in CSS pixels, measured by the content script before capture. */
+export interface PageMetrics {
+  width: number;
+  height: number;
+  viewportHeight: number;
+  devicePixelRatio: number;
+  scrollY: number;
+}
+
+/** Messages the background worker sends to the content script. */
+export type ContentMessage =
+  | { type: 'snapshot' }
+  | { type: 'prepare' }
+  | { type: 'scroll'; y: number; hideFixed: boolean }
+  | { type: 'restore' }
+  | { type: 'status'; stage: string; current?: number; total?: number }
+  | { type: 'result'; response: ScanResponse; page: PageMetrics }
+  | { type: 'error'; message: string; needsToken?: boolean };
+
+/** Messages the content script sends to the background worker. */
+export type BackgroundMessage =
+  | { type: 'scan' }
+  | { type: 'reset' }
+  | { type: 'token'; token: string };
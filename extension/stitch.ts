@@ -0,0 +1,58 @@
+import { PageMetrics } from "./messages";
+
+/** Chrome rejects canvases taller than this many device pixels. */
+export const MAX_CANVAS_EDGE = 32000;
+
+/**
+ * Scroll offsets (CSS px) that cover the page one viewport at a time. The last offset is pulled back
+ * so it ends at the page bottom, which is where the browser would clamp it anyway. Very long pages are
+ * cut at `maxHeight`; the audit then covers the top of the page only.
+ */
+export function planScrollPositions(pageHeight: number, viewportHeight: number, maxHeight = Infinity): number[] {
+  const height = Math.min(pageHeight, maxHeight);
+  if (viewportHeight <= 0 || height <= viewportHeight) return [0];
+  const positions: number[] = [];
+  for (let y = 0; y + viewportHeight < height; y += viewportHeight) positions.push(y);
+  positions.push(height - viewportHeight);
+  return positions;
+}
+
+/** Height in CSS px the stitched image can hold at this device pixel ratio. */
+export function maxCaptureHeight(devicePixelRatio: number): number {
+  return Math.floor(MAX_CANVAS_EDGE / Math.max(1, devicePixelRatio));
+}
+
+export interface ViewportCapture {
+  /** Scroll offset the page actually settled at, in CSS px. */
+  scrollY: number;
+  dataUrl: string;
+}
+
+/**
+ * Paints each viewport capture at its scroll offset. Overlapping captures simply overdraw, so the
+ * shortened last step needs no special handling.
+ */
+export async function stitchCaptures(captures: ViewportCapture[], page: PageMetrics): Promise<OffscreenCanvas> {
+  const scale = page.devicePixelRatio;
+  const height = Math.min(page.height, maxCaptureHeight(scale));
+  const canvas = new OffscreenCanvas(Math.round(page.width * scale), Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  for (const capture of captures) {
+    const bitmap = await createImageBitmap(await (await fetch(capture.dataUrl)).blob());
+    ctx.drawImage(bitmap, 0, Math.round(capture.scrollY * scale));
+    bitmap.close();
+  }
+  return canvas;
+}
+
+export async function canvasToDataUrl(canvas: OffscreenCanvas, type = 'image/jpeg', quality = 0.9): Promise<string> {
+  const blob = await canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Batch audit of screenshots, for QA pipelines.
+ *
+ *   npm run audit -- <image | dir | url>... [--provider gemini|openai|mock] [--pack core] [--out audit-output]
+ *     [--coarse] [--verify mark|hide] [--flow] [--consent]
+ *
+ * Every PNG or JPEG (a directory contributes its top-level images, in name order; a URL must serve an
+ * image) is tiled and audited like the app does. For each page, `<name>.json` holds the ScanResponse and
+ * `<name>.annotated.png` the numbered finding boxes; `summary.txt` repeats the table printed at the end.
+ * Pages are independent unless `--flow` audits them in order as one session, with price drift between
+ * steps. `--consent` runs the consent banner checks instead of the full audit. Exits 1 when any page is
+ * Compromised or fails its consent checks, 2 when a page could not be audited. --provider defaults to
+ * VITE_AUDIT_PROVIDER, else gemini.
+ */
+import { mkdirSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_PROVIDER_ID, ProviderId, PROVIDER_OPTIONS, getAuditProvider } from '../services/auditProvider';
+import { PageSummary, batchExitCode, formatSummaryTable, summarizePage } from '../services/batchAudit';
+import { auditConsentBanner } from '../services/consentAudit';
+import { auditPage, pageResponse } from '../services/pageAudit';
+import { DEFAULT_RULE_PACK, getRulePack } from '../services/rulePack';
+import { appendStep, createSession, currentSignature } from '../services/sessionStore';
+import { annotateRaster, cropDataUrl, decodeDataUrl, encodePng, rasterPage } from '../server/nodeImage';
+
+const IMAGE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg' };
+
+interface PageInput {
+  name: string;
+  load: () => Promise<string>;
+}
+
+function fileInput(path: string): PageInput {
+  return {
+    name: basename(path, extname(path)),
+    load: async () => `data:${IMAGE_TYPES[extname(path).toLowerCase()] || 'application/octet-stream'};base64,${readFileSync(path).toString('base64')}`
+  };
+}
+
+function urlInput(url: string, index: number): PageInput {
+  return {
+    name: basename(new URL(url).pathname, extname(new URL(url).pathname)) || `page-${index + 1}`,
+    load: async () => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`${url} answered HTTP ${res.status}`);
+      const type = (res.headers.get('content-type') || '').split(';')[0];
+      return `data:${type};base64,${Buffer.from(await res.arrayBuffer()).toString('base64')}`;
+    }
+  };
+}
+
+function collectInputs(args: string[]): PageInput[] {
+  const inputs = args.flatMap((arg, i): PageInput[] => {
+    if (/^https?:\/\//.test(arg)) return [urlInput(arg, i)];
+    const path = resolve(arg);
+    if (!statSync(path).isDirectory()) return [fileInput(path)];
+    return readdirSync(path)
+      .filter(file => IMAGE_TYPES[extname(file).toLowerCase()])
+      .sort()
+      .map(file => fileInput(join(path, file)));
+  });
+  // Outputs are named after the input, so two "checkout.png" from different folders need telling apart
+  const seen = new Map<string, number>();
+  return inputs.map(input => {
+    const count = (seen.get(input.name) || 0) + 1;
+    seen.set(input.name, count);
+    return count === 1 ? input : { ...input, name: `${input.name}-${count}` };
+  });
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', default: DEFAULT_PROVIDER_ID },
+      pack: { type: 'string', default: DEFAULT_RULE_PACK.id },
+      out: { type: 'string', default: 'audit-output' },
+      coarse: { type: 'boolean', default: false },
+      verify: { type: 'string' },
+      flow: { type: 'boolean', default: false },
+      consent: { type: 'boolean', default: false }
+    }
+  });
+  if (positionals.length === 0) throw new Error('Usage: npm run audit -- <image | dir | url>... [--provider id] [--pack id] [--out dir] [--coarse] [--verify mark|hide] [--flow] [--consent]');
+  if (!PROVIDER_OPTIONS.some(p => p.id === values.provider)) throw new Error(`Unknown provider "${values.provider}"`);
+  const pack = getRulePack(values.pack!);
+  if (!pack) throw new Error(`Unknown rule pack "${values.pack}"`);
+  if (values.verify && values.verify !== 'mark' && values.verify !== 'hide') throw new Error('--verify must be mark or hide');
+
+  const inputs = collectInputs(positionals);
+  if (inputs.length === 0) throw new Error('No PNG or JPEG screenshots found');
+  const provider = getAuditProvider(values.provider as ProviderId);
+  const outDir = resolve(values.out!);
+  mkdirSync(outDir, { recursive: true });
+
+  let session = createSession();
+  const rows: PageSummary[] = [];
+  for (const input of inputs) {
+    try {
+      const image = decodeDataUrl(await input.load());
+      if (values.consent) {
+        const response = await auditConsentBanner(rasterPage(image), image, { provider, rulePack: pack });
+        writeFileSync(join(outDir, `${input.name}.json`), JSON.stringify(response, null, 2));
+        writeFileSync(join(outDir, `${input.name}.annotated.png`), encodePng(annotateRaster(image, response.scans)));
+        rows.push(summarizePage(input.name, response));
+        console.log(`${input.name}: ${response.thought_signature.reasoning_path || response.error}`);
+        continue;
+      }
+      if (!values.flow) session = createSession();
+      const result = await auditPage(rasterPage(image), {
+        provider,
+        rulePack: pack,
+        baseSignature: currentSignature(session),
+        coarsePass: values.coarse,
+        verify: values.verify ? { rejected: values.verify as 'mark' | 'hide', crop: cropDataUrl } : undefined,
+        onProgress: (current, total) => process.stdout.write(`\r${input.name}: tile ${current}/${total}`)
+      });
+      process.stdout.write('\n');
+      const response = pageResponse(result, session, { rulePack: pack });
+      if (!response.audit_failed) session = appendStep(session, null, response, pack);
+      writeFileSync(join(outDir, `${input.name}.json`), JSON.stringify(response, null, 2));
+      writeFileSync(join(outDir, `${input.name}.annotated.png`), encodePng(annotateRaster(image, response.scans)));
+      rows.push(summarizePage(input.name, response));
+    } catch (err: any) {
+      process.stdout.write('\n');
+      console.warn(`${input.name}: ${err.message || err}`);
+      rows.push(summarizePage(input.name, null, err.message || String(err)));
+    }
+  }
+
+  const table = formatSummaryTable(rows);
+  writeFileSync(join(outDir, 'summary.txt'), `${table}\n`);
+  console.log(`\n${table}\n\nResults written to ${outDir}`);
+  process.exit(batchExitCode(rows));
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(2);
+});
@@ -0,0 +1,129 @@
+/**
+ * Detection benchmark over a labelled screenshot corpus.
+ *
+ *   npm run benchmark -- <corpus-dir | dataset.json> [--provider gemini|openai|mock|recorded]
+ *     [--pack core] [--iou 0.5] [--verify mark|hide] [--out run.json] [--baseline previous-run.json]
+ *
+ * A corpus directory holds screenshots (png, jpg, webp), each with a `<name>.labels.json` next to it and,
+ * for the recorded provider, a `<name>.response.txt` with the raw model answer. A dataset exported from
+ * the app's review controls works as a corpus too.
+ */
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { basename, extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { analyzeUIScreen } from '../services/auditService';
+import { AuditProvider, ProviderId, getAuditProvider } from '../services/auditProvider';
+import { BenchmarkCase, BenchmarkRun, CaseResult, DEFAULT_IOU_THRESHOLD, diffRuns, formatRun, parseLabelFile, scoreCase, summarizeRun } from '../services/benchmark';
+import { DATASET_FORMAT, FeedbackDataset } from '../services/feedback';
+import { GEMINI_MODEL, GEMINI_THINKING_LEVEL } from '../services/geminiService';
+import { readEnv } from '../services/config';
+import { DEFAULT_RULE_PACK, RulePack, getRulePack } from '../services/rulePack';
+
+const IMAGE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.webp': 'image/webp' };
+
+function loadCorpusDir(dir: string, pack: RulePack): BenchmarkCase[] {
+  return readdirSync(dir)
+    .filter(file => IMAGE_TYPES[extname(file).toLowerCase()])
+    .sort()
+    .map(file => {
+      const id = basename(file, extname(file));
+      const labelsPath = join(dir, `${id}.labels.json`);
+      if (!existsSync(labelsPath)) throw new Error(`${file} has no ${id}.labels.json`);
+      const recordedPath = join(dir, `${id}.response.txt`);
+      return {
+        id,
+        image: `data:${IMAGE_TYPES[extname(file).toLowerCase()]};base64,${readFileSync(join(dir, file)).toString('base64')}`,
+        ...parseLabelFile(JSON.parse(readFileSync(labelsPath, 'utf8')), id, pack),
+        ...(existsSync(recordedPath) ? { recorded: readFileSync(recordedPath, 'utf8') } : {})
+      };
+    });
+}
+
+function loadDataset(path: string): BenchmarkCase[] {
+  const dataset = JSON.parse(readFileSync(path, 'utf8')) as FeedbackDataset;
+  if (dataset.format !== DATASET_FORMAT) throw new Error(`${path} is not an ${DATASET_FORMAT} file`);
+  return dataset.items.flatMap(item => {
+    if (!item.screenshot) {
+      console.warn(`Skipping ${item.id}: its screenshot was evicted from storage before export.`);
+      return [];
+    }
+    return [{ id: item.id, image: item.screenshot, labels: item.labels, status: item.status }];
+  });
+}
+
+/** Answers every request with the text recorded for the case. */
+function recordedProvider(text: string): AuditProvider {
+  return { id: 'recorded', label: 'Recorded', generate: async () => text };
+}
+
+function describeSetup(providerId: string, pack: RulePack, corpus: string, verify?: string): BenchmarkRun['config'] {
+  return {
+    provider: providerId,
+    ...(providerId === 'gemini' ? { model: GEMINI_MODEL, thinking_level: GEMINI_THINKING_LEVEL } : {}),
+    ...(providerId === 'openai' ? { model: readEnv('VITE_OPENAI_MODEL') || 'gpt-4o', base_url: readEnv('VITE_OPENAI_BASE_URL') || 'https://api.openai.com/v1' } : {}),
+    rule_pack: `${pack.id}@${pack.version}`,
+    corpus: basename(corpus),
+    ...(verify ? { verify } : {})
+  };
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', default: 'mock' },
+      pack: { type: 'string', default: DEFAULT_RULE_PACK.id },
+      iou: { type: 'string', default: String(DEFAULT_IOU_THRESHOLD) },
+      verify: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' }
+    }
+  });
+  const corpus = positionals[0];
+  if (!corpus) throw new Error('Usage: npm run benchmark -- <corpus-dir | dataset.json> [--provider id] [--pack id] [--iou 0.5] [--verify mark|hide] [--out run.json] [--baseline run.json]');
+  const pack = getRulePack(values.pack!);
+  if (!pack) throw new Error(`Unknown rule pack "${values.pack}"`);
+  const threshold = Number(values.iou);
+  if (!(threshold > 0 && threshold <= 1)) throw new Error('--iou must be between 0 and 1');
+  if (values.verify && values.verify !== 'mark' && values.verify !== 'hide') throw new Error('--verify must be mark or hide');
+
+  const path = resolve(corpus);
+  const cases = statSync(path).isDirectory() ? loadCorpusDir(path, pack) : loadDataset(path);
+  if (cases.length === 0) throw new Error(`No labelled screenshots in ${corpus}`);
+
+  const results: CaseResult[] = [];
+  for (const testCase of cases) {
+    let provider: AuditProvider;
+    if (values.provider === 'recorded') {
+      if (testCase.recorded === undefined) {
+        console.warn(`Skipping ${testCase.id}: no ${testCase.id}.response.txt to replay.`);
+        continue;
+      }
+      provider = recordedProvider(testCase.recorded);
+    } else {
+      provider = getAuditProvider(values.provider as ProviderId);
+    }
+    const response = await analyzeUIScreen(testCase.image, {}, undefined, {
+      provider,
+      rulePack: pack,
+      // Node has no canvas to crop with, so the verifier sees the whole screenshot
+      ...(values.verify ? { verify: { rejected: values.verify as 'mark' | 'hide', crop: async (image: string) => image } } : {})
+    });
+    const result = scoreCase(testCase, response, threshold);
+    results.push(result);
+    console.log(`${testCase.id}: ${result.matches.length} matched, ${result.false_positives.length} false positive, ${result.false_negatives.length} missed, ${result.predicted_status}${result.error ? ` (${result.error})` : ''}`);
+  }
+
+  const run = summarizeRun(results, describeSetup(values.provider!, pack, corpus, values.verify), { threshold });
+  const diff = values.baseline ? diffRuns(JSON.parse(readFileSync(values.baseline, 'utf8')) as BenchmarkRun, run) : undefined;
+  console.log(`\n${formatRun(run, diff)}`);
+  if (values.out) {
+    writeFileSync(values.out, JSON.stringify(run, null, 2));
+    console.log(`\nRun written to ${values.out}`);
+  }
+}
+
+main().catch(err => {
+  console.error(err.message || err);
+  process.exit(1);
+});
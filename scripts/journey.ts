@@ -0,0 +1,80 @@
+/**
+ * Scripted funnel crawl in headless Chromium.
+ *
+ *   npm run journey -- <journey.json> [--provider gemini|openai|mock] [--pack core] [--out journey-output]
+ *     [--base-url https://shop.example/] [--verify mark|hide] [--headed]
+ *
+ * The journey file lists named steps, each a few browser actions (goto, click, fill, check, wait_for).
+ * After every step the full page and its DOM are captured and audited against the session so far, so
+ * price drift shows up between steps. Relative URLs resolve against --base-url, then the journey's
+ * base_url, then the journey file's own folder. `timeline.json` holds every step's findings and
+ * `<n>-<step>.annotated.png` its screenshot. Uses CHROME_PATH, or a browser installed with
+ * `npx playwright-core install chromium`. Exits 1 when a step is Compromised, 2 when the journey broke off.
+ * --provider defaults to VITE_AUDIT_PROVIDER, else gemini.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { DEFAULT_PROVIDER_ID, ProviderId, PROVIDER_OPTIONS, getAuditProvider } from '../services/auditProvider';
+import { formatTimeline, parseJourney, runJourney } from '../services/journey';
+import { DEFAULT_RULE_PACK, getRulePack } from '../services/rulePack';
+import { DefensiveStatus } from '../types';
+import { launchChromiumDriver } from '../server/browserDriver';
+import { annotateRaster, cropDataUrl, decodeDataUrl, encodePng, rasterPage } from '../server/nodeImage';
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'step';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', default: DEFAULT_PROVIDER_ID },
+      pack: { type: 'string', default: DEFAULT_RULE_PACK.id },
+      out: { type: 'string', default: 'journey-output' },
+      'base-url': { type: 'string' },
+      verify: { type: 'string' },
+      headed: { type: 'boolean', default: false }
+    }
+  });
+  if (positionals.length !== 1) throw new Error('Usage: npm run journey -- <journey.json> [--provider id] [--pack id] [--out dir] [--base-url url] [--verify mark|hide] [--headed]');
+  if (!PROVIDER_OPTIONS.some(p => p.id === values.provider)) throw new Error(`Unknown provider "${values.provider}"`);
+  const pack = getRulePack(values.pack!);
+  if (!pack) throw new Error(`Unknown rule pack "${values.pack}"`);
+  if (values.verify && values.verify !== 'mark' && values.verify !== 'hide') throw new Error('--verify must be mark or hide');
+
+  const journeyPath = resolve(positionals[0]);
+  const journey = parseJourney(JSON.parse(readFileSync(journeyPath, 'utf8')));
+  const outDir = resolve(values.out!);
+  mkdirSync(outDir, { recursive: true });
+
+  const driver = await launchChromiumDriver({ headed: values.headed });
+  try {
+    const timeline = await runJourney(journey, driver, {
+      provider: getAuditProvider(values.provider as ProviderId),
+      rulePack: pack,
+      loadPage: (screenshot) => rasterPage(decodeDataUrl(screenshot)),
+      baseUrl: values['base-url'] || journey.base_url || pathToFileURL(`${dirname(journeyPath)}/`).href,
+      verify: values.verify ? { rejected: values.verify as 'mark' | 'hide', crop: cropDataUrl } : undefined,
+      onProgress: (step, current, total) => process.stdout.write(`\r${step}: tile ${current}/${total}`),
+      onStep: (entry, screenshot) => {
+        process.stdout.write('\n');
+        if (screenshot) writeFileSync(join(outDir, `${entry.index + 1}-${slug(entry.name)}.annotated.png`), encodePng(annotateRaster(decodeDataUrl(screenshot), entry.scans)));
+      }
+    });
+
+    const text = formatTimeline(timeline);
+    writeFileSync(join(outDir, 'timeline.json'), JSON.stringify(timeline, null, 2));
+    writeFileSync(join(outDir, 'timeline.txt'), `${text}\n`);
+    console.log(`\n${text}\n\nResults written to ${outDir}`);
+    if (timeline.steps.some(step => step.status === DefensiveStatus.Compromised)) return 1;
+    return timeline.completed && timeline.steps.every(step => step.status) ? 0 : 2;
+  } finally {
+    await driver.close();
+  }
+}
+
+main().then(code => process.exit(code), err => {
+  console.error(err.message || err);
+  process.exit(2);
+});
@@ -0,0 +1,70 @@
+/**
+ * Roach-motel audit: is leaving harder than joining?
+ *
+ *   npm run roach-motel -- <signup-dir> <cancel-dir> [--provider gemini|openai|mock] [--pack core]
+ *     [--out roach-motel-output]
+ *
+ * Each folder holds one flow's screenshots (PNG or JPEG), taken in name order. Every screen is read
+ * for clicks, typed fields, retention offers, confirmshaming and channel switches; the two flows are
+ * then compared. `report.json` holds the totals, symmetry score and findings, and every cancellation
+ * screen with findings gets a `cancellation-<n>.annotated.png`. Exits 1 when the verdict is Compromised,
+ * 2 when a screen could not be read. --provider defaults to VITE_AUDIT_PROVIDER, else gemini.
+ */
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { extname, join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_PROVIDER_ID, ProviderId, PROVIDER_OPTIONS, getAuditProvider } from '../services/auditProvider';
+import { DEFAULT_RULE_PACK, getRulePack } from '../services/rulePack';
+import { auditRoachMotel, formatRoachMotel } from '../services/roachMotel';
+import { DefensiveStatus } from '../types';
+import { RasterImage, annotateRaster, decodeDataUrl, encodePng, rasterPage } from '../server/nodeImage';
+
+const IMAGE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg' };
+
+function loadFlow(dir: string): RasterImage[] {
+  const files = readdirSync(dir).filter(file => IMAGE_TYPES[extname(file).toLowerCase()]).sort();
+  if (files.length === 0) throw new Error(`${dir} holds no PNG or JPEG screenshots`);
+  return files.map(file => decodeDataUrl(`data:${IMAGE_TYPES[extname(file).toLowerCase()]};base64,${readFileSync(join(dir, file)).toString('base64')}`));
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', default: DEFAULT_PROVIDER_ID },
+      pack: { type: 'string', default: DEFAULT_RULE_PACK.id },
+      out: { type: 'string', default: 'roach-motel-output' }
+    }
+  });
+  if (positionals.length !== 2) throw new Error('Usage: npm run roach-motel -- <signup-dir> <cancel-dir> [--provider id] [--pack id] [--out dir]');
+  if (!PROVIDER_OPTIONS.some(p => p.id === values.provider)) throw new Error(`Unknown provider "${values.provider}"`);
+  const pack = getRulePack(values.pack!);
+  if (!pack) throw new Error(`Unknown rule pack "${values.pack}"`);
+
+  const signup = loadFlow(resolve(positionals[0]));
+  const cancellation = loadFlow(resolve(positionals[1]));
+  const outDir = resolve(values.out!);
+  mkdirSync(outDir, { recursive: true });
+
+  const report = await auditRoachMotel(signup.map(rasterPage), cancellation.map(rasterPage), {
+    provider: getAuditProvider(values.provider as ProviderId),
+    rulePack: pack,
+    onProgress: (current, total) => process.stdout.write(`\rscreen ${current}/${total}`)
+  });
+  process.stdout.write('\n');
+
+  writeFileSync(join(outDir, 'report.json'), JSON.stringify(report, null, 2));
+  cancellation.forEach((image, index) => {
+    const scans = report.scans.filter(scan => scan.evidence?.data?.phase === 'cancellation' && scan.evidence.data.screen === index);
+    if (scans.length > 0) writeFileSync(join(outDir, `cancellation-${index + 1}.annotated.png`), encodePng(annotateRaster(image, scans)));
+  });
+  console.log(`\n${formatRoachMotel(report)}\n\nResults written to ${outDir}`);
+  if (report.audit_failed) return 2;
+  if (report.viewport_meta.status === DefensiveStatus.Compromised) return 1;
+  return report.error ? 2 : 0;
+}
+
+main().then(code => process.exit(code), err => {
+  console.error(err.message || err);
+  process.exit(2);
+});
@@ -0,0 +1,207 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AUDIT_ENDPOINT, AuditApiEvent, AuditApiRequest } from '../services/auditApi';
+import { AuditProvider, DEFAULT_PROVIDER_ID, PROVIDER_OPTIONS, ProviderId, getAuditProvider } from '../services/auditProvider';
+import { PageAuditOptions, auditPage } from '../services/pageAudit';
+import { DEFAULT_RULE_PACK, RulePack, getRulePack, validateRulePack } from '../services/rulePack';
+import { AuditUser, QuotaTracker, authenticate } from './auth';
+import { cropDataUrl, decodeDataUrl, rasterPage } from './nodeImage';
+
+export interface AuditLogEntry {
+  time: string;
+  user: string | null;
+  status: number;
+  duration_ms: number;
+  provider?: string;
+  tiles?: number;
+  findings?: number;
+  error?: string;
+}
+
+export interface AuditHandlerOptions {
+  users: AuditUser[];
+  /** Accept requests without a token, counted as user "anonymous". Meant for the local dev stand-in. */
+  allowAnonymous?: boolean;
+  quotas?: QuotaTracker;
+  /** Largest accepted request body. Stitched full pages are big, so the default is generous. */
+  maxBodyBytes?: number;
+  /** Tests swap in fixture providers. */
+  getProvider?: (id: ProviderId) => AuditProvider;
+  /** Scheduling passed to every audit; by default each provider's shared rate limit applies across users. */
+  scheduling?: Pick<PageAuditOptions, 'concurrency' | 'rateLimiter' | 'retryDelayMs'>;
+  /** One entry per request. Defaults to a JSON line on stdout. */
+  log?: (entry: AuditLogEntry) => void;
+}
+
+export const DEFAULT_MAX_BODY_BYTES = 40 * 1024 * 1024;
+
+const ANONYMOUS: AuditUser = { id: 'anonymous', token: '' };
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        // Drain the rest so the 413 reaches a client that is still uploading
+        req.off('data', onData);
+        req.resume();
+        reject(new HttpError(413, `Request body exceeds ${Math.round(limit / 1024 / 1024)} MB`));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function resolvePack(value: AuditApiRequest['rule_pack']): RulePack {
+  if (value === undefined) return DEFAULT_RULE_PACK;
+  if (typeof value === 'string') {
+    const pack = getRulePack(value);
+    if (!pack) throw new HttpError(400, `Unknown rule pack "${value}"`);
+    return pack;
+  }
+  try {
+    return validateRulePack(value);
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+}
+
+function parseRequest(raw: string): AuditApiRequest {
+  let body: any;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+  if (typeof body?.image !== 'string') throw new HttpError(400, '"image" must be a data URL');
+  if (body.provider !== undefined && !PROVIDER_OPTIONS.some(p => p.id === body.provider)) throw new HttpError(400, `Unknown provider "${body.provider}"`);
+  if (body.verify !== undefined && body.verify !== 'mark' && body.verify !== 'hide') throw new HttpError(400, '"verify" must be "mark" or "hide"');
+  if (body.previous_signature !== undefined && (typeof body.previous_signature !== 'object' || Array.isArray(body.previous_signature))) {
+    throw new HttpError(400, '"previous_signature" must be an object');
+  }
+  return body;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Request handler for POST /api/audit, written against node:http so it runs standalone or as Vite dev
+ * middleware. Checks the token, validates the request and spends one unit of the user's daily quota,
+ * then streams the audit back as NDJSON. If the client disconnects, the audit is aborted.
+ */
+export function createAuditHandler(options: AuditHandlerOptions) {
+  const quotas = options.quotas || new QuotaTracker();
+  const getProvider = options.getProvider || getAuditProvider;
+  const log = options.log || ((entry: AuditLogEntry) => console.log(JSON.stringify(entry)));
+
+  return async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    if (req.url?.split('?')[0] !== AUDIT_ENDPOINT) {
+      if (next) return next();
+      return sendJson(res, 404, { error: "Not found" });
+    }
+    // The browser extension calls from its own origin; access is governed by the token, not the origin
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      return res.end();
+    }
+
+    const started = Date.now();
+    const entry: AuditLogEntry = { time: new Date(started).toISOString(), user: null, status: 200, duration_ms: 0 };
+    const finish = (status: number, error?: string) => {
+      entry.status = status;
+      entry.duration_ms = Date.now() - started;
+      if (error) entry.error = error;
+      log(entry);
+    };
+
+    let request: AuditApiRequest;
+    let provider: AuditProvider;
+    let pack: RulePack;
+    let page: ReturnType<typeof rasterPage>;
+    try {
+      if (req.method !== 'POST') throw new HttpError(405, "Use POST");
+      const user = authenticate(options.users, req.headers.authorization) || (options.allowAnonymous ? ANONYMOUS : null);
+      if (!user) throw new HttpError(401, "Missing or invalid access token");
+      entry.user = user.id;
+
+      request = parseRequest(await readBody(req, options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES));
+      provider = getProvider(request.provider || DEFAULT_PROVIDER_ID);
+      entry.provider = provider.id;
+      pack = resolvePack(request.rule_pack);
+      try {
+        page = rasterPage(decodeDataUrl(request.image));
+      } catch (err: any) {
+        throw new HttpError(400, `Unreadable image: ${err.message}`);
+      }
+      // Only requests that will actually run count against the quota
+      if (user !== ANONYMOUS && !quotas.consume(user)) throw new HttpError(429, "Daily audit quota used up");
+    } catch (err: any) {
+      const status = err instanceof HttpError ? err.status : 500;
+      const message = err instanceof HttpError ? err.message : "Audit server error";
+      if (status === 429) res.setHeader('Retry-After', String(secondsUntilUtcMidnight()));
+      sendJson(res, status, { error: message });
+      return finish(status, err.message);
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    const send = (event: AuditApiEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+    try {
+      const result = await auditPage(page, {
+        ...options.scheduling,
+        provider,
+        rulePack: pack,
+        baseSignature: request.previous_signature,
+        coarsePass: request.coarse_pass,
+        stream: request.stream,
+        verify: request.verify ? { rejected: request.verify, crop: cropDataUrl } : undefined,
+        dom: request.dom,
+        signal: controller.signal,
+        onProgress: (current, total, stage) => {
+          entry.tiles = total;
+          send({ type: 'progress', current, total, ...(stage ? { stage } : {}) });
+        },
+        onScans: (scans) => send({ type: 'scans', scans })
+      });
+      entry.findings = result.scans.length;
+      send({ type: 'result', ...result });
+      res.end();
+      finish(200, result.error);
+    } catch (err: any) {
+      if (controller.signal.aborted) {
+        // 499: the client closed the request, as nginx logs it
+        res.end();
+        return finish(499, "Client closed the request");
+      }
+      send({ type: 'error', status: 500, message: "Audit Failure. System Overload." });
+      res.end();
+      finish(500, err.message);
+    }
+  };
+}
+
+function secondsUntilUtcMidnight(now = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
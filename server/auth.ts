@@ -0,0 +1,68 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+export interface AuditUser {
+  id: string;
+  token: string;
+  /** Page audits allowed per UTC day. Omitted means unlimited. */
+  daily_quota?: number;
+}
+
+/** Parses AUDIT_USERS: a JSON array of `{ "id", "token", "daily_quota"? }`. */
+export function parseUsers(json: string | undefined): AuditUser[] {
+  if (!json) return [];
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) throw new Error("AUDIT_USERS must be a JSON array");
+  return parsed.map((user, i) => {
+    if (typeof user?.id !== 'string' || !user.id) throw new Error(`AUDIT_USERS[${i}].id must be a non-empty string`);
+    if (typeof user.token !== 'string' || user.token.length < 16) throw new Error(`AUDIT_USERS[${i}].token must be at least 16 characters`);
+    if (user.daily_quota !== undefined && !(Number.isInteger(user.daily_quota) && user.daily_quota >= 0)) {
+      throw new Error(`AUDIT_USERS[${i}].daily_quota must be a non-negative integer`);
+    }
+    return { id: user.id, token: user.token, ...(user.daily_quota !== undefined ? { daily_quota: user.daily_quota } : {}) };
+  });
+}
+
+// Hashing first gives equal-length buffers, so the comparison time says nothing about the token
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/** The user whose token matches a `Bearer` header, or null. Every user is compared so timing does not reveal which one matched. */
+export function authenticate(users: AuditUser[], authorization: string | undefined): AuditUser | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization || '');
+  if (!match) return null;
+  const presented = digest(match[1]);
+  let found: AuditUser | null = null;
+  for (const user of users) {
+    if (timingSafeEqual(presented, digest(user.token)) && !found) found = user;
+  }
+  return found;
+}
+
+/** Counts page audits per user per UTC day. In memory only; a restart resets the counts. */
+export class QuotaTracker {
+  private day = '';
+  private used = new Map<string, number>();
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  private roll() {
+    const today = this.now().toISOString().slice(0, 10);
+    if (today !== this.day) {
+      this.day = today;
+      this.used.clear();
+    }
+  }
+
+  /** Records one audit and returns true, or returns false when the user has none left today. */
+  consume(user: AuditUser): boolean {
+    this.roll();
+    const used = this.used.get(user.id) || 0;
+    if (user.daily_quota !== undefined && used >= user.daily_quota) return false;
+    this.used.set(user.id, used + 1);
+    return true;
+  }
+
+  remaining(user: AuditUser): number | null {
+    this.roll();
+    return user.daily_quota === undefined ? null : Math.max(0, user.daily_quota - (this.used.get(user.id) || 0));
+  }
+}
@@ -0,0 +1,74 @@
+import { build } from 'esbuild';
+import { fileURLToPath } from 'node:url';
+import { chromium } from 'playwright-core';
+import type { BrowserDriver } from '../services/journey';
+import type { DomSnapshot } from '../types';
+
+export interface ChromiumDriverOptions {
+  /** Chrome or Chromium binary. Defaults to CHROME_PATH, then to a browser installed with `npx playwright-core install chromium`. */
+  executablePath?: string;
+  headed?: boolean;
+  viewport?: { width: number; height: number };
+  /** How long to watch timer-like text for ticking before a DOM snapshot; 0 skips the check. */
+  tickSampleMs?: number;
+  /** Per-action timeout. */
+  timeoutMs?: number;
+}
+
+let snapshotScript: Promise<string> | null = null;
+
+/** The app's DOM snapshotter, bundled once so it runs inside the page exactly as it does in the extension. */
+function loadSnapshotScript(): Promise<string> {
+  snapshotScript = snapshotScript || build({
+    entryPoints: [fileURLToPath(new URL('../services/domSnapshot.ts', import.meta.url))],
+    bundle: true,
+    write: false,
+    format: 'iife',
+    globalName: '__opticDomSnapshot',
+    platform: 'browser',
+    logLevel: 'silent'
+  }).then(result => result.outputFiles[0].text);
+  return snapshotScript;
+}
+
+/** A BrowserDriver on headless Chromium. Close it when the journey is over. */
+export async function launchChromiumDriver(options: ChromiumDriverOptions = {}): Promise<BrowserDriver & { close(): Promise<void> }> {
+  const browser = await chromium.launch({
+    executablePath: options.executablePath || process.env.CHROME_PATH || undefined,
+    headless: !options.headed
+  });
+  const page = await browser.newPage({ viewport: options.viewport || { width: 1280, height: 800 }, deviceScaleFactor: 1 });
+  page.setDefaultTimeout(options.timeoutMs ?? 15000);
+
+  // Clicks may or may not navigate; either way the next capture should see a settled page
+  const settle = () => page.waitForLoadState('load');
+
+  return {
+    async goto(url) {
+      await page.goto(url, { waitUntil: 'load' });
+    },
+    async click(selector) {
+      await page.click(selector);
+      await settle();
+    },
+    async fill(selector, value) {
+      await page.fill(selector, value);
+    },
+    async check(selector) {
+      await page.check(selector);
+    },
+    async waitFor(selector) {
+      await page.waitForSelector(selector, { state: 'visible' });
+    },
+    async screenshot() {
+      const png = await page.screenshot({ fullPage: true, type: 'png' });
+      return `data:image/png;base64,${png.toString('base64')}`;
+    },
+    async snapshot() {
+      if (!(await page.evaluate(() => '__opticDomSnapshot' in window))) await page.addScriptTag({ content: await loadSnapshotScript() });
+      return page.evaluate((tickSampleMs) => (window as any).__opticDomSnapshot.captureDomSnapshot(document, { tickSampleMs }) as Promise<DomSnapshot>, options.tickSampleMs ?? 1100);
+    },
+    currentUrl: () => page.url(),
+    close: () => browser.close()
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Audit server: holds the provider keys and runs audits for the web app and the extension.
+ *
+ *   npm run server
+ *
+ * Environment: GEMINI_API_KEY / OPENAI_API_KEY, AUDIT_USERS (JSON array of `{ "id", "token", "daily_quota" }`),
+ * AUDIT_ALLOW_ANONYMOUS=true to accept requests without a token, PORT (default 3000), read from the shell or
+ * .env files. A built app in dist/ is served from the same origin, so `npm run build && npm run server` is a
+ * complete deployment.
+ */
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { extname, isAbsolute, join, normalize, relative, resolve } from 'node:path';
+import { loadEnv } from 'vite';
+import { readEnv } from '../services/config';
+import { createAuditHandler } from './auditHandler';
+import { parseUsers } from './auth';
+
+const STATIC_ROOT = resolve('dist');
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+// Same .env files the dev server reads; variables already set in the shell win
+for (const [name, value] of Object.entries(loadEnv('production', '.', ''))) process.env[name] ??= value;
+
+const users = parseUsers(readEnv('AUDIT_USERS'));
+const allowAnonymous = readEnv('AUDIT_ALLOW_ANONYMOUS') === 'true';
+if (users.length === 0 && !allowAnonymous) {
+  console.error('No AUDIT_USERS configured. Add users or set AUDIT_ALLOW_ANONYMOUS=true.');
+  process.exit(1);
+}
+
+const handleAudit = createAuditHandler({ users, allowAnonymous });
+
+function serveStatic(req: IncomingMessage, res: ServerResponse) {
+  let path: string;
+  try {
+    path = normalize(decodeURIComponent((req.url || '/').split('?')[0]));
+  } catch {
+    res.writeHead(400);
+    return res.end('Malformed URL');
+  }
+  let file = join(STATIC_ROOT, path);
+  // A prefix check would also let through siblings such as dist-extension/
+  const inside = relative(STATIC_ROOT, file);
+  if (inside.startsWith('..') || isAbsolute(inside) || req.method !== 'GET') {
+    res.writeHead(404);
+    return res.end();
+  }
+  // Unknown paths fall back to the app shell
+  if (!existsSync(file) || statSync(file).isDirectory()) file = join(STATIC_ROOT, 'index.html');
+  if (!existsSync(file)) {
+    res.writeHead(404);
+    return res.end('Run `npm run build` to serve the app from this server.');
+  }
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' });
+  res.end(readFileSync(file));
+}
+
+const server = createServer((req, res) => {
+  // Nothing a single request does may take the process down
+  handleAudit(req, res, () => serveStatic(req, res)).catch(err => {
+    console.error('Request failed:', err);
+    if (res.headersSent) return res.destroy();
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Internal server error' }));
+  });
+});
+
+const port = Number(readEnv('PORT')) || 3000;
+server.listen(port, () => console.log(`Audit server listening on http://localhost:${port}`));
@@ -0,0 +1,153 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import type { PageImage } from '../services/pageAudit';
+import { scanColor } from '../services/reportExport';
+import type { TileRect } from '../services/tiler';
+import type { DarkPatternScan } from '../types';
+
+/** Decoded RGBA pixels. */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// jpeg-js refuses images that would need more than this much memory to decode
+const MAX_DECODE_MB = 1024;
+
+/** Decodes a PNG or JPEG data URL. Other formats are rejected; the browser client re-encodes them first. */
+export function decodeDataUrl(dataUrl: string): RasterImage {
+  const match = /^data:(image\/(?:png|jpeg|jpg));base64,/.exec(dataUrl);
+  if (!match) throw new Error("Only PNG and JPEG data URLs are supported");
+  const bytes = Buffer.from(dataUrl.slice(match[0].length), 'base64');
+  if (match[1] === 'image/png') {
+    const png = PNG.sync.read(bytes);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: MAX_DECODE_MB });
+  return { width: decoded.width, height: decoded.height, data: decoded.data };
+}
+
+/**
+ * Cuts a region out of `image` and scales it to the output size. Each output pixel averages the source
+ * pixels it covers, which keeps small text legible when a tile is downscaled; upscaling repeats pixels.
+ */
+export function resample(image: RasterImage, x: number, y: number, width: number, height: number, outputWidth: number, outputHeight: number): RasterImage {
+  const out = new Uint8Array(outputWidth * outputHeight * 4);
+  const xStep = width / outputWidth;
+  const yStep = height / outputHeight;
+  for (let oy = 0; oy < outputHeight; oy++) {
+    const y0 = Math.min(image.height - 1, Math.floor(y + oy * yStep));
+    const y1 = Math.min(image.height, Math.max(y0 + 1, Math.floor(y + (oy + 1) * yStep)));
+    for (let ox = 0; ox < outputWidth; ox++) {
+      const x0 = Math.min(image.width - 1, Math.floor(x + ox * xStep));
+      const x1 = Math.min(image.width, Math.max(x0 + 1, Math.floor(x + (ox + 1) * xStep)));
+      let r = 0, g = 0, b = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        let p = (sy * image.width + x0) * 4;
+        for (let sx = x0; sx < x1; sx++, p += 4) {
+          r += image.data[p];
+          g += image.data[p + 1];
+          b += image.data[p + 2];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const q = (oy * outputWidth + ox) * 4;
+      out[q] = Math.round(r / count);
+      out[q + 1] = Math.round(g / count);
+      out[q + 2] = Math.round(b / count);
+      out[q + 3] = 255;
+    }
+  }
+  return { width: outputWidth, height: outputHeight, data: out };
+}
+
+export function encodeJpeg(image: RasterImage, quality = 90): string {
+  const encoded = jpeg.encode({ width: image.width, height: image.height, data: image.data }, quality);
+  return `data:image/jpeg;base64,${Buffer.from(encoded.data).toString('base64')}`;
+}
+
+export function encodePng(image: RasterImage): Buffer {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  return PNG.sync.write(png);
+}
+
+// 3x5 digit glyphs, one row per string, for numbering boxes without a font renderer
+const DIGITS = [
+  ['111', '101', '101', '101', '111'], ['010', '110', '010', '010', '111'], ['111', '001', '111', '100', '111'],
+  ['111', '001', '111', '001', '111'], ['101', '101', '111', '001', '001'], ['111', '100', '111', '001', '111'],
+  ['111', '100', '111', '101', '111'], ['111', '001', '010', '010', '010'], ['111', '101', '111', '101', '111'],
+  ['111', '101', '111', '001', '111']
+];
+
+function fillRect(image: RasterImage, x: number, y: number, width: number, height: number, rgb: number[], alpha = 1) {
+  const x0 = Math.max(0, Math.round(x)), y0 = Math.max(0, Math.round(y));
+  const x1 = Math.min(image.width, Math.round(x + width)), y1 = Math.min(image.height, Math.round(y + height));
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const p = (py * image.width + px) * 4;
+      for (let c = 0; c < 3; c++) image.data[p + c] = Math.round(image.data[p + c] * (1 - alpha) + rgb[c] * alpha);
+    }
+  }
+}
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/**
+ * Node counterpart of the report's annotateScreenshot: boxed findings tinted and outlined in their
+ * severity color, each with a number badge matching its position in `scans`. Draws on a copy.
+ */
+export function annotateRaster(source: RasterImage, scans: DarkPatternScan[]): RasterImage {
+  const image = { ...source, data: new Uint8Array(source.data) };
+  const stroke = Math.max(2, Math.round(image.width / 500));
+  const cell = Math.max(2, Math.round(image.width / 350));
+  scans.forEach((scan, i) => {
+    if (scan.coordinates.every(c => c === 0)) return;
+    const [ymin, xmin, ymax, xmax] = scan.coordinates;
+    const x = (xmin / 1000) * image.width;
+    const y = (ymin / 1000) * image.height;
+    const w = ((xmax - xmin) / 1000) * image.width;
+    const h = ((ymax - ymin) / 1000) * image.height;
+    const rgb = hexToRgb(scanColor(scan));
+
+    fillRect(image, x, y, w, h, rgb, 0.2);
+    fillRect(image, x, y, w, stroke, rgb);
+    fillRect(image, x, y + h - stroke, w, stroke, rgb);
+    fillRect(image, x, y, stroke, h, rgb);
+    fillRect(image, x + w - stroke, y, stroke, h, rgb);
+
+    const label = String(i + 1);
+    const badgeWidth = (label.length * 4 + 1) * cell;
+    const badgeHeight = 7 * cell;
+    const badgeY = y >= badgeHeight ? y - badgeHeight : y;
+    fillRect(image, x, badgeY, badgeWidth, badgeHeight, rgb);
+    [...label].forEach((digit, d) => DIGITS[Number(digit)].forEach((row, ry) => [...row].forEach((bit, rx) => {
+      if (bit === '1') fillRect(image, x + (1 + d * 4 + rx) * cell, badgeY + (1 + ry) * cell, cell, cell, [255, 255, 255]);
+    })));
+  });
+  return image;
+}
+
+export function rasterPage(image: RasterImage): PageImage {
+  return {
+    width: image.width,
+    height: image.height,
+    renderTile: async (tile: TileRect) => encodeJpeg(resample(image, tile.x, tile.y, tile.width, tile.height, tile.outputWidth, tile.outputHeight))
+  };
+}
+
+/** Node counterpart of the canvas crop the verifier uses in the browser. */
+export async function cropDataUrl(src: string, box: [number, number, number, number], padding = 0): Promise<string> {
+  const image = decodeDataUrl(src);
+  const [ymin, xmin, ymax, xmax] = box;
+  const padY = (ymax - ymin) * padding;
+  const padX = (xmax - xmin) * padding;
+  const top = Math.max(0, ((ymin - padY) / 1000) * image.height);
+  const left = Math.max(0, ((xmin - padX) / 1000) * image.width);
+  const bottom = Math.min(image.height, ((ymax + padY) / 1000) * image.height);
+  const right = Math.min(image.width, ((xmax + padX) / 1000) * image.width);
+  const width = Math.max(1, Math.round(right - left));
+  const height = Math.max(1, Math.round(bottom - top));
+  return encodeJpeg(resample(image, left, top, Math.max(1, right - left), Math.max(1, bottom - top), width, height));
+}
@@ -0,0 +1,101 @@
+import type { ProviderId } from "./auditProvider";
+import type { PageAuditResult } from "./pageAudit";
+import type { RulePack } from "./rulePack";
+import { ProviderError, parseRetryAfter } from "./providerError";
+import { DarkPatternScan, DomSnapshot, ScanResponse } from "../types";
+
+export const AUDIT_ENDPOINT = '/api/audit';
+
+/** Body of POST /api/audit. The server tiles the image, holds the provider keys and runs the audit. */
+export interface AuditApiRequest {
+  /** The full page as a PNG or JPEG data URL. */
+  image: string;
+  /** The session's rolling signature; the answer's signature has this step folded in. */
+  previous_signature?: Record<string, any>;
+  provider?: ProviderId;
+  /** A built-in pack id or a full custom pack, validated by the server. */
+  rule_pack?: string | RulePack;
+  coarse_pass?: boolean;
+  stream?: boolean;
+  verify?: 'mark' | 'hide';
+  dom?: DomSnapshot;
+}
+
+/** One line of the NDJSON answer. The last line is always `result` or `error`. */
+export type AuditApiEvent =
+  | { type: 'progress'; current: number; total: number; stage?: string }
+  | { type: 'scans'; scans: DarkPatternScan[] }
+  | { type: 'result'; scans: DarkPatternScan[]; thought_signature: ScanResponse['thought_signature']; tiles_audited: number; error?: string }
+  | { type: 'error'; status: number; message: string };
+
+export interface AuditApiOptions {
+  /** Origin of the audit server; empty for the page's own origin. */
+  baseUrl?: string;
+  token?: string;
+  signal?: AbortSignal;
+  onProgress?: (current: number, total: number, stage?: string) => void;
+  onScans?: (scans: DarkPatternScan[]) => void;
+}
+
+/**
+ * Sends a page to the audit server and follows its progress. HTTP failures (bad token, quota, invalid
+ * request) throw a ProviderError carrying the status; an aborted request throws "AbortError".
+ */
+export async function requestPageAudit(request: AuditApiRequest, options: AuditApiOptions = {}): Promise<PageAuditResult> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+
+  let res: Response;
+  try {
+    res = await fetch(`${(options.baseUrl || '').replace(/\/+$/, '')}${AUDIT_ENDPOINT}`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify(request)
+    });
+  } catch (err: any) {
+    if (options.signal?.aborted) throw new Error("AbortError");
+    throw new ProviderError(`Audit server unreachable: ${err.message || err}`);
+  }
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new ProviderError(body?.error || `Audit server HTTP ${res.status}`, res.status, parseRetryAfter(res.headers.get('retry-after')));
+  }
+  if (!res.body) throw new ProviderError("Audit server returned an empty stream.");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as AuditApiEvent;
+        switch (event.type) {
+          case 'progress':
+            options.onProgress?.(event.current, event.total, event.stage);
+            break;
+          case 'scans':
+            options.onScans?.(event.scans);
+            break;
+          case 'result':
+            return { scans: event.scans, thought_signature: event.thought_signature, tiles_audited: event.tiles_audited, ...(event.error ? { error: event.error } : {}) };
+          case 'error':
+            throw new ProviderError(event.message, event.status);
+        }
+      }
+    }
+  } catch (err: any) {
+    if (options.signal?.aborted) throw new Error("AbortError");
+    throw err;
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  throw new ProviderError("Audit server closed the stream before the result.");
+}
@@ -0,0 +1,251 @@
+/**
+ * Provider-agnostic prompt and response contract for the forensic audit, generated from a rule pack.
+ * The schema uses plain JSON-schema type names; providers translate it to their own dialect.
+ */
+import { DarkPatternScan } from "../types";
+import { DEFAULT_RULE_PACK, RulePack } from "./rulePack";
+import { patternLabel } from "./taxonomy";
+
+function taxonomySection(pack: RulePack): string {
+  const lines = pack.patterns.map(p => {
+    const refs = p.references?.length ? ` [${p.references.join('; ')}]` : '';
+    return `- ${p.id} (${p.name}, default ${p.default_severity.toUpperCase()})${refs}: ${p.description} ${p.prompt}`;
+  });
+  return `# DECEPTION TAXONOMY (${pack.name} v${pack.version})
+Use exactly one of these ids as 'pattern_type':
+${lines.join('\n')}`;
+}
+
+/** System prompt for a rule pack. The calibration and taxonomy sections come from the pack; the rest is fixed. */
+export function buildSystemInstruction(pack: RulePack = DEFAULT_RULE_PACK): string {
+  return `
+# MISSION: DIGITAL BODYGUARD (FORENSIC AUDIT)
+You are the ShadowGuard Auditor (Pro-Tier). Your objective is to PROTECT the user from deceptive UI patterns with mathematical and psychological precision.
+
+# AUDIENCE
+The END-USER. You are their cynical, highly-trained digital advocate.
+
+# SENSITIVITY CALIBRATION
+${pack.prompt.calibration.map(line => `- ${line}`).join('\n')}
+
+# COORDINATE ACCURACY (TACTICAL LOCK)
+- Provide pixel-tight bounding boxes [ymin, xmin, ymax, xmax] relative to the image (0-1000).
+- You are a precision instrument. Coordinates must wrap the deceptive element exactly.
+
+# EVIDENCE & CONFIDENCE
+- 'evidence_text': quote the exact on-screen text the finding rests on, verbatim. Use an empty string only when the pattern is purely visual.
+- 'confidence': 0-1, how sure you are that this is deception rather than ordinary marketing. A sale banner that makes no false claim is not a finding.
+
+# THE SECURITY BRIEF & DEEP REASONING
+- CROSS-STEP AUDIT: Compare current UI states to the 'catalog_anchors'. 
+- TEMPORAL REASONING: If prices change or "limited time" offers reset, EXPOSE it.
+- THE CATALOG LOCK: Track items in 'catalog_anchors'. Flag even $0.01 discrepancies.
+- LINE ITEMS: Anchor every fee, tax, shipping, discount, subtotal and total line too, with its 'kind'. Copy 'price' exactly as displayed; give 'quantity' and 'unit_price' when the page shows them.
+- REASONING PATH: In your 'reasoning_path', briefly explain the psychological lever being pulled by the deceptive design.
+
+# DEFENSIVE MANEUVER INSTRUCTIONS
+Your 'action_fix' MUST be a tactical instruction for the user to avoid the trap.
+- RIGHT: "The 'X' button is hidden in the top-right. Click it carefully to avoid the subscription pop-up."
+- RIGHT: "This 'Limited Time' timer is fake; it resets every time you refresh. Don't let it rush your decision."
+
+${taxonomySection(pack)}
+TONE: Clinical, protective, and cynical.
+`;
+}
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+  required?: string[];
+}
+
+/** Response contract for a rule pack; `pattern_type` is restricted to the pack's pattern ids. */
+export function buildScanResponseSchema(pack: RulePack = DEFAULT_RULE_PACK): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      thought_signature: {
+        type: 'object',
+        properties: {
+          reasoning_path: { type: 'string' },
+          security_brief: { type: 'string' },
+          catalog_anchors: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                price: { type: 'string' },
+                numeric_price: { type: 'number' },
+                original_price: { type: 'string' },
+                original_numeric_price: { type: 'number' },
+                coordinates: { type: 'array', items: { type: 'number' } },
+                is_violation: { type: 'boolean' },
+                is_currently_visible: { type: 'boolean' },
+                kind: { type: 'string', enum: ['item', 'fee', 'tax', 'shipping', 'discount', 'subtotal', 'total'] },
+                quantity: { type: 'number' },
+                unit_price: { type: 'string' }
+              },
+              required: ["id", "name", "price", "numeric_price", "coordinates", "is_violation", "is_currently_visible"]
+            }
+          }
+        },
+        required: ["reasoning_path", "catalog_anchors", "security_brief"]
+      },
+      scans: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            pattern_type: { type: 'string', enum: pack.patterns.map(p => p.id) },
+            coordinates: { type: 'array', items: { type: 'number' } },
+            severity: { type: 'string' },
+            truth_label: { type: 'string' },
+            action_fix: { type: 'string' },
+            confidence: { type: 'number' },
+            evidence_text: { type: 'string' }
+          },
+          required: ["pattern_type", "coordinates", "severity", "truth_label", "action_fix", "confidence", "evidence_text"]
+        }
+      }
+    },
+    required: ["scans", "thought_signature"]
+  };
+}
+
+export function buildAuditPrompt(context: Record<string, any>, markup?: string): string {
+  const evidence = markup
+    ? `\nMARKUP EVIDENCE (from the page DOM for this segment; trust it over appearance for control state and hidden content):\n${markup}`
+    : '';
+  return `AUDIT CONTEXT: ${JSON.stringify(context)}${evidence}\nPerform deep forensic analysis of this UI segment. Flag all deception.`;
+}
+
+/** Second-look reviewer. It sees only a crop of the flagged element, so it cannot be swayed by the first pass's framing. */
+export const VERIFIER_INSTRUCTION = `
+# MISSION: SECOND OPINION
+Another auditor flagged the element in this image crop as a deceptive design pattern. Decide whether the claim holds up.
+
+# RULES
+- Judge only what the crop shows. Quoted evidence that does not appear in the crop counts against the claim.
+- REJECT ordinary marketing: a plain sale banner, a real discount or a clearly labelled optional extra is not deception.
+- CONFIRM only when the crop itself shows the manipulation described.
+- 'confidence' is 0-1: how sure you are that the element really is the claimed pattern.
+- 'reason' is one short sentence a shopper can understand.
+`;
+
+export const VERIFIER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['confirm', 'reject'] },
+    confidence: { type: 'number' },
+    reason: { type: 'string' }
+  },
+  required: ['verdict', 'confidence', 'reason']
+};
+
+export function buildVerifierPrompt(scan: DarkPatternScan): string {
+  const quoted = scan.evidence_text ? `\nQUOTED EVIDENCE: "${scan.evidence_text}"` : '';
+  return `CLAIM: ${patternLabel(scan.pattern_type)} (${scan.severity} severity)\nFINDING: ${scan.truth_label}${quoted}\nDoes the crop support this claim?`;
+}
+
+/** Reads one screen of a sign-up or cancellation flow. It counts effort rather than judging; scoring happens locally across the flow. */
+export const FLOW_SCREEN_INSTRUCTION = `
+# MISSION: FLOW EFFORT COUNT
+This image is one screen of a subscription flow, shown in order. Count what the screen asks of the user to get to the next screen.
+
+# RULES
+- 'clicks': taps or clicks needed on this screen to move on, including ticking boxes and choosing options. 0 when the flow is finished here.
+- 'form_fields': fields the user must type into.
+- 'retention_offers': discounts, pauses, downgrades or "are you sure" offers shown to keep the user subscribed.
+- 'confirmshaming': decline or cancel wording that guilts or mocks the user, e.g. "No thanks, I like paying full price".
+- 'channel_switches': instructions to leave the website to continue, e.g. "call us to cancel", "chat with an agent", "send a letter". 'channel' is phone, chat, email, mail or in_person.
+- Quote 'text' verbatim. Boxes are [ymin, xmin, ymax, xmax] relative to the image (0-1000).
+- Report only what the screen shows. Empty lists are expected on plain screens.
+`;
+
+const FLOW_ELEMENT: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    coordinates: { type: 'array', items: { type: 'number' } }
+  },
+  required: ['text', 'coordinates']
+};
+
+export const FLOW_SCREEN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    clicks: { type: 'integer' },
+    form_fields: { type: 'integer' },
+    retention_offers: { type: 'array', items: FLOW_ELEMENT },
+    confirmshaming: { type: 'array', items: FLOW_ELEMENT },
+    channel_switches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { ...FLOW_ELEMENT.properties, channel: { type: 'string', enum: ['phone', 'chat', 'email', 'mail', 'in_person'] } },
+        required: ['text', 'coordinates', 'channel']
+      }
+    }
+  },
+  required: ['summary', 'clicks', 'form_fields', 'retention_offers', 'confirmshaming', 'channel_switches']
+};
+
+export function buildFlowScreenPrompt(phase: 'signup' | 'cancellation', position: number, total: number): string {
+  return `FLOW: ${phase === 'signup' ? 'sign-up' : 'cancellation'}, screen ${position} of ${total}.\nCount the effort this screen asks for.`;
+}
+
+/** Locates a cookie consent banner and its controls. Styling is measured from pixels afterwards, so the model only has to place and label. */
+export const CONSENT_INSTRUCTION = `
+# MISSION: CONSENT BANNER MAP
+Find the cookie or tracking consent banner (CMP) in this screenshot and map its controls. Do not judge it; only report what is there.
+
+# RULES
+- 'banner_found': false when there is no consent banner or dialog; leave the lists empty then.
+- 'banner': box around the whole banner or dialog. 'cmp': the vendor if it is named on screen (OneTrust, Cookiebot, ...), else "".
+- 'buttons': every button or link in the banner. 'role' is accept_all (accept, agree, allow all, OK), reject_all (reject all, decline, refuse, continue without accepting), settings (manage options, preferences, more choices) or other.
+- 'toggles': every purpose or vendor switch or checkbox that is visible. 'checked' is its current state. 'essential' is true for strictly necessary cookies. 'legitimate_interest' is true when the switch is labelled as legitimate interest or sits under such a heading.
+- Quote 'text' and 'label' verbatim. Boxes are [ymin, xmin, ymax, xmax] relative to the image (0-1000), tight around the control itself.
+`;
+
+export const CONSENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    banner_found: { type: 'boolean' },
+    banner: { type: 'array', items: { type: 'number' } },
+    cmp: { type: 'string' },
+    buttons: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          role: { type: 'string', enum: ['accept_all', 'reject_all', 'settings', 'other'] },
+          text: { type: 'string' },
+          coordinates: { type: 'array', items: { type: 'number' } }
+        },
+        required: ['role', 'text', 'coordinates']
+      }
+    },
+    toggles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          coordinates: { type: 'array', items: { type: 'number' } },
+          checked: { type: 'boolean' },
+          essential: { type: 'boolean' },
+          legitimate_interest: { type: 'boolean' }
+        },
+        required: ['label', 'coordinates', 'checked', 'essential', 'legitimate_interest']
+      }
+    }
+  },
+  required: ['banner_found', 'banner', 'cmp', 'buttons', 'toggles']
+};
+
+export const CONSENT_PROMPT = "Map the consent banner in this screenshot.";
@@ -0,0 +1,76 @@
+import type { JsonSchema } from './auditPrompt';
+import type { TileLimits } from './tiler';
+import { readEnv } from './config';
+import { geminiProvider } from './geminiService';
+import { createOpenAICompatibleProvider } from './openaiProvider';
+import { createMockProvider } from './mockProvider';
+
+/**
+ * A single multimodal generation request. Providers only turn this into raw model text;
+ * parsing, clamping and anchor merging stay in the shared audit pipeline.
+ */
+export interface AuditRequest {
+  systemInstruction: string;
+  prompt: string;
+  /** Data URL or bare base64 JPEG. */
+  image: string;
+  schema: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface AuditProvider {
+  id: string;
+  label: string;
+  generate(request: AuditRequest): Promise<string>;
+  /** Optional token streaming. Yields raw text chunks whose concatenation equals the full response. */
+  stream?(request: AuditRequest): AsyncIterable<string>;
+  /** Image size the model reads without internal downsampling; the tiler sizes tiles to fit. */
+  inputLimits?: Partial<TileLimits>;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+const providerCache = new Map<ProviderId, AuditProvider>();
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI-Compatible' },
+  { id: 'mock', label: 'Local Replay' }
+];
+
+/** Provider from VITE_AUDIT_PROVIDER. An unknown id is reported and ignored so the app still starts on Gemini. */
+export function loadDefaultProviderId(value = readEnv('VITE_AUDIT_PROVIDER')): ProviderId {
+  if (!value) return 'gemini';
+  const option = PROVIDER_OPTIONS.find(p => p.id === value);
+  if (option) return option.id;
+  console.warn(`VITE_AUDIT_PROVIDER ignored. "${value}" is not one of ${PROVIDER_OPTIONS.map(p => p.id).join(', ')}.`);
+  return 'gemini';
+}
+
+export const DEFAULT_PROVIDER_ID: ProviderId = loadDefaultProviderId();
+
+export function getAuditProvider(id: ProviderId = DEFAULT_PROVIDER_ID): AuditProvider {
+  const cached = providerCache.get(id);
+  if (cached) return cached;
+
+  let provider: AuditProvider;
+  switch (id) {
+    case 'openai':
+      provider = createOpenAICompatibleProvider({
+        baseUrl: readEnv('VITE_OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        apiKey: readEnv('OPENAI_API_KEY'),
+        model: readEnv('VITE_OPENAI_MODEL') || 'gpt-4o'
+      });
+      break;
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    case 'gemini':
+      provider = geminiProvider;
+      break;
+    default:
+      throw new Error(`Unknown audit provider: ${id}`);
+  }
+  providerCache.set(id, provider);
+  return provider;
+}
@@ -0,0 +1,351 @@
+import { ScanResponse, DarkPatternScan, CatalogAnchor, toSeverity, DefensiveStatus, DomSnapshot, PatternType } from "../types";
+import { parseMoney } from "../utils";
+import { AuditProvider, AuditRequest, getAuditProvider } from "./auditProvider";
+import { VERIFIER_INSTRUCTION, VERIFIER_SCHEMA, buildAuditPrompt, buildScanResponseSchema, buildSystemInstruction, buildVerifierPrompt } from "./auditPrompt";
+import { cropImage } from "./captureService";
+import { domDigest, ruleScansForRegion } from "./domDetectors";
+import { dedupeScans } from "./findingMerge";
+import { IncrementalJSONParser } from "./jsonStream";
+import { ProviderError } from "./providerError";
+import { DEFAULT_RULE_PACK, RulePack, patternForType, resolvePatternType } from "./rulePack";
+import { calculateSafetyMetrics } from "./scoring";
+import { TokenBucket, computeBackoff, sleep } from "./tileScheduler";
+
+const MAX_RETRIES = 2;
+// Quota errors are expected under load and carry a server hint, so they get a longer leash.
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+export interface AnalyzeOptions {
+  /** Backend that produces the raw model text. Defaults to the configured provider. */
+  provider?: AuditProvider;
+  /** Base delay for the exponential retry backoff. Tests pass 0. */
+  retryDelayMs?: number;
+  /** Shared request budget; every provider call takes a token and 429s pause the bucket. */
+  rateLimiter?: TokenBucket;
+  /** Use the provider's token stream when it has one. */
+  stream?: boolean;
+  /**
+   * Called with each scan as soon as its JSON object closes in the stream. These are provisional:
+   * the resolved ScanResponse is authoritative and may differ if the output had to be repaired.
+   */
+  onScan?: (scan: DarkPatternScan) => void;
+  /**
+   * Markup of the page this image shows. Its digest goes into the prompt and the DOM rules' findings are
+   * merged into the result. `region` is the part of the page the image covers, in page 0-1000 space.
+   */
+  dom?: { snapshot: DomSnapshot; region?: [number, number, number, number] };
+  /** Taxonomy, prompt and scoring to audit with. Defaults to the core pack. */
+  rulePack?: RulePack;
+  /** Run the verifier pass on the model's boxed findings before scoring. */
+  verify?: VerifyOptions;
+}
+
+export interface VerifyOptions {
+  /** Rejected findings are dropped ('hide') or kept and shown as low confidence ('mark'). */
+  rejected: 'hide' | 'mark';
+  /** Context kept around each box, as a share of its size. */
+  padding?: number;
+  /** Cuts a box out of the image as a data URL. Defaults to a canvas crop; tests pass a stub. */
+  crop?: (image: string, box: [number, number, number, number], padding: number) => Promise<string>;
+}
+
+export function tryParsePartialJSON(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    let recovered = text.trim();
+    if (!recovered.startsWith('{')) {
+      const firstBrace = recovered.indexOf('{');
+      if (firstBrace !== -1) recovered = recovered.substring(firstBrace);
+    }
+    let openBraces = (recovered.match(/\{/g) || []).length - (recovered.match(/\}/g) || []).length;
+    if (openBraces > 0) {
+       for(let i=0; i<openBraces; i++) recovered += '}';
+    }
+    try {
+      return JSON.parse(recovered);
+    } catch {
+      const lastBrace = recovered.lastIndexOf('}');
+      if (lastBrace > 0) return JSON.parse(recovered.substring(0, lastBrace + 1));
+    }
+    throw e;
+  }
+}
+
+/**
+ * Drops code fences and surrounding prose. Everything from the first brace onward is kept,
+ * even when unterminated, so tryParsePartialJSON can still repair truncated output.
+ */
+export function stripMarkdown(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  const body = fenced && fenced[1].includes('{') ? fenced[1] : text;
+  const start = body.indexOf('{');
+  return start === -1 ? text : body.substring(start).trim();
+}
+
+export function clampCoordinates(coords: any): [number, number, number, number] {
+  if (!Array.isArray(coords) || coords.length < 4) return [0, 0, 0, 0];
+  return coords.map(c => Math.max(0, Math.min(1000, Math.round(Number(c) || 0)))) as [number, number, number, number];
+}
+
+/** 0-1 confidence from a number or numeric string; percentages (1-100) are scaled down. */
+export function normalizeConfidence(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) return undefined;
+  const scaled = n > 1 ? n / 100 : n;
+  return Math.round(Math.max(0, Math.min(1, scaled)) * 100) / 100;
+}
+
+/**
+ * Maps the label onto the canonical taxonomy (keeping the original when it differs), clamps the box and
+ * fixes the severity; a missing severity falls back to the pack pattern's default.
+ */
+export function normalizeScan(raw: any, pack: RulePack = DEFAULT_RULE_PACK): DarkPatternScan {
+  const label = typeof raw?.pattern_type === 'string' ? raw.pattern_type : '';
+  const patternType = resolvePatternType(pack, label);
+  const fallback = patternForType(pack, patternType)?.default_severity;
+  const { confidence, evidence_text, ...rest } = raw || {};
+  const certainty = normalizeConfidence(confidence);
+  const quote = typeof evidence_text === 'string' ? evidence_text.trim() : '';
+  return {
+    ...rest,
+    ...(certainty !== undefined ? { confidence: certainty } : {}),
+    ...(quote ? { evidence_text: quote } : {}),
+    pattern_type: patternType,
+    ...(label && label !== patternType ? { raw_pattern_type: label } : {}),
+    coordinates: clampCoordinates(raw?.coordinates),
+    severity: !raw?.severity && fallback ? fallback : toSeverity(raw?.severity)
+  };
+}
+
+async function collectStream(provider: AuditProvider, request: AuditRequest, pack: RulePack, onScan: (scan: DarkPatternScan) => void): Promise<string> {
+  const parser = new IncrementalJSONParser(['scans', '*'], (value) => onScan(normalizeScan(value, pack)));
+  for await (const chunk of provider.stream!(request)) {
+    if (request.signal?.aborted) throw new Error("AbortError");
+    parser.push(chunk);
+  }
+  return parser.text;
+}
+
+const DEFAULT_VERIFY_PADDING = 0.25;
+
+/**
+ * Second look at each boxed model finding: the provider gets a crop of the box and the claim, and must
+ * confirm or reject it. Findings from local engines (already backed by evidence), card-only findings
+ * and verified-fair notes are passed through. A verifier call that fails leaves its finding unverified
+ * rather than failing the audit.
+ */
+export async function verifyScans(
+  scans: DarkPatternScan[],
+  image: string,
+  provider: AuditProvider,
+  options: VerifyOptions,
+  context: { signal?: AbortSignal; rateLimiter?: TokenBucket } = {}
+): Promise<DarkPatternScan[]> {
+  const padding = options.padding ?? DEFAULT_VERIFY_PADDING;
+  const crop = options.crop || cropImage;
+  const results: DarkPatternScan[] = [];
+  for (const scan of scans) {
+    if (context.signal?.aborted) throw new Error("AbortError");
+    if (scan.evidence || scan.pattern_type === PatternType.VerifiedFair || scan.coordinates.every(c => c === 0)) {
+      results.push(scan);
+      continue;
+    }
+    try {
+      await context.rateLimiter?.take(context.signal);
+      const text = await provider.generate({
+        systemInstruction: VERIFIER_INSTRUCTION,
+        prompt: buildVerifierPrompt(scan),
+        image: await crop(image, scan.coordinates, padding),
+        schema: VERIFIER_SCHEMA,
+        signal: context.signal
+      });
+      const reply = tryParsePartialJSON(stripMarkdown(text || '{}'));
+      const verdict = String(reply.verdict || '').toLowerCase();
+      if (!verdict.startsWith('confirm') && !verdict.startsWith('reject')) throw new Error(`Unreadable verdict "${reply.verdict}"`);
+      const confirmed = verdict.startsWith('confirm');
+      if (!confirmed && options.rejected === 'hide') continue;
+      const certainty = normalizeConfidence(reply.confidence);
+      results.push({
+        ...scan,
+        ...(certainty !== undefined ? { confidence: confirmed ? certainty : Math.min(certainty, scan.confidence ?? 1) } : {}),
+        verification: { verdict: confirmed ? 'confirmed' : 'rejected', reason: String(reply.reason || '') }
+      });
+    } catch (err: any) {
+      if (err.message === "AbortError" || context.signal?.aborted) throw new Error("AbortError");
+      console.warn("Verifier skipped a finding:", err.message);
+      results.push(scan);
+    }
+  }
+  return results;
+}
+
+/** Fills in what a truncated or loosely typed reply can leave out of an anchor: a clamped box, a name and a price. */
+function normalizeAnchor(raw: any): CatalogAnchor {
+  const text = (value: any) => (value === undefined || value === null ? '' : String(value));
+  return { ...raw, name: text(raw.name), price: text(raw.price), coordinates: clampCoordinates(raw.coordinates) };
+}
+
+/**
+ * Folds the anchors reported for the current segment into the session catalog.
+ * Anchors match by id first, then by case-insensitive name; the first sighting keeps the original price.
+ * Drift is judged by re-parsing the displayed price strings, never by the model's numeric fields alone:
+ * if either string is unreadable the anchor is not marked as a violation.
+ */
+export function mergeCatalogAnchors(previous: CatalogAnchor[], incoming: CatalogAnchor[]): CatalogAnchor[] {
+  const mergedAnchors = [...previous];
+  
+  incoming.forEach((received: CatalogAnchor) => {
+    // The displayed string is the source of truth; the model's numeric_price only fills in when it cannot be read
+    const money = parseMoney(received.price);
+    const inAnchor: CatalogAnchor = money ? { ...received, money, numeric_price: money.amount } : received;
+
+    let existingIdx = mergedAnchors.findIndex(a => a.id === inAnchor.id);
+    if (existingIdx === -1 && inAnchor.name) {
+      existingIdx = mergedAnchors.findIndex(a => a.name.trim().toLowerCase() === inAnchor.name.trim().toLowerCase());
+    }
+
+    if (existingIdx > -1) {
+      const existing = mergedAnchors[existingIdx];
+      const originalPrice = existing.original_price || inAnchor.original_price;
+      const before = parseMoney(originalPrice);
+      const isViolation = !!money && !!before && (
+        Math.abs(money.amount - before.amount) > 0.01 ||
+        (!!money.currency && !!before.currency && money.currency !== before.currency)
+      );
+      
+      mergedAnchors[existingIdx] = {
+        ...inAnchor,
+        id: existing.id, 
+        original_price: originalPrice,
+        original_numeric_price: existing.original_numeric_price ?? inAnchor.numeric_price,
+        is_violation: isViolation
+      };
+    } else {
+      mergedAnchors.push({
+        ...inAnchor,
+        original_price: inAnchor.price,
+        original_numeric_price: inAnchor.numeric_price,
+        is_violation: false 
+      });
+    }
+  });
+  return mergedAnchors;
+}
+
+/**
+ * Combines per-tile signatures into one, always in tile order so the outcome does not depend on
+ * which tile finished first. Every tile is audited against the same base signature, so only anchors
+ * a tile actually saw (visible ones, or ones new to the catalog) update the fold.
+ */
+export function foldTileSignatures(base: Record<string, any>, tileSignatures: Record<string, any>[]): Record<string, any> {
+  const baseAnchors: CatalogAnchor[] = base.catalog_anchors || [];
+  const baseIds = new Set(baseAnchors.map(a => a.id));
+  const folded = tileSignatures.reduce((acc, signature) => {
+    const observed = ((signature.catalog_anchors as CatalogAnchor[]) || [])
+      .filter(a => a.is_currently_visible || !baseIds.has(a.id));
+    return { ...acc, ...signature, catalog_anchors: mergeCatalogAnchors(acc.catalog_anchors, observed) };
+  }, { ...base, catalog_anchors: baseAnchors });
+  // Anchors carried over untouched from earlier steps were not seen on this page
+  folded.catalog_anchors = (folded.catalog_anchors as CatalogAnchor[]).map(a =>
+    baseAnchors.includes(a) && a.is_currently_visible ? { ...a, is_currently_visible: false } : a
+  );
+  return folded;
+}
+
+/**
+ * One provider call under the retry policy analyzeUIScreen uses: rate limits get the longer leash and
+ * pause the shared bucket, other failures back off. Throws the last error once the retries run out.
+ */
+export async function withRetries<T>(
+  run: () => Promise<T>,
+  options: { signal?: AbortSignal; rateLimiter?: TokenBucket; retryDelayMs?: number } = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw new Error("AbortError");
+    await options.rateLimiter?.take(options.signal);
+    try {
+      return await run();
+    } catch (err: any) {
+      if (err.name === 'AbortError' || err.message === 'AbortError') throw err;
+      const rateLimited = err instanceof ProviderError && err.isRateLimit;
+      if (attempt >= (rateLimited ? MAX_RATE_LIMIT_RETRIES : MAX_RETRIES)) throw err;
+      const delay = computeBackoff(attempt + 1, err instanceof ProviderError ? err.retryAfterMs : undefined, options.retryDelayMs ?? 2000);
+      if (rateLimited) options.rateLimiter?.pause(delay);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+export async function analyzeUIScreen(
+  imageBase64: string, 
+  previousSignature: Record<string, any> = {},
+  signal?: AbortSignal,
+  options: AnalyzeOptions = {}
+): Promise<ScanResponse> {
+  let attempt = 0;
+  const provider = options.provider || getAuditProvider();
+  const retryDelayMs = options.retryDelayMs ?? 2000;
+  const pack = options.rulePack || DEFAULT_RULE_PACK;
+
+  const filteredPrevious = {
+    catalog_anchors: (previousSignature.catalog_anchors as CatalogAnchor[]) || [],
+    security_brief: previousSignature.security_brief || "Session Start.",
+  };
+  const markup = options.dom ? domDigest(options.dom.snapshot, options.dom.region) : undefined;
+  const ruleScans = options.dom ? ruleScansForRegion(options.dom.snapshot, options.dom.region) : [];
+
+  while (true) {
+    if (signal?.aborted) throw new Error("AbortError");
+    await options.rateLimiter?.take(signal);
+    try {
+      const request: AuditRequest = {
+        systemInstruction: buildSystemInstruction(pack),
+        prompt: buildAuditPrompt(filteredPrevious, markup),
+        image: imageBase64,
+        schema: buildScanResponseSchema(pack),
+        signal
+      };
+      // Only the first attempt streams; a retry would replay findings the caller already rendered.
+      const text = options.stream && provider.stream && attempt === 0
+        ? await collectStream(provider, request, pack, options.onScan || (() => {}))
+        : await provider.generate(request);
+
+      const parsed = tryParsePartialJSON(stripMarkdown(text || '{}'));
+
+      const normalized: DarkPatternScan[] = (parsed.scans || []).map((raw: any) => normalizeScan(raw, pack));
+      const modelScans = options.verify
+        ? await verifyScans(normalized, imageBase64, provider, options.verify, { signal, rateLimiter: options.rateLimiter })
+        : normalized;
+      // Rule findings go first so their exact boxes and evidence survive a merge with the model's copy
+      const clampedScans = ruleScans.length ? dedupeScans([...ruleScans, ...modelScans]) : modelScans;
+      
+      const reported = parsed.thought_signature?.catalog_anchors;
+      const anchors: CatalogAnchor[] = (Array.isArray(reported) ? reported : []).filter(a => a && typeof a === 'object').map(normalizeAnchor);
+      const mergedAnchors = mergeCatalogAnchors(filteredPrevious.catalog_anchors, anchors);
+
+      return { 
+        viewport_meta: calculateSafetyMetrics(clampedScans, pack),
+        scans: clampedScans, 
+        thought_signature: { ...parsed.thought_signature, catalog_anchors: mergedAnchors } 
+      };
+    } catch (err: any) {
+      if (err.name === 'AbortError' || err.message === 'AbortError') throw err;
+      const rateLimited = err instanceof ProviderError && err.isRateLimit;
+      if (attempt < (rateLimited ? MAX_RATE_LIMIT_RETRIES : MAX_RETRIES)) {
+        attempt++;
+        const delay = computeBackoff(attempt, err instanceof ProviderError ? err.retryAfterMs : undefined, retryDelayMs);
+        if (rateLimited) options.rateLimiter?.pause(delay);
+        await sleep(delay, signal);
+        continue;
+      }
+      return { 
+        viewport_meta: { threat_count: 0, status: DefensiveStatus.Caution, advice: "System Focus Failed." }, 
+        scans: [], 
+        thought_signature: { ...filteredPrevious, reasoning_path: "Audit halted due to resource constraints." }, 
+        error: rateLimited ? "Neural Link Failure (Rate Limited)." : "Neural Link Failure (Rate Limited or Busy)." 
+      };
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { DefensiveStatus, PatternType, ScanResponse, Severity } from "../types";
+
+/** One line of the batch CLI's summary. `status` is null when the page could not be audited at all, including when every provider request failed. */
+export interface PageSummary {
+  name: string;
+  status: DefensiveStatus | null;
+  /** Findings that count towards the verdict: no verified-fair notes, nothing the scoring excluded. */
+  findings: number;
+  high: number;
+  /** Consent banner verdict, when the page was audited in consent mode. */
+  consent?: 'pass' | 'fail' | 'no banner';
+  error?: string;
+}
+
+export function summarizePage(name: string, response: ScanResponse | null, error?: string): PageSummary {
+  const counted = (response?.viewport_meta.breakdown?.contributions || []).filter(c => !c.excluded && c.pattern_type !== PatternType.VerifiedFair);
+  const message = error || response?.error;
+  const consent = response?.viewport_meta.consent;
+  return {
+    name,
+    status: response && !response.audit_failed ? response.viewport_meta.status : null,
+    findings: counted.length,
+    high: counted.filter(s => s.severity === Severity.High).length,
+    ...(consent ? { consent: !consent.banner_found ? 'no banner' : consent.passed ? 'pass' : 'fail' } : {}),
+    ...(message ? { error: message } : {})
+  };
+}
+
+const pad = (text: string, width: number) => text.padEnd(width);
+
+export function formatSummaryTable(rows: PageSummary[]): string {
+  const nameWidth = Math.max(4, ...rows.map(r => r.name.length)) + 2;
+  const lines = [
+    `${pad('page', nameWidth)}${pad('verdict', 24)}${pad('findings', 10)}${pad('high', 6)}note`,
+    ...rows.map(r => `${pad(r.name, nameWidth)}${pad(r.status || 'FAILED', 24)}${pad(String(r.findings), 10)}${pad(String(r.high), 6)}${[r.consent && `consent ${r.consent}`, r.error].filter(Boolean).join('; ')}`)
+  ];
+  const compromised = rows.filter(r => r.status === DefensiveStatus.Compromised).length;
+  const failed = rows.filter(r => r.status === null).length;
+  lines.push('', `${rows.length} page${rows.length === 1 ? '' : 's'}, ${compromised} compromised${failed ? `, ${failed} failed` : ''}`);
+  return lines.join('\n');
+}
+
+/**
+ * 1 when any page is Compromised or fails its consent checks, so a QA step can fail the build; otherwise 2
+ * when a page could not be audited.
+ */
+export function batchExitCode(rows: PageSummary[]): number {
+  if (rows.some(r => r.status === DefensiveStatus.Compromised || r.consent === 'fail')) return 1;
+  if (rows.some(r => r.status === null)) return 2;
+  return 0;
+}
@@ -0,0 +1,286 @@
+import { DarkPatternScan, DefensiveStatus, PatternCategory, PatternType, ScanResponse, Severity } from "../types";
+import type { DatasetLabel } from "./feedback";
+import { DEFAULT_RULE_PACK, RulePack } from "./rulePack";
+import { calculateSafetyMetrics } from "./scoring";
+import { PATTERN_TAXONOMY, canonicalPatternType, isPatternType } from "./taxonomy";
+
+export const BENCHMARK_FORMAT = 'optic-benchmark-run';
+
+type Box = [number, number, number, number];
+
+/** One labelled screenshot of the corpus. */
+export interface BenchmarkCase {
+  id: string;
+  /** Data URL of the screenshot. */
+  image: string;
+  labels: DatasetLabel[];
+  /** Expected page status; derived from the labels when the corpus does not give one. */
+  status: DefensiveStatus;
+  /** Raw model text recorded for this screenshot, replayed by the recorded provider. */
+  recorded?: string;
+}
+
+export interface FindingMatch {
+  label: number;
+  prediction: number;
+  /** Box overlap; null when either side is a card-only finding and matched on type alone. */
+  iou: number | null;
+  severity_agrees: boolean;
+}
+
+export interface CaseResult {
+  id: string;
+  expected_status: DefensiveStatus;
+  predicted_status: DefensiveStatus;
+  labels: DatasetLabel[];
+  predictions: DatasetLabel[];
+  matches: FindingMatch[];
+  /** Indices into `predictions` that matched no label. */
+  false_positives: number[];
+  /** Indices into `labels` that no prediction matched. */
+  false_negatives: number[];
+  error?: string;
+}
+
+export interface DetectionScore {
+  tp: number;
+  fp: number;
+  fn: number;
+  /** Null when there is nothing to divide by (no predictions, or no labels). */
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface BenchmarkRun {
+  format: typeof BENCHMARK_FORMAT;
+  version: 1;
+  started_at: string;
+  /** Whatever identifies the setup: provider, model, thinking level, rule pack, corpus. */
+  config: Record<string, string | number>;
+  iou_threshold: number;
+  cases: CaseResult[];
+  overall: DetectionScore;
+  categories: Partial<Record<PatternCategory, DetectionScore>>;
+  /** Matched findings whose severity equals the label's. */
+  severity_agreement: { agreed: number; matched: number; rate: number | null };
+  status_accuracy: { correct: number; total: number; rate: number | null };
+}
+
+export const DEFAULT_IOU_THRESHOLD = 0.5;
+
+const isCardOnly = (box: Box) => box.every(c => c === 0);
+
+/** Intersection over union of two [ymin, xmin, ymax, xmax] boxes. */
+export function iou(a: Box, b: Box): number {
+  const height = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const width = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  if (height <= 0 || width <= 0) return 0;
+  const intersection = height * width;
+  const area = (box: Box) => Math.max(0, box[2] - box[0]) * Math.max(0, box[3] - box[1]);
+  return intersection / (area(a) + area(b) - intersection);
+}
+
+/**
+ * Pairs predictions with labels of the same pattern type, best overlap first, each used at most once.
+ * Boxed pairs need an IoU of at least `threshold`; a card-only finding on either side matches on type alone.
+ */
+export function matchFindings(labels: DatasetLabel[], predictions: DatasetLabel[], threshold = DEFAULT_IOU_THRESHOLD): FindingMatch[] {
+  const candidates: { label: number; prediction: number; iou: number | null; rank: number }[] = [];
+  labels.forEach((label, l) => {
+    predictions.forEach((prediction, p) => {
+      if (label.pattern_type !== prediction.pattern_type) return;
+      if (isCardOnly(label.coordinates) || isCardOnly(prediction.coordinates)) {
+        candidates.push({ label: l, prediction: p, iou: null, rank: 0 });
+        return;
+      }
+      const overlap = iou(label.coordinates, prediction.coordinates);
+      if (overlap >= threshold) candidates.push({ label: l, prediction: p, iou: overlap, rank: overlap });
+    });
+  });
+  candidates.sort((a, b) => b.rank - a.rank || a.label - b.label || a.prediction - b.prediction);
+
+  const usedLabels = new Set<number>();
+  const usedPredictions = new Set<number>();
+  const matches: FindingMatch[] = [];
+  for (const c of candidates) {
+    if (usedLabels.has(c.label) || usedPredictions.has(c.prediction)) continue;
+    usedLabels.add(c.label);
+    usedPredictions.add(c.prediction);
+    matches.push({ label: c.label, prediction: c.prediction, iou: c.iou, severity_agrees: labels[c.label].severity === predictions[c.prediction].severity });
+  }
+  return matches.sort((a, b) => a.label - b.label);
+}
+
+/** Findings that count as detections: verified-fair notes and verifier-rejected findings are left out. */
+export function predictionsOf(response: ScanResponse): DatasetLabel[] {
+  return response.scans
+    .filter((s: DarkPatternScan) => s.pattern_type !== PatternType.VerifiedFair && s.verification?.verdict !== 'rejected')
+    .map(({ pattern_type, severity, coordinates }) => ({ pattern_type, severity, coordinates }));
+}
+
+export function scoreCase(testCase: BenchmarkCase, response: ScanResponse, threshold = DEFAULT_IOU_THRESHOLD): CaseResult {
+  const labels = testCase.labels.filter(l => l.pattern_type !== PatternType.VerifiedFair);
+  const predictions = predictionsOf(response);
+  const matches = matchFindings(labels, predictions, threshold);
+  return {
+    id: testCase.id,
+    expected_status: testCase.status,
+    predicted_status: response.viewport_meta.status,
+    labels,
+    predictions,
+    matches,
+    false_positives: predictions.map((_, i) => i).filter(i => !matches.some(m => m.prediction === i)),
+    false_negatives: labels.map((_, i) => i).filter(i => !matches.some(m => m.label === i)),
+    ...(response.error ? { error: response.error } : {})
+  };
+}
+
+const ratio = (n: number, d: number) => (d === 0 ? null : Math.round((n / d) * 1000) / 1000);
+
+function detectionScore(tp: number, fp: number, fn: number): DetectionScore {
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  const f1 = precision === null || recall === null ? null : precision + recall === 0 ? 0 : Math.round((2 * precision * recall / (precision + recall)) * 1000) / 1000;
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+/** Aggregates case results. Findings are counted per category of their canonical type. */
+export function summarizeRun(cases: CaseResult[], config: BenchmarkRun['config'], options: { threshold?: number; now?: Date } = {}): BenchmarkRun {
+  const counts = new Map<PatternCategory, { tp: number; fp: number; fn: number }>();
+  const count = (type: PatternType, key: 'tp' | 'fp' | 'fn') => {
+    const category = PATTERN_TAXONOMY[type].category;
+    const entry = counts.get(category) || { tp: 0, fp: 0, fn: 0 };
+    entry[key]++;
+    counts.set(category, entry);
+  };
+  cases.forEach(c => {
+    c.matches.forEach(m => count(c.labels[m.label].pattern_type, 'tp'));
+    c.false_positives.forEach(i => count(c.predictions[i].pattern_type, 'fp'));
+    c.false_negatives.forEach(i => count(c.labels[i].pattern_type, 'fn'));
+  });
+
+  const total = [...counts.values()].reduce((sum, e) => ({ tp: sum.tp + e.tp, fp: sum.fp + e.fp, fn: sum.fn + e.fn }), { tp: 0, fp: 0, fn: 0 });
+  const matched = cases.reduce((sum, c) => sum + c.matches.length, 0);
+  const agreed = cases.reduce((sum, c) => sum + c.matches.filter(m => m.severity_agrees).length, 0);
+  const correct = cases.filter(c => c.expected_status === c.predicted_status).length;
+
+  return {
+    format: BENCHMARK_FORMAT,
+    version: 1,
+    started_at: (options.now || new Date()).toISOString(),
+    config,
+    iou_threshold: options.threshold ?? DEFAULT_IOU_THRESHOLD,
+    cases,
+    overall: detectionScore(total.tp, total.fp, total.fn),
+    categories: Object.fromEntries([...counts].sort(([a], [b]) => a.localeCompare(b)).map(([category, e]) => [category, detectionScore(e.tp, e.fp, e.fn)])),
+    severity_agreement: { agreed, matched, rate: ratio(agreed, matched) },
+    status_accuracy: { correct, total: cases.length, rate: ratio(correct, cases.length) }
+  };
+}
+
+export interface MetricDelta {
+  before: number | null;
+  after: number | null;
+  /** after − before; null when either side is undefined. */
+  delta: number | null;
+}
+
+export interface RunDiff {
+  overall: Record<'precision' | 'recall' | 'f1', MetricDelta>;
+  categories: Partial<Record<PatternCategory, Record<'precision' | 'recall' | 'f1', MetricDelta>>>;
+  severity_agreement: MetricDelta;
+  status_accuracy: MetricDelta;
+  /** Cases present in both runs whose status went from right to wrong or back. */
+  status_changes: { id: string; expected: DefensiveStatus; before: DefensiveStatus; after: DefensiveStatus }[];
+  /** Config keys whose value differs between the runs. */
+  config_changes: { key: string; before?: string | number; after?: string | number }[];
+}
+
+const delta = (before: number | null | undefined, after: number | null | undefined): MetricDelta => ({
+  before: before ?? null,
+  after: after ?? null,
+  delta: before === null || before === undefined || after === null || after === undefined ? null : Math.round((after - before) * 1000) / 1000
+});
+
+const scoreDelta = (before?: DetectionScore, after?: DetectionScore) => ({
+  precision: delta(before?.precision, after?.precision),
+  recall: delta(before?.recall, after?.recall),
+  f1: delta(before?.f1, after?.f1)
+});
+
+/** Compares a run with an earlier one over the same corpus. */
+export function diffRuns(previous: BenchmarkRun, current: BenchmarkRun): RunDiff {
+  const categories = [...new Set([...Object.keys(previous.categories), ...Object.keys(current.categories)])].sort() as PatternCategory[];
+  const before = new Map(previous.cases.map(c => [c.id, c]));
+  const keys = [...new Set([...Object.keys(previous.config), ...Object.keys(current.config)])];
+  return {
+    overall: scoreDelta(previous.overall, current.overall),
+    categories: Object.fromEntries(categories.map(category => [category, scoreDelta(previous.categories[category], current.categories[category])])),
+    severity_agreement: delta(previous.severity_agreement.rate, current.severity_agreement.rate),
+    status_accuracy: delta(previous.status_accuracy.rate, current.status_accuracy.rate),
+    status_changes: current.cases.flatMap(c => {
+      const old = before.get(c.id);
+      if (!old || (old.predicted_status === old.expected_status) === (c.predicted_status === c.expected_status)) return [];
+      return [{ id: c.id, expected: c.expected_status, before: old.predicted_status, after: c.predicted_status }];
+    }),
+    config_changes: keys.filter(key => previous.config[key] !== current.config[key]).map(key => ({ key, before: previous.config[key], after: current.config[key] }))
+  };
+}
+
+const pct = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const signed = (d: MetricDelta) => (d.delta === null ? '' : ` (${d.delta >= 0 ? '+' : ''}${(d.delta * 100).toFixed(1)})`);
+const pad = (text: string, width: number) => text.padEnd(width);
+
+/** Plain-text summary for the terminal; deltas in percentage points when a diff is given. */
+export function formatRun(run: BenchmarkRun, diff?: RunDiff): string {
+  const rows: [string, DetectionScore, RunDiff['overall'] | undefined][] = [
+    ...(Object.entries(run.categories) as [PatternCategory, DetectionScore][]).map(([category, score]) => [category, score, diff?.categories[category]] as [string, DetectionScore, RunDiff['overall'] | undefined]),
+    ['all', run.overall, diff?.overall]
+  ];
+  const lines = [
+    `${pad('category', 16)}${pad('tp', 5)}${pad('fp', 5)}${pad('fn', 5)}${pad('precision', 20)}${pad('recall', 20)}f1`,
+    ...rows.map(([name, s, d]) =>
+      `${pad(name, 16)}${pad(String(s.tp), 5)}${pad(String(s.fp), 5)}${pad(String(s.fn), 5)}` +
+      `${pad(pct(s.precision) + (d ? signed(d.precision) : ''), 20)}${pad(pct(s.recall) + (d ? signed(d.recall) : ''), 20)}${pct(s.f1)}${d ? signed(d.f1) : ''}`
+    ),
+    '',
+    `Severity agreement: ${pct(run.severity_agreement.rate)} of ${run.severity_agreement.matched} matched findings${diff ? signed(diff.severity_agreement) : ''}`,
+    `Status accuracy: ${pct(run.status_accuracy.rate)} of ${run.status_accuracy.total} screenshots${diff ? signed(diff.status_accuracy) : ''}`
+  ];
+  const failed = run.cases.filter(c => c.error);
+  if (failed.length) lines.push(`Audit errors: ${failed.map(c => c.id).join(', ')}`);
+  if (diff?.config_changes.length) {
+    lines.push('', 'Config changes:', ...diff.config_changes.map(c => `  ${c.key}: ${c.before ?? '—'} → ${c.after ?? '—'}`));
+  }
+  if (diff?.status_changes.length) {
+    lines.push('', 'Status changes:', ...diff.status_changes.map(c => `  ${c.id}: ${c.before} → ${c.after} (expected ${c.expected})`));
+  }
+  return lines.join('\n');
+}
+
+const SEVERITIES = Object.values(Severity) as string[];
+const STATUSES = Object.values(DefensiveStatus) as string[];
+
+/**
+ * Reads a case's labels file: `{ "labels": [{ pattern_type, severity, coordinates }], "status"?: ... }`.
+ * Labels may use any spelling the taxonomy knows. Without a status, the labels are scored with `pack`.
+ */
+export function parseLabelFile(raw: any, id: string, pack: RulePack = DEFAULT_RULE_PACK): Pick<BenchmarkCase, 'labels' | 'status'> {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid labels for ${id}: ${message}`);
+  };
+  if (!raw || !Array.isArray(raw.labels)) fail('"labels" must be a list');
+  const labels: DatasetLabel[] = raw.labels.map((l: any, i: number) => {
+    const type = isPatternType(l?.pattern_type) ? l.pattern_type : canonicalPatternType(l?.pattern_type);
+    if (type === PatternType.Other) fail(`labels[${i}].pattern_type "${l?.pattern_type}" is not a known pattern type`);
+    if (!SEVERITIES.includes(l.severity)) fail(`labels[${i}].severity must be one of ${SEVERITIES.join(', ')}`);
+    if (!Array.isArray(l.coordinates) || l.coordinates.length !== 4 || !l.coordinates.every((c: unknown) => typeof c === 'number')) {
+      fail(`labels[${i}].coordinates must be [ymin, xmin, ymax, xmax]`);
+    }
+    return { pattern_type: type, severity: l.severity, coordinates: l.coordinates };
+  });
+  if (raw.status !== undefined && !STATUSES.includes(raw.status)) fail(`"status" must be one of ${STATUSES.join(', ')}`);
+  const status = raw.status ?? calculateSafetyMetrics(labels.map(l => ({ ...l, truth_label: '', action_fix: '' })), pack, {}).status;
+  return { labels, status };
+}
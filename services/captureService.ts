@@ -13,8 +13,10 @@ export async function getCaptureStream(): Promise<MediaStream> {
   }
 }
 
-export function captureFrame(video: HTMLVideoElement): string {
-  const MAX_WIDTH = 2048;
+/** Draws the current video frame onto a new canvas at native resolution, capped for canvas memory. */
+export function captureFrameCanvas(video: HTMLVideoElement): HTMLCanvasElement {
+  // Only guards canvas memory; the tiler splits wide frames so fine print keeps its resolution.
+  const MAX_WIDTH = 7680;
   
   if (!video || video.videoWidth === 0 || video.videoHeight === 0) {
     throw new Error("Media initialization failed: Frame buffer is empty.");
@@ -36,7 +38,41 @@ export function captureFrame(video: HTMLVideoElement): string {
   if (!ctx) throw new Error("Could not get canvas context");
   
   ctx.drawImage(video, 0, 0, targetWidth, targetHeight);
-  return canvas.toDataURL('image/jpeg', 0.95);
+  return canvas;
+}
+
+export function captureFrame(video: HTMLVideoElement): string {
+  return captureFrameCanvas(video).toDataURL('image/jpeg', 0.95);
+}
+
+/**
+ * Re-encodes an image as a small JPEG for session storage. Overlay coordinates are
+ * normalized, so findings still line up on the reduced copy.
+ */
+export function encodeThumbnail(image: HTMLImageElement, maxWidth = 1280, quality = 0.7): string {
+  const scale = Math.min(1, maxWidth / image.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * The image as the audit server accepts it. PNG and JPEG data URLs go as they are; anything else
+ * (WebP, GIF, blob URLs) is re-encoded as PNG so no detail is lost before tiling.
+ */
+export function encodeForUpload(image: HTMLImageElement): string {
+  if (/^data:image\/(png|jpeg);base64,/.test(image.src)) return image.src;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(image, 0, 0);
+  return canvas.toDataURL('image/png');
 }
 
 /** 
@@ -66,3 +102,33 @@ export async function captureTab(): Promise<string> {
     if (video) video.srcObject = null;
   }
 }
+
+/** Decodes a data URL into an image element that can be drawn and measured without being mounted. */
+export async function loadImage(src: string): Promise<HTMLImageElement> {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  return img;
+}
+
+/**
+ * Cuts a 0-1000 box out of an image, grown by `padding` × its size on each side so the surrounding
+ * context stays visible, and returns it as a JPEG data URL.
+ */
+export async function cropImage(src: string, box: [number, number, number, number], padding = 0): Promise<string> {
+  const img = await loadImage(src);
+  const [ymin, xmin, ymax, xmax] = box;
+  const padY = (ymax - ymin) * padding;
+  const padX = (xmax - xmin) * padding;
+  const top = Math.max(0, ((ymin - padY) / 1000) * img.naturalHeight);
+  const left = Math.max(0, ((xmin - padX) / 1000) * img.naturalWidth);
+  const bottom = Math.min(img.naturalHeight, ((ymax + padY) / 1000) * img.naturalHeight);
+  const right = Math.min(img.naturalWidth, ((xmax + padX) / 1000) * img.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(right - left));
+  canvas.height = Math.max(1, Math.round(bottom - top));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, left, top, right - left, bottom - top, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+}
@@ -0,0 +1,11 @@
+/**
+ * Runtime configuration lookup shared by the browser bundle and Node tooling.
+ * Vite exposes VITE_* variables on import.meta.env; Node scripts fall back to process.env.
+ */
+export function readEnv(name: string): string | undefined {
+  // import.meta.env only exists where Vite transforms the module; plain Node leaves it undefined.
+  const fromVite: string | undefined = import.meta.env?.[name];
+  if (fromVite) return fromVite;
+  if (typeof process !== 'undefined' && process.env) return process.env[name];
+  return undefined;
+}
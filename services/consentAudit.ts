@@ -0,0 +1,287 @@
+import type { AuditProvider } from "./auditProvider";
+import { CONSENT_INSTRUCTION, CONSENT_PROMPT, CONSENT_SCHEMA } from "./auditPrompt";
+import { clampCoordinates, stripMarkdown, tryParsePartialJSON } from "./auditService";
+import { contrastRatio } from "./domDetectors";
+import { PageImage, failedAuditResponse, renderOverview } from "./pageAudit";
+import { DEFAULT_RULE_PACK, RulePack } from "./rulePack";
+import { calculateSafetyMetrics } from "./scoring";
+import type { TokenBucket } from "./tileScheduler";
+import { ConsentCheck, ConsentSummary, DarkPatternScan, FindingEvidence, PatternType, ScanResponse, Severity } from "../types";
+
+type Box = [number, number, number, number];
+
+export type ConsentButtonRole = 'accept_all' | 'reject_all' | 'settings' | 'other';
+
+export interface ConsentButton {
+  role: ConsentButtonRole;
+  text: string;
+  coordinates: Box;
+}
+
+export interface ConsentToggle {
+  label: string;
+  coordinates: Box;
+  checked: boolean;
+  essential: boolean;
+  legitimate_interest: boolean;
+}
+
+/** The banner as the model located it. Boxes are in the screenshot's 0-1000 space. */
+export interface ConsentMap {
+  banner_found: boolean;
+  banner: Box;
+  cmp: string;
+  buttons: ConsentButton[];
+  toggles: ConsentToggle[];
+}
+
+/** RGBA pixels of the screenshot the map was read from; canvas ImageData and decoded PNGs both fit. */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+/** Measured look of a box: its size in pixels and the colour most of it is painted in. */
+export interface RegionStyle {
+  width: number;
+  height: number;
+  fill: string;
+}
+
+const ROLES: ConsentButtonRole[] = ['accept_all', 'reject_all', 'settings', 'other'];
+const ROLE_TEXT: [ConsentButtonRole, RegExp][] = [
+  ['reject_all', /reject|decline|refuse|deny|disagree|continue without|only (?:necessary|essential)|ablehnen|refuser|rechazar|rifiuta/i],
+  ['settings', /manage|settings|preferences|options|customi[sz]e|more choices|einstellungen|param[eè]tres/i],
+  ['accept_all', /accept|agree|allow|got it|^ok$|akzeptieren|accepter|aceptar|accetta/i]
+];
+
+// Model roles are trusted unless it fell back to "other" on a button whose wording is plain
+function roleOf(declared: any, text: string): ConsentButtonRole {
+  const role = String(declared || '').toLowerCase() as ConsentButtonRole;
+  if (ROLES.includes(role) && role !== 'other') return role;
+  return ROLE_TEXT.find(([, pattern]) => pattern.test(text))?.[0] || 'other';
+}
+
+const list = (raw: any): any[] => Array.isArray(raw) ? raw.filter(item => item && typeof item === 'object') : [];
+
+export function normalizeConsentMap(raw: any): ConsentMap {
+  const buttons = list(raw?.buttons).map(b => ({ role: roleOf(b.role, String(b.text || '')), text: String(b.text || '').trim(), coordinates: clampCoordinates(b.coordinates) }));
+  const toggles = list(raw?.toggles).map(t => ({
+    label: String(t.label || '').trim(),
+    coordinates: clampCoordinates(t.coordinates),
+    checked: t.checked === true,
+    essential: t.essential === true,
+    legitimate_interest: t.legitimate_interest === true || /legitimate interest/i.test(String(t.label || ''))
+  }));
+  return {
+    banner_found: raw?.banner_found === true || buttons.length > 0,
+    banner: clampCoordinates(raw?.banner),
+    cmp: String(raw?.cmp || ''),
+    buttons,
+    toggles
+  };
+}
+
+const hex = (rgb: number[]) => `#${rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+const MAX_SAMPLES = 20000;
+
+/**
+ * Size and dominant colour of a box. Pixels are binned at 4 bits per channel and the fullest bin wins,
+ * so a button's fill beats its label text and a text link comes out as the background behind it.
+ */
+export function regionStyle(pixels: PixelBuffer, box: Box): RegionStyle {
+  const [ymin, xmin, ymax, xmax] = box;
+  const x0 = Math.floor((xmin / 1000) * pixels.width), x1 = Math.max(x0 + 1, Math.ceil((xmax / 1000) * pixels.width));
+  const y0 = Math.floor((ymin / 1000) * pixels.height), y1 = Math.max(y0 + 1, Math.ceil((ymax / 1000) * pixels.height));
+  const step = Math.max(1, Math.floor(Math.sqrt(((x1 - x0) * (y1 - y0)) / MAX_SAMPLES)));
+  const bins = new Map<number, { count: number; sum: [number, number, number] }>();
+  for (let y = y0; y < Math.min(y1, pixels.height); y += step) {
+    for (let x = x0; x < Math.min(x1, pixels.width); x += step) {
+      const i = (y * pixels.width + x) * 4;
+      const r = pixels.data[i], g = pixels.data[i + 1], b = pixels.data[i + 2];
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const bin = bins.get(key) || { count: 0, sum: [0, 0, 0] };
+      bin.count++;
+      bin.sum[0] += r; bin.sum[1] += g; bin.sum[2] += b;
+      bins.set(key, bin);
+    }
+  }
+  let best = { count: 0, sum: [255, 255, 255] as [number, number, number] };
+  bins.forEach(bin => { if (bin.count > best.count) best = bin; });
+  const fill = best.count ? hex(best.sum.map(v => v / best.count)) : '#ffffff';
+  return { width: x1 - x0, height: y1 - y0, fill };
+}
+
+/** Accept needs to be this many times bigger, or stand out this many times more, before it counts as nudging. */
+export const ASYMMETRY_RATIO = 2;
+
+const REF = {
+  reject: 'ePrivacy Directive Art. 5(3); GDPR Art. 7(3); EDPB Cookie Banner Taskforce report (2023)',
+  styling: 'GDPR Art. 4(11), Art. 7(3); EDPB Guidelines 03/2022 on deceptive design patterns',
+  preTicked: 'GDPR Art. 4(11), Recital 32; CJEU C-673/17 Planet49',
+  legitimateInterest: 'ePrivacy Directive Art. 5(3); EDPB Cookie Banner Taskforce report (2023)'
+};
+
+const largest = (buttons: ConsentButton[], role: ConsentButtonRole, pixels: PixelBuffer) => buttons
+  .filter(b => b.role === role)
+  .map(button => ({ button, style: regionStyle(pixels, button.coordinates) }))
+  .sort((a, b) => b.style.width * b.style.height - a.style.width * a.style.height)[0];
+
+const describeStyle = (name: string, style: RegionStyle, prominence: number) =>
+  `${name}: ${style.width}×${style.height} px, fill ${style.fill}, contrast ${prominence.toFixed(1)}:1 against the banner`;
+
+function evidence(summary: string, math: string[], data?: Record<string, any>): FindingEvidence {
+  return { source: 'consent_check', summary, math, ...(data ? { data } : {}) };
+}
+
+/**
+ * Runs the checks on a located banner. Reject must sit on the first layer next to accept, the two must be
+ * comparable in size and prominence (measured from `pixels`), and no optional purpose may be switched on
+ * or rest on legitimate interest. Every failed check is one finding; the summary records all of them.
+ */
+export function evaluateConsent(map: ConsentMap, pixels: PixelBuffer): { scans: DarkPatternScan[]; summary: ConsentSummary } {
+  if (!map.banner_found) return { scans: [], summary: { banner_found: false, passed: true, checks: [] } };
+  const scans: DarkPatternScan[] = [];
+  const checks: ConsentCheck[] = [];
+  const bannerBox: Box = map.banner.every(c => c === 0) ? [0, 0, 1000, 1000] : map.banner;
+  const banner = regionStyle(pixels, bannerBox);
+  const accept = largest(map.buttons, 'accept_all', pixels);
+  const reject = largest(map.buttons, 'reject_all', pixels);
+  const settings = map.buttons.find(b => b.role === 'settings');
+
+  if (reject) {
+    checks.push({ id: 'reject_first_layer', passed: true, detail: `"${reject.button.text}" is on the banner.` });
+  } else if (accept) {
+    const buried = !!settings;
+    checks.push({ id: 'reject_first_layer', passed: false, detail: buried ? `Only reachable through "${settings!.text}".` : 'No way to refuse on the banner.' });
+    scans.push({
+      pattern_type: PatternType.Obstruction,
+      severity: Severity.High,
+      coordinates: buried ? settings!.coordinates : bannerBox,
+      truth_label: buried
+        ? `[${REF.reject}] There is no "Reject all" next to "${accept.button.text}"; refusing is buried behind "${settings!.text}".`
+        : `[${REF.reject}] The banner offers "${accept.button.text}" but no way to refuse.`,
+      action_fix: buried
+        ? `Open "${settings!.text}" and switch every purpose off, or use the browser's privacy controls to block third-party cookies.`
+        : "Close the banner without accepting if it allows that, and block third-party cookies in the browser.",
+      evidence_text: accept.button.text,
+      evidence: evidence('Reject missing from the first layer', map.buttons.map(b => `${b.role}: "${b.text}"`))
+    });
+  }
+
+  if (accept && reject) {
+    const acceptArea = accept.style.width * accept.style.height;
+    const rejectArea = Math.max(1, reject.style.width * reject.style.height);
+    const acceptProminence = contrastRatio(accept.style.fill, banner.fill) ?? 1;
+    const rejectProminence = contrastRatio(reject.style.fill, banner.fill) ?? 1;
+    const sizeRatio = acceptArea / rejectArea;
+    const prominenceRatio = acceptProminence / rejectProminence;
+    const math = [
+      describeStyle('accept', accept.style, acceptProminence),
+      describeStyle('reject', reject.style, rejectProminence),
+      `banner fill ${banner.fill}`,
+      `size ratio ${sizeRatio.toFixed(1)}, prominence ratio ${prominenceRatio.toFixed(1)} (flagged at ${ASYMMETRY_RATIO})`
+    ];
+    const data = { accept: accept.style, reject: reject.style, banner: banner.fill, size_ratio: sizeRatio, prominence_ratio: prominenceRatio };
+    const bigger = sizeRatio >= ASYMMETRY_RATIO;
+    const louder = prominenceRatio >= ASYMMETRY_RATIO;
+    checks.push({ id: 'button_size', passed: !bigger, detail: `Accept is ${sizeRatio.toFixed(1)}× the size of reject.` });
+    checks.push({ id: 'button_color', passed: !louder, detail: `Accept stands out ${prominenceRatio.toFixed(1)}× more than reject.` });
+    if (bigger || louder) {
+      const how = [bigger && `${sizeRatio.toFixed(1)}× larger`, louder && `${prominenceRatio.toFixed(1)}× more prominent`].filter(Boolean).join(' and ');
+      scans.push({
+        pattern_type: PatternType.VisualInterference,
+        severity: Severity.Medium,
+        coordinates: accept.button.coordinates,
+        truth_label: `[${REF.styling}] "${accept.button.text}" is ${how} than "${reject.button.text}", steering you to accept.`,
+        action_fix: `"${reject.button.text}" refuses just as well; look for it before clicking the bright button.`,
+        evidence_text: accept.button.text,
+        evidence: evidence('Accept and reject styled unequally', math, data)
+      });
+    }
+  } else {
+    checks.push({ id: 'button_size', passed: null, detail: 'Needs both accept and reject on the banner.' });
+    checks.push({ id: 'button_color', passed: null, detail: 'Needs both accept and reject on the banner.' });
+  }
+
+  const optional = map.toggles.filter(t => !t.essential);
+  const preTicked = optional.filter(t => t.checked && !t.legitimate_interest);
+  checks.push({
+    id: 'pre_ticked',
+    passed: optional.length ? preTicked.length === 0 : null,
+    detail: optional.length ? `${preTicked.length} of ${optional.length} optional purposes switched on by default.` : 'No purpose switches visible.'
+  });
+  preTicked.forEach(toggle => scans.push({
+    pattern_type: PatternType.Preselection,
+    severity: Severity.High,
+    coordinates: toggle.coordinates,
+    truth_label: `[${REF.preTicked}] "${toggle.label}" is switched on before you chose anything; a pre-ticked box is not consent.`,
+    action_fix: `Switch "${toggle.label}" off before saving your choices.`,
+    evidence_text: toggle.label,
+    evidence: evidence('Optional purpose pre-ticked', [`"${toggle.label}": on, not strictly necessary`])
+  }));
+
+  const legitimate = map.toggles.filter(t => t.legitimate_interest);
+  checks.push({
+    id: 'legitimate_interest',
+    passed: legitimate.length === 0,
+    detail: legitimate.length ? `${legitimate.length} purpose${legitimate.length === 1 ? '' : 's'} claimed as legitimate interest.` : 'No legitimate interest claims visible.'
+  });
+  legitimate.forEach(toggle => scans.push({
+    pattern_type: PatternType.TrickWording,
+    severity: Severity.Medium,
+    coordinates: toggle.coordinates,
+    truth_label: `[${REF.legitimateInterest}] "${toggle.label}" is processed on "legitimate interest", so it stays on unless you find the separate objection switch.`,
+    action_fix: "Look for an \"Object\" or legitimate-interest tab and switch these off too.",
+    evidence_text: toggle.label,
+    evidence: evidence('Legitimate interest toggle', [`"${toggle.label}": ${toggle.checked ? 'on' : 'off'} by default`])
+  }));
+
+  return {
+    scans,
+    summary: { banner_found: true, ...(map.cmp ? { cmp: map.cmp } : {}), passed: checks.every(c => c.passed !== false), checks }
+  };
+}
+
+export interface ConsentAuditOptions {
+  provider: AuditProvider;
+  rulePack?: RulePack;
+  signal?: AbortSignal;
+  rateLimiter?: TokenBucket;
+}
+
+/**
+ * Consent banner audit of one screenshot: the model maps the banner, the checks run locally on the map
+ * and the pixels. The pass/fail summary goes into `viewport_meta.consent`. A provider failure comes back
+ * as a failed audit with no consent summary, so batch runs report the page as failed rather than passed.
+ */
+export async function auditConsentBanner(page: PageImage, pixels: PixelBuffer, options: ConsentAuditOptions): Promise<ScanResponse> {
+  const pack = options.rulePack || DEFAULT_RULE_PACK;
+  let map: ConsentMap;
+  try {
+    await options.rateLimiter?.take(options.signal);
+    const text = await options.provider.generate({
+      systemInstruction: CONSENT_INSTRUCTION,
+      prompt: CONSENT_PROMPT,
+      image: await renderOverview(page),
+      schema: CONSENT_SCHEMA,
+      signal: options.signal
+    });
+    map = normalizeConsentMap(tryParsePartialJSON(stripMarkdown(text || '{}')));
+  } catch (err: any) {
+    if (err.message === "AbortError" || options.signal?.aborted) throw new Error("AbortError");
+    return failedAuditResponse(err.message || String(err), { reasoning_path: '', catalog_anchors: [] });
+  }
+
+  const { scans, summary } = evaluateConsent(map, pixels);
+  const failed = summary.checks.filter(c => c.passed === false).map(c => c.id);
+  return {
+    viewport_meta: { ...calculateSafetyMetrics(scans, pack), consent: summary },
+    scans,
+    thought_signature: {
+      reasoning_path: !summary.banner_found ? 'No consent banner found.' : failed.length ? `Consent banner fails: ${failed.join(', ')}.` : 'Consent banner passes every check.',
+      catalog_anchors: []
+    }
+  };
+}
@@ -0,0 +1,194 @@
+import { DarkPatternScan, DomNode, DomSnapshot, FindingEvidence, PatternType, Severity } from "../types";
+import { parseMoney } from "../utils";
+
+type Box = [number, number, number, number];
+
+const OPT_IN_TEXT = /newsletter|marketing|offers?|promotion|partners?|third[- ]part|subscribe|sms|text me|updates|share my|insurance|protection|warranty|donat|\btip\b|add(?:-on| on)?\b|upgrade|priority|carbon|gift wrap/i;
+const PAID_OPT_IN_TEXT = /insurance|protection|warranty|donat|tip\b|upgrade|priority|carbon|gift wrap|[$€£₹¥₩]|\d+[.,]\d{2}/i;
+const FEE_TEXT = /fee|charge|surcharge|service|handling|processing|convenience|booking|admin|tax|vat|shipping|delivery|insurance|gebühr|frais|cargo|commissione/i;
+const DECLINE_TEXT = /no,? thanks|no thank you|decline|reject|refuse|not now|maybe later|skip|continue without|i don'?t want|i'?ll pay full|nein,? danke|non merci|ablehnen|refuser|rechazar|rifiuta/i;
+const TIMER_TEXT = /\b\d{1,2}\s*[:：]\s*\d{2}(?:\s*[:：]\s*\d{2})?\b/;
+const TIMER_HINT = /countdown|timer|clock|expires?|hurry|deadline|ticker/i;
+const TIMER_SCRIPT = /setInterval|setTimeout|requestAnimationFrame/;
+
+/** WCAG AA minimum contrast for normal-size text. */
+export const MIN_CONTRAST = 4.5;
+
+/** Parses rgb()/rgba()/#rgb/#rrggbb into [r, g, b, a]; returns null for anything else. */
+export function parseCssColor(value: string): [number, number, number, number] | null {
+  const rgb = value.match(/rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?\s*\)/i);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return [parseFloat(rgb[1]), parseFloat(rgb[2]), parseFloat(rgb[3]), alpha];
+  }
+  const hex = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!hex) return null;
+  const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)).concat(1) as [number, number, number, number];
+}
+
+const luminance = ([r, g, b]: number[]) => {
+  const channel = (v: number) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+/** WCAG contrast ratio (1-21). A translucent foreground is blended over the background first. */
+export function contrastRatio(foreground: string, background: string): number | null {
+  const fg = parseCssColor(foreground);
+  const bg = parseCssColor(background);
+  if (!fg || !bg) return null;
+  const blended = [0, 1, 2].map(i => fg[i] * fg[3] + bg[i] * (1 - fg[3]));
+  const [light, dark] = [luminance(blended), luminance(bg)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/** Node box in the snapshot's 0-1000 page space, or a card-only box when the element has no layout. */
+export function nodeBox(node: DomNode, page: DomSnapshot['page']): Box {
+  const { x, y, width, height } = node.rect;
+  if (node.hidden_by || width <= 0 || height <= 0 || page.width <= 0 || page.height <= 0) return [0, 0, 0, 0];
+  const clamp = (v: number) => Math.max(0, Math.min(1000, v));
+  return [clamp((y / page.height) * 1000), clamp((x / page.width) * 1000), clamp(((y + height) / page.height) * 1000), clamp(((x + width) / page.width) * 1000)];
+}
+
+function finding(
+  snapshot: DomSnapshot,
+  node: DomNode,
+  pattern_type: PatternType,
+  severity: Severity,
+  truth_label: string,
+  action_fix: string,
+  rule: string,
+  lines: string[]
+): DarkPatternScan {
+  const evidence: FindingEvidence = {
+    source: 'dom_rule',
+    summary: `Rule ${rule} matched ${node.selector}`,
+    math: lines,
+    data: { rule, node_id: node.id, selector: node.selector }
+  };
+  return { pattern_type, severity, coordinates: nodeBox(node, snapshot.page), truth_label, action_fix, evidence };
+}
+
+const quote = (text: string) => `"${text.length > 80 ? `${text.slice(0, 77)}...` : text}"`;
+
+function preCheckedOptIns(snapshot: DomSnapshot): DarkPatternScan[] {
+  return snapshot.nodes.flatMap(node => {
+    if (!node.checked || node.hidden_by || node.attrs.type !== 'checkbox') return [];
+    const label = node.label || '';
+    if (!OPT_IN_TEXT.test(label)) return [];
+    const paid = PAID_OPT_IN_TEXT.test(label);
+    return [finding(snapshot, node, PatternType.SneakIntoBasket, paid ? Severity.High : Severity.Medium,
+      `Pre-ticked opt-in: ${quote(label)}.`,
+      paid ? "Untick this box before paying; it adds something you did not ask for." : "Untick this box unless you actually want it.",
+      'pre-checked-opt-in',
+      [`<input type="checkbox"> is checked on load`, `Label: ${quote(label)}`])];
+  });
+}
+
+function hiddenFeeLines(snapshot: DomSnapshot): DarkPatternScan[] {
+  return snapshot.nodes.flatMap(node => {
+    // Report the element that hides itself; its descendants only repeat the same text
+    if (!node.hidden_by || node.hidden_by === 'ancestor' || !FEE_TEXT.test(node.text)) return [];
+    const money = parseMoney(node.text);
+    if (!money || !money.currency || money.amount <= 0) return [];
+    return [finding(snapshot, node, PatternType.HiddenCosts, Severity.High,
+      `A fee line is in the page but not shown: ${quote(node.text)}.`,
+      "Check the final total against the visible lines; this amount may be charged without being displayed.",
+      'hidden-fee-line',
+      [`Hidden by ${node.hidden_by}`, `Text: ${quote(node.text)}`, `Parsed: ${money.currency} ${money.amount.toFixed(2)}`])];
+  });
+}
+
+function clientTimers(snapshot: DomSnapshot): DarkPatternScan[] {
+  return snapshot.nodes.flatMap(node => {
+    if (node.hidden_by || node.text.length > 60 || !TIMER_TEXT.test(node.text)) return [];
+    const hint = [node.attrs.id, node.attrs.class, ...Object.keys(node.attrs).filter(k => k.startsWith('data-'))].filter(Boolean).join(' ');
+    const hinted = TIMER_HINT.test(hint);
+    const scripted = !!node.attrs.id && snapshot.scripts.some(s => s.includes(node.attrs.id) && TIMER_SCRIPT.test(s));
+    if (!node.ticking && !hinted && !scripted) return [];
+    const lines = [
+      node.ticking ? 'Text changed between two samples taken about a second apart' : null,
+      hinted ? `Markup names it a timer: ${quote(hint)}` : null,
+      scripted ? `An inline script updates #${node.attrs.id} on a timer` : null,
+      `Shown: ${quote(node.text)}`
+    ].filter((l): l is string => !!l);
+    return [finding(snapshot, node, PatternType.FakeUrgency, Severity.Medium,
+      `Countdown ${quote(node.text)} is driven by page script, not a server deadline.`,
+      "Client-side timers usually restart on reload. Refresh the page to check before letting it rush you.",
+      'client-countdown',
+      lines)];
+  });
+}
+
+function lowContrastDeclines(snapshot: DomSnapshot): DarkPatternScan[] {
+  return snapshot.nodes.flatMap(node => {
+    if (node.hidden_by || !['a', 'button', 'input', 'label', 'span'].includes(node.tag)) return [];
+    const text = node.text || node.attrs.value || node.attrs['aria-label'] || '';
+    if (!text || text.length > 80 || !DECLINE_TEXT.test(text)) return [];
+    const ratio = contrastRatio(node.style.color, node.style.background);
+    if (ratio === null || ratio >= MIN_CONTRAST) return [];
+    return [finding(snapshot, node, PatternType.VisualInterference, ratio < 3 ? Severity.High : Severity.Medium,
+      `The way out, ${quote(text)}, is styled to be hard to see (contrast ${ratio.toFixed(1)}:1).`,
+      `Look for ${quote(text)}; it is the option the page does not want you to pick.`,
+      'low-contrast-decline',
+      [`color ${node.style.color} on ${node.style.background}`, `Contrast ${ratio.toFixed(2)}:1, WCAG AA needs ${MIN_CONTRAST}:1`, `Font ${node.style.font_size}px / ${node.style.font_weight}`])];
+  });
+}
+
+/** Deterministic markup rules. Coordinates are in the snapshot's 0-1000 page space. */
+export function runDomDetectors(snapshot: DomSnapshot): DarkPatternScan[] {
+  return [
+    ...preCheckedOptIns(snapshot),
+    ...hiddenFeeLines(snapshot),
+    ...clientTimers(snapshot),
+    ...lowContrastDeclines(snapshot)
+  ];
+}
+
+const intersects = (a: Box, b: Box) => a[0] < b[2] && a[2] > b[0] && a[1] < b[3] && a[3] > b[1];
+
+/**
+ * Compact description of the markup in a region, for the model prompt. Lists what the screenshot cannot
+ * show: control states, hidden priced lines, timers and decline controls. `region` is in page 0-1000 space.
+ */
+export function domDigest(snapshot: DomSnapshot, region: Box = [0, 0, 1000, 1000], limit = 40): string {
+  const lines: string[] = [];
+  for (const node of snapshot.nodes) {
+    if (lines.length >= limit) break;
+    const box = nodeBox(node, snapshot.page);
+    const inRegion = box.every(c => c === 0) ? region[0] === 0 && region[1] === 0 : intersects(box, region);
+    if (!inRegion || node.hidden_by === 'ancestor') continue;
+    if (node.checked !== undefined) lines.push(`[${node.attrs.type} ${node.checked ? 'checked' : 'unchecked'}] ${quote(node.label || '')}`);
+    else if (node.hidden_by && parseMoney(node.text)?.currency) lines.push(`[hidden: ${node.hidden_by}] ${quote(node.text)}`);
+    else if (node.ticking) lines.push(`[ticking text] ${quote(node.text)}`);
+    else if (['a', 'button'].includes(node.tag) && DECLINE_TEXT.test(node.text)) {
+      const ratio = contrastRatio(node.style.color, node.style.background);
+      lines.push(`[${node.tag}] ${quote(node.text)}${ratio !== null ? ` contrast ${ratio.toFixed(1)}:1` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Rule findings for one tile, in the tile's own 0-1000 space, so they flow through the same remapping and
+ * cross-tile dedupe as model findings. A finding belongs to every tile containing its centre; card-only
+ * findings belong to the tile at the page origin.
+ */
+export function ruleScansForRegion(snapshot: DomSnapshot, region: Box = [0, 0, 1000, 1000]): DarkPatternScan[] {
+  const [top, left, bottom, right] = region;
+  const height = bottom - top;
+  const width = right - left;
+  if (height <= 0 || width <= 0) return [];
+  return runDomDetectors(snapshot).flatMap(scan => {
+    const [ymin, xmin, ymax, xmax] = scan.coordinates;
+    if (scan.coordinates.every(c => c === 0)) return top === 0 && left === 0 ? [scan] : [];
+    const cy = (ymin + ymax) / 2;
+    const cx = (xmin + xmax) / 2;
+    if (cy < top || cy > bottom || cx < left || cx > right) return [];
+    const local = (v: number, origin: number, size: number) => Math.max(0, Math.min(1000, ((v - origin) / size) * 1000));
+    return [{ ...scan, coordinates: [local(ymin, top, height), local(xmin, left, width), local(ymax, top, height), local(xmax, left, width)] as Box }];
+  });
+}
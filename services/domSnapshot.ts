@@ -0,0 +1,173 @@
+import { DomNode, DomSnapshot } from "../types";
+import { sleep } from "./tileScheduler";
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'META', 'LINK', 'HEAD', 'SVG', 'PATH', 'IFRAME']);
+const CONTROL_TAGS = new Set(['INPUT', 'SELECT', 'BUTTON', 'A', 'LABEL', 'TEXTAREA']);
+const MAX_NODES = 4000;
+const MAX_TEXT = 200;
+const MAX_SCRIPT = 4000;
+const TIMER_TEXT = /\b\d{1,2}\s*[:：]\s*\d{2}\b|\b\d+\s*(?:h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)\b/i;
+
+const collapse = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT);
+
+function selectorFor(el: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = el;
+  while (current && current.tagName !== 'BODY' && parts.length < 4) {
+    if (current.id) {
+      parts.unshift(`${current.tagName.toLowerCase()}#${current.id}`);
+      break;
+    }
+    const classes = [...current.classList].slice(0, 2).map(c => `.${c}`).join('');
+    const parent: Element | null = current.parentElement;
+    const siblings = parent ? [...parent.children].filter(c => c.tagName === current!.tagName) : [];
+    const nth = siblings.length > 1 ? `:nth-of-type(${siblings.indexOf(current) + 1})` : '';
+    parts.unshift(`${current.tagName.toLowerCase()}${classes}${nth}`);
+    current = parent;
+  }
+  return parts.join(' > ');
+}
+
+function ownHiddenReason(style: CSSStyleDeclaration, rect: DOMRect, scrollX: number, scrollY: number): string | undefined {
+  if (style.display === 'none') return 'display:none';
+  if (style.visibility === 'hidden' || style.visibility === 'collapse') return `visibility:${style.visibility}`;
+  if (parseFloat(style.opacity) === 0) return 'opacity:0';
+  if ((rect.width === 0 || rect.height === 0) && style.overflow === 'hidden') return 'zero-size';
+  if (style.clip === 'rect(0px, 0px, 0px, 0px)' || style.clipPath === 'inset(50%)') return 'clipped';
+  if (rect.right + scrollX < 0 || rect.bottom + scrollY < 0) return 'off-screen';
+  return undefined;
+}
+
+/** First non-transparent background colour up the ancestor chain; background images are not considered. */
+function effectiveBackground(el: Element, view: Window): string {
+  let current: Element | null = el;
+  while (current) {
+    const bg = view.getComputedStyle(current).backgroundColor;
+    if (bg && bg !== 'transparent' && !/rgba\([^)]*,\s*0\)$/.test(bg)) return bg;
+    current = current.parentElement;
+  }
+  return 'rgb(255, 255, 255)';
+}
+
+function controlLabel(el: Element): string | undefined {
+  const input = el as HTMLInputElement;
+  const fromLabels = input.labels && input.labels.length ? collapse(input.labels[0].textContent) : '';
+  if (fromLabels) return fromLabels;
+  const aria = el.getAttribute('aria-label');
+  if (aria) return collapse(aria);
+  const wrapping = el.closest('label');
+  if (wrapping) return collapse(wrapping.textContent);
+  return collapse(el.parentElement?.textContent) || undefined;
+}
+
+function pickAttrs(el: Element): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const attr of el.attributes) {
+    if (['id', 'class', 'type', 'name', 'role', 'href', 'value'].includes(attr.name) || attr.name.startsWith('aria-') || attr.name.startsWith('data-')) {
+      attrs[attr.name] = attr.value.slice(0, MAX_TEXT);
+    }
+  }
+  return attrs;
+}
+
+const hasOwnText = (el: Element) => [...el.childNodes].some(n => n.nodeType === 3 && (n.textContent || '').trim() !== '');
+
+/**
+ * Walks the document and records what the detectors need: boxes in document coordinates, why hidden
+ * elements are hidden, colours, checkbox state and labels. Elements with their own text, form controls
+ * and self-hidden containers are kept; everything else is skipped to keep the snapshot small.
+ *
+ * With `tickSampleMs` > 0, timer-like text is read again after that delay and nodes whose text changed
+ * are marked `ticking`; this is how client-side countdowns show up, since their markup looks static.
+ */
+export async function captureDomSnapshot(doc: Document = document, options: { tickSampleMs?: number } = {}): Promise<DomSnapshot> {
+  const view = doc.defaultView;
+  if (!view || !doc.body) throw new Error("Document is not rendered.");
+  const scrollX = view.scrollX;
+  const scrollY = view.scrollY;
+  const nodes: DomNode[] = [];
+  const timerElements: [Element, DomNode][] = [];
+  const hiddenAncestors = new Set<Element>();
+
+  for (const el of doc.body.querySelectorAll('*')) {
+    if (nodes.length >= MAX_NODES) break;
+    if (SKIPPED_TAGS.has(el.tagName.toUpperCase()) || el.closest('svg, template')) continue;
+
+    const style = view.getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    const ownHidden = ownHiddenReason(style, rect, scrollX, scrollY);
+    const parent = el.parentElement;
+    const ancestorHidden = !!parent && hiddenAncestors.has(parent);
+    if (ownHidden || ancestorHidden) hiddenAncestors.add(el);
+
+    const isControl = CONTROL_TAGS.has(el.tagName.toUpperCase());
+    const text = collapse(isControl ? (el as HTMLElement).innerText || el.textContent : el.textContent);
+    if (!isControl && !hasOwnText(el) && !(ownHidden && !ancestorHidden && text)) continue;
+
+    const node: DomNode = {
+      id: nodes.length,
+      tag: el.tagName.toLowerCase(),
+      selector: selectorFor(el),
+      text,
+      rect: { x: rect.left + scrollX, y: rect.top + scrollY, width: rect.width, height: rect.height },
+      attrs: pickAttrs(el),
+      style: {
+        color: style.color,
+        background: effectiveBackground(el, view),
+        font_size: parseFloat(style.fontSize) || 0,
+        font_weight: parseInt(style.fontWeight, 10) || 400
+      }
+    };
+    if (ownHidden && !ancestorHidden) node.hidden_by = ownHidden;
+    else if (ancestorHidden) node.hidden_by = 'ancestor';
+    if (el.tagName === 'INPUT' && ['checkbox', 'radio'].includes((el as HTMLInputElement).type)) {
+      node.checked = (el as HTMLInputElement).checked;
+      node.label = controlLabel(el);
+    }
+    if (TIMER_TEXT.test(text) && text.length < 60) timerElements.push([el, node]);
+    nodes.push(node);
+  }
+
+  if (options.tickSampleMs && timerElements.length > 0) {
+    await sleep(options.tickSampleMs);
+    timerElements.forEach(([el, node]) => {
+      if (collapse(el.textContent) !== node.text) node.ticking = true;
+    });
+  }
+
+  return {
+    url: doc.location?.href,
+    captured_at: new Date().toISOString(),
+    page: {
+      width: Math.max(doc.documentElement.scrollWidth, view.innerWidth),
+      height: Math.max(doc.documentElement.scrollHeight, doc.body.scrollHeight)
+    },
+    nodes,
+    scripts: [...doc.querySelectorAll('script:not([src])')].map(s => (s.textContent || '').slice(0, MAX_SCRIPT)).filter(Boolean)
+  };
+}
+
+/**
+ * Lays out pasted HTML in a hidden, script-less iframe and snapshots it. Scripts never run, so ticking
+ * timers cannot be observed; the timer detector falls back to markup and inline-script hints.
+ */
+export async function snapshotFromHtml(html: string, width = 1280): Promise<DomSnapshot> {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('sandbox', 'allow-same-origin');
+  frame.style.cssText = `position:fixed;left:-10000px;top:0;width:${width}px;height:800px;visibility:hidden;border:0;`;
+  document.body.appendChild(frame);
+  try {
+    await new Promise<void>((resolve) => {
+      frame.onload = () => resolve();
+      frame.srcdoc = html;
+    });
+    const doc = frame.contentDocument;
+    if (!doc) throw new Error("Could not render the HTML file.");
+    // Grow the frame to the document so every element gets a real layout box
+    frame.style.height = `${doc.documentElement.scrollHeight}px`;
+    const snapshot = await captureDomSnapshot(doc);
+    return { ...snapshot, url: undefined };
+  } finally {
+    frame.remove();
+  }
+}
@@ -0,0 +1,153 @@
+import { AuditSession, DarkPatternScan, DefensiveStatus, PatternType, ReviewVerdict, Severity } from "../types";
+import { DEFAULT_RULE_PACK, RulePack, getRulePack, patternForType } from "./rulePack";
+import { calculateSafetyMetrics } from "./scoring";
+import { patternLabel } from "./taxonomy";
+
+export const DATASET_FORMAT = 'optic-feedback-dataset';
+
+type Box = [number, number, number, number];
+
+const MIN_BOX = 5;
+
+/** Orders the corners of a dragged box and keeps it on the 0-1000 grid with a usable size. */
+export function normalizeBox([y1, x1, y2, x2]: Box): Box {
+  const clamp = (v: number) => Math.max(0, Math.min(1000, Math.round(v)));
+  const ymin = clamp(Math.min(y1, y2));
+  const xmin = clamp(Math.min(x1, x2));
+  return [ymin, xmin, Math.max(clamp(Math.max(y1, y2)), Math.min(1000, ymin + MIN_BOX)), Math.max(clamp(Math.max(x1, x2)), Math.min(1000, xmin + MIN_BOX))];
+}
+
+/** Sets or clears (null) a reviewer verdict. A moved box keeps its original coordinates either way. */
+export function reviewScan(scan: DarkPatternScan, verdict: Exclude<ReviewVerdict, 'added'> | null, now = new Date()): DarkPatternScan {
+  const { review, ...rest } = scan;
+  if (review?.verdict === 'added') return scan;
+  if (!verdict && !review?.original_coordinates) return rest;
+  return {
+    ...rest,
+    review: {
+      verdict: verdict || 'confirmed',
+      reviewed_at: now.toISOString(),
+      ...(review?.original_coordinates ? { original_coordinates: review.original_coordinates } : {})
+    }
+  };
+}
+
+/** Moves or resizes a finding's box. Correcting the box counts as confirming the finding. */
+export function moveScan(scan: DarkPatternScan, coordinates: Box, now = new Date()): DarkPatternScan {
+  const box = normalizeBox(coordinates);
+  const original = scan.review?.original_coordinates || scan.coordinates;
+  return {
+    ...scan,
+    coordinates: box,
+    review: {
+      verdict: scan.review?.verdict === 'disputed' ? 'confirmed' : scan.review?.verdict || 'confirmed',
+      reviewed_at: now.toISOString(),
+      ...(scan.review?.verdict === 'added' ? {} : { original_coordinates: original })
+    }
+  };
+}
+
+/** A finding the reviewer drew in, at the pack's default severity for its type. */
+export function addedScan(type: PatternType, coordinates: Box, pack: RulePack = DEFAULT_RULE_PACK, now = new Date()): DarkPatternScan {
+  return {
+    pattern_type: type,
+    coordinates: normalizeBox(coordinates),
+    severity: patternForType(pack, type)?.default_severity || Severity.Medium,
+    truth_label: `${patternLabel(type)} marked by a reviewer.`,
+    action_fix: 'Check this element before you continue.',
+    review: { verdict: 'added', reviewed_at: now.toISOString() }
+  };
+}
+
+export const isDisputed = (scan: DarkPatternScan) => scan.review?.verdict === 'disputed';
+
+/** Rule pack a step was scored with, when it is still available; a user-loaded pack can be passed in. */
+export function stepRulePack(session: AuditSession, stepIndex: number, loaded?: RulePack): RulePack {
+  const ref = session.steps[stepIndex]?.rule_pack;
+  if (!ref) return loaded || DEFAULT_RULE_PACK;
+  if (loaded?.id === ref.id) return loaded;
+  return getRulePack(ref.id) || DEFAULT_RULE_PACK;
+}
+
+/** Replaces a step's findings with reviewed ones and rescores it; the rest of the session is untouched. */
+export function updateStepScans(session: AuditSession, stepIndex: number, scans: DarkPatternScan[], pack: RulePack): AuditSession {
+  const step = session.steps[stepIndex];
+  if (!step) return session;
+  const response = { ...step.response, scans, viewport_meta: { ...step.response.viewport_meta, ...calculateSafetyMetrics(scans, pack) } };
+  return { ...session, steps: session.steps.map((s, i) => (i === stepIndex ? { ...s, response } : s)) };
+}
+
+export interface DatasetLabel {
+  pattern_type: PatternType;
+  severity: Severity;
+  coordinates: Box;
+}
+
+export interface DatasetPrediction extends DatasetLabel {
+  /** The model, or a local engine (price drift, DOM rules, timer watch). */
+  source: 'model' | 'local';
+  confidence?: number;
+  /** Reviewer verdict; unreviewed predictions are left out of the labels. */
+  verdict?: Exclude<ReviewVerdict, 'added'>;
+}
+
+export interface DatasetItem {
+  id: string;
+  step_index: number;
+  captured_at: string;
+  rule_pack?: { id: string; version: string };
+  /** Downscaled screenshot as stored in the session; null when it was evicted. */
+  screenshot: string | null;
+  /** Findings as reported, at their original coordinates. */
+  predictions: DatasetPrediction[];
+  /** Ground truth: confirmed and drawn-in findings, with corrected boxes. */
+  labels: DatasetLabel[];
+  /** Status the labels alone score to under the pack's own scoring, without deployment overrides. */
+  status: DefensiveStatus;
+}
+
+export interface FeedbackDataset {
+  format: typeof DATASET_FORMAT;
+  version: 1;
+  exported_at: string;
+  session_id: string;
+  items: DatasetItem[];
+}
+
+/**
+ * Labelled data from reviewed steps, for evaluating providers. Only steps with at least one reviewer
+ * verdict are included, since an unreviewed step says nothing about what the model got right.
+ */
+export function buildFeedbackDataset(session: AuditSession, options: { now?: Date; loaded?: RulePack } = {}): FeedbackDataset {
+  const items = session.steps
+    .filter(step => step.response.scans.some(s => s.review))
+    .map(step => {
+      const scans = step.response.scans;
+      const labels = scans
+        .filter(s => s.review && s.review.verdict !== 'disputed')
+        .map(({ pattern_type, severity, coordinates }) => ({ pattern_type, severity, coordinates }));
+      const predictions: DatasetPrediction[] = scans
+        .filter(s => s.review?.verdict !== 'added')
+        .map(s => ({
+          pattern_type: s.pattern_type,
+          severity: s.severity,
+          coordinates: s.review?.original_coordinates || s.coordinates,
+          source: s.evidence ? 'local' : 'model',
+          ...(s.confidence !== undefined ? { confidence: s.confidence } : {}),
+          ...(s.review && s.review.verdict !== 'added' ? { verdict: s.review.verdict } : {})
+        }));
+      const pack = stepRulePack(session, step.index, options.loaded);
+      const status = calculateSafetyMetrics(labels.map(l => ({ ...l, truth_label: '', action_fix: '' })), pack, {}).status;
+      return {
+        id: `${session.id}-${step.index}`,
+        step_index: step.index,
+        captured_at: step.captured_at,
+        ...(step.rule_pack ? { rule_pack: step.rule_pack } : {}),
+        screenshot: step.screenshot,
+        predictions,
+        labels,
+        status
+      };
+    });
+  return { format: DATASET_FORMAT, version: 1, exported_at: (options.now || new Date()).toISOString(), session_id: session.id, items };
+}
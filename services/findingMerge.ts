@@ -0,0 +1,95 @@
+import { DarkPatternScan, Severity } from "../types";
+
+type Box = [number, number, number, number]; // [ymin, xmin, ymax, xmax]
+
+export interface DedupeOptions {
+  /** Boxes overlapping at least this much (IoU) are the same element. */
+  iouThreshold: number;
+  /**
+   * A box cut by a tile edge only covers part of the element, so its IoU with the full box is low.
+   * Such pairs still merge when the smaller box is mostly inside the larger one and the labels agree.
+   */
+  containmentThreshold: number;
+  textThreshold: number;
+}
+
+export const DEFAULT_DEDUPE_OPTIONS: DedupeOptions = {
+  iouThreshold: 0.5,
+  containmentThreshold: 0.6,
+  textThreshold: 0.5
+};
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  [Severity.Low]: 0,
+  [Severity.Medium]: 1,
+  [Severity.High]: 2
+};
+
+const area = ([ymin, xmin, ymax, xmax]: Box) => Math.max(0, ymax - ymin) * Math.max(0, xmax - xmin);
+
+function intersection(a: Box, b: Box): number {
+  return area([Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.min(a[2], b[2]), Math.min(a[3], b[3])]);
+}
+
+export function boxIoU(a: Box, b: Box): number {
+  const inter = intersection(a, b);
+  const union = area(a) + area(b) - inter;
+  return union > 0 ? inter / union : 0;
+}
+
+/** Share of the smaller box covered by the larger one. */
+export function boxContainment(a: Box, b: Box): number {
+  const smaller = Math.min(area(a), area(b));
+  return smaller > 0 ? intersection(a, b) / smaller : 0;
+}
+
+const tokens = (text: string) => new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 1));
+
+/** Dice coefficient over word tokens; 1 for identical wording, 0 for nothing in common. */
+export function textSimilarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.size === 0 && tb.size === 0) return 1;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return (2 * shared) / (ta.size + tb.size);
+}
+
+function isDuplicate(a: DarkPatternScan, b: DarkPatternScan, options: DedupeOptions): boolean {
+  if (a.pattern_type !== b.pattern_type) return false;
+  if (boxIoU(a.coordinates, b.coordinates) >= options.iouThreshold) return true;
+  return boxContainment(a.coordinates, b.coordinates) >= options.containmentThreshold
+    && textSimilarity(a.truth_label, b.truth_label) >= options.textThreshold;
+}
+
+function combine(a: DarkPatternScan, b: DarkPatternScan): DarkPatternScan {
+  const primary = SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a;
+  const tiles = new Set([...(a.source_tiles || []), ...(b.source_tiles || [])]);
+  const evidence = a.evidence || b.evidence;
+  return {
+    ...primary,
+    ...(evidence ? { evidence } : {}),
+    coordinates: [
+      Math.min(a.coordinates[0], b.coordinates[0]),
+      Math.min(a.coordinates[1], b.coordinates[1]),
+      Math.max(a.coordinates[2], b.coordinates[2]),
+      Math.max(a.coordinates[3], b.coordinates[3])
+    ],
+    source_tiles: [...tiles].sort((x, y) => x - y)
+  };
+}
+
+/**
+ * Collapses findings reported more than once, typically by neighbouring tiles in their overlap band.
+ * Coordinates must already be in the global (full screenshot) space. The merged finding keeps the
+ * wording of the most severe copy, the union of the boxes, every contributing tile and any local evidence.
+ */
+export function dedupeScans(scans: DarkPatternScan[], options: DedupeOptions = DEFAULT_DEDUPE_OPTIONS): DarkPatternScan[] {
+  const merged: DarkPatternScan[] = [];
+  scans.forEach(scan => {
+    const idx = merged.findIndex(existing => isDuplicate(existing, scan, options));
+    if (idx === -1) merged.push(scan);
+    else merged[idx] = combine(merged[idx], scan);
+  });
+  return merged;
+}
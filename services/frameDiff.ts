@@ -0,0 +1,117 @@
+/** Grayscale thumbnail of a frame, `grid` × `grid` cells of mean luma (0-255). */
+export interface FrameSignature {
+  grid: number;
+  cells: Float32Array;
+}
+
+export interface ChangeDetectorConfig {
+  /** Luma difference (0-255) above which a cell counts as changed. Absorbs video compression noise. */
+  cellThreshold: number;
+  /** Share of cells that must differ from the last audited frame before it is worth auditing again. */
+  minChangedFraction: number;
+  /** Share of cells allowed to differ between consecutive samples for the view to count as still. */
+  settleFraction: number;
+  /** Consecutive still samples required, so scrolling and transitions finish before auditing. */
+  settleFrames: number;
+  /** Minimum time between audits, whatever the change; also paces retries of a frame whose audit failed. */
+  minIntervalMs: number;
+}
+
+export const DEFAULT_CHANGE_CONFIG: ChangeDetectorConfig = {
+  cellThreshold: 16,
+  minChangedFraction: 0.015,
+  settleFraction: 0.004,
+  settleFrames: 2,
+  minIntervalMs: 5000
+};
+
+export const SIGNATURE_GRID = 64;
+
+/** Box-averages RGBA pixels into a luma grid. Works on any ImageData-shaped buffer. */
+export function frameSignature(rgba: ArrayLike<number>, width: number, height: number, grid = SIGNATURE_GRID): FrameSignature {
+  const sums = new Float32Array(grid * grid);
+  const counts = new Uint32Array(grid * grid);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(grid - 1, Math.floor((y / height) * grid));
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const cell = row * grid + Math.min(grid - 1, Math.floor((x / width) * grid));
+      sums[cell] += 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+      counts[cell]++;
+    }
+  }
+  return { grid, cells: sums.map((sum, i) => counts[i] ? sum / counts[i] : 0) };
+}
+
+/** Share of cells (0-1) whose luma moved by more than `cellThreshold`. */
+export function changedFraction(a: FrameSignature, b: FrameSignature, cellThreshold = DEFAULT_CHANGE_CONFIG.cellThreshold): number {
+  if (a.grid !== b.grid) return 1;
+  let changed = 0;
+  for (let i = 0; i < a.cells.length; i++) {
+    if (Math.abs(a.cells[i] - b.cells[i]) > cellThreshold) changed++;
+  }
+  return changed / a.cells.length;
+}
+
+/** Draws the current video frame at grid size and reads it back; the browser does the downscaling. */
+export function sampleVideoSignature(video: HTMLVideoElement, canvas: HTMLCanvasElement, grid = SIGNATURE_GRID): FrameSignature {
+  canvas.width = grid;
+  canvas.height = grid;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(video, 0, 0, grid, grid);
+  return frameSignature(ctx.getImageData(0, 0, grid, grid).data, grid, grid, grid);
+}
+
+export type ChangeReason = 'first' | 'changed' | 'unchanged' | 'settling' | 'cooldown';
+
+export interface ChangeDecision {
+  audit: boolean;
+  reason: ChangeReason;
+  /** Share of cells that differ from the last audited frame. */
+  changed: number;
+}
+
+/**
+ * Decides which sampled frames are worth a model call. A frame is audited when it differs enough from
+ * the last audited frame (navigation, a modal, a cart update) and the view has stopped moving. Small
+ * local changes such as a ticking countdown stay under `minChangedFraction` and never trigger.
+ * The baseline only moves on `commit`, once an audit succeeded, so a frame whose audit failed is
+ * offered again after the cooldown instead of being taken as seen.
+ */
+export class ChangeDetector {
+  private baseline: FrameSignature | null = null;
+  private previous: FrameSignature | null = null;
+  private stillFrames = 0;
+  private lastAttemptAt = -Infinity;
+
+  constructor(private config: ChangeDetectorConfig = DEFAULT_CHANGE_CONFIG) {}
+
+  observe(signature: FrameSignature, now: number): ChangeDecision {
+    const { cellThreshold, minChangedFraction, settleFraction, settleFrames, minIntervalMs } = this.config;
+    const still = !!this.previous && changedFraction(this.previous, signature, cellThreshold) <= settleFraction;
+    this.stillFrames = still ? this.stillFrames + 1 : 0;
+    this.previous = signature;
+
+    const changed = this.baseline ? changedFraction(this.baseline, signature, cellThreshold) : 1;
+    if (this.baseline && changed < minChangedFraction) return { audit: false, reason: 'unchanged', changed };
+    if (this.stillFrames < settleFrames) return { audit: false, reason: 'settling', changed };
+    if (now - this.lastAttemptAt < minIntervalMs) return { audit: false, reason: 'cooldown', changed };
+
+    this.lastAttemptAt = now;
+    return { audit: true, reason: this.baseline ? 'changed' : 'first', changed };
+  }
+
+  /** Records a successfully audited frame as the one later frames are compared against. */
+  commit(signature: FrameSignature, now: number) {
+    this.baseline = signature;
+    this.lastAttemptAt = Math.max(this.lastAttemptAt, now);
+  }
+
+  reset() {
+    this.baseline = null;
+    this.previous = null;
+    this.stillFrames = 0;
+    this.lastAttemptAt = -Infinity;
+  }
+}
@@ -0,0 +1,203 @@
+import type { AuditProvider } from "./auditProvider";
+import type { VerifyOptions } from "./auditService";
+import { PageImage, auditPage, pageResponse } from "./pageAudit";
+import { DEFAULT_RULE_PACK, RulePack } from "./rulePack";
+import { appendStep, createSession, currentSignature } from "./sessionStore";
+import type { TokenBucket } from "./tileScheduler";
+import { AuditSession, DarkPatternScan, DefensiveStatus, DomSnapshot, PatternType } from "../types";
+
+export type JourneyAction =
+  | { type: 'goto'; url: string }
+  | { type: 'click'; selector: string }
+  | { type: 'fill'; selector: string; value: string }
+  | { type: 'check'; selector: string }
+  | { type: 'wait_for'; selector: string };
+
+/** One audited stop of a journey: the actions that lead there, then a capture of the page they end on. */
+export interface JourneyStep {
+  name: string;
+  actions: JourneyAction[];
+}
+
+/** A scripted purchase funnel, e.g. land, add to cart, check out, cancel the subscription. */
+export interface Journey {
+  name: string;
+  /** Relative `goto` URLs resolve against this. */
+  base_url?: string;
+  steps: JourneyStep[];
+}
+
+/**
+ * What the runner needs from a browser. The CLI backs it with headless Chromium; tests can back it with
+ * anything that returns a screenshot for the current page.
+ */
+export interface BrowserDriver {
+  goto(url: string): Promise<void>;
+  click(selector: string): Promise<void>;
+  fill(selector: string, value: string): Promise<void>;
+  check(selector: string): Promise<void>;
+  waitFor(selector: string): Promise<void>;
+  /** The whole page, not just the viewport, as a PNG data URL. */
+  screenshot(): Promise<string>;
+  snapshot(): Promise<DomSnapshot>;
+  currentUrl(): string;
+}
+
+const ACTION_FIELDS: Record<JourneyAction['type'], string[]> = {
+  goto: ['url'],
+  click: ['selector'],
+  fill: ['selector', 'value'],
+  check: ['selector'],
+  wait_for: ['selector']
+};
+
+/** Validates a journey file. Errors name the offending step and action. */
+export function parseJourney(raw: unknown): Journey {
+  const journey = raw as Journey;
+  if (!journey || typeof journey !== 'object') throw new Error("Journey must be a JSON object");
+  if (typeof journey.name !== 'string' || !journey.name) throw new Error("Journey needs a name");
+  if (journey.base_url !== undefined && typeof journey.base_url !== 'string') throw new Error("base_url must be a string");
+  if (!Array.isArray(journey.steps) || journey.steps.length === 0) throw new Error("Journey needs at least one step");
+  journey.steps.forEach((step, i) => {
+    if (!step || typeof step.name !== 'string' || !step.name) throw new Error(`steps[${i}] needs a name`);
+    if (!Array.isArray(step.actions)) throw new Error(`steps[${i}].actions must be an array`);
+    step.actions.forEach((action, j) => {
+      const fields = action && ACTION_FIELDS[action.type];
+      if (!fields) throw new Error(`steps[${i}].actions[${j}] has unknown type "${action?.type}"`);
+      const missing = fields.find(field => typeof (action as any)[field] !== 'string');
+      if (missing) throw new Error(`steps[${i}].actions[${j}] (${action.type}) needs a string "${missing}"`);
+    });
+  });
+  if (journey.steps[0].actions[0]?.type !== 'goto') throw new Error("The first step must start with a goto");
+  return journey;
+}
+
+export interface TimelineEntry {
+  index: number;
+  name: string;
+  url: string;
+  captured_at: string;
+  /** null when the step's actions or its audit failed outright. */
+  status: DefensiveStatus | null;
+  scans: DarkPatternScan[];
+  /** Pattern types not reported on any earlier step. */
+  new_types: PatternType[];
+  /** Price drift findings against the earlier steps; also part of `scans`. */
+  drift: DarkPatternScan[];
+  error?: string;
+}
+
+export interface JourneyTimeline {
+  journey: string;
+  started_at: string;
+  finished_at: string;
+  /** False when a step failed and the remaining ones were not run. */
+  completed: boolean;
+  steps: TimelineEntry[];
+}
+
+export interface JourneyOptions {
+  provider: AuditProvider;
+  rulePack?: RulePack;
+  /** Turns a captured screenshot into something the page audit can tile. */
+  loadPage: (screenshot: string) => PageImage;
+  /** Overrides the journey's own base_url, e.g. to point a flow at a staging host. */
+  baseUrl?: string;
+  verify?: VerifyOptions;
+  signal?: AbortSignal;
+  rateLimiter?: TokenBucket;
+  retryDelayMs?: number;
+  onProgress?: (step: string, current: number, total: number) => void;
+  /** Fires once per step with the full-page screenshot, null when nothing could be captured. */
+  onStep?: (entry: TimelineEntry, screenshot: string | null) => void;
+}
+
+async function runAction(driver: BrowserDriver, action: JourneyAction, baseUrl?: string) {
+  switch (action.type) {
+    case 'goto': return driver.goto(baseUrl ? new URL(action.url, baseUrl).href : action.url);
+    case 'click': return driver.click(action.selector);
+    case 'fill': return driver.fill(action.selector, action.value);
+    case 'check': return driver.check(action.selector);
+    case 'wait_for': return driver.waitFor(action.selector);
+  }
+}
+
+const describeAction = (action: JourneyAction) => `${action.type} ${'url' in action ? action.url : action.selector}`;
+
+/**
+ * Drives the browser through the journey and audits the page at the end of every step against the
+ * session's rolling signature, so price drift and staged reveals are judged across the whole funnel.
+ * A step whose actions fail ends the journey: later steps would be audited on the wrong page.
+ */
+export async function runJourney(journey: Journey, driver: BrowserDriver, options: JourneyOptions): Promise<JourneyTimeline> {
+  const pack = options.rulePack || DEFAULT_RULE_PACK;
+  const baseUrl = options.baseUrl || journey.base_url;
+  const started_at = new Date().toISOString();
+  const seen = new Set<PatternType>();
+  const entries: TimelineEntry[] = [];
+  let session: AuditSession = createSession();
+  let completed = true;
+
+  for (const [index, step] of journey.steps.entries()) {
+    if (options.signal?.aborted) throw new Error("AbortError");
+    const entry: TimelineEntry = { index, name: step.name, url: driver.currentUrl(), captured_at: new Date().toISOString(), status: null, scans: [], new_types: [], drift: [] };
+    let screenshot: string | null = null;
+    try {
+      for (const action of step.actions) {
+        try {
+          await runAction(driver, action, baseUrl);
+        } catch (err: any) {
+          throw new Error(`${describeAction(action)} failed: ${err.message || err}`);
+        }
+      }
+      entry.url = driver.currentUrl();
+      screenshot = await driver.screenshot();
+      const dom = await driver.snapshot();
+      entry.captured_at = new Date().toISOString();
+
+      const result = await auditPage(options.loadPage(screenshot), {
+        provider: options.provider,
+        rulePack: pack,
+        baseSignature: currentSignature(session),
+        dom,
+        verify: options.verify,
+        signal: options.signal,
+        rateLimiter: options.rateLimiter,
+        retryDelayMs: options.retryDelayMs,
+        onProgress: (current, total) => options.onProgress?.(step.name, current, total)
+      });
+      const response = pageResponse(result, session, { rulePack: pack });
+      if (!response.audit_failed) session = appendStep(session, null, response, pack);
+
+      entry.status = response.audit_failed ? null : response.viewport_meta.status;
+      entry.scans = response.scans;
+      entry.drift = response.scans.filter(scan => scan.evidence?.source === 'price_drift');
+      entry.new_types = [...new Set(response.scans.map(scan => scan.pattern_type))].filter(type => !seen.has(type));
+      entry.new_types.forEach(type => seen.add(type));
+      if (response.error) entry.error = response.error;
+    } catch (err: any) {
+      if (err.message === "AbortError") throw err;
+      entry.error = err.message || String(err);
+      completed = false;
+    }
+    entries.push(entry);
+    options.onStep?.(entry, screenshot);
+    if (!completed) break;
+  }
+
+  return { journey: journey.name, started_at, finished_at: new Date().toISOString(), completed, steps: entries };
+}
+
+/** Plain-text timeline for the terminal: one line per step, then its drift and newly seen patterns. */
+export function formatTimeline(timeline: JourneyTimeline): string {
+  const lines = [`Journey: ${timeline.journey}`];
+  for (const entry of timeline.steps) {
+    const count = entry.scans.length;
+    lines.push(`${entry.index + 1}. ${entry.name}  ${entry.status || 'FAILED'}  ${count} finding${count === 1 ? '' : 's'}  ${entry.url}`);
+    if (entry.new_types.length > 0) lines.push(`   new: ${entry.new_types.join(', ')}`);
+    entry.drift.forEach(scan => lines.push(`   drift: ${scan.evidence?.summary || scan.truth_label}`));
+    if (entry.error) lines.push(`   error: ${entry.error}`);
+  }
+  if (!timeline.completed) lines.push('', `Stopped after step ${timeline.steps.length} of the journey.`);
+  return lines.join('\n');
+}
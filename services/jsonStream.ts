@@ -0,0 +1,106 @@
+export type JsonPath = (string | number)[];
+
+interface Frame {
+  kind: 'object' | 'array';
+  path: JsonPath;
+  start: number;
+  index: number;
+  key?: string;
+  awaitingKey: boolean;
+}
+
+/**
+ * Incremental JSON scanner for streamed model output. Feed it chunks as they arrive and it
+ * reports every object or array whose path matches `pattern` the moment its closing bracket lands.
+ * `'*'` in the pattern matches any key or array index, e.g. `['scans', '*']`.
+ *
+ * The scanner is tolerant of prose or code fences before the first brace; it never
+ * validates the document as a whole, that is left to the final parse.
+ */
+export class IncrementalJSONParser {
+  private buffer = '';
+  private cursor = 0;
+  private stack: Frame[] = [];
+  private inString = false;
+  private escaped = false;
+  private keyStart = -1;
+  private started = false;
+
+  constructor(
+    private readonly pattern: JsonPath,
+    private readonly onValue: (value: any, path: JsonPath) => void
+  ) {}
+
+  get text(): string {
+    return this.buffer;
+  }
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    for (; this.cursor < this.buffer.length; this.cursor++) {
+      this.step(this.buffer[this.cursor], this.cursor);
+    }
+  }
+
+  private step(ch: string, pos: number): void {
+    const top = this.stack[this.stack.length - 1];
+
+    if (this.inString) {
+      if (this.escaped) this.escaped = false;
+      else if (ch === '\\') this.escaped = true;
+      else if (ch === '"') {
+        this.inString = false;
+        if (this.keyStart !== -1 && top) {
+          try {
+            top.key = JSON.parse(this.buffer.slice(this.keyStart, pos + 1));
+          } catch {
+            top.key = undefined;
+          }
+          top.awaitingKey = false;
+          this.keyStart = -1;
+        }
+      }
+      return;
+    }
+
+    if (!this.started) {
+      if (ch !== '{' && ch !== '[') return;
+      this.started = true;
+    }
+
+    switch (ch) {
+      case '"':
+        this.inString = true;
+        if (top?.kind === 'object' && top.awaitingKey) this.keyStart = pos;
+        break;
+      case '{':
+      case '[': {
+        const path = top ? [...top.path, top.kind === 'array' ? top.index : (top.key ?? '')] : [];
+        this.stack.push({ kind: ch === '{' ? 'object' : 'array', path, start: pos, index: 0, awaitingKey: ch === '{' });
+        break;
+      }
+      case '}':
+      case ']': {
+        const frame = this.stack.pop();
+        if (frame && this.matches(frame.path)) {
+          try {
+            this.onValue(JSON.parse(this.buffer.slice(frame.start, pos + 1)), frame.path);
+          } catch {
+            // Malformed fragment; the final whole-document parse decides what survives.
+          }
+        }
+        if (this.stack.length === 0) this.started = false;
+        break;
+      }
+      case ',':
+        if (top?.kind === 'array') top.index++;
+        else if (top?.kind === 'object') top.awaitingKey = true;
+        break;
+    }
+  }
+
+  private matches(path: JsonPath): boolean {
+    if (path.length !== this.pattern.length) return false;
+    return this.pattern.every((segment, i) => segment === '*' || segment === path[i]);
+  }
+}
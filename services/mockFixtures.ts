@@ -0,0 +1,70 @@
+import { ScanResponse, Severity, DefensiveStatus, PatternType } from "../types";
+
+/**
+ * Recorded model responses replayed by the local mock provider.
+ * Coordinates are tile-relative (0-1000), exactly as the model returns them.
+ */
+export const RECORDED_SCAN_RESPONSES: ScanResponse[] = [
+  {
+    viewport_meta: { threat_count: 2, status: DefensiveStatus.Compromised, advice: "" },
+    scans: [
+      {
+        pattern_type: PatternType.SneakIntoBasket,
+        coordinates: [612, 540, 668, 960],
+        severity: Severity.High,
+        truth_label: "A 'Protection Plan' was added to the basket without being selected.",
+        action_fix: "Remove the Protection Plan line item before paying."
+      },
+      {
+        pattern_type: PatternType.FakeScarcity,
+        coordinates: [120, 80, 170, 420],
+        severity: Severity.Medium,
+        truth_label: "'Only 2 left!' badge with no stock evidence.",
+        action_fix: "Ignore the stock badge; availability claims are unverified."
+      }
+    ],
+    thought_signature: {
+      reasoning_path: "Basket contains an unrequested add-on; urgency badge pressures a fast checkout.",
+      security_brief: "Cart step. Headphones anchored at $79.99.",
+      catalog_anchors: [
+        {
+          id: "item-headphones",
+          name: "Wireless Headphones",
+          price: "$79.99",
+          numeric_price: 79.99,
+          original_price: "$79.99",
+          original_numeric_price: 79.99,
+          coordinates: [300, 540, 340, 960],
+          is_violation: false,
+          is_currently_visible: true
+        }
+      ]
+    }
+  },
+  {
+    viewport_meta: { threat_count: 1, status: DefensiveStatus.Caution, advice: "" },
+    scans: [
+      {
+        pattern_type: PatternType.Confirmshaming,
+        coordinates: [820, 300, 860, 700],
+        severity: Severity.Low,
+        truth_label: "Decline link reads 'No thanks, I prefer paying full price'.",
+        action_fix: "The decline link is safe to click; the wording is only a guilt lever."
+      }
+    ],
+    thought_signature: {
+      reasoning_path: "Opt-out copy shames the user into accepting the newsletter.",
+      security_brief: "Newsletter modal. No price anchors visible.",
+      catalog_anchors: []
+    }
+  },
+  {
+    viewport_meta: { threat_count: 0, status: DefensiveStatus.Safe, advice: "" },
+    scans: [],
+    thought_signature: {
+      reasoning_path: "Pricing and controls are presented plainly.",
+      security_brief: "Clean segment.",
+      catalog_anchors: []
+    }
+  }
+];
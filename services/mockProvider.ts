@@ -0,0 +1,53 @@
+import type { AuditProvider, AuditRequest } from "./auditProvider";
+import { ScanResponse } from "../types";
+import { splitDataUrl } from "../utils";
+import { RECORDED_SCAN_RESPONSES } from "./mockFixtures";
+
+// Paces replayed streams so progressive rendering is visible during demos.
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_CHUNK_DELAY = 40;
+
+/** FNV-1a over the image payload so the same screenshot always replays the same fixture. */
+function hashImage(data: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Offline provider that replays recorded responses. Useful for UI work, demos and tests
+ * where network access or a live model is not available.
+ */
+export function createMockProvider(fixtures: ScanResponse[] = RECORDED_SCAN_RESPONSES): AuditProvider {
+  const replay = (request: AuditRequest): string => {
+    if (request.signal?.aborted) throw new Error("AbortError");
+    // Verifier requests: the replayed findings are curated, so every one holds up
+    if (request.schema.properties?.verdict) return JSON.stringify({ verdict: 'confirm', confidence: 0.9, reason: "Recorded finding, confirmed by replay." });
+    // Flow screens: one click per screen, nothing else to count
+    if (request.schema.properties?.clicks) return JSON.stringify({ summary: "Recorded screen.", clicks: 1, form_fields: 0, retention_offers: [], confirmshaming: [], channel_switches: [] });
+    if (request.schema.properties?.banner_found) return JSON.stringify({ banner_found: false, banner: [0, 0, 0, 0], cmp: '', buttons: [], toggles: [] });
+    if (fixtures.length === 0) return '{}';
+    const { data } = splitDataUrl(request.image);
+    const fixture = fixtures[hashImage(data) % fixtures.length];
+    return JSON.stringify({ scans: fixture.scans, thought_signature: fixture.thought_signature });
+  };
+
+  return {
+    id: 'mock',
+    label: 'Local Replay',
+    async generate(request: AuditRequest): Promise<string> {
+      return replay(request);
+    },
+    async *stream(request: AuditRequest): AsyncIterable<string> {
+      const text = replay(request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        if (request.signal?.aborted) throw new Error("AbortError");
+        await new Promise(res => setTimeout(res, STREAM_CHUNK_DELAY));
+        yield text.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    }
+  };
+}
@@ -0,0 +1,41 @@
+/** Pixel rectangle in the recognized image. Same shape Tesseract uses for its `rectangle` option. */
+export interface PixelRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrLine {
+  text: string;
+  /** 0-100 as reported by the engine. */
+  confidence: number;
+  /** Pixel box in the full image, even when only a rectangle of it was recognized. */
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
+
+/** Local text recognition. Kept behind an interface so the watch loop can be driven by canned lines in tests. */
+export interface TextRecognizer {
+  recognize(image: HTMLCanvasElement, rect?: PixelRect): Promise<OcrLine[]>;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Tesseract running in a Web Worker; recognition runs locally and the frames are never uploaded. The worker
+ * script, the wasm core and the language data are not bundled: tesseract.js downloads them from its public
+ * CDN (jsDelivr) on first use, and the browser caches them. The module is imported lazily so the main
+ * bundle stays small.
+ */
+export async function createTesseractRecognizer(lang = 'eng'): Promise<TextRecognizer> {
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker(lang);
+  return {
+    async recognize(image, rect) {
+      const { data } = await worker.recognize(image, rect ? { rectangle: rect } : {});
+      return (data.lines || []).map(line => ({ text: line.text.trim(), confidence: line.confidence, bbox: line.bbox }));
+    },
+    async terminate() {
+      await worker.terminate();
+    }
+  };
+}
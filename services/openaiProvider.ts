@@ -0,0 +1,84 @@
+import type { AuditProvider, AuditRequest } from "./auditProvider";
+import { toDataUrl } from "../utils";
+import { ProviderError, parseRetryAfter } from "./providerError";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat-completions dialect
+ * (OpenAI, Azure-style gateways, vLLM, Ollama, LM Studio...).
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AuditProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const send = async (request: AuditRequest, stream: boolean): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: config.model,
+        stream,
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: request.prompt },
+              { type: 'image_url', image_url: { url: toDataUrl(request.image) } }
+            ]
+          }
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'scan_response', schema: request.schema }
+        }
+      })
+    });
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw new ProviderError(`Provider HTTP ${res.status}: ${detail.slice(0, 200)}`, res.status, parseRetryAfter(res.headers.get('retry-after')));
+    }
+    return res;
+  };
+
+  return {
+    id: 'openai',
+    label: `OpenAI-Compatible (${config.model})`,
+    // High-detail vision inputs are fit into 2048px, then the short side is cut to 768px
+    inputLimits: { maxEdge: 2048, maxPixels: 2048 * 768 },
+    async generate(request: AuditRequest): Promise<string> {
+      const body = await (await send(request, false)).json();
+      return body?.choices?.[0]?.message?.content || '{}';
+    },
+    async *stream(request: AuditRequest): AsyncIterable<string> {
+      const res = await send(request, true);
+      if (!res.body) throw new Error("Provider returned an empty stream.");
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!payload || payload === '[DONE]' || !line.startsWith('data:')) continue;
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,184 @@
+import type { AuditProvider } from "./auditProvider";
+import { VerifyOptions, analyzeUIScreen, foldTileSignatures } from "./auditService";
+import { dedupeScans } from "./findingMerge";
+import { detectPriceDrift } from "./priceDrift";
+import { DEFAULT_RULE_PACK, RulePack } from "./rulePack";
+import { calculateSafetyMetrics } from "./scoring";
+import { DEFAULT_TILE_LIMITS, TileLimits, TileRect, planCoarseTiles, planTiles, selectTilesForRegions, tileBounds, toGlobalScan, toGlobalSignature } from "./tiler";
+import { DEFAULT_SCHEDULER_CONFIG, TokenBucket, getRateLimiter, runTileQueue } from "./tileScheduler";
+import { AuditSession, DarkPatternScan, DefensiveStatus, DomSnapshot, ScanResponse } from "../types";
+
+/** A screenshot the pipeline can cut tiles from; the browser backs it with a canvas, Node with decoded pixels. */
+export interface PageImage {
+  width: number;
+  height: number;
+  /** The tile, scaled to its output size, as a JPEG data URL. */
+  renderTile(tile: TileRect): Promise<string>;
+}
+
+export interface PageAuditOptions {
+  provider: AuditProvider;
+  rulePack?: RulePack;
+  /** Signature every tile is audited against; the results are folded into it in tile order. */
+  baseSignature?: Record<string, any>;
+  /** Audit a low-resolution overview first and only send the tiles where it saw something. */
+  coarsePass?: boolean;
+  /** Stream findings per tile; `onScans` then fires as they arrive rather than per finished tile. */
+  stream?: boolean;
+  verify?: VerifyOptions;
+  dom?: DomSnapshot;
+  signal?: AbortSignal;
+  concurrency?: number;
+  /** Request budget for the tiles. Defaults to the provider's shared bucket. */
+  rateLimiter?: TokenBucket;
+  /** Base delay for tile retries. Tests pass 0. */
+  retryDelayMs?: number;
+  /** Every finding so far, in page coordinates and deduplicated across tiles. */
+  onScans?: (scans: DarkPatternScan[]) => void;
+  onProgress?: (current: number, total: number, stage?: string) => void;
+}
+
+export interface PageAuditResult {
+  /** Model and DOM-rule findings in page coordinates. Card-only findings are dropped, as tiles cannot place them. */
+  scans: DarkPatternScan[];
+  thought_signature: ScanResponse['thought_signature'];
+  /** Tiles that came back with an answer. 0 together with `error` means nothing was audited. */
+  tiles_audited: number;
+  /** The first tile error; tiles that finished before it still count. */
+  error?: string;
+}
+
+/**
+ * Tiles a page, audits every tile and folds the results into one page-level answer. Tiles overlap, so
+ * findings are deduplicated; a failed tile stops new tiles from being dispatched but keeps what the
+ * others found. Scoring and price drift are left to the caller, which owns the session.
+ */
+export async function auditPage(page: PageImage, options: PageAuditOptions): Promise<PageAuditResult> {
+  const { provider, signal } = options;
+  const pack = options.rulePack || DEFAULT_RULE_PACK;
+  const limits = { ...DEFAULT_TILE_LIMITS, ...provider.inputLimits };
+  const fineTiles = planTiles(page.width, page.height, limits);
+  // A single-tile page gains nothing from an overview pass
+  const coarseTiles = options.coarsePass && fineTiles.length > 1 ? planCoarseTiles(page.width, page.height, limits) : [];
+  const rateLimiter = options.rateLimiter || getRateLimiter(provider.id);
+  const baseSignature = { ...(options.baseSignature || {}) };
+  let total = coarseTiles.length || fineTiles.length;
+  let completed = 0;
+  let firstError: string | undefined;
+  options.onProgress?.(0, total);
+
+  const runPass = async (tiles: TileRect[]) => {
+    const finalTileScans: (DarkPatternScan[] | null)[] = tiles.map(() => null);
+    const streamedTileScans: DarkPatternScan[][] = tiles.map(() => []);
+    const orderedScans = () => dedupeScans(finalTileScans.flatMap((final, i) => final ?? streamedTileScans[i]));
+
+    const tasks = tiles.map((tile, i) => async (taskSignal?: AbortSignal) => analyzeUIScreen(await page.renderTile(tile), baseSignature, taskSignal, {
+      provider,
+      rateLimiter,
+      retryDelayMs: options.retryDelayMs,
+      stream: options.stream,
+      dom: options.dom ? { snapshot: options.dom, region: tileBounds(tile, page.width, page.height) } : undefined,
+      rulePack: pack,
+      verify: options.verify,
+      onScan: (scan) => {
+        if (taskSignal?.aborted || scan.coordinates.every(c => c === 0)) return;
+        streamedTileScans[i].push(toGlobalScan(scan, tile, page.width, page.height));
+        options.onScans?.(orderedScans());
+      }
+    }));
+
+    const outcomes = await runTileQueue(tasks, {
+      concurrency: options.concurrency ?? DEFAULT_SCHEDULER_CONFIG.concurrency,
+      signal,
+      stopWhen: (result) => !!result.error,
+      onResult: (i, result) => {
+        options.onProgress?.(++completed, total);
+        if (result.error) firstError = firstError || result.error;
+        finalTileScans[i] = result.error ? [] : result.scans
+          .filter(scan => !scan.coordinates.every(c => c === 0))
+          .map(scan => toGlobalScan(scan, tiles[i], page.width, page.height));
+        options.onScans?.(orderedScans());
+      }
+    });
+
+    return {
+      scans: dedupeScans(finalTileScans.flatMap(final => final ?? [])),
+      signatures: outcomes.flatMap((o, i) => o && !o.error ? [toGlobalSignature(o.thought_signature, tiles[i], page.width, page.height)] : []),
+      failed: outcomes.some(o => o?.error)
+    };
+  };
+
+  let scans: DarkPatternScan[];
+  let signatures: Record<string, any>[];
+  if (coarseTiles.length > 0) {
+    const coarse = await runPass(coarseTiles);
+    // Only spend high-resolution requests where the overview saw something
+    const flagged = coarse.failed ? [] : selectTilesForRegions(fineTiles, coarse.scans.map(s => s.coordinates), page.width, page.height);
+    if (flagged.length > 0) {
+      total = completed + flagged.length;
+      options.onProgress?.(completed, total, "Resolving Flagged Regions...");
+      const fine = await runPass(flagged);
+      scans = fine.scans;
+      signatures = [...coarse.signatures, ...fine.signatures];
+    } else {
+      scans = coarse.scans;
+      signatures = coarse.signatures;
+    }
+  } else {
+    const fine = await runPass(fineTiles);
+    scans = fine.scans;
+    signatures = fine.signatures;
+  }
+
+  return {
+    scans,
+    thought_signature: foldTileSignatures(baseSignature, signatures) as ScanResponse['thought_signature'],
+    tiles_audited: signatures.length,
+    ...(firstError ? { error: firstError } : {})
+  };
+}
+
+/** The whole page as one image scaled to fit the model, for audits that read a screen at a glance instead of tiling it. */
+export function renderOverview(page: PageImage, limits: Pick<TileLimits, 'maxEdge' | 'maxPixels'> = DEFAULT_TILE_LIMITS): Promise<string> {
+  const scale = Math.min(1, limits.maxEdge / Math.max(page.width, page.height), Math.sqrt(limits.maxPixels / (page.width * page.height)));
+  return page.renderTile({
+    index: 0, row: 0, col: 0, x: 0, y: 0, width: page.width, height: page.height,
+    outputWidth: Math.max(1, Math.round(page.width * scale)),
+    outputHeight: Math.max(1, Math.round(page.height * scale))
+  });
+}
+
+/**
+ * Answer for an audit where no provider request succeeded. It is left unscored and held at Caution:
+ * an empty finding list from a broken provider must not read as a clean page.
+ */
+export function failedAuditResponse(error: string, thought_signature: ScanResponse['thought_signature'], scans: DarkPatternScan[] = []): ScanResponse {
+  return {
+    viewport_meta: { threat_count: scans.length, status: DefensiveStatus.Caution, advice: "Audit failed; nothing was checked." },
+    scans,
+    thought_signature,
+    error,
+    audit_failed: true
+  };
+}
+
+/**
+ * Turns a page audit into the session step's answer: price drift against the session's earlier steps,
+ * then `localScans` (e.g. timer-watch findings), then the page's own findings, deduplicated and scored.
+ * Drift and local findings go first so their evidence wins a merge with the model's copy. When no tile
+ * was audited the answer is a failed one, whatever local findings came with it.
+ */
+export function pageResponse(result: PageAuditResult, session: AuditSession, options: { rulePack?: RulePack; localScans?: DarkPatternScan[] } = {}): ScanResponse {
+  if (result.error && result.tiles_audited === 0) return failedAuditResponse(result.error, result.thought_signature, dedupeScans(options.localScans || []));
+  const driftScans = detectPriceDrift([
+    ...session.steps.map(step => ({ index: step.index, anchors: step.anchors })),
+    { index: session.steps.length, anchors: result.thought_signature.catalog_anchors }
+  ]);
+  const scans = dedupeScans([...driftScans, ...(options.localScans || []), ...result.scans]);
+  return {
+    viewport_meta: calculateSafetyMetrics(scans, options.rulePack || DEFAULT_RULE_PACK),
+    scans,
+    thought_signature: result.thought_signature,
+    ...(result.error ? { error: result.error } : {})
+  };
+}
@@ -0,0 +1,240 @@
+import { AnchorKind, CatalogAnchor, DarkPatternScan, FindingEvidence, Money, PatternType, Severity } from "../types";
+import { parseMoney } from "../utils";
+
+/** One audited step's catalog snapshot, as recorded on the session timeline. */
+export interface DriftStep {
+  index: number;
+  anchors: CatalogAnchor[];
+}
+
+interface Observation extends Money {
+  step: number;
+  anchor: CatalogAnchor;
+}
+
+const CENT = 0.01;
+const CHARGE_KINDS: AnchorKind[] = ['fee', 'tax', 'shipping'];
+
+const kindOf = (anchor: CatalogAnchor): AnchorKind => anchor.kind || 'item';
+const amountOf = (price: string | undefined): number => parseMoney(price)?.amount ?? NaN;
+const currencyOf = (price: string | undefined): string | null => parseMoney(price)?.currency ?? null;
+const money = (amount: number, currency: string | null) => `${currency ? `${currency} ` : ''}${amount.toFixed(2)}`;
+const signed = (delta: number) => `${delta >= 0 ? '+' : '-'}${Math.abs(delta).toFixed(2)}`;
+
+function observe(step: number, anchor: CatalogAnchor): Observation | null {
+  const money = anchor.money || parseMoney(anchor.price);
+  return money ? { ...money, step, anchor } : null;
+}
+
+function finding(
+  pattern_type: PatternType,
+  severity: Severity,
+  anchor: CatalogAnchor | null,
+  truth_label: string,
+  action_fix: string,
+  evidence: Omit<FindingEvidence, 'source'>
+): DarkPatternScan {
+  return {
+    pattern_type,
+    severity,
+    coordinates: anchor && anchor.is_currently_visible ? anchor.coordinates : [0, 0, 0, 0],
+    truth_label,
+    action_fix,
+    evidence: { source: 'price_drift', ...evidence }
+  };
+}
+
+/** Visible, parseable sightings of each anchor, keyed by id, in step order. */
+function observationsById(steps: DriftStep[]): Map<string, Observation[]> {
+  const byId = new Map<string, Observation[]>();
+  steps.forEach(step => step.anchors.forEach(anchor => {
+    if (!anchor.is_currently_visible) return;
+    const obs = observe(step.index, anchor);
+    if (!obs) return;
+    byId.set(anchor.id, [...(byId.get(anchor.id) || []), obs]);
+  }));
+  return byId;
+}
+
+/**
+ * Compares each anchor's sighting on the latest step with its previous sighting, so every change is
+ * reported once, on the step that introduced it, and a price that rises and falls back is still caught.
+ */
+function lineDrift(byId: Map<string, Observation[]>, latest: DriftStep): DarkPatternScan[] {
+  const findings: DarkPatternScan[] = [];
+  byId.forEach((observations, id) => {
+    const last = observations[observations.length - 1];
+    const first = observations[observations.length - 2];
+    const kind = kindOf(last.anchor);
+    if (!first || last.step !== latest.index || kind === 'total' || kind === 'subtotal' || kind === 'discount') return;
+    const current = latest.anchors.find(a => a.id === id) || last.anchor;
+    const name = last.anchor.name;
+
+    if (first.currency && last.currency && first.currency !== last.currency) {
+      findings.push(finding(PatternType.BaitAndSwitch, Severity.High, current,
+        `${name}: currency switched from ${first.currency} to ${last.currency} mid-flow.`,
+        "Confirm which currency you will actually be charged in before paying; card conversion fees may apply.",
+        {
+          summary: `Currency changed between step ${first.step + 1} and step ${last.step + 1}.`,
+          math: [`Step ${first.step + 1}: "${first.anchor.price}" → ${first.currency}`, `Step ${last.step + 1}: "${last.anchor.price}" → ${last.currency}`],
+          data: { anchor_id: id, from: first.anchor.price, to: last.anchor.price }
+        }));
+      return;
+    }
+
+    if (first.period !== last.period) {
+      // A price shown once with "/mo" and once without is as often a dropped suffix as a real switch.
+      const explicit = Boolean(first.period && last.period);
+      findings.push(finding(explicit ? PatternType.BaitAndSwitch : PatternType.Unclear, explicit ? Severity.High : Severity.Medium, current,
+        explicit
+          ? `${name}: billing changed from per ${first.period} to per ${last.period} mid-flow.`
+          : `${name}: shown ${first.period ? `per ${first.period}` : 'without a billing period'} at step ${first.step + 1} but ${last.period ? `per ${last.period}` : 'without one'} at step ${last.step + 1}.`,
+        explicit
+          ? "The billing terms changed after you started. Check how often, and how much, you will be charged."
+          : "Check whether this is a one-off charge or a recurring one before paying.",
+        {
+          summary: `Billing period changed between step ${first.step + 1} and step ${last.step + 1}.`,
+          math: [`Step ${first.step + 1}: "${first.anchor.price}"`, `Step ${last.step + 1}: "${last.anchor.price}"`],
+          data: { anchor_id: id, from: first.period ?? null, to: last.period ?? null }
+        }));
+      return;
+    }
+
+    const delta = last.amount - first.amount;
+    if (delta <= CENT) return;
+    const percent = first.amount > 0 ? ` (${signed((delta / first.amount) * 100)}%)` : '';
+    findings.push(finding(kind === 'item' ? PatternType.BaitAndSwitch : PatternType.HiddenCosts, Severity.High, current,
+      `${name}: price rose from ${first.anchor.price} to ${last.anchor.price} since step ${first.step + 1}.`,
+      "The price you were shown earlier is not the price being charged. Go back and compare before confirming.",
+      {
+        summary: `Displayed price increased by ${money(delta, last.currency)}${percent}.`,
+        math: [
+          `Step ${first.step + 1}: "${first.anchor.price}" = ${money(first.amount, first.currency)}${first.starting_at ? ' (advertised as a starting price)' : ''}`,
+          `Step ${last.step + 1}: "${last.anchor.price}" = ${money(last.amount, last.currency)}`,
+          `Δ = ${signed(delta)}${percent}`
+        ],
+        data: { anchor_id: id, from: first.amount, to: last.amount, delta }
+      }));
+  });
+  return findings;
+}
+
+function quantityChecks(step: DriftStep): DarkPatternScan[] {
+  return step.anchors.flatMap(anchor => {
+    if (!anchor.is_currently_visible || !anchor.quantity || !anchor.unit_price) return [];
+    const unit = amountOf(anchor.unit_price);
+    const line = amountOf(anchor.price);
+    if (isNaN(unit) || isNaN(line)) return [];
+    const expected = Math.round(anchor.quantity * unit * 100) / 100;
+    const delta = line - expected;
+    if (delta <= CENT) return [];
+    const currency = currencyOf(anchor.price);
+    return [finding(PatternType.BaitAndSwitch, Severity.High, anchor,
+      `${anchor.name}: line total does not match ${anchor.quantity} × ${anchor.unit_price}.`,
+      "The line is charging more than the per-item price shown. Check for a hidden add-on or ask for an itemized total.",
+      {
+        summary: `Line total exceeds quantity × unit price by ${money(delta, currency)}.`,
+        math: [
+          `${anchor.quantity} × ${money(unit, currency)} = ${money(expected, currency)}`,
+          `Displayed line: "${anchor.price}" = ${money(line, currency)}`,
+          `Δ = ${signed(delta)}`
+        ],
+        data: { anchor_id: anchor.id, quantity: anchor.quantity, unit, expected, line, delta }
+      })];
+  });
+}
+
+/**
+ * Checks the visible basket adds up: total = (subtotal, or the sum of items) + fees/tax/shipping - discounts.
+ * Skipped unless every known item is on screen, since a partial list would always look short.
+ */
+function basketCheck(step: DriftStep): DarkPatternScan[] {
+  const visible = step.anchors.filter(a => a.is_currently_visible);
+  const total = [...visible].reverse().find(a => kindOf(a) === 'total');
+  const totalAmount = total ? amountOf(total.price) : NaN;
+  if (!total || isNaN(totalAmount)) return [];
+
+  const items = step.anchors.filter(a => kindOf(a) === 'item');
+  const subtotal = visible.find(a => kindOf(a) === 'subtotal');
+  const subtotalAmount = subtotal ? amountOf(subtotal.price) : NaN;
+  if (isNaN(subtotalAmount) && (items.length === 0 || items.some(a => !a.is_currently_visible))) return [];
+
+  const lines: string[] = [];
+  let expected = 0;
+
+  if (!isNaN(subtotalAmount)) {
+    expected += subtotalAmount;
+    lines.push(`Subtotal "${subtotal!.price}"`);
+  } else {
+    items.forEach(a => {
+      const amount = amountOf(a.price);
+      if (isNaN(amount)) return;
+      expected += amount;
+      lines.push(`+ ${a.name} "${a.price}"`);
+    });
+  }
+  visible.filter(a => CHARGE_KINDS.includes(kindOf(a))).forEach(a => {
+    const amount = amountOf(a.price);
+    if (isNaN(amount)) return;
+    expected += amount;
+    lines.push(`+ ${a.name} "${a.price}"`);
+  });
+  visible.filter(a => kindOf(a) === 'discount').forEach(a => {
+    const amount = amountOf(a.price);
+    if (isNaN(amount)) return;
+    expected -= Math.abs(amount);
+    lines.push(`- ${a.name} "${a.price}"`);
+  });
+
+  const delta = totalAmount - expected;
+  if (delta <= CENT) return [];
+  const currency = currencyOf(total.price);
+  return [finding(PatternType.HiddenCosts, Severity.High, total,
+    `Total is ${money(delta, currency)} more than the visible lines add up to.`,
+    "Something is being charged that is not itemized. Expand every summary section or ask for a breakdown before paying.",
+    {
+      summary: `Unexplained charge of ${money(delta, currency)} in the total.`,
+      math: [...lines, `= ${money(expected, currency)} expected`, `Displayed total "${total.price}" = ${money(totalAmount, currency)}`, `Δ = ${signed(delta)}`],
+      data: { expected, total: totalAmount, delta }
+    })];
+}
+
+/** Fees, tax or shipping that first appear after the shopper has already committed to items (drip pricing). */
+function lateCharges(steps: DriftStep[], latest: DriftStep): DarkPatternScan[] {
+  const firstItemStep = steps.find(s => s.anchors.some(a => kindOf(a) === 'item'))?.index;
+  if (firstItemStep === undefined) return [];
+
+  const firstSeen = new Map<string, number>();
+  steps.forEach(step => step.anchors.forEach(a => { if (!firstSeen.has(a.id)) firstSeen.set(a.id, step.index); }));
+
+  return latest.anchors.flatMap(anchor => {
+    const seenAt = firstSeen.get(anchor.id)!;
+    if (!CHARGE_KINDS.includes(kindOf(anchor)) || seenAt <= firstItemStep) return [];
+    const amount = amountOf(anchor.price);
+    if (isNaN(amount) || amount <= 0) return [];
+    return [finding(PatternType.HiddenCosts, Severity.Medium, anchor,
+      `${anchor.name} (${anchor.price}) only appeared at step ${seenAt + 1}, after items were added at step ${firstItemStep + 1}.`,
+      "This charge was not shown up front. Factor it into the real price, and compare with sellers who show all-in pricing.",
+      {
+        summary: `Charge revealed ${seenAt - firstItemStep} step(s) after the basket was built.`,
+        math: [`Items first anchored: step ${firstItemStep + 1}`, `"${anchor.name}" first anchored: step ${seenAt + 1}`, `Adds ${money(amount, currencyOf(anchor.price))}`],
+        data: { anchor_id: anchor.id, first_item_step: firstItemStep, first_seen_step: seenAt, amount }
+      })];
+  });
+}
+
+/**
+ * Deterministic price audit over the session timeline. Works only from displayed price strings,
+ * re-parsed locally, so a model's numeric fields can never be the sole basis for a finding.
+ * Findings are positioned on the latest step; anchors not visible there yield card-only findings.
+ */
+export function detectPriceDrift(steps: DriftStep[]): DarkPatternScan[] {
+  if (steps.length === 0) return [];
+  const latest = steps[steps.length - 1];
+  return [
+    ...lineDrift(observationsById(steps), latest),
+    ...quantityChecks(latest),
+    ...basketCheck(latest),
+    ...lateCharges(steps, latest)
+  ];
+}
@@ -0,0 +1,23 @@
+/**
+ * Transport-level failure raised by an AuditProvider. `status` is the HTTP status when known;
+ * `retryAfterMs` carries the server's retry hint (Retry-After header or Gemini RetryInfo).
+ */
+export class ProviderError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  get isRateLimit(): boolean {
+    return this.status === 429;
+  }
+}
+
+/** Parses a Retry-After header value: delta-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
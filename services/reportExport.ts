@@ -0,0 +1,238 @@
+import { AuditSession, CatalogAnchor, DarkPatternScan, DefensiveStatus, PatternType, ScanResponse, ScoreBreakdown, Severity } from "../types";
+import { countPatternTypes, patternLabel } from "./taxonomy";
+
+/** Machine-readable export of one audited step. The HTML report is rendered from the same object. */
+export interface AuditReport {
+  format: 'shadowguard-audit-report';
+  version: 1;
+  generated_at: string;
+  provider?: string;
+  rule_pack?: { id: string; version: string };
+  session_id: string;
+  step: { index: number; captured_at: string; total_steps: number };
+  verdict: ScanResponse['viewport_meta'];
+  findings: DarkPatternScan[];
+  /** Findings per canonical pattern type, most frequent first. */
+  pattern_counts: { type: PatternType; count: number }[];
+  catalog_anchors: CatalogAnchor[];
+  reasoning_path: string;
+  security_brief?: string;
+  /** The screenshot as audited, without annotations. */
+  screenshot: string | null;
+}
+
+export function buildAuditReport(session: AuditSession, stepIndex: number, options: { provider?: string; screenshot?: string | null; now?: Date } = {}): AuditReport {
+  const step = session.steps[stepIndex];
+  if (!step) throw new Error(`No audited step ${stepIndex} in this session.`);
+  const { viewport_meta, scans, thought_signature } = step.response;
+  return {
+    format: 'shadowguard-audit-report',
+    version: 1,
+    generated_at: (options.now || new Date()).toISOString(),
+    ...(options.provider ? { provider: options.provider } : {}),
+    ...(step.rule_pack ? { rule_pack: step.rule_pack } : {}),
+    session_id: session.id,
+    step: { index: step.index, captured_at: step.captured_at, total_steps: session.steps.length },
+    verdict: viewport_meta,
+    findings: scans,
+    pattern_counts: countPatternTypes(scans.map(s => s.pattern_type)),
+    catalog_anchors: step.anchors,
+    reasoning_path: thought_signature?.reasoning_path || '',
+    ...(thought_signature?.security_brief ? { security_brief: thought_signature.security_brief } : {}),
+    screenshot: options.screenshot !== undefined ? options.screenshot : step.screenshot
+  };
+}
+
+/** Same palette as AuditOverlay, as plain colors for canvas and static HTML. */
+export function scanColor(scan: DarkPatternScan): string {
+  if (scan.pattern_type === PatternType.VerifiedFair) return '#10b981';
+  if (scan.pattern_type === PatternType.Unclear) return '#f59e0b';
+  if (scan.severity === Severity.High) return '#dc2626';
+  if (scan.severity === Severity.Medium) return '#f59e0b';
+  return '#3b82f6';
+}
+
+const hasBox = (scan: DarkPatternScan) => !scan.coordinates.every(c => c === 0);
+
+/** Draws every boxed finding onto a copy of the screenshot, numbered like the report's findings list. */
+export function annotateScreenshot(source: HTMLImageElement, scans: DarkPatternScan[]): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(source, 0, 0);
+
+  const stroke = Math.max(2, Math.round(canvas.width / 500));
+  const fontSize = Math.max(12, Math.round(canvas.width / 70));
+  ctx.font = `900 ${fontSize}px system-ui, sans-serif`;
+  ctx.textBaseline = 'top';
+
+  scans.forEach((scan, i) => {
+    if (!hasBox(scan)) return;
+    const [ymin, xmin, ymax, xmax] = scan.coordinates;
+    const x = (xmin / 1000) * canvas.width;
+    const y = (ymin / 1000) * canvas.height;
+    const w = ((xmax - xmin) / 1000) * canvas.width;
+    const h = ((ymax - ymin) / 1000) * canvas.height;
+    const color = scanColor(scan);
+
+    ctx.fillStyle = `${color}33`;
+    ctx.fillRect(x, y, w, h);
+    ctx.lineWidth = stroke;
+    ctx.strokeStyle = color;
+    ctx.strokeRect(x, y, w, h);
+
+    const label = String(i + 1);
+    const pad = Math.round(fontSize / 3);
+    const labelWidth = ctx.measureText(label).width + pad * 2;
+    const labelY = y >= fontSize + pad * 2 ? y - fontSize - pad * 2 : y;
+    ctx.fillStyle = color;
+    ctx.fillRect(x, labelY, labelWidth, fontSize + pad * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(label, x + pad, labelY + pad);
+  });
+
+  return canvas.toDataURL('image/png');
+}
+
+const escapeHtml = (text: unknown) => String(text ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const STATUS_COLORS: Record<DefensiveStatus, string> = {
+  [DefensiveStatus.Safe]: '#059669',
+  [DefensiveStatus.Caution]: '#d97706',
+  [DefensiveStatus.Compromised]: '#dc2626'
+};
+
+const REPORT_CSS = `
+  body { font: 14px/1.5 system-ui, sans-serif; color: #18181b; max-width: 960px; margin: 0 auto; padding: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; letter-spacing: -0.02em; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.12em; color: #52525b; margin: 32px 0 12px; border-bottom: 1px solid #e4e4e7; padding-bottom: 6px; }
+  .meta { color: #71717a; font-size: 12px; }
+  .verdict { display: inline-block; color: #fff; font-weight: 900; text-transform: uppercase; letter-spacing: 0.1em; padding: 4px 12px; border-radius: 999px; margin-right: 8px; }
+  .screenshot { width: 100%; border: 1px solid #e4e4e7; border-radius: 8px; }
+  .finding { border: 1px solid #e4e4e7; border-left-width: 6px; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; break-inside: avoid; }
+  .finding header { font-size: 11px; font-weight: 900; text-transform: uppercase; letter-spacing: 0.1em; color: #52525b; }
+  .finding p { margin: 6px 0; }
+  .fix { background: #f4f4f5; border-radius: 6px; padding: 8px 12px; }
+  .math { font: 11px/1.6 ui-monospace, monospace; color: #52525b; white-space: pre-wrap; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e4e4e7; vertical-align: top; }
+  th { font-size: 10px; text-transform: uppercase; letter-spacing: 0.08em; color: #71717a; }
+  .changed { color: #dc2626; font-weight: 700; }
+  .prose { white-space: pre-wrap; }
+  @page { margin: 16mm; }
+  @media print { body { padding: 0; } h2 { break-after: avoid; } }
+`;
+
+function renderFinding(scan: DarkPatternScan, i: number): string {
+  const math = scan.evidence
+    ? `<div class="math">${escapeHtml(scan.evidence.summary)}\n${scan.evidence.math.map(escapeHtml).join('\n')}</div>`
+    : '';
+  const confidence = scan.confidence !== undefined ? ` · ${Math.round(scan.confidence * 100)}% confidence` : '';
+  const quote = scan.evidence_text ? `\n  <p class="meta">On screen: “${escapeHtml(scan.evidence_text)}”</p>` : '';
+  const verdict = scan.verification
+    ? `\n  <p class="meta">Verifier ${scan.verification.verdict}: ${escapeHtml(scan.verification.reason)}</p>`
+    : '';
+  const review = scan.review
+    ? `\n  <p class="meta">Reviewer: ${scan.review.verdict}${scan.review.original_coordinates ? ', box corrected' : ''}</p>`
+    : '';
+  return `<section class="finding" style="border-left-color:${scanColor(scan)}">
+  <header>#${i + 1} · ${escapeHtml(patternLabel(scan.pattern_type))}${scan.raw_pattern_type ? ` (reported as ${escapeHtml(scan.raw_pattern_type)})` : ''} · ${escapeHtml(scan.severity)} severity${confidence}${hasBox(scan) ? '' : ' · not boxed'}</header>
+  <p><strong>${escapeHtml(scan.truth_label)}</strong></p>${quote}${verdict}${review}
+  <p class="fix"><strong>Action:</strong> ${escapeHtml(scan.action_fix)}</p>
+  ${math}
+</section>`;
+}
+
+function renderBreakdown(breakdown: ScoreBreakdown): string {
+  const rows = breakdown.contributions.map(c => `<tr${c.critical ? ' class="changed"' : ''}>
+  <td>#${c.index + 1}</td>
+  <td>${escapeHtml(patternLabel(c.pattern_type))}</td>
+  <td>${escapeHtml(c.severity)}</td>
+  <td>${c.severity_points} × ${c.weight} = ${c.score}${c.critical ? ' (critical)' : ''}${c.excluded ? ` (${escapeHtml(c.excluded)})` : ''}</td>
+</tr>`).join('\n');
+  const source = `${escapeHtml(breakdown.source.rule_pack)} v${escapeHtml(breakdown.source.version)}${breakdown.source.overridden ? ' with deployment overrides' : ''}`;
+  return `<p><strong>Why:</strong> ${escapeHtml(breakdown.explanation)}</p>
+<p class="meta">Score ${breakdown.score} · caution at ${breakdown.thresholds.caution} · compromised at ${breakdown.thresholds.compromised} · ${source}</p>
+${rows ? `<table>
+<thead><tr><th>Finding</th><th>Pattern</th><th>Severity</th><th>Points × weight</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>` : ''}`;
+}
+
+function renderAnchorRow(anchor: CatalogAnchor): string {
+  const amount = anchor.money ? `${anchor.money.currency ? `${anchor.money.currency} ` : ''}${anchor.money.amount.toFixed(2)}${anchor.money.period ? ` / ${anchor.money.period}` : ''}` : '—';
+  return `<tr>
+  <td>${escapeHtml(anchor.name)}</td>
+  <td>${escapeHtml(anchor.kind || 'item')}</td>
+  <td${anchor.is_violation ? ' class="changed"' : ''}>${escapeHtml(anchor.price)}</td>
+  <td>${escapeHtml(anchor.original_price)}</td>
+  <td>${escapeHtml(amount)}</td>
+  <td>${anchor.is_currently_visible ? 'Yes' : 'No'}</td>
+</tr>`;
+}
+
+/**
+ * Self-contained HTML (inline CSS, embedded image, no scripts) suitable for attaching to a complaint
+ * or printing to PDF. `annotatedScreenshot` should come from annotateScreenshot so box numbers match.
+ */
+export function renderReportHtml(report: AuditReport, annotatedScreenshot: string | null): string {
+  const { verdict } = report;
+  const findings = report.findings.length
+    ? report.findings.map(renderFinding).join('\n')
+    : '<p>No findings recorded for this step.</p>';
+  const anchors = report.catalog_anchors.length
+    ? `<table>
+<thead><tr><th>Item</th><th>Kind</th><th>Displayed</th><th>First seen</th><th>Parsed</th><th>Visible</th></tr></thead>
+<tbody>${report.catalog_anchors.map(renderAnchorRow).join('\n')}</tbody>
+</table>`
+    : '<p>No prices were anchored.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Dark pattern audit · ${escapeHtml(verdict.status)} · ${escapeHtml(report.step.captured_at)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>Dark Pattern Audit Report</h1>
+<div class="meta">Captured ${escapeHtml(report.step.captured_at)} · Step ${report.step.index + 1} of ${report.step.total_steps} · Session ${escapeHtml(report.session_id)}${report.provider ? ` · Analyzed with ${escapeHtml(report.provider)}` : ''}${report.rule_pack ? ` · Rule pack ${escapeHtml(report.rule_pack.id)} v${escapeHtml(report.rule_pack.version)}` : ''} · Generated ${escapeHtml(report.generated_at)}</div>
+
+<h2>Verdict</h2>
+<p><span class="verdict" style="background:${STATUS_COLORS[verdict.status] || '#52525b'}">${escapeHtml(verdict.status)}</span>${escapeHtml(verdict.threat_count)} threat(s) · ${escapeHtml(verdict.advice)}</p>
+${verdict.breakdown ? renderBreakdown(verdict.breakdown) : ''}
+${report.pattern_counts.length ? `<p class="meta">${report.pattern_counts.map(c => `${escapeHtml(patternLabel(c.type))} × ${c.count}`).join(' · ')}</p>` : ''}
+
+<h2>Annotated Screenshot</h2>
+${annotatedScreenshot ? `<img class="screenshot" src="${escapeHtml(annotatedScreenshot)}" alt="Audited screen with numbered finding boxes">` : '<p>Screenshot unavailable.</p>'}
+
+<h2>Findings (${report.findings.length})</h2>
+${findings}
+
+<h2>Price Anchors</h2>
+${anchors}
+
+<h2>Reasoning Path</h2>
+<p class="prose">${escapeHtml(report.reasoning_path) || '—'}</p>
+${report.security_brief ? `\n<h2>Security Brief</h2>\n<p class="prose">${escapeHtml(report.security_brief)}</p>\n` : ''}
+</body>
+</html>
+`;
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,300 @@
+import type { AuditProvider } from "./auditProvider";
+import { FLOW_SCREEN_INSTRUCTION, FLOW_SCREEN_SCHEMA, buildFlowScreenPrompt } from "./auditPrompt";
+import { clampCoordinates, stripMarkdown, tryParsePartialJSON, withRetries } from "./auditService";
+import { PageImage, failedAuditResponse, renderOverview } from "./pageAudit";
+import { DEFAULT_RULE_PACK, RulePack } from "./rulePack";
+import { calculateSafetyMetrics } from "./scoring";
+import type { TokenBucket } from "./tileScheduler";
+import { DarkPatternScan, FindingEvidence, PatternType, ScanResponse, Severity } from "../types";
+
+export type FlowPhase = 'signup' | 'cancellation';
+export type FlowChannel = 'phone' | 'chat' | 'email' | 'mail' | 'in_person';
+
+export interface FlowElement {
+  text: string;
+  /** In the screen's own 0-1000 space. */
+  coordinates: [number, number, number, number];
+}
+
+/** What one screen of a flow asks of the user, as read by the model. */
+export interface FlowScreen {
+  phase: FlowPhase;
+  /** Position within its phase, from 0. */
+  index: number;
+  summary: string;
+  clicks: number;
+  form_fields: number;
+  retention_offers: FlowElement[];
+  confirmshaming: FlowElement[];
+  channel_switches: (FlowElement & { channel: FlowChannel })[];
+  /** The screen could not be read; it still counts as a step, with unknown effort. */
+  error?: string;
+}
+
+/** Totals over one phase. `effort` is clicks plus typed fields. */
+export interface FlowEffort {
+  steps: number;
+  clicks: number;
+  form_fields: number;
+  effort: number;
+  retention_offers: number;
+  confirmshaming: number;
+  channel_switches: number;
+  channels: FlowChannel[];
+}
+
+export interface RoachMotelReport {
+  signup: FlowEffort;
+  cancellation: FlowEffort;
+  /**
+   * 0-100; 100 when cancelling is no more work than signing up and stays in the same channel. null when a
+   * cancellation screen could not be read: its effort is unknown, so any score would flatter the flow.
+   */
+  symmetry_score: number | null;
+  symmetry_math: string[];
+  screens: FlowScreen[];
+  /** Flow-level findings are card-only; per-screen ones carry `evidence.data.phase` and `.screen`. */
+  scans: DarkPatternScan[];
+  viewport_meta: ScanResponse['viewport_meta'];
+  error?: string;
+  /** Set with a null `symmetry_score`; the status is a placeholder, never a verdict. */
+  audit_failed?: boolean;
+}
+
+const CHANNELS: FlowChannel[] = ['phone', 'chat', 'email', 'mail', 'in_person'];
+// Fallback when the model names a channel outside the enum
+const CHANNEL_TEXT: [FlowChannel, RegExp][] = [
+  ['phone', /\b(?:call|phone|telephone|hotline)\b|\d{3}[\s.-]\d{3,4}[\s.-]?\d{2,4}/i],
+  ['chat', /\bchat|agent\b/i],
+  ['email', /\be-?mail\b/i],
+  ['mail', /\bletter|post(?:al)?\b|\bmail\b/i],
+  ['in_person', /\bin[ -]person|\bstore|branch|visit\b/i]
+];
+
+function toChannel(declared: any, text: string): FlowChannel {
+  const value = String(declared || '').toLowerCase().replace(/[\s-]+/g, '_') as FlowChannel;
+  if (CHANNELS.includes(value)) return value;
+  return CHANNEL_TEXT.find(([, pattern]) => pattern.test(text))?.[0] || 'phone';
+}
+
+const count = (value: any) => Math.max(0, Math.round(Number(value) || 0));
+
+function toElements(raw: any): FlowElement[] {
+  return (Array.isArray(raw) ? raw : [])
+    .filter(item => item && String(item.text || '').trim())
+    .map(item => ({ text: String(item.text).trim(), coordinates: clampCoordinates(item.coordinates) }));
+}
+
+export interface RoachMotelOptions {
+  provider: AuditProvider;
+  rulePack?: RulePack;
+  signal?: AbortSignal;
+  rateLimiter?: TokenBucket;
+  /** Base backoff between retries of a failed screen. */
+  retryDelayMs?: number;
+  onProgress?: (current: number, total: number) => void;
+}
+
+/** Asks the provider what one screen demands, retrying like a screen audit. Throws once the retries run out; the caller records it. */
+export async function readFlowScreen(screen: PageImage, phase: FlowPhase, index: number, total: number, options: RoachMotelOptions): Promise<FlowScreen> {
+  const image = await renderOverview(screen);
+  const text = await withRetries(() => options.provider.generate({
+    systemInstruction: FLOW_SCREEN_INSTRUCTION,
+    prompt: buildFlowScreenPrompt(phase, index + 1, total),
+    image,
+    schema: FLOW_SCREEN_SCHEMA,
+    signal: options.signal
+  }), options);
+  const reply = tryParsePartialJSON(stripMarkdown(text || '{}'));
+  return {
+    phase,
+    index,
+    summary: String(reply.summary || ''),
+    clicks: count(reply.clicks),
+    form_fields: count(reply.form_fields),
+    retention_offers: toElements(reply.retention_offers),
+    confirmshaming: toElements(reply.confirmshaming),
+    channel_switches: (Array.isArray(reply.channel_switches) ? reply.channel_switches : [])
+      .flatMap((raw: any) => toElements([raw]).map(element => ({ ...element, channel: toChannel(raw.channel, element.text) })))
+  };
+}
+
+export function flowEffort(screens: FlowScreen[]): FlowEffort {
+  const sum = (pick: (s: FlowScreen) => number) => screens.reduce((total, s) => total + pick(s), 0);
+  const clicks = sum(s => s.clicks);
+  const form_fields = sum(s => s.form_fields);
+  return {
+    steps: screens.length,
+    clicks,
+    form_fields,
+    effort: clicks + form_fields,
+    retention_offers: sum(s => s.retention_offers.length),
+    confirmshaming: sum(s => s.confirmshaming.length),
+    channel_switches: sum(s => s.channel_switches.length),
+    channels: [...new Set(screens.flatMap(s => s.channel_switches.map(c => c.channel)))]
+  };
+}
+
+const RETENTION_PENALTY = 10;
+const CONFIRMSHAMING_PENALTY = 10;
+
+/**
+ * Click-to-cancel symmetry: 100 × sign-up effort / cancellation effort (capped at 100), less 10 for every
+ * retention offer after the first and for every confirmshaming prompt. Having to switch to a channel
+ * sign-up did not need scores 0 outright: the cancellation cannot be finished with clicks at all.
+ */
+export function symmetryScore(signup: FlowEffort, cancellation: FlowEffort): { score: number; math: string[] } {
+  const describe = (name: string, e: FlowEffort) => `${name}: ${e.steps} screens, ${e.clicks} clicks + ${e.form_fields} fields = effort ${e.effort}`;
+  const math = [describe('sign-up', signup), describe('cancellation', cancellation)];
+  const newChannels = cancellation.channels.filter(c => !signup.channels.includes(c));
+  if (newChannels.length > 0) {
+    math.push(`cancellation moves to ${newChannels.join(', ')} → 0`);
+    return { score: 0, math };
+  }
+  const ratio = Math.min(1, Math.max(1, signup.effort) / Math.max(1, cancellation.effort));
+  let score = 100 * ratio;
+  math.push(`100 × min(1, ${Math.max(1, signup.effort)} / ${Math.max(1, cancellation.effort)}) = ${Math.round(score)}`);
+  const extraOffers = Math.max(0, cancellation.retention_offers - 1);
+  if (extraOffers > 0) {
+    score -= extraOffers * RETENTION_PENALTY;
+    math.push(`− ${RETENTION_PENALTY} × ${extraOffers} retention offer${extraOffers === 1 ? '' : 's'} after the first`);
+  }
+  if (cancellation.confirmshaming > 0) {
+    score -= cancellation.confirmshaming * CONFIRMSHAMING_PENALTY;
+    math.push(`− ${CONFIRMSHAMING_PENALTY} × ${cancellation.confirmshaming} confirmshaming prompt${cancellation.confirmshaming === 1 ? '' : 's'}`);
+  }
+  score = Math.max(0, Math.round(score));
+  math.push(`symmetry ${score}/100`);
+  return { score, math };
+}
+
+const CHANNEL_NAMES: Record<FlowChannel, string> = { phone: 'a phone call', chat: 'a chat with an agent', email: 'an email', mail: 'a letter', in_person: 'a visit in person' };
+
+function screenScans(screens: FlowScreen[], signupChannels: FlowChannel[]): DarkPatternScan[] {
+  return screens.filter(s => s.phase === 'cancellation').flatMap(screen => {
+    const evidence = (summary: string): FindingEvidence => ({
+      source: 'flow_effort',
+      summary,
+      math: [`cancellation screen ${screen.index + 1}: ${screen.summary}`],
+      data: { phase: screen.phase, screen: screen.index }
+    });
+    return [
+      ...screen.channel_switches.filter(c => !signupChannels.includes(c.channel)).map((c): DarkPatternScan => ({
+        pattern_type: PatternType.Obstruction,
+        severity: Severity.High,
+        coordinates: c.coordinates,
+        truth_label: `Cancelling requires ${CHANNEL_NAMES[c.channel]}, although signing up did not.`,
+        action_fix: "Ask for cancellation in writing through the site or app you signed up with, and keep the confirmation; your card issuer can block further charges.",
+        evidence_text: c.text,
+        evidence: evidence(`Channel switch to ${c.channel}`)
+      })),
+      ...screen.confirmshaming.map((c): DarkPatternScan => ({
+        pattern_type: PatternType.Confirmshaming,
+        severity: Severity.Medium,
+        coordinates: c.coordinates,
+        truth_label: "The way out of the subscription is worded to make you feel bad for leaving.",
+        action_fix: "Ignore the wording; this is the option that cancels.",
+        evidence_text: c.text,
+        evidence: evidence('Confirmshaming on the cancel path')
+      }))
+    ];
+  });
+}
+
+function flowScans(signup: FlowEffort, cancellation: FlowEffort, symmetry: { score: number; math: string[] }): DarkPatternScan[] {
+  const scans: DarkPatternScan[] = [];
+  const data = { signup, cancellation, symmetry_score: symmetry.score };
+  if (cancellation.effort > Math.max(1, signup.effort)) {
+    scans.push({
+      pattern_type: PatternType.HardToCancel,
+      severity: symmetry.score < 50 ? Severity.High : Severity.Medium,
+      coordinates: [0, 0, 0, 0],
+      truth_label: `Cancelling takes ${cancellation.clicks} clicks over ${cancellation.steps} screens; signing up took ${signup.clicks} over ${signup.steps}.`,
+      action_fix: "Set aside time to finish the cancel flow in one go, and save the final confirmation screen.",
+      evidence: { source: 'flow_effort', summary: `Click-to-cancel symmetry ${symmetry.score}/100`, math: symmetry.math, data }
+    });
+  }
+  if (cancellation.retention_offers > 1) {
+    scans.push({
+      pattern_type: PatternType.Nagging,
+      severity: Severity.Medium,
+      coordinates: [0, 0, 0, 0],
+      truth_label: `${cancellation.retention_offers} retention offers stand between you and cancelling.`,
+      action_fix: "Decline each offer; none of them is required to cancel.",
+      evidence: { source: 'flow_effort', summary: 'Retention gauntlet', math: [`${cancellation.retention_offers} offers over ${cancellation.steps} cancellation screens`], data }
+    });
+  }
+  return scans;
+}
+
+/**
+ * Roach-motel audit: reads every sign-up and cancellation screen in order, totals the effort of each
+ * phase and compares them. Findings are flow-level (harder to leave than to join, retention gauntlet)
+ * or tied to a cancellation screen (channel switch, confirmshaming). A screen that cannot be read still
+ * counts as a step, and `error` says so. An unread cancellation screen fails the audit: the symmetry is
+ * not scored and only the per-screen findings of the screens that were read are kept.
+ */
+export async function auditRoachMotel(signupScreens: PageImage[], cancelScreens: PageImage[], options: RoachMotelOptions): Promise<RoachMotelReport> {
+  const pack = options.rulePack || DEFAULT_RULE_PACK;
+  const queue: [FlowPhase, PageImage[]][] = [['signup', signupScreens], ['cancellation', cancelScreens]];
+  const total = signupScreens.length + cancelScreens.length;
+  const screens: FlowScreen[] = [];
+  let firstError: string | undefined;
+  options.onProgress?.(0, total);
+
+  for (const [phase, images] of queue) {
+    for (const [index, image] of images.entries()) {
+      if (options.signal?.aborted) throw new Error("AbortError");
+      try {
+        screens.push(await readFlowScreen(image, phase, index, images.length, options));
+      } catch (err: any) {
+        if (err.message === "AbortError" || options.signal?.aborted) throw new Error("AbortError");
+        const message = `${phase === 'signup' ? 'Sign-up' : 'Cancellation'} screen ${index + 1} could not be read: ${err.message || err}`;
+        firstError = firstError || message;
+        screens.push({ phase, index, summary: '', clicks: 0, form_fields: 0, retention_offers: [], confirmshaming: [], channel_switches: [], error: message });
+      }
+      options.onProgress?.(screens.length, total);
+    }
+  }
+
+  const signup = flowEffort(screens.filter(s => s.phase === 'signup'));
+  const cancellation = flowEffort(screens.filter(s => s.phase === 'cancellation'));
+  const unread = screens.find(s => s.phase === 'cancellation' && s.error);
+  if (unread) {
+    const failed = failedAuditResponse(firstError!, { reasoning_path: '', catalog_anchors: [] }, screenScans(screens, signup.channels));
+    return { signup, cancellation, symmetry_score: null, symmetry_math: [], screens, scans: failed.scans, viewport_meta: failed.viewport_meta, error: firstError, audit_failed: true };
+  }
+  const symmetry = symmetryScore(signup, cancellation);
+  const scans = [...flowScans(signup, cancellation, symmetry), ...screenScans(screens, signup.channels)];
+  return {
+    signup,
+    cancellation,
+    symmetry_score: symmetry.score,
+    symmetry_math: symmetry.math,
+    screens,
+    scans,
+    viewport_meta: calculateSafetyMetrics(scans, pack),
+    ...(firstError ? { error: firstError } : {})
+  };
+}
+
+/** Side-by-side effort table and the findings, for the terminal. */
+export function formatRoachMotel(report: RoachMotelReport): string {
+  const row = (label: string, pick: (e: FlowEffort) => number) => `${label.padEnd(20)}${String(pick(report.signup)).padEnd(10)}${pick(report.cancellation)}`;
+  const lines = [
+    `${''.padEnd(20)}${'sign-up'.padEnd(10)}cancellation`,
+    row('screens', e => e.steps),
+    row('clicks', e => e.clicks),
+    row('typed fields', e => e.form_fields),
+    row('retention offers', e => e.retention_offers),
+    row('confirmshaming', e => e.confirmshaming),
+    row('channel switches', e => e.channel_switches),
+    '',
+    report.symmetry_score === null
+      ? 'Click-to-cancel symmetry: not scored, the cancellation flow could not be read in full'
+      : `Click-to-cancel symmetry: ${report.symmetry_score}/100 (${report.viewport_meta.status})`,
+    ...report.scans.map(scan => `- ${scan.pattern_type}: ${scan.truth_label}`)
+  ];
+  if (report.error) lines.push('', report.error);
+  return lines.join('\n');
+}
@@ -0,0 +1,137 @@
+import { PatternType, Severity } from "../types";
+import { canonicalPatternType, isPatternType, patternKey } from "./taxonomy";
+import corePack from "../rulepacks/core.json";
+import euDsaPack from "../rulepacks/eu-dsa.json";
+import usFtcPack from "../rulepacks/us-ftc-click-to-cancel.json";
+import deceptiveDesignPack from "../rulepacks/deceptive-design.json";
+
+export const RULE_PACK_FORMAT = 'optic-rule-pack';
+
+export interface RulePackPattern {
+  /** Value the model must use as `pattern_type`. */
+  id: string;
+  name: string;
+  description: string;
+  /** Used when the model omits or garbles the severity. */
+  default_severity: Severity;
+  /** Multiplies the severity points of every finding of this type. */
+  weight: number;
+  /** Any finding of this type makes the page Compromised, whatever the score. */
+  critical?: boolean;
+  /**
+   * Canonical types this pattern covers; scoring looks patterns up by these. The first is what a finding
+   * labelled with the pattern's id becomes. Defaults to the canonical type of the id.
+   */
+  types: PatternType[];
+  /** Other labels that mean this pattern, e.g. the names local detectors emit. */
+  aliases?: string[];
+  /** Legal or taxonomy references the pattern is based on. */
+  references?: string[];
+  /** One-line guidance appended to the taxonomy section of the system prompt. */
+  prompt: string;
+}
+
+export interface RulePack {
+  format: typeof RULE_PACK_FORMAT;
+  id: string;
+  /** Semver of the pack contents; recorded with every report so results can be reproduced. */
+  version: string;
+  name: string;
+  description: string;
+  prompt: {
+    /** Replaces the sensitivity calibration section of the system prompt. */
+    calibration: string[];
+  };
+  patterns: RulePackPattern[];
+  scoring: {
+    severity_points: Record<Severity, number>;
+    /** Minimum score for each status; `critical` patterns bypass the compromised threshold. */
+    thresholds: { caution: number; compromised: number };
+    advice: { safe: string; caution: string; compromised: string };
+  };
+}
+
+const SEVERITIES = Object.values(Severity) as string[];
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid rule pack: ${message}`);
+};
+
+const isText = (value: unknown) => typeof value === 'string' && value.trim() !== '';
+
+/** Checks a parsed pack (shipped or user-loaded) and returns it typed. Throws with the first problem found. */
+export function validateRulePack(raw: any): RulePack {
+  if (!raw || typeof raw !== 'object') fail('not a JSON object');
+  if (raw.format !== RULE_PACK_FORMAT) fail(`"format" must be "${RULE_PACK_FORMAT}"`);
+  for (const key of ['id', 'version', 'name']) {
+    if (!isText(raw[key])) fail(`"${key}" is required`);
+  }
+  if (!/^\d+\.\d+\.\d+/.test(raw.version)) fail(`"version" must be semver, got "${raw.version}"`);
+  if (!Array.isArray(raw.prompt?.calibration) || !raw.prompt.calibration.every(isText)) fail('"prompt.calibration" must be a list of strings');
+  if (!Array.isArray(raw.patterns) || raw.patterns.length === 0) fail('"patterns" must be a non-empty list');
+
+  const owners = new Map<string, number>();
+  const coverage = new Map<string, number>();
+  const patterns = raw.patterns.map((p: any, i: number) => {
+    const where = `patterns[${i}]`;
+    for (const key of ['id', 'name', 'description', 'prompt']) {
+      if (!isText(p?.[key])) fail(`${where}.${key} is required`);
+    }
+    if (!SEVERITIES.includes(p.default_severity)) fail(`${where}.default_severity must be one of ${SEVERITIES.join(', ')}`);
+    if (typeof p.weight !== 'number' || p.weight < 0) fail(`${where}.weight must be a non-negative number`);
+    if (p.aliases !== undefined && (!Array.isArray(p.aliases) || !p.aliases.every(isText))) fail(`${where}.aliases must be a list of strings`);
+    for (const label of [p.id, ...(p.aliases || [])]) {
+      const owner = owners.get(patternKey(label));
+      if (owner !== undefined && owner !== i) fail(`"${label}" is used by more than one pattern`);
+      owners.set(patternKey(label), i);
+    }
+    const types = p.types ?? [canonicalPatternType(p.id)];
+    if (!Array.isArray(types) || types.length === 0 || !types.every(isPatternType)) fail(`${where}.types must be a non-empty list of pattern types`);
+    if (p.types === undefined && types[0] === PatternType.Other) fail(`${where}.types is required: "${p.id}" is not a known pattern type`);
+    for (const type of types) {
+      if (coverage.has(type)) fail(`${type} is covered by more than one pattern`);
+      coverage.set(type, i);
+    }
+    return { ...p, types };
+  });
+
+  const { scoring } = raw;
+  if (!scoring || SEVERITIES.some(s => typeof scoring.severity_points?.[s] !== 'number')) fail('"scoring.severity_points" needs a number for each severity');
+  const { caution, compromised } = scoring.thresholds || {};
+  if (typeof caution !== 'number' || typeof compromised !== 'number' || caution > compromised) fail('"scoring.thresholds" needs caution <= compromised');
+  if (!['safe', 'caution', 'compromised'].every(k => isText(scoring.advice?.[k]))) fail('"scoring.advice" needs safe, caution and compromised text');
+  return { ...raw, patterns } as RulePack;
+}
+
+/** Built-in packs. The first one is the default. */
+export const RULE_PACKS: RulePack[] = [corePack, euDsaPack, usFtcPack, deceptiveDesignPack].map(validateRulePack);
+
+export const DEFAULT_RULE_PACK = RULE_PACKS[0];
+
+export function getRulePack(id: string): RulePack | undefined {
+  return RULE_PACKS.find(p => p.id === id);
+}
+
+/** The pack pattern a finding's `pattern_type` refers to, by id or alias. */
+export function findPattern(pack: RulePack, patternType: string | undefined): RulePackPattern | undefined {
+  if (!patternType) return undefined;
+  const key = patternKey(patternType);
+  return pack.patterns.find(p => patternKey(p.id) === key || (p.aliases || []).some(a => patternKey(a) === key));
+}
+
+/** The pack pattern that scores a canonical type, if the pack covers it. */
+export function patternForType(pack: RulePack, type: PatternType): RulePackPattern | undefined {
+  return pack.patterns.find(p => p.types.includes(type));
+}
+
+/**
+ * Canonical type for a label. A pack id or alias resolves to one of that pattern's types, preferring the
+ * one the label names outright ("FAKE URGENCY" under a combined urgency/scarcity pattern); anything else
+ * goes through the general taxonomy.
+ */
+export function resolvePatternType(pack: RulePack, label: string | undefined): PatternType {
+  const general = canonicalPatternType(label);
+  const pattern = findPattern(pack, label);
+  if (!pattern) return general;
+  return pattern.types.includes(general) ? general : pattern.types[0];
+}
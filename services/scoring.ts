@@ -0,0 +1,150 @@
+import { DarkPatternScan, DefensiveStatus, PatternType, ScanResponse, ScoreBreakdown, ScoreContribution, ScoreRule, Severity } from "../types";
+import { readEnv } from "./config";
+import { DEFAULT_RULE_PACK, RulePack, patternForType } from "./rulePack";
+import { isPatternType, patternLabel } from "./taxonomy";
+
+/**
+ * Deployment-level changes to a rule pack's scoring, e.g. a stricter threshold for a regulator's
+ * install. Every field is optional; whatever is left out comes from the active pack.
+ */
+export interface ScoringOverrides {
+  severity_points?: Partial<Record<Severity, number>>;
+  thresholds?: { caution?: number; compromised?: number };
+  advice?: { safe?: string; caution?: string; compromised?: string };
+  /** Weight per canonical type, replacing the pack pattern's weight. */
+  weights?: Partial<Record<PatternType, number>>;
+  /**
+   * Lowest severity at which a `critical` pattern forces Compromised. Defaults to Low (any finding);
+   * null turns the rule off so critical patterns only count through their points.
+   */
+  critical_min_severity?: Severity | null;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { [Severity.Low]: 0, [Severity.Medium]: 1, [Severity.High]: 2 };
+
+/** A finding that says the design is fair is not a threat, whatever severity the model gave it. */
+const BUILTIN_WEIGHTS: Partial<Record<PatternType, number>> = { [PatternType.VerifiedFair]: 0 };
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid scoring config: ${message}`);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Checks overrides parsed from JSON. Throws with the first problem found. */
+export function validateScoringOverrides(raw: any): ScoringOverrides {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) fail('not a JSON object');
+  for (const [severity, points] of Object.entries(raw.severity_points || {})) {
+    if (!(severity in SEVERITY_RANK) || !isNumber(points)) fail(`severity_points.${severity} must be a non-negative number for Low, Medium or High`);
+  }
+  for (const [key, value] of Object.entries(raw.thresholds || {})) {
+    if (!['caution', 'compromised'].includes(key) || !isNumber(value)) fail(`thresholds.${key} must be a non-negative number for caution or compromised`);
+  }
+  const { caution, compromised } = raw.thresholds || {};
+  if (isNumber(caution) && isNumber(compromised) && caution > compromised) fail('thresholds need caution <= compromised');
+  for (const [key, value] of Object.entries(raw.advice || {})) {
+    if (!['safe', 'caution', 'compromised'].includes(key) || typeof value !== 'string') fail(`advice.${key} must be text for safe, caution or compromised`);
+  }
+  for (const [type, weight] of Object.entries(raw.weights || {})) {
+    if (!isPatternType(type)) fail(`weights.${type} is not a pattern type`);
+    if (!isNumber(weight)) fail(`weights.${type} must be a non-negative number`);
+  }
+  if (raw.critical_min_severity !== undefined && raw.critical_min_severity !== null && !(raw.critical_min_severity in SEVERITY_RANK)) {
+    fail('critical_min_severity must be Low, Medium, High or null');
+  }
+  return raw as ScoringOverrides;
+}
+
+/** Overrides from VITE_SCORING_CONFIG (JSON). A malformed value is reported and ignored so the app still scores with the pack. */
+export function loadScoringOverrides(json = readEnv('VITE_SCORING_CONFIG')): ScoringOverrides {
+  if (!json) return {};
+  try {
+    return validateScoringOverrides(JSON.parse(json));
+  } catch (err: any) {
+    console.warn(`VITE_SCORING_CONFIG ignored. ${err.message}`);
+    return {};
+  }
+}
+
+export const DEPLOYMENT_SCORING: ScoringOverrides = loadScoringOverrides();
+
+const isOverridden = (overrides: ScoringOverrides) =>
+  Object.values(overrides).some(v => v !== undefined && (v === null || typeof v !== 'object' || Object.keys(v).length > 0));
+
+/** Why a finding does not count. A reviewer's verdict outranks the verifier's. */
+function exclusion(scan: DarkPatternScan): string | undefined {
+  if (scan.review) return scan.review.verdict === 'disputed' ? 'disputed by a reviewer' : undefined;
+  return scan.verification?.verdict === 'rejected' ? `rejected by the verifier: ${scan.verification.reason}` : undefined;
+}
+
+function explain(rule: ScoreRule, score: number, thresholds: ScoreBreakdown['thresholds'], trigger: ScoreContribution | undefined, pack: RulePack): string {
+  switch (rule) {
+    case 'critical_pattern':
+      return `Finding #${trigger!.index + 1} (${patternLabel(trigger!.pattern_type)}, ${trigger!.severity}) is a critical pattern in ${pack.name}; one is enough for this status.`;
+    case 'compromised_threshold':
+      return `Score ${score} reached the compromised threshold of ${thresholds.compromised}.`;
+    case 'caution_threshold':
+      return `Score ${score} reached the caution threshold of ${thresholds.caution} but stayed under ${thresholds.compromised}.`;
+    default:
+      return `Score ${score} is under the caution threshold of ${thresholds.caution}.`;
+  }
+}
+
+/**
+ * Scores findings as severity points × weight, using the pack's scoring with any deployment overrides
+ * on top. A finding of a `critical` pattern at or above `critical_min_severity` makes the page
+ * Compromised regardless of the total. Findings a reviewer disputed or the verifier rejected score zero. The breakdown records
+ * every finding's share and the deciding rule.
+ */
+export function calculateSafetyMetrics(
+  scans: DarkPatternScan[],
+  pack: RulePack = DEFAULT_RULE_PACK,
+  overrides: ScoringOverrides = DEPLOYMENT_SCORING
+): Required<Omit<ScanResponse['viewport_meta'], 'consent'>> {
+  const points = { ...pack.scoring.severity_points, ...overrides.severity_points };
+  const thresholds = { ...pack.scoring.thresholds, ...overrides.thresholds };
+  const advice = { ...pack.scoring.advice, ...overrides.advice };
+  const criticalFrom = overrides.critical_min_severity === undefined ? Severity.Low : overrides.critical_min_severity;
+
+  const contributions: ScoreContribution[] = scans.map((s, index) => {
+    const pattern = patternForType(pack, s.pattern_type);
+    const excluded = exclusion(s);
+    const weight = excluded ? 0 : overrides.weights?.[s.pattern_type] ?? BUILTIN_WEIGHTS[s.pattern_type] ?? pattern?.weight ?? 1;
+    const severityPoints = points[s.severity] ?? 0;
+    return {
+      index,
+      pattern_type: s.pattern_type,
+      severity: s.severity,
+      severity_points: severityPoints,
+      weight,
+      score: severityPoints * weight,
+      ...(pattern ? { pattern_id: pattern.id } : {}),
+      critical: !!pattern?.critical && criticalFrom !== null && weight > 0 && SEVERITY_RANK[s.severity] >= SEVERITY_RANK[criticalFrom],
+      ...(excluded ? { excluded } : {})
+    };
+  });
+  const score = contributions.reduce((sum, c) => sum + c.score, 0);
+  const trigger = contributions.find(c => c.critical);
+
+  const rule: ScoreRule = trigger ? 'critical_pattern'
+    : score >= thresholds.compromised ? 'compromised_threshold'
+    : score >= thresholds.caution ? 'caution_threshold'
+    : 'below_caution';
+  const status = rule === 'critical_pattern' || rule === 'compromised_threshold' ? DefensiveStatus.Compromised
+    : rule === 'caution_threshold' ? DefensiveStatus.Caution
+    : DefensiveStatus.Safe;
+
+  return {
+    threat_count: scans.length,
+    status,
+    advice: status === DefensiveStatus.Compromised ? advice.compromised : status === DefensiveStatus.Caution ? advice.caution : advice.safe,
+    breakdown: {
+      score,
+      contributions,
+      rule,
+      explanation: explain(rule, score, thresholds, trigger, pack),
+      thresholds,
+      source: { rule_pack: pack.id, version: pack.version, overridden: isOverridden(overrides) }
+    }
+  };
+}
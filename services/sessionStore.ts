@@ -0,0 +1,109 @@
+import { AuditSession, CatalogAnchor, ScanResponse, SessionStep } from "../types";
+import { withCanonicalType } from "./taxonomy";
+
+const SESSION_KEY = 'shadowguard_session';
+/** Pre-timeline storage: only the latest merged signature. Read once for migration. */
+const LEGACY_SIGNATURE_KEY = 'shadowguard_session_signature';
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function createSession(baseline?: Record<string, any>): AuditSession {
+  return {
+    id: newId(),
+    started_at: new Date().toISOString(),
+    steps: [],
+    ...(baseline && Object.keys(baseline).length > 0 ? { baseline_signature: baseline } : {})
+  };
+}
+
+export function appendStep(session: AuditSession, screenshot: string | null, response: ScanResponse, rulePack?: { id: string; version: string }): AuditSession {
+  const step: SessionStep = {
+    id: newId(),
+    index: session.steps.length,
+    captured_at: new Date().toISOString(),
+    screenshot,
+    response,
+    anchors: response.thought_signature.catalog_anchors || [],
+    ...(rulePack ? { rule_pack: { id: rulePack.id, version: rulePack.version } } : {})
+  };
+  return { ...session, steps: [...session.steps, step] };
+}
+
+/** The rolling signature the next step is audited against. */
+export function currentSignature(session: AuditSession): Record<string, any> {
+  const last = session.steps[session.steps.length - 1];
+  return last ? last.response.thought_signature : (session.baseline_signature || {});
+}
+
+/** Sessions saved before the pattern taxonomy carry free-text labels; re-key them on load. */
+function withCanonicalTypes(session: AuditSession): AuditSession {
+  return {
+    ...session,
+    steps: session.steps.map(step => ({ ...step, response: { ...step.response, scans: step.response.scans.map(withCanonicalType) } }))
+  };
+}
+
+export function loadSession(storage: Storage = localStorage): AuditSession {
+  try {
+    const saved = storage.getItem(SESSION_KEY);
+    if (saved) return withCanonicalTypes(JSON.parse(saved));
+    const legacy = storage.getItem(LEGACY_SIGNATURE_KEY);
+    return createSession(legacy ? JSON.parse(legacy) : undefined);
+  } catch {
+    return createSession();
+  }
+}
+
+/**
+ * Persists the session. When the quota is hit, screenshots are dropped oldest-first until it fits;
+ * findings and anchor snapshots are always kept.
+ */
+export function saveSession(session: AuditSession, storage: Storage = localStorage): AuditSession {
+  let candidate = session;
+  for (let dropped = 0; dropped <= session.steps.length; dropped++) {
+    try {
+      storage.setItem(SESSION_KEY, JSON.stringify(candidate));
+      storage.removeItem(LEGACY_SIGNATURE_KEY);
+      return candidate;
+    } catch {
+      candidate = {
+        ...candidate,
+        steps: candidate.steps.map((step, i) => (i <= dropped ? { ...step, screenshot: null } : step))
+      };
+    }
+  }
+  console.warn("Storage Quota Hit.");
+  return candidate;
+}
+
+export function clearSession(storage: Storage = localStorage) {
+  storage.removeItem(SESSION_KEY);
+  storage.removeItem(LEGACY_SIGNATURE_KEY);
+}
+
+export interface AnchorChange {
+  step_index: number;
+  anchor_id: string;
+  name: string;
+  kind: 'added' | 'changed';
+  from?: string;
+  to: string;
+}
+
+/** Step-over-step catalog changes: items appearing in the basket and displayed prices moving. */
+export function anchorChanges(session: AuditSession): AnchorChange[] {
+  const changes: AnchorChange[] = [];
+  let previous: CatalogAnchor[] = session.baseline_signature?.catalog_anchors || [];
+  session.steps.forEach(step => {
+    step.anchors.forEach(anchor => {
+      const before = previous.find(a => a.id === anchor.id);
+      if (!before) {
+        changes.push({ step_index: step.index, anchor_id: anchor.id, name: anchor.name, kind: 'added', to: anchor.price });
+      } else if (before.price.trim() !== anchor.price.trim()) {
+        changes.push({ step_index: step.index, anchor_id: anchor.id, name: anchor.name, kind: 'changed', from: before.price, to: anchor.price });
+      }
+    });
+    previous = step.anchors;
+  });
+  return changes;
+}
@@ -0,0 +1,121 @@
+import { CONSTANTS, DarkPatternScan, HistoryItem, PatternCategory, PatternType } from "../types";
+
+export interface PatternInfo {
+  label: string;
+  category: PatternCategory;
+  /** Narrower grouping inside the category, e.g. the mechanism used. */
+  subcategory: string;
+}
+
+export const PATTERN_TAXONOMY: Record<PatternType, PatternInfo> = {
+  [PatternType.BaitAndSwitch]: { label: 'Bait and Switch', category: 'sneaking', subcategory: 'changed terms' },
+  [PatternType.HiddenCosts]: { label: 'Hidden Costs', category: 'sneaking', subcategory: 'late or buried charges' },
+  [PatternType.SneakIntoBasket]: { label: 'Sneak into Basket', category: 'sneaking', subcategory: 'unrequested items' },
+  [PatternType.HiddenSubscription]: { label: 'Hidden Subscription', category: 'sneaking', subcategory: 'recurring charge' },
+  [PatternType.FakeUrgency]: { label: 'Fake Urgency', category: 'urgency', subcategory: 'countdown or deadline' },
+  [PatternType.FakeScarcity]: { label: 'Fake Scarcity', category: 'scarcity', subcategory: 'stock or demand claim' },
+  [PatternType.FakeSocialProof]: { label: 'Fake Social Proof', category: 'social_proof', subcategory: 'activity or testimonials' },
+  [PatternType.Confirmshaming]: { label: 'Confirmshaming', category: 'misdirection', subcategory: 'guilt wording' },
+  [PatternType.VisualInterference]: { label: 'Visual Interference', category: 'misdirection', subcategory: 'styling' },
+  [PatternType.TrickWording]: { label: 'Trick Wording', category: 'misdirection', subcategory: 'ambiguous wording' },
+  [PatternType.Preselection]: { label: 'Preselection', category: 'misdirection', subcategory: 'default choice' },
+  [PatternType.DisguisedAds]: { label: 'Disguised Ads', category: 'misdirection', subcategory: 'ads posing as content' },
+  [PatternType.HardToCancel]: { label: 'Hard to Cancel', category: 'obstruction', subcategory: 'cancellation' },
+  [PatternType.Obstruction]: { label: 'Obstruction', category: 'obstruction', subcategory: 'added friction' },
+  [PatternType.ComparisonPrevention]: { label: 'Comparison Prevention', category: 'obstruction', subcategory: 'hidden comparison' },
+  [PatternType.ForcedAction]: { label: 'Forced Action', category: 'forced_action', subcategory: 'required extra step' },
+  [PatternType.Nagging]: { label: 'Nagging', category: 'forced_action', subcategory: 'repeated requests' },
+  [PatternType.Unclear]: { label: 'Unclear', category: 'unclassified', subcategory: 'needs review' },
+  [PatternType.VerifiedFair]: { label: CONSTANTS.DESIGN_VERIFIED_FAIR, category: 'fair', subcategory: 'no deception found' },
+  [PatternType.Other]: { label: 'Other', category: 'unclassified', subcategory: 'unmapped label' }
+};
+
+const PATTERN_TYPES = Object.values(PatternType) as string[];
+
+export function isPatternType(value: unknown): value is PatternType {
+  return typeof value === 'string' && PATTERN_TYPES.includes(value);
+}
+
+/** Label comparison key: case, spacing, "&"/"and" and punctuation differences are ignored. */
+export const patternKey = (label: string) => label.toUpperCase().replace(/&|\bAND\b/g, ' ').replace(/[^A-Z0-9]+/g, '');
+
+/** Exact spellings: canonical ids, display labels and the labels earlier versions stored. */
+const EXACT = new Map<string, PatternType>();
+(Object.keys(PATTERN_TAXONOMY) as PatternType[]).forEach(type => {
+  EXACT.set(patternKey(type), type);
+  EXACT.set(patternKey(PATTERN_TAXONOMY[type].label), type);
+});
+([
+  ['BAIT SWITCH', PatternType.BaitAndSwitch],
+  ['PRICE SWITCH', PatternType.BaitAndSwitch],
+  ['HIDDEN_FEE', PatternType.HiddenCosts],
+  ['HIDDEN FEES', PatternType.HiddenCosts],
+  ['DRIP PRICING', PatternType.HiddenCosts],
+  ['SNEAK-IN', PatternType.SneakIntoBasket],
+  ['SNEAKING', PatternType.SneakIntoBasket],
+  ['FORCED CONTINUITY', PatternType.HiddenSubscription],
+  ['SCARCITY', PatternType.FakeScarcity],
+  ['URGENCY', PatternType.FakeUrgency],
+  ['FALSE URGENCY', PatternType.FakeUrgency],
+  ['COUNTDOWN TIMER', PatternType.FakeUrgency],
+  ['SOCIAL PROOF', PatternType.FakeSocialProof],
+  ['CONFIRM SHAMING', PatternType.Confirmshaming],
+  ['TRICK QUESTION', PatternType.TrickWording],
+  ['ROACH MOTEL', PatternType.HardToCancel],
+  ['CANCELLATION OBSTRUCTION', PatternType.HardToCancel],
+  ['DESIGN VERIFIED', PatternType.VerifiedFair]
+] as [string, PatternType][]).forEach(([label, type]) => EXACT.set(patternKey(label), type));
+
+/** Free-text fallbacks, checked in order; hedged labels come first so "Possible hidden fee" stays a caution. */
+const KEYWORDS: [RegExp, PatternType][] = [
+  [/unclear|suspicious|possibl/, PatternType.Unclear],
+  [/verified|\bfair\b|no (dark )?pattern/, PatternType.VerifiedFair],
+  [/bait|switch/, PatternType.BaitAndSwitch],
+  [/subscri|auto-?renew|free trial|continuity/, PatternType.HiddenSubscription],
+  [/fee|cost|surcharge|drip/, PatternType.HiddenCosts],
+  [/sneak|basket|add-?on/, PatternType.SneakIntoBasket],
+  [/pre-?(select|tick|check)|default/, PatternType.Preselection],
+  [/urgen|countdown|timer|deadline|expir/, PatternType.FakeUrgency],
+  [/scarc|stock|only \d+ left|limited/, PatternType.FakeScarcity],
+  [/social|viewing|testimonial|review|popular/, PatternType.FakeSocialProof],
+  [/sham|guilt/, PatternType.Confirmshaming],
+  [/visual|contrast|interfer|prominen|hierarch/, PatternType.VisualInterference],
+  [/trick|wording|double negative|misleading/, PatternType.TrickWording],
+  [/disguis|advert|sponsored/, PatternType.DisguisedAds],
+  [/cancel|roach|unsubscri/, PatternType.HardToCancel],
+  [/compar/, PatternType.ComparisonPrevention],
+  [/\bnag|repeat|pop-?up/, PatternType.Nagging],
+  [/forced|mandatory|required/, PatternType.ForcedAction],
+  [/obstruct|friction/, PatternType.Obstruction]
+];
+
+/** Maps any label (canonical id, legacy label or free text) onto the taxonomy. Unrecognized text is Other. */
+export function canonicalPatternType(label: string | undefined | null): PatternType {
+  if (!label) return PatternType.Other;
+  const exact = EXACT.get(patternKey(label));
+  if (exact) return exact;
+  const text = label.toLowerCase();
+  return KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] || PatternType.Other;
+}
+
+export function patternLabel(type: PatternType): string {
+  return (PATTERN_TAXONOMY[type] || PATTERN_TAXONOMY[PatternType.Other]).label;
+}
+
+/** Re-keys findings stored before the taxonomy existed; canonical findings pass through unchanged. */
+export function withCanonicalType(scan: DarkPatternScan): DarkPatternScan {
+  if (isPatternType(scan.pattern_type)) return scan;
+  const raw = String(scan.pattern_type ?? '');
+  return { ...scan, pattern_type: canonicalPatternType(raw), raw_pattern_type: raw };
+}
+
+export function normalizeHistory(items: any[]): HistoryItem[] {
+  return items.map(item => ({ type: isPatternType(item?.type) ? item.type : canonicalPatternType(item?.type), label: String(item?.label ?? '') }));
+}
+
+/** Finding counts per canonical id, most frequent first. */
+export function countPatternTypes(types: PatternType[]): { type: PatternType; count: number }[] {
+  const counts = new Map<PatternType, number>();
+  types.forEach(type => counts.set(type, (counts.get(type) || 0) + 1));
+  return [...counts].map(([type, count]) => ({ type, count })).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,146 @@
+import { readEnv } from "./config";
+
+export interface SchedulerConfig {
+  /** Tiles analyzed at the same time. */
+  concurrency: number;
+  /** Sustained request budget shared by every scan using the same provider. */
+  requestsPerMinute: number;
+  /** Requests allowed back-to-back before the per-minute rate applies. */
+  burst: number;
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(readEnv(name));
+  return value > 0 ? value : fallback;
+};
+
+export const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  concurrency: numberFromEnv('VITE_TILE_CONCURRENCY', 2),
+  requestsPerMinute: numberFromEnv('VITE_REQUESTS_PER_MINUTE', 10),
+  burst: numberFromEnv('VITE_REQUEST_BURST', 2)
+};
+
+/** setTimeout that rejects with the pipeline's AbortError when `signal` fires. */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new Error("AbortError"));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error("AbortError"));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Classic token bucket. Each provider request takes one token; tokens refill continuously.
+ * `pause` blocks every caller until a server-imposed cooldown (e.g. a 429 Retry-After) has passed.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+    private readonly now: () => number = Date.now
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = now();
+  }
+
+  static fromConfig(config: SchedulerConfig): TokenBucket {
+    return new TokenBucket(config.burst, config.requestsPerMinute / 60);
+  }
+
+  private refill() {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  /** Milliseconds until a token can be taken; 0 when one is available now. */
+  delayUntilAvailable(): number {
+    this.refill();
+    const blocked = Math.max(0, this.blockedUntil - this.now());
+    if (this.tokens >= 1) return blocked;
+    return Math.max(blocked, Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+  }
+
+  tryTake(): boolean {
+    if (this.delayUntilAvailable() > 0) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  async take(signal?: AbortSignal): Promise<void> {
+    while (!this.tryTake()) {
+      await sleep(this.delayUntilAvailable(), signal);
+    }
+  }
+
+  pause(ms: number) {
+    this.blockedUntil = Math.max(this.blockedUntil, this.now() + ms);
+    this.tokens = 0;
+  }
+}
+
+const rateLimiters = new Map<string, TokenBucket>();
+
+/** One bucket per provider so concurrent scans share the same quota. */
+export function getRateLimiter(providerId: string, config: SchedulerConfig = DEFAULT_SCHEDULER_CONFIG): TokenBucket {
+  let bucket = rateLimiters.get(providerId);
+  if (!bucket) {
+    bucket = TokenBucket.fromConfig(config);
+    rateLimiters.set(providerId, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Delay before retry `attempt` (1-based). A server hint wins; otherwise exponential
+ * backoff with full jitter, capped at `maxMs`.
+ */
+export function computeBackoff(attempt: number, retryAfterMs?: number, baseMs = 2000, maxMs = 60000, random = Math.random): number {
+  if (retryAfterMs !== undefined) return Math.min(maxMs, retryAfterMs);
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+export interface TileQueueOptions<T> {
+  concurrency: number;
+  signal?: AbortSignal;
+  /** Called as each task settles, in completion order. */
+  onResult?: (index: number, result: T) => void;
+  /** Stops dispatching further tasks once this returns true; in-flight tasks still finish. */
+  stopWhen?: (result: T) => boolean;
+}
+
+/**
+ * Runs `tasks` with at most `concurrency` in flight. Results come back indexed by task,
+ * so callers can fold them in tile order regardless of completion order. Tasks never started
+ * (because of `stopWhen`) are left undefined.
+ */
+export async function runTileQueue<T>(tasks: ((signal?: AbortSignal) => Promise<T>)[], options: TileQueueOptions<T>): Promise<(T | undefined)[]> {
+  const results: (T | undefined)[] = new Array(tasks.length).fill(undefined);
+  let next = 0;
+  let stopped = false;
+
+  const worker = async () => {
+    while (!stopped && next < tasks.length) {
+      if (options.signal?.aborted) throw new Error("AbortError");
+      const index = next++;
+      const result = await tasks[index](options.signal);
+      results[index] = result;
+      options.onResult?.(index, result);
+      if (options.stopWhen?.(result)) stopped = true;
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(options.concurrency, tasks.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,126 @@
+import { CatalogAnchor, DarkPatternScan } from "../types";
+
+type Box = [number, number, number, number]; // [ymin, xmin, ymax, xmax]
+
+export interface TileLimits {
+  /** Longest tile edge the model sees before it downsamples internally. */
+  maxEdge: number;
+  /** Pixel budget per tile; wide tiles get shorter so fine print is not averaged away. */
+  maxPixels: number;
+  /** Height:width cap, so very narrow captures do not produce sliver tiles the model reads poorly. */
+  maxAspect: number;
+  overlap: number;
+}
+
+export const DEFAULT_TILE_LIMITS: TileLimits = {
+  maxEdge: 1536,
+  maxPixels: 1536 * 1024,
+  maxAspect: 4,
+  overlap: 150
+};
+
+/** A source rectangle in the full screenshot plus the size it is rendered at for the model. */
+export interface TileRect {
+  index: number;
+  row: number;
+  col: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  outputWidth: number;
+  outputHeight: number;
+}
+
+/** Splits `length` into `count` equally sized windows overlapping by `overlap`. */
+function axisWindows(length: number, maxSize: number, overlap: number): { start: number; size: number }[] {
+  if (length <= maxSize) return [{ start: 0, size: length }];
+  const count = Math.ceil((length - overlap) / (maxSize - overlap));
+  const size = Math.ceil((length + (count - 1) * overlap) / count);
+  return Array.from({ length: count }, (_, i) => ({
+    start: Math.min(i * (size - overlap), length - size),
+    size
+  }));
+}
+
+/**
+ * Plans a grid of overlapping tiles. Width is split first so no tile exceeds the model's edge limit;
+ * tile height then follows from the pixel budget, so wide tiles are shorter than narrow ones.
+ * `scale` < 1 plans for a downsampled render: limits apply to the output, not the source pixels.
+ */
+export function planTiles(width: number, height: number, limits: TileLimits = DEFAULT_TILE_LIMITS, scale = 1): TileRect[] {
+  const overlap = Math.round(limits.overlap / scale);
+  const maxEdge = limits.maxEdge / scale;
+  const columns = axisWindows(width, maxEdge, overlap);
+  const tileWidth = columns[0].size;
+  const maxHeight = Math.max(
+    overlap * 2,
+    Math.min(maxEdge, limits.maxPixels / (scale * scale) / tileWidth, tileWidth * limits.maxAspect)
+  );
+  const rows = axisWindows(height, Math.floor(maxHeight), overlap);
+
+  const tiles: TileRect[] = [];
+  rows.forEach((r, row) => columns.forEach((c, col) => {
+    tiles.push({
+      index: tiles.length,
+      row,
+      col,
+      x: c.start,
+      y: r.start,
+      width: c.size,
+      height: r.size,
+      outputWidth: Math.max(1, Math.round(c.size * scale)),
+      outputHeight: Math.max(1, Math.round(r.size * scale))
+    });
+  }));
+  return tiles;
+}
+
+/**
+ * Low-resolution overview pass: the same grid logic at a reduced scale, so each tile covers far
+ * more of the page. Very tall pages still need several tiles, because squeezing a 20k px page into
+ * one image leaves nothing legible.
+ */
+export function planCoarseTiles(width: number, height: number, limits: TileLimits = DEFAULT_TILE_LIMITS, scale = 0.35): TileRect[] {
+  return planTiles(width, height, limits, scale);
+}
+
+/** Maps tile-relative 0-1000 coordinates onto the full screenshot's 0-1000 space (both axes). */
+export function toGlobalCoordinates(coords: Box, tile: TileRect, fullWidth: number, fullHeight: number): Box {
+  const [ymin, xmin, ymax, xmax] = coords;
+  const gy = (v: number) => ((v / 1000 * tile.height + tile.y) / fullHeight) * 1000;
+  const gx = (v: number) => ((v / 1000 * tile.width + tile.x) / fullWidth) * 1000;
+  return [gy(ymin), gx(xmin), gy(ymax), gx(xmax)];
+}
+
+/** Maps a tile-relative scan (0-1000 on the tile) onto the full screenshot's 0-1000 space. */
+export function toGlobalScan(scan: DarkPatternScan, tile: TileRect, fullWidth: number, fullHeight: number): DarkPatternScan {
+  return { ...scan, coordinates: toGlobalCoordinates(scan.coordinates, tile, fullWidth, fullHeight), source_tiles: [tile.index] };
+}
+
+/** Same mapping for the catalog anchors a tile reported; anchors without a box are left as they are. */
+export function toGlobalSignature(signature: Record<string, any>, tile: TileRect, fullWidth: number, fullHeight: number): Record<string, any> {
+  const anchors: CatalogAnchor[] = signature.catalog_anchors || [];
+  return {
+    ...signature,
+    catalog_anchors: anchors.map(a => a.coordinates.every(c => c === 0) ? a : { ...a, coordinates: toGlobalCoordinates(a.coordinates, tile, fullWidth, fullHeight) })
+  };
+}
+
+/** Tile bounds in the global 0-1000 space. */
+export function tileBounds(tile: TileRect, fullWidth: number, fullHeight: number): Box {
+  return toGlobalCoordinates([0, 0, 1000, 1000], tile, fullWidth, fullHeight);
+}
+
+/**
+ * Picks the high-resolution tiles worth spending a request on: those intersecting any region the
+ * coarse pass flagged (grown by `margin`, in 0-1000 units, to absorb coarse box imprecision).
+ */
+export function selectTilesForRegions(tiles: TileRect[], regions: Box[], fullWidth: number, fullHeight: number, margin = 20): TileRect[] {
+  return tiles.filter(tile => {
+    const [ty1, tx1, ty2, tx2] = tileBounds(tile, fullWidth, fullHeight);
+    return regions.some(([ry1, rx1, ry2, rx2]) =>
+      ry1 - margin < ty2 && ry2 + margin > ty1 && rx1 - margin < tx2 && rx2 + margin > tx1
+    );
+  });
+}
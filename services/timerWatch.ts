@@ -0,0 +1,278 @@
+import { DarkPatternScan, FindingEvidence, PatternType, Severity } from "../types";
+import { OcrLine, PixelRect, TextRecognizer } from "./ocr";
+import { sleep } from "./tileScheduler";
+
+type Box = [number, number, number, number];
+
+export type WatchKind = 'timer' | 'counter';
+
+export interface WatchReading {
+  /** Milliseconds since the watch started. */
+  t: number;
+  text: string;
+  /** Seconds remaining for a timer, the count for a counter; null when the text could not be read. */
+  value: number | null;
+}
+
+/** One on-screen countdown or counter, followed across frames. */
+export interface WatchTrack {
+  id: string;
+  kind: WatchKind;
+  /** The line as first read, e.g. "Offer ends in 04:59". */
+  label: string;
+  rect: PixelRect;
+  coordinates: Box;
+  readings: WatchReading[];
+}
+
+export interface WatchAnomaly {
+  type: 'restart' | 'never-expires' | 'jump' | 'fluctuation';
+  /** Time of the reading where the anomaly showed, ms since the watch started. */
+  at: number;
+  detail: string;
+}
+
+export interface TimerWatchOptions {
+  intervalMs?: number;
+  durationMs?: number;
+  /** Aborting ends the watch early; the readings gathered so far are returned. */
+  signal?: AbortSignal;
+  onUpdate?: (tracks: WatchTrack[], elapsedMs: number) => void;
+  now?: () => number;
+}
+
+export const DEFAULT_WATCH_OPTIONS = { intervalMs: 2000, durationMs: 90000 };
+
+const COUNTER_PATTERNS = [
+  /(\d[\d,.]*)\s*(?:other\s+)?(?:people|persons|others|users|shoppers|visitors|customers|guests)\b/i,
+  /\bonly\s+(\d+)\s+(?:\w+\s+)?(?:left|remaining|available)\b/i,
+  /(\d+)\s+(?:left|remaining)\s+in\s+stock/i,
+  /(\d+)\s+(?:rooms?|seats?|items?|tickets?|units?|spots?)\s+(?:left|remaining)/i,
+  /(\d+)\s+(?:sold|booked|bought)\s+in\s+the\s+last/i
+];
+
+// OCR often reads a zero next to digits as the letter O
+const fixDigits = (text: string) => text.replace(/[Oo](?=\d)|(?<=\d)[Oo]/g, '0');
+
+/** Seconds remaining in a displayed countdown ("04:59", "1:02:03", "2h 15m 10s"), or null. */
+export function parseCountdown(text: string): number | null {
+  const clean = fixDigits(text);
+  const hms = clean.match(/(\d{1,2})\s*[:：]\s*(\d{2})\s*[:：]\s*(\d{2})(?!\d)/);
+  if (hms) return Number(hms[1]) * 3600 + Number(hms[2]) * 60 + Number(hms[3]);
+  const ms = clean.match(/(?<![\d:])(\d{1,3})\s*[:：]\s*(\d{2})(?![\d:])/);
+  if (ms && Number(ms[2]) < 60) return Number(ms[1]) * 60 + Number(ms[2]);
+  const units = [...clean.matchAll(/(\d+)\s*(d|days?|h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)\b/gi)];
+  // One unit alone ("2 hours") is usually delivery copy, not a countdown
+  if (units.length < 2) return null;
+  return units.reduce((sum, [, n, unit]) => {
+    const u = unit[0].toLowerCase();
+    return sum + Number(n) * (u === 'd' ? 86400 : u === 'h' ? 3600 : u === 'm' ? 60 : 1);
+  }, 0);
+}
+
+/** The number in "12 people are viewing this" or "Only 3 left", or null. */
+export function parseCounter(text: string): number | null {
+  const clean = fixDigits(text);
+  for (const pattern of COUNTER_PATTERNS) {
+    const match = clean.match(pattern);
+    if (match) return parseInt(match[1].replace(/[,.]/g, ''), 10);
+  }
+  return null;
+}
+
+const parseFor = (kind: WatchKind, text: string) => kind === 'timer' ? parseCountdown(text) : parseCounter(text);
+
+/**
+ * Picks the OCR lines that look like a countdown or a scarcity counter and turns them into tracks. The
+ * rectangle is padded so the text can still be read if it shifts or grows a digit.
+ */
+export function locateWatchRegions(lines: OcrLine[], width: number, height: number): WatchTrack[] {
+  const tracks: WatchTrack[] = [];
+  lines.forEach(line => {
+    const kind: WatchKind | null = parseCounter(line.text) !== null ? 'counter' : parseCountdown(line.text) !== null ? 'timer' : null;
+    if (!kind) return;
+    const { x0, y0, x1, y1 } = line.bbox;
+    const padX = Math.max(12, (x1 - x0) * 0.25);
+    const padY = Math.max(6, (y1 - y0) * 0.5);
+    const left = Math.max(0, Math.floor(x0 - padX));
+    const top = Math.max(0, Math.floor(y0 - padY));
+    const right = Math.min(width, Math.ceil(x1 + padX));
+    const bottom = Math.min(height, Math.ceil(y1 + padY));
+    tracks.push({
+      id: `${kind}-${tracks.length}`,
+      kind,
+      label: line.text,
+      rect: { left, top, width: right - left, height: bottom - top },
+      coordinates: [
+        Math.round((top / height) * 1000),
+        Math.round((left / width) * 1000),
+        Math.round((bottom / height) * 1000),
+        Math.round((right / width) * 1000)
+      ],
+      readings: []
+    });
+  });
+  return tracks;
+}
+
+const tolerance = (elapsedSec: number) => 2 + elapsedSec * 0.05;
+
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(2, '0');
+  const ss = String(s % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+const formatAt = (ms: number) => `+${(ms / 1000).toFixed(1)}s`;
+
+/** Drops single readings that disagree with both neighbours while the neighbours agree: an OCR misread, not the page. */
+function dropTimerOutliers(readings: WatchReading[]): WatchReading[] {
+  const consistent = (a: WatchReading, b: WatchReading) =>
+    Math.abs(b.value! - (a.value! - (b.t - a.t) / 1000)) <= tolerance((b.t - a.t) / 1000);
+  return readings.filter((r, i) => {
+    const prev = readings[i - 1];
+    const next = readings[i + 1];
+    if (!prev || !next) return true;
+    return consistent(prev, r) || !consistent(prev, next);
+  });
+}
+
+/**
+ * Compares each reading with what a real countdown would show after the elapsed wall-clock time. A timer
+ * that goes back up restarted; one that goes back up from zero never expires; one that drops faster than
+ * real time jumped. Text that never changes is not treated as a countdown at all.
+ */
+export function analyzeCountdown(readings: WatchReading[]): WatchAnomaly[] {
+  const valid = dropTimerOutliers(readings.filter(r => r.value !== null));
+  if (new Set(valid.map(r => r.value)).size < 2) return [];
+  const anomalies: WatchAnomaly[] = [];
+  for (let i = 1; i < valid.length; i++) {
+    const a = valid[i - 1];
+    const b = valid[i];
+    const elapsed = (b.t - a.t) / 1000;
+    const expected = Math.max(0, a.value! - elapsed);
+    const tol = tolerance(elapsed);
+    if (b.value! > a.value! + tol) {
+      const fromZero = a.value! <= tol;
+      anomalies.push({
+        type: fromZero ? 'never-expires' : 'restart',
+        at: b.t,
+        detail: `${formatClock(a.value!)} → ${formatClock(b.value!)} ${fromZero ? 'after reaching zero' : `with ${formatClock(a.value!)} still to go`}`
+      });
+    } else if (b.value! < expected - tol) {
+      anomalies.push({
+        type: 'jump',
+        at: b.t,
+        detail: `${formatClock(a.value!)} → ${formatClock(b.value!)} in ${elapsed.toFixed(1)}s (expected ${formatClock(expected)})`
+      });
+    }
+  }
+  return anomalies;
+}
+
+/**
+ * A real stock or viewer count drifts one way for a while. A counter whose direction keeps reversing
+ * across several distinct values is more likely random than measured.
+ */
+export function analyzeCounter(readings: WatchReading[]): WatchAnomaly[] {
+  const valid = readings.filter(r => r.value !== null);
+  const steps = valid.slice(1).map((r, i) => ({ at: r.t, delta: r.value! - valid[i].value! })).filter(s => s.delta !== 0);
+  const reversals = steps.slice(1).filter((s, i) => Math.sign(s.delta) !== Math.sign(steps[i].delta));
+  const distinct = new Set(valid.map(r => r.value)).size;
+  if (reversals.length < 2 || distinct < 3) return [];
+  const values = valid.map(r => r.value);
+  return [{
+    type: 'fluctuation',
+    at: reversals[reversals.length - 1].at,
+    detail: `${distinct} different values, direction reversed ${reversals.length} times: ${values.join(', ')}`
+  }];
+}
+
+const MAX_SERIES_LINES = 30;
+
+function seriesLines(track: WatchTrack): string[] {
+  const lines = track.readings.map(r => {
+    const value = r.value === null ? 'unreadable' : track.kind === 'timer' ? formatClock(r.value) : String(r.value);
+    return `${formatAt(r.t).padEnd(8)} ${JSON.stringify(r.text)} → ${value}`;
+  });
+  return lines.length > MAX_SERIES_LINES
+    ? [...lines.slice(0, MAX_SERIES_LINES - 1), `… ${lines.length - MAX_SERIES_LINES + 1} more readings in the exported data`]
+    : lines;
+}
+
+const TIMER_TEXT: Record<string, string> = {
+  'never-expires': "The countdown reached zero and started again; the deadline is not real.",
+  'restart': "The countdown went back up while you watched; the deadline is not real.",
+  'jump': "The countdown skipped ahead faster than real time to rush you."
+};
+
+const SOCIAL_COUNTER = /view|watch|looking|people|bought|sold|booked/i;
+
+/** Fake urgency (timers), scarcity or social proof (counters) for every track that misbehaved, with the observed series as evidence. */
+export function timerWatchScans(tracks: WatchTrack[]): DarkPatternScan[] {
+  return tracks.flatMap(track => {
+    const anomalies = track.kind === 'timer' ? analyzeCountdown(track.readings) : analyzeCounter(track.readings);
+    if (anomalies.length === 0) return [];
+    const worst = anomalies.find(a => a.type !== 'jump') || anomalies[0];
+    const duration = track.readings.length ? track.readings[track.readings.length - 1].t - track.readings[0].t : 0;
+    const evidence: FindingEvidence = {
+      source: 'timer_watch',
+      summary: `Watched "${track.label}" for ${(duration / 1000).toFixed(0)}s (${track.readings.length} readings)`,
+      math: [...anomalies.map(a => `⚠ ${a.type} at ${formatAt(a.at)}: ${a.detail}`), ...seriesLines(track)],
+      data: { kind: track.kind, label: track.label, readings: track.readings, anomalies }
+    };
+    return [{
+      pattern_type: track.kind === 'timer' ? PatternType.FakeUrgency
+        : SOCIAL_COUNTER.test(track.label) ? PatternType.FakeSocialProof : PatternType.FakeScarcity,
+      severity: worst.type === 'restart' || worst.type === 'never-expires' ? Severity.High : Severity.Medium,
+      coordinates: track.coordinates,
+      truth_label: track.kind === 'timer'
+        ? TIMER_TEXT[worst.type]
+        : `"${track.label}" changes up and down at random; it is not a live count.`,
+      action_fix: track.kind === 'timer'
+        ? "Ignore the timer. Reload later and the same offer will very likely still be there."
+        : "Ignore the counter when deciding; it does not reflect real demand or stock.",
+      evidence
+    }];
+  });
+}
+
+/**
+ * Samples frames every `intervalMs` for `durationMs` and reads each tracked region. The first frames are
+ * read in full until something timer- or counter-like is found; after that only the tracked rectangles
+ * are recognized, which is much faster.
+ */
+export async function runTimerWatch(
+  grabFrame: () => HTMLCanvasElement,
+  recognizer: TextRecognizer,
+  options: TimerWatchOptions = {}
+): Promise<WatchTrack[]> {
+  const { intervalMs, durationMs } = { ...DEFAULT_WATCH_OPTIONS, ...options };
+  const now = options.now || (() => Date.now());
+  const start = now();
+  let tracks: WatchTrack[] = [];
+
+  while (!options.signal?.aborted) {
+    const t = now() - start;
+    const frame = grabFrame();
+    if (tracks.length === 0) {
+      tracks = locateWatchRegions(await recognizer.recognize(frame), frame.width, frame.height);
+      tracks.forEach(track => track.readings.push({ t, text: track.label, value: parseFor(track.kind, track.label) }));
+    } else {
+      for (const track of tracks) {
+        const text = (await recognizer.recognize(frame, track.rect)).map(l => l.text).join(' ').trim();
+        track.readings.push({ t, text, value: parseFor(track.kind, text) });
+      }
+    }
+    options.onUpdate?.(tracks, t);
+    if (now() - start >= durationMs) break;
+    try {
+      await sleep(intervalMs, options.signal);
+    } catch {
+      break;
+    }
+  }
+  return tracks;
+}
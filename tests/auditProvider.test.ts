@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { loadDefaultProviderId } from '../services/auditProvider';
+
+describe('loadDefaultProviderId', () => {
+  it('takes a registered provider and falls back to Gemini otherwise', () => {
+    expect(loadDefaultProviderId('mock')).toBe('mock');
+    expect(loadDefaultProviderId(undefined)).toBe('gemini');
+    expect(loadDefaultProviderId('claude')).toBe('gemini');
+  });
+});
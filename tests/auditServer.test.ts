@@ -0,0 +1,129 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { AuditLogEntry, createAuditHandler } from '../server/auditHandler';
+import { QuotaTracker, authenticate, parseUsers } from '../server/auth';
+import { annotateRaster, decodeDataUrl, encodeJpeg, encodePng, resample } from '../server/nodeImage';
+import { requestPageAudit } from '../services/auditApi';
+import { ProviderError } from '../services/providerError';
+import { TokenBucket } from '../services/tileScheduler';
+import { PatternType, Severity } from '../types';
+import { loadScreenshot, replayProvider } from './helpers/scanFixtures';
+
+const ALICE = { id: 'alice', token: 'alice-token-0123456789', daily_quota: 1 };
+const BOB = { id: 'bob', token: 'bob-token-0123456789' };
+const ANSWER = JSON.stringify({
+  scans: [{ pattern_type: 'SNEAK_INTO_BASKET', coordinates: [410, 110, 470, 590], severity: 'High', truth_label: 'Insurance was added without asking.', action_fix: 'Remove it.', confidence: 0.9, evidence_text: 'Travel insurance' }],
+  thought_signature: { reasoning_path: 'r', catalog_anchors: [] }
+});
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = null;
+});
+
+async function startServer(log: AuditLogEntry[] = []): Promise<string> {
+  const handler = createAuditHandler({
+    users: [ALICE, BOB],
+    getProvider: () => replayProvider(ANSWER),
+    scheduling: { rateLimiter: new TokenBucket(100, 100), retryDelayMs: 0 },
+    log: (entry) => log.push({ ...entry })
+  });
+  server = createServer((req, res) => handler(req, res));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+}
+
+const rejection = (promise: Promise<unknown>) => promise.then(() => { throw new Error('expected a rejection'); }, (err: ProviderError) => err);
+
+describe('audit server auth', () => {
+  it('validates AUDIT_USERS', () => {
+    expect(parseUsers(JSON.stringify([ALICE]))).toEqual([ALICE]);
+    expect(parseUsers(undefined)).toEqual([]);
+    expect(() => parseUsers('{}')).toThrow('JSON array');
+    expect(() => parseUsers(JSON.stringify([{ id: 'x', token: 'short' }]))).toThrow('at least 16 characters');
+    expect(() => parseUsers(JSON.stringify([{ ...ALICE, daily_quota: -1 }]))).toThrow('daily_quota');
+  });
+
+  it('matches bearer tokens', () => {
+    expect(authenticate([ALICE, BOB], `Bearer ${BOB.token}`)).toBe(BOB);
+    expect(authenticate([ALICE, BOB], 'Bearer nope')).toBeNull();
+    expect(authenticate([ALICE, BOB], BOB.token)).toBeNull();
+  });
+
+  it('resets quotas at UTC midnight', () => {
+    let now = new Date('2026-03-01T23:59:00Z');
+    const quotas = new QuotaTracker(() => now);
+    expect(quotas.consume(ALICE)).toBe(true);
+    expect(quotas.consume(ALICE)).toBe(false);
+    expect(quotas.consume(BOB)).toBe(true);
+    expect(quotas.remaining(BOB)).toBeNull();
+    now = new Date('2026-03-02T00:00:01Z');
+    expect(quotas.remaining(ALICE)).toBe(1);
+  });
+});
+
+describe('nodeImage', () => {
+  it('averages the source pixels under each output pixel', () => {
+    const image = { width: 2, height: 1, data: new Uint8Array([0, 0, 0, 255, 200, 100, 50, 255]) };
+    expect(Array.from(resample(image, 0, 0, 2, 1, 1, 1).data)).toEqual([100, 50, 25, 255]);
+  });
+
+  it('round-trips through JPEG at the same size', () => {
+    const png = decodeDataUrl(loadScreenshot('screenshots/checkout-tile.png'));
+    const jpeg = decodeDataUrl(encodeJpeg(png));
+    expect([jpeg.width, jpeg.height]).toEqual([png.width, png.height]);
+  });
+
+  it('outlines boxed findings in their severity color and leaves the source alone', () => {
+    const blank = { width: 100, height: 100, data: new Uint8Array(100 * 100 * 4).fill(255) };
+    const finding = { pattern_type: PatternType.HiddenCosts, severity: Severity.High, coordinates: [500, 100, 900, 900] as [number, number, number, number], truth_label: 't', action_fix: 'f' };
+    const annotated = annotateRaster(blank, [finding, { ...finding, coordinates: [0, 0, 0, 0] }]);
+    const pixel = (x: number, y: number) => Array.from(annotated.data.slice((y * 100 + x) * 4, (y * 100 + x) * 4 + 3));
+    expect(pixel(50, 50)).toEqual([220, 38, 38]);
+    expect(pixel(50, 20)).toEqual([255, 255, 255]);
+    expect(blank.data[(50 * 100 + 50) * 4 + 1]).toBe(255);
+    expect(decodeDataUrl(`data:image/png;base64,${encodePng(annotated).toString('base64')}`).width).toBe(100);
+  });
+});
+
+describe('POST /api/audit', () => {
+  const image = loadScreenshot('screenshots/checkout-tile.png');
+
+  it('streams progress and the result, and logs the request', async () => {
+    const log: AuditLogEntry[] = [];
+    const baseUrl = await startServer(log);
+    const progress: number[][] = [];
+    const result = await requestPageAudit({ image, rule_pack: 'core' }, {
+      baseUrl,
+      token: BOB.token,
+      onProgress: (current, total) => progress.push([current, total])
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.scans.map(s => s.pattern_type)).toEqual([PatternType.SneakIntoBasket]);
+    expect(progress).toEqual([[0, 1], [1, 1]]);
+    expect(log).toEqual([expect.objectContaining({ user: 'bob', status: 200, provider: 'replay', tiles: 1, findings: 1 })]);
+  });
+
+  it('turns away missing tokens and spent quotas', async () => {
+    const log: AuditLogEntry[] = [];
+    const baseUrl = await startServer(log);
+
+    expect(await rejection(requestPageAudit({ image }, { baseUrl }))).toMatchObject({ status: 401 });
+    await requestPageAudit({ image }, { baseUrl, token: ALICE.token });
+    const spent = await rejection(requestPageAudit({ image }, { baseUrl, token: ALICE.token }));
+    expect(spent).toMatchObject({ status: 429, message: 'Daily audit quota used up' });
+    expect(spent.retryAfterMs).toBeGreaterThan(0);
+    expect(log.map(e => [e.user, e.status])).toEqual([[null, 401], ['alice', 200], ['alice', 429]]);
+  });
+
+  it('rejects invalid requests before spending quota', async () => {
+    const baseUrl = await startServer();
+    expect(await rejection(requestPageAudit({ image, rule_pack: 'nope' }, { baseUrl, token: ALICE.token }))).toMatchObject({ status: 400, message: 'Unknown rule pack "nope"' });
+    expect(await rejection(requestPageAudit({ image: 'data:image/gif;base64,R0lG' }, { baseUrl, token: ALICE.token }))).toMatchObject({ status: 400 });
+    await expect(requestPageAudit({ image }, { baseUrl, token: ALICE.token })).resolves.toHaveProperty('scans');
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeUIScreen,
+  clampCoordinates,
+  foldTileSignatures,
+  mergeCatalogAnchors,
+  normalizeConfidence,
+  normalizeScan,
+  stripMarkdown,
+  tryParsePartialJSON,
+  verifyScans
+} from '../services/auditService';
+import { CatalogAnchor, DarkPatternScan, DomSnapshot, PatternType, Severity } from '../types';
+import { replayProvider } from './helpers/scanFixtures';
+
+const anchor = (overrides: Partial<CatalogAnchor>): CatalogAnchor => ({
+  id: 'id',
+  name: 'Item',
+  price: '$1.00',
+  numeric_price: 1,
+  original_price: '$1.00',
+  original_numeric_price: 1,
+  coordinates: [0, 0, 0, 0],
+  is_violation: false,
+  is_currently_visible: true,
+  ...overrides
+});
+
+describe('tryParsePartialJSON', () => {
+  it('parses valid JSON untouched', () => {
+    expect(tryParsePartialJSON('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it('skips leading noise before the first brace', () => {
+    expect(tryParsePartialJSON('noise {"a":{"b":2}')).toEqual({ a: { b: 2 } });
+  });
+
+  it('closes objects left open by truncation', () => {
+    expect(tryParsePartialJSON('{"a":{"b":{"c":3')).toEqual({ a: { b: { c: 3 } } });
+  });
+
+  it('falls back to the last complete object when trailing text is garbage', () => {
+    expect(tryParsePartialJSON('{"a":1} trailing')).toEqual({ a: 1 });
+  });
+
+  it('gives up on output truncated inside an array', () => {
+    expect(() => tryParsePartialJSON('{"scans":[{"a":1},{"b"')).toThrow();
+  });
+});
+
+describe('stripMarkdown', () => {
+  it('extracts the outermost object from a fenced block', () => {
+    expect(stripMarkdown('```json\n{"a":{"b":1}}\n```')).toBe('{"a":{"b":1}}');
+  });
+
+  it('keeps an unterminated object so truncation can be repaired', () => {
+    expect(stripMarkdown('```json\n{"a":{"b":1},"c":{')).toBe('{"a":{"b":1},"c":{');
+  });
+
+  it('returns text without braces unchanged', () => {
+    expect(stripMarkdown('no json here')).toBe('no json here');
+  });
+});
+
+describe('clampCoordinates', () => {
+  it('rounds and clamps into the 0-1000 range', () => {
+    expect(clampCoordinates([-5, 12.4, 1000.6, 1500])).toEqual([0, 12, 1000, 1000]);
+  });
+
+  it('zeroes malformed input', () => {
+    expect(clampCoordinates(null)).toEqual([0, 0, 0, 0]);
+    expect(clampCoordinates([1, 2, 3])).toEqual([0, 0, 0, 0]);
+    expect(clampCoordinates(['a', '40', null, 7])).toEqual([0, 40, 0, 7]);
+  });
+});
+
+describe('mergeCatalogAnchors', () => {
+  it('does not mutate the previous catalog', () => {
+    const previous = [anchor({ id: 'a' })];
+    mergeCatalogAnchors(previous, [anchor({ id: 'a', price: '$2.00', numeric_price: 2 })]);
+    expect(previous[0].price).toBe('$1.00');
+  });
+
+  it('keeps the first sighting as the original price across several steps', () => {
+    const step1 = mergeCatalogAnchors([], [anchor({ id: 'a', price: '$5.00', numeric_price: 5 })]);
+    const step2 = mergeCatalogAnchors(step1, [anchor({ id: 'a', price: '$6.00', numeric_price: 6 })]);
+    const step3 = mergeCatalogAnchors(step2, [anchor({ id: 'a', price: '$5.00', numeric_price: 5 })]);
+    expect(step2[0]).toMatchObject({ original_price: '$5.00', is_violation: true });
+    expect(step3[0]).toMatchObject({ original_numeric_price: 5, is_violation: false });
+  });
+
+  it('ignores a numeric_price that disagrees with the displayed string', () => {
+    const step1 = mergeCatalogAnchors([], [anchor({ id: 'a', price: '$5.00', numeric_price: 5 })]);
+    const step2 = mergeCatalogAnchors(step1, [anchor({ id: 'a', price: '$5.00', numeric_price: 50 })]);
+    expect(step2[0].is_violation).toBe(false);
+  });
+});
+
+describe('foldTileSignatures', () => {
+  it('marks carried-over anchors that no tile saw as not visible', () => {
+    const base = { catalog_anchors: [anchor({ id: 'a' }), anchor({ id: 'b' })] };
+    const folded = foldTileSignatures(base, [{ catalog_anchors: [anchor({ id: 'b', price: '$2.00' })] }]);
+    expect(folded.catalog_anchors.find((a: CatalogAnchor) => a.id === 'a').is_currently_visible).toBe(false);
+    expect(folded.catalog_anchors.find((a: CatalogAnchor) => a.id === 'b')).toMatchObject({ is_currently_visible: true, is_violation: true });
+  });
+});
+
+describe('normalizeConfidence', () => {
+  it('keeps 0-1 values and scales percentages', () => {
+    expect(normalizeConfidence(0.734)).toBe(0.73);
+    expect(normalizeConfidence('85')).toBe(0.85);
+    expect(normalizeConfidence(250)).toBe(1);
+  });
+
+  it('drops missing and unreadable values', () => {
+    expect(normalizeConfidence(undefined)).toBeUndefined();
+    expect(normalizeConfidence('high')).toBeUndefined();
+  });
+});
+
+describe('normalizeScan', () => {
+  it('keeps confidence and the trimmed on-screen quote', () => {
+    const scan = normalizeScan({ pattern_type: 'FAKE_URGENCY', coordinates: [1, 2, 3, 4], severity: 'High', confidence: 90, evidence_text: '  Ends in 02:00 ' });
+    expect(scan).toMatchObject({ confidence: 0.9, evidence_text: 'Ends in 02:00' });
+    expect(normalizeScan({ pattern_type: 'FAKE_URGENCY', evidence_text: ' ' })).not.toHaveProperty('evidence_text');
+  });
+});
+
+describe('verifyScans', () => {
+  const scan = (overrides: Partial<DarkPatternScan> = {}): DarkPatternScan => ({
+    pattern_type: PatternType.FakeScarcity, coordinates: [100, 100, 200, 200], severity: Severity.High,
+    truth_label: 'Only 2 left', action_fix: 'Ignore', confidence: 0.8, ...overrides
+  });
+  const crops: [number, number, number, number][] = [];
+  const crop = async (_image: string, box: [number, number, number, number]) => {
+    crops.push(box);
+    return 'data:image/jpeg;base64,CROP';
+  };
+
+  it('records a confirmation and takes the verifier confidence', async () => {
+    const provider = replayProvider('{"verdict":"confirm","confidence":0.95,"reason":"Badge reads Only 2 left."}');
+    const [result] = await verifyScans([scan()], 'AAAA', provider, { rejected: 'hide', crop });
+    expect(result).toMatchObject({ confidence: 0.95, verification: { verdict: 'confirmed', reason: 'Badge reads Only 2 left.' } });
+  });
+
+  it('drops rejected findings when hiding and keeps them at low confidence when marking', async () => {
+    const reply = '{"verdict":"reject","confidence":0.3,"reason":"The crop shows a product title."}';
+    expect(await verifyScans([scan()], 'AAAA', replayProvider(reply), { rejected: 'hide', crop })).toEqual([]);
+    const [marked] = await verifyScans([scan()], 'AAAA', replayProvider(reply), { rejected: 'mark', crop });
+    expect(marked).toMatchObject({ confidence: 0.3, verification: { verdict: 'rejected' } });
+  });
+
+  it('only sends boxed model findings to the verifier', async () => {
+    const provider = replayProvider('{"verdict":"reject","confidence":0.1,"reason":"No."}');
+    const passed = [
+      scan({ coordinates: [0, 0, 0, 0] }),
+      scan({ pattern_type: PatternType.VerifiedFair }),
+      scan({ evidence: { source: 'dom_rule', summary: 'Pre-checked box', math: [] } })
+    ];
+    expect(await verifyScans(passed, 'AAAA', provider, { rejected: 'hide', crop })).toEqual(passed);
+    expect(provider.calls).toBe(0);
+  });
+
+  it('leaves a finding unverified when the reply is unreadable', async () => {
+    const [result] = await verifyScans([scan()], 'AAAA', replayProvider('not json'), { rejected: 'hide', crop });
+    expect(result).toEqual(scan());
+  });
+});
+
+describe('analyzeUIScreen', () => {
+  it('retries unparseable output and then succeeds', async () => {
+    const provider = replayProvider('not json', '{"scans":[],"thought_signature":{"catalog_anchors":[]}}');
+    const result = await analyzeUIScreen('data:image/png;base64,AAAA', {}, undefined, { provider, retryDelayMs: 0 });
+    expect(provider.calls).toBe(2);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('returns an error response after exhausting retries', async () => {
+    const provider = replayProvider('still not json');
+    const previous = { catalog_anchors: [anchor({ id: 'keep' })], security_brief: 'Cart.' };
+    const result = await analyzeUIScreen('AAAA', previous, undefined, { provider, retryDelayMs: 0 });
+    expect(provider.calls).toBe(3);
+    expect(result.error).toBeDefined();
+    expect(result.thought_signature.catalog_anchors).toEqual(previous.catalog_anchors);
+  });
+
+  it('streams scans before the response resolves', async () => {
+    const text = '{"scans":[{"pattern_type":"SCARCITY","coordinates":[1,2,3,4000],"severity":"high","truth_label":"t","action_fix":"f"}],"thought_signature":{"catalog_anchors":[]}}';
+    const streamed: DarkPatternScan[] = [];
+    const provider = {
+      id: 'chunked',
+      label: 'Chunked',
+      generate: async () => text,
+      async *stream() {
+        for (let i = 0; i < text.length; i += 20) yield text.slice(i, i + 20);
+      }
+    };
+    const result = await analyzeUIScreen('AAAA', {}, undefined, { provider, stream: true, onScan: s => streamed.push(s) });
+    expect(streamed).toEqual([
+      { pattern_type: PatternType.FakeScarcity, raw_pattern_type: 'SCARCITY', coordinates: [1, 2, 3, 1000], severity: Severity.High, truth_label: 't', action_fix: 'f' }
+    ]);
+    expect(result.scans).toEqual(streamed);
+  });
+
+  it('falls back to generate when the provider cannot stream', async () => {
+    const provider = replayProvider('{"scans":[],"thought_signature":{"catalog_anchors":[]}}');
+    const result = await analyzeUIScreen('AAAA', {}, undefined, { provider, stream: true, retryDelayMs: 0 });
+    expect(provider.calls).toBe(1);
+    expect(result.error).toBeUndefined();
+  });
+
+  it('merges DOM rule findings with model findings and shows the model the markup', async () => {
+    const prompts: string[] = [];
+    const provider = {
+      id: 'capture',
+      label: 'Capture',
+      generate: async (request: { prompt: string }) => {
+        prompts.push(request.prompt);
+        return '{"scans":[],"thought_signature":{"catalog_anchors":[]}}';
+      }
+    };
+    const snapshot: DomSnapshot = {
+      captured_at: '2026-01-01T00:00:00.000Z',
+      page: { width: 1000, height: 1000 },
+      scripts: [],
+      nodes: [{
+        id: 0, tag: 'input', selector: 'input#news', text: '', attrs: { type: 'checkbox' }, checked: true, label: 'Email me offers',
+        rect: { x: 100, y: 100, width: 20, height: 20 },
+        style: { color: 'rgb(0, 0, 0)', background: 'rgb(255, 255, 255)', font_size: 14, font_weight: 400 }
+      }]
+    };
+    const result = await analyzeUIScreen('AAAA', {}, undefined, { provider, retryDelayMs: 0, dom: { snapshot } });
+    expect(prompts[0]).toContain('[checkbox checked] "Email me offers"');
+    expect(result.scans).toHaveLength(1);
+    expect(result.scans[0]).toMatchObject({ pattern_type: PatternType.SneakIntoBasket, coordinates: [100, 100, 120, 120] });
+    expect(result.scans[0].evidence?.source).toBe('dom_rule');
+  });
+
+  it('runs the verifier on model findings before returning', async () => {
+    const provider = replayProvider(
+      '{"scans":[{"pattern_type":"FAKE_SCARCITY","coordinates":[100,100,200,200],"severity":"High","truth_label":"t","action_fix":"f","confidence":0.7,"evidence_text":"Only 2 left"}],"thought_signature":{"catalog_anchors":[]}}',
+      '{"verdict":"reject","confidence":0.2,"reason":"Not visible."}'
+    );
+    const result = await analyzeUIScreen('AAAA', {}, undefined, { provider, retryDelayMs: 0, verify: { rejected: 'hide', crop: async () => 'CROP' } });
+    expect(provider.calls).toBe(2);
+    expect(result.scans).toEqual([]);
+  });
+
+  it('rejects immediately when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(analyzeUIScreen('AAAA', {}, controller.signal, { provider: replayProvider('{}'), retryDelayMs: 0 }))
+      .rejects.toThrow('AbortError');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { rasterPage, decodeDataUrl } from '../server/nodeImage';
+import { batchExitCode, formatSummaryTable, summarizePage } from '../services/batchAudit';
+import { auditPage, pageResponse } from '../services/pageAudit';
+import { calculateSafetyMetrics } from '../services/scoring';
+import { createSession } from '../services/sessionStore';
+import { TokenBucket } from '../services/tileScheduler';
+import { DarkPatternScan, DefensiveStatus, PatternType, ScanResponse, Severity } from '../types';
+import { loadScreenshot } from './helpers/scanFixtures';
+
+const scan = (pattern_type: PatternType, severity: Severity, extra: Partial<DarkPatternScan> = {}): DarkPatternScan => ({
+  pattern_type, severity, coordinates: [100, 100, 200, 300], truth_label: 't', action_fix: 'f', ...extra
+});
+
+const response = (scans: DarkPatternScan[]): ScanResponse => ({
+  viewport_meta: calculateSafetyMetrics(scans),
+  scans,
+  thought_signature: { reasoning_path: '', catalog_anchors: [] }
+});
+
+describe('summarizePage', () => {
+  it('counts only findings that reach the verdict', () => {
+    const summary = summarizePage('checkout', response([
+      scan(PatternType.HiddenCosts, Severity.High),
+      scan(PatternType.Nagging, Severity.Low),
+      scan(PatternType.VerifiedFair, Severity.Low),
+      scan(PatternType.FakeUrgency, Severity.High, { verification: { verdict: 'rejected', reason: 'no timer' } })
+    ]));
+    expect(summary).toEqual({ name: 'checkout', status: DefensiveStatus.Compromised, findings: 2, high: 1 });
+  });
+
+  it('marks a page that could not be audited', () => {
+    expect(summarizePage('broken', null, 'Only PNG and JPEG data URLs are supported')).toEqual({
+      name: 'broken', status: null, findings: 0, high: 0, error: 'Only PNG and JPEG data URLs are supported'
+    });
+  });
+
+  it('fails a page whose every tile failed instead of calling it safe', async () => {
+    const broken = { id: 'broken', label: 'Broken', generate: async () => { throw new Error('GEMINI_API_KEY is not set'); } };
+    const page = rasterPage(decodeDataUrl(loadScreenshot('screenshots/checkout-tile.png')));
+    const result = await auditPage(page, { provider: broken, rateLimiter: new TokenBucket(100, 100), retryDelayMs: 0 });
+    const response = pageResponse(result, createSession());
+
+    expect(result.tiles_audited).toBe(0);
+    expect(response).toMatchObject({ audit_failed: true, viewport_meta: { status: DefensiveStatus.Caution } });
+    const summary = summarizePage('checkout-tile', response);
+    expect(summary).toMatchObject({ status: null, error: 'Neural Link Failure (Rate Limited or Busy).' });
+    expect(batchExitCode([summary])).toBe(2);
+  });
+});
+
+describe('batch results', () => {
+  const safe = summarizePage('home', response([]));
+  const compromised = summarizePage('checkout', response([scan(PatternType.HiddenCosts, Severity.High)]));
+  const failed = summarizePage('broken', null, 'HTTP 404');
+
+  it('fails the build on a compromised page before a failed one', () => {
+    expect(batchExitCode([safe])).toBe(0);
+    expect(batchExitCode([safe, failed])).toBe(2);
+    expect(batchExitCode([failed, compromised])).toBe(1);
+  });
+
+  it('prints one row per page and a total', () => {
+    const table = formatSummaryTable([safe, compromised, failed]);
+    expect(table.split('\n')[2]).toMatch(/^checkout\s+CRITICAL DECEPTION\s+1\s+1\s+$/);
+    expect(table).toContain('FAILED');
+    expect(table.endsWith('3 pages, 1 compromised, 1 failed')).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { analyzeUIScreen } from '../services/auditService';
+import { BenchmarkCase, diffRuns, formatRun, iou, matchFindings, parseLabelFile, scoreCase, summarizeRun } from '../services/benchmark';
+import { DefensiveStatus, PatternType, Severity } from '../types';
+import { FIXTURE_ROOT, loadScreenshot, replayProvider } from './helpers/scanFixtures';
+
+const label = (pattern_type: PatternType, coordinates: [number, number, number, number], severity = Severity.High) => ({ pattern_type, severity, coordinates });
+
+const CORPUS = join(FIXTURE_ROOT, 'benchmark');
+
+function loadCase(id: string): BenchmarkCase {
+  return {
+    id,
+    image: loadScreenshot(`benchmark/${id}.png`),
+    ...parseLabelFile(JSON.parse(readFileSync(join(CORPUS, `${id}.labels.json`), 'utf8')), id),
+    recorded: readFileSync(join(CORPUS, `${id}.response.txt`), 'utf8')
+  };
+}
+
+async function runCorpus(ids: string[]) {
+  const results = [];
+  for (const id of ids) {
+    const testCase = loadCase(id);
+    results.push(scoreCase(testCase, await analyzeUIScreen(testCase.image, {}, undefined, { provider: replayProvider(testCase.recorded!), retryDelayMs: 0 })));
+  }
+  return results;
+}
+
+describe('iou', () => {
+  it('is 1 for identical boxes and 0 for disjoint ones', () => {
+    expect(iou([0, 0, 100, 100], [0, 0, 100, 100])).toBe(1);
+    expect(iou([0, 0, 100, 100], [200, 200, 300, 300])).toBe(0);
+  });
+
+  it('divides the overlap by the combined area', () => {
+    expect(iou([0, 0, 100, 100], [0, 50, 100, 150])).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('matchFindings', () => {
+  it('requires the same pattern type and enough overlap', () => {
+    const labels = [label(PatternType.FakeUrgency, [0, 0, 100, 100])];
+    expect(matchFindings(labels, [label(PatternType.FakeScarcity, [0, 0, 100, 100])])).toEqual([]);
+    expect(matchFindings(labels, [label(PatternType.FakeUrgency, [0, 50, 100, 150])])).toEqual([]);
+    expect(matchFindings(labels, [label(PatternType.FakeUrgency, [0, 50, 100, 150])], 0.3)).toHaveLength(1);
+  });
+
+  it('gives each label its best prediction only once', () => {
+    const labels = [label(PatternType.FakeUrgency, [0, 0, 100, 100]), label(PatternType.FakeUrgency, [0, 20, 100, 120])];
+    const predictions = [label(PatternType.FakeUrgency, [0, 20, 100, 120], Severity.Low)];
+    expect(matchFindings(labels, predictions)).toEqual([{ label: 1, prediction: 0, iou: 1, severity_agrees: false }]);
+  });
+
+  it('matches card-only findings on type alone', () => {
+    const matches = matchFindings([label(PatternType.HiddenCosts, [0, 0, 0, 0])], [label(PatternType.HiddenCosts, [10, 10, 50, 50])]);
+    expect(matches).toEqual([{ label: 0, prediction: 0, iou: null, severity_agrees: true }]);
+  });
+});
+
+describe('parseLabelFile', () => {
+  it('canonicalizes labels and derives a missing status from them', () => {
+    const parsed = parseLabelFile({ labels: [{ pattern_type: 'Fake Scarcity', severity: 'Medium', coordinates: [1, 2, 3, 4] }] }, 'case');
+    expect(parsed).toEqual({ labels: [label(PatternType.FakeScarcity, [1, 2, 3, 4], Severity.Medium)], status: DefensiveStatus.Caution });
+  });
+
+  it('rejects unknown types, severities and statuses', () => {
+    expect(() => parseLabelFile({ labels: [{ pattern_type: 'Banana', severity: 'High', coordinates: [0, 0, 1, 1] }] }, 'case'))
+      .toThrow('Invalid labels for case: labels[0].pattern_type "Banana" is not a known pattern type');
+    expect(() => parseLabelFile({ labels: [{ pattern_type: 'NAGGING', severity: 'Extreme', coordinates: [0, 0, 1, 1] }] }, 'case')).toThrow('severity');
+    expect(() => parseLabelFile({ labels: [], status: 'FINE' }, 'case')).toThrow('"status"');
+  });
+});
+
+describe('benchmark run', () => {
+  it('scores the fixture corpus per category', async () => {
+    const run = summarizeRun(await runCorpus(['cart-upsell', 'product-page']), { provider: 'recorded' }, { now: new Date(0) });
+    expect(run.overall).toEqual({ tp: 2, fp: 1, fn: 1, precision: 0.667, recall: 0.667, f1: 0.667 });
+    expect(run.categories.sneaking).toMatchObject({ tp: 1, precision: 1, recall: 1 });
+    expect(run.categories.urgency).toMatchObject({ fn: 1, precision: null, recall: 0, f1: null });
+    expect(run.categories.social_proof).toMatchObject({ fp: 1, precision: 0, recall: null });
+    expect(run.severity_agreement).toEqual({ agreed: 1, matched: 2, rate: 0.5 });
+    expect(run.status_accuracy).toEqual({ correct: 2, total: 2, rate: 1 });
+  });
+
+  it('diffs against a previous run', async () => {
+    const cases = await runCorpus(['cart-upsell', 'product-page']);
+    const previous = summarizeRun(cases, { provider: 'recorded', model: 'a' });
+    const worse = cases.map(c => c.id === 'cart-upsell'
+      ? { ...c, predicted_status: DefensiveStatus.Caution, matches: [], false_positives: [0, 1], false_negatives: [0, 1] }
+      : c);
+    const current = summarizeRun(worse, { provider: 'recorded', model: 'b' });
+    const diff = diffRuns(previous, current);
+    expect(diff.overall.recall).toEqual({ before: 0.667, after: 0.333, delta: -0.334 });
+    expect(diff.status_accuracy.delta).toBe(-0.5);
+    expect(diff.status_changes).toEqual([{ id: 'cart-upsell', expected: DefensiveStatus.Compromised, before: DefensiveStatus.Compromised, after: DefensiveStatus.Caution }]);
+    expect(diff.config_changes).toEqual([{ key: 'model', before: 'a', after: 'b' }]);
+    expect(formatRun(current, diff)).toContain('cart-upsell: CRITICAL DECEPTION → MANIPULATIVE DESIGN');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { RasterImage, rasterPage } from '../server/nodeImage';
+import { batchExitCode, summarizePage } from '../services/batchAudit';
+import { auditConsentBanner, evaluateConsent, normalizeConsentMap, regionStyle } from '../services/consentAudit';
+import { createMockProvider } from '../services/mockProvider';
+import { TokenBucket } from '../services/tileScheduler';
+import { DefensiveStatus, PatternType, Severity } from '../types';
+import { replayProvider } from './helpers/scanFixtures';
+
+/** 1000×400 white banner with rectangles painted on it; boxes are in 0-1000 space. */
+function banner(...rects: { box: [number, number, number, number]; rgb: [number, number, number] }[]): RasterImage {
+  const image = { width: 1000, height: 400, data: new Uint8Array(1000 * 400 * 4).fill(255) };
+  rects.forEach(({ box: [ymin, xmin, ymax, xmax], rgb }) => {
+    for (let y = Math.round(ymin * 0.4); y < Math.round(ymax * 0.4); y++) {
+      for (let x = xmin; x < xmax; x++) image.data.set(rgb, (y * 1000 + x) * 4);
+    }
+  });
+  return image;
+}
+
+const ACCEPT = { role: 'accept_all', text: 'Accept all', coordinates: [700, 550, 900, 950] };
+const REJECT = { role: 'reject_all', text: 'Reject all', coordinates: [700, 50, 900, 450] };
+const SMALL_REJECT = { role: 'other', text: 'Continue without accepting', coordinates: [820, 50, 860, 200] };
+const map = (extra: object) => ({ banner_found: true, banner: [0, 0, 1000, 1000], cmp: 'OneTrust', buttons: [], toggles: [], ...extra });
+const checks = (summary: { checks: { id: string; passed: boolean | null }[] }) => Object.fromEntries(summary.checks.map(c => [c.id, c.passed]));
+
+describe('regionStyle', () => {
+  it('measures a box and picks its fill over the label', () => {
+    const image = banner({ box: [500, 100, 1000, 300], rgb: [22, 163, 74] }, { box: [700, 150, 750, 250], rgb: [255, 255, 255] });
+    expect(regionStyle(image, [500, 100, 1000, 300])).toEqual({ width: 200, height: 200, fill: '#16a34a' });
+  });
+});
+
+describe('evaluateConsent', () => {
+  it('passes a banner with equal accept and reject and nothing pre-ticked', () => {
+    const image = banner({ box: [700, 550, 900, 950], rgb: [30, 64, 175] }, { box: [700, 50, 900, 450], rgb: [30, 64, 175] });
+    const { scans, summary } = evaluateConsent(normalizeConsentMap(map({
+      buttons: [ACCEPT, REJECT],
+      toggles: [{ label: 'Strictly necessary', coordinates: [300, 50, 350, 100], checked: true, essential: true, legitimate_interest: false }, { label: 'Analytics', coordinates: [400, 50, 450, 100], checked: false, essential: false, legitimate_interest: false }]
+    })), image);
+    expect(scans).toEqual([]);
+    expect(summary).toMatchObject({ banner_found: true, cmp: 'OneTrust', passed: true });
+    expect(checks(summary)).toEqual({ reject_first_layer: true, button_size: true, button_color: true, pre_ticked: true, legitimate_interest: true });
+  });
+
+  it('flags a reject link styled into the background', () => {
+    const image = banner({ box: [700, 550, 900, 950], rgb: [22, 163, 74] }, { box: [830, 60, 850, 190], rgb: [150, 150, 150] });
+    const { scans, summary } = evaluateConsent(normalizeConsentMap(map({ buttons: [ACCEPT, SMALL_REJECT] })), image);
+    expect(scans).toHaveLength(1);
+    expect(scans[0]).toMatchObject({ pattern_type: PatternType.VisualInterference, coordinates: ACCEPT.coordinates, evidence: { source: 'consent_check' } });
+    expect(scans[0].truth_label).toMatch(/^\[GDPR Art\. 4\(11\), Art\. 7\(3\); EDPB Guidelines 03\/2022/);
+    expect(scans[0].evidence!.data).toMatchObject({ accept: { fill: '#16a34a' }, reject: { fill: '#ffffff' } });
+    expect(checks(summary)).toMatchObject({ reject_first_layer: true, button_size: false, button_color: false });
+    expect(summary.passed).toBe(false);
+  });
+
+  it('tells a buried reject from a missing one', () => {
+    const image = banner();
+    const buried = evaluateConsent(normalizeConsentMap(map({ buttons: [ACCEPT, { role: 'settings', text: 'Manage options', coordinates: [700, 50, 900, 450] }] })), image);
+    expect(buried.scans[0]).toMatchObject({ pattern_type: PatternType.Obstruction, severity: Severity.High, coordinates: [700, 50, 900, 450] });
+    expect(buried.scans[0].truth_label).toContain('buried behind "Manage options"');
+    expect(checks(buried.summary)).toMatchObject({ reject_first_layer: false, button_size: null, button_color: null });
+
+    const missing = evaluateConsent(normalizeConsentMap(map({ buttons: [ACCEPT] })), image);
+    expect(missing.scans[0].truth_label).toMatch(/^\[ePrivacy Directive Art\. 5\(3\).*no way to refuse\.$/);
+  });
+
+  it('flags pre-ticked purposes and legitimate interest toggles', () => {
+    const { scans, summary } = evaluateConsent(normalizeConsentMap(map({
+      buttons: [ACCEPT, REJECT],
+      toggles: [
+        { label: 'Personalised ads', coordinates: [300, 50, 350, 100], checked: true, essential: false, legitimate_interest: false },
+        { label: 'Measure ad performance (legitimate interest)', coordinates: [400, 50, 450, 100], checked: true, essential: false, legitimate_interest: false }
+      ]
+    })), banner());
+    expect(scans.map(s => [s.pattern_type, s.evidence_text])).toEqual([
+      [PatternType.Preselection, 'Personalised ads'],
+      [PatternType.TrickWording, 'Measure ad performance (legitimate interest)']
+    ]);
+    expect(scans[0].truth_label).toContain('CJEU C-673/17 Planet49');
+    expect(checks(summary)).toMatchObject({ pre_ticked: false, legitimate_interest: false });
+  });
+});
+
+describe('auditConsentBanner', () => {
+  const scheduling = { rateLimiter: new TokenBucket(100, 100) };
+
+  it('puts the pass/fail summary in viewport_meta', async () => {
+    const image = banner({ box: [700, 550, 900, 950], rgb: [22, 163, 74] });
+    const response = await auditConsentBanner(rasterPage(image), image, { provider: replayProvider(JSON.stringify(map({ buttons: [ACCEPT] }))), ...scheduling });
+    expect(response.viewport_meta.consent).toMatchObject({ banner_found: true, passed: false });
+    expect(response.scans.map(s => s.pattern_type)).toEqual([PatternType.Obstruction]);
+    expect(summarizePage('shop', response)).toMatchObject({ consent: 'fail', findings: 1 });
+  });
+
+  it('passes a page without a banner', async () => {
+    const image = banner();
+    const clean = await auditConsentBanner(rasterPage(image), image, { provider: createMockProvider(), ...scheduling });
+    expect(clean.viewport_meta.consent).toEqual({ banner_found: false, passed: true, checks: [] });
+    expect(summarizePage('shop', clean)).toMatchObject({ status: DefensiveStatus.Safe, consent: 'no banner' });
+  });
+
+  it('reports a provider failure as a failed page, not a pass', async () => {
+    const image = banner();
+    const broken = { id: 'down', label: 'Down', generate: async () => { throw new Error('Service unavailable'); } };
+    const failed = await auditConsentBanner(rasterPage(image), image, { provider: broken, ...scheduling });
+    expect(failed).toMatchObject({ error: 'Service unavailable', scans: [], audit_failed: true });
+    expect(failed.viewport_meta.status).not.toBe(DefensiveStatus.Safe);
+    expect(failed.viewport_meta.consent).toBeUndefined();
+    const summary = summarizePage('shop', failed);
+    expect(summary).toMatchObject({ status: null });
+    expect(batchExitCode([summary])).toBe(2);
+  });
+});
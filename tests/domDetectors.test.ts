@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { contrastRatio, domDigest, parseCssColor, ruleScansForRegion, runDomDetectors } from '../services/domDetectors';
+import { DomNode, DomSnapshot, PatternType, Severity } from '../types';
+
+let nextId = 0;
+const node = (overrides: Partial<DomNode> = {}): DomNode => ({
+  id: nextId++,
+  tag: 'span',
+  selector: 'span',
+  text: '',
+  rect: { x: 100, y: 100, width: 200, height: 20 },
+  attrs: {},
+  style: { color: 'rgb(0, 0, 0)', background: 'rgb(255, 255, 255)', font_size: 14, font_weight: 400 },
+  ...overrides
+});
+
+const snapshot = (nodes: DomNode[], scripts: string[] = []): DomSnapshot => ({
+  captured_at: '2026-01-01T00:00:00.000Z',
+  page: { width: 1000, height: 2000 },
+  nodes,
+  scripts
+});
+
+const checkbox = (label: string, checked = true) =>
+  node({ tag: 'input', selector: 'input#opt', attrs: { type: 'checkbox' }, checked, label });
+
+describe('parseCssColor / contrastRatio', () => {
+  it('parses rgb, rgba and hex colours', () => {
+    expect(parseCssColor('rgb(255, 0, 10)')).toEqual([255, 0, 10, 1]);
+    expect(parseCssColor('rgba(0, 0, 0, 0.5)')).toEqual([0, 0, 0, 0.5]);
+    expect(parseCssColor('#fff')).toEqual([255, 255, 255, 1]);
+    expect(parseCssColor('currentcolor')).toBeNull();
+  });
+
+  it('computes WCAG ratios', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21, 1);
+    expect(contrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+    expect(contrastRatio('rgba(0, 0, 0, 0)', '#ffffff')).toBeCloseTo(1, 5);
+  });
+});
+
+describe('runDomDetectors', () => {
+  it('flags a pre-ticked paid add-on as a high-severity sneak-in', () => {
+    const [finding] = runDomDetectors(snapshot([checkbox('Add travel insurance for $12.99')]));
+    expect(finding).toMatchObject({ pattern_type: PatternType.SneakIntoBasket, severity: Severity.High });
+    expect(finding.evidence).toMatchObject({ source: 'dom_rule', data: { rule: 'pre-checked-opt-in' } });
+  });
+
+  it('rates a pre-ticked newsletter as medium and ignores unticked or unrelated boxes', () => {
+    const results = runDomDetectors(snapshot([
+      checkbox('Send me the newsletter'),
+      checkbox('Add gift wrap', false),
+      checkbox('I accept the terms')
+    ]));
+    expect(results).toHaveLength(1);
+    expect(results[0].severity).toBe(Severity.Medium);
+  });
+
+  it('flags a self-hidden priced fee line but not its descendants', () => {
+    const results = runDomDetectors(snapshot([
+      node({ tag: 'div', text: 'Service fee $4.99', hidden_by: 'display:none', rect: { x: 0, y: 0, width: 0, height: 0 } }),
+      node({ text: '$4.99', hidden_by: 'ancestor' }),
+      node({ text: 'Free shipping', hidden_by: 'display:none' })
+    ]));
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ pattern_type: PatternType.HiddenCosts, severity: Severity.High, coordinates: [0, 0, 0, 0] });
+    expect(results[0].evidence?.math).toContain('Hidden by display:none');
+  });
+
+  it('flags countdowns that tick, are named as timers, or are driven by inline script', () => {
+    const results = runDomDetectors(snapshot([
+      node({ text: '09:59', ticking: true }),
+      node({ text: '04:00', attrs: { class: 'promo-countdown' } }),
+      node({ text: '02:30', attrs: { id: 'deal' } }),
+      node({ text: 'Opens 09:00', attrs: { id: 'hours' } })
+    ], ["setInterval(() => { document.getElementById('deal').textContent = tick(); }, 1000);"]));
+    expect(results.map(r => r.pattern_type)).toEqual([PatternType.FakeUrgency, PatternType.FakeUrgency, PatternType.FakeUrgency]);
+    expect(results[2].evidence?.math).toContain('An inline script updates #deal on a timer');
+  });
+
+  it('flags low-contrast decline links by contrast band', () => {
+    const results = runDomDetectors(snapshot([
+      node({ tag: 'a', text: 'No thanks, I prefer paying full price', style: { color: '#dddddd', background: '#ffffff', font_size: 10, font_weight: 400 } }),
+      node({ tag: 'a', text: 'Decline', style: { color: '#808080', background: '#ffffff', font_size: 12, font_weight: 400 } }),
+      node({ tag: 'button', text: 'Reject', style: { color: '#000000', background: '#ffffff', font_size: 14, font_weight: 700 } })
+    ]));
+    expect(results.map(r => [r.pattern_type, r.severity])).toEqual([
+      [PatternType.VisualInterference, Severity.High],
+      [PatternType.VisualInterference, Severity.Medium]
+    ]);
+  });
+
+  it('maps node rects into 0-1000 page space', () => {
+    const [finding] = runDomDetectors(snapshot([{ ...checkbox('Newsletter'), rect: { x: 100, y: 500, width: 100, height: 100 } }]));
+    expect(finding.coordinates).toEqual([250, 100, 300, 200]);
+  });
+});
+
+describe('ruleScansForRegion', () => {
+  const page = snapshot([
+    { ...checkbox('Newsletter'), rect: { x: 100, y: 500, width: 100, height: 100 } },
+    node({ text: 'Booking fee €3.00', hidden_by: 'display:none' })
+  ]);
+
+  it('gives a boxed finding to the tile containing its centre, in tile-local coordinates', () => {
+    const top = ruleScansForRegion(page, [0, 0, 500, 1000]);
+    const bottom = ruleScansForRegion(page, [500, 0, 1000, 1000]);
+    expect(top.find(s => s.pattern_type === PatternType.SneakIntoBasket)?.coordinates).toEqual([500, 100, 600, 200]);
+    expect(bottom.find(s => s.pattern_type === PatternType.SneakIntoBasket)).toBeUndefined();
+  });
+
+  it('gives card-only findings to the origin tile only', () => {
+    expect(ruleScansForRegion(page, [0, 0, 500, 1000]).some(s => s.pattern_type === PatternType.HiddenCosts)).toBe(true);
+    expect(ruleScansForRegion(page, [500, 0, 1000, 1000]).some(s => s.pattern_type === PatternType.HiddenCosts)).toBe(false);
+  });
+});
+
+describe('domDigest', () => {
+  it('lists control states, hidden prices and decline contrast within the region', () => {
+    const digest = domDigest(snapshot([
+      checkbox('Newsletter'),
+      node({ text: 'Service fee $2.00', hidden_by: 'display:none' }),
+      node({ tag: 'a', text: 'No thanks', style: { color: '#cccccc', background: '#ffffff', font_size: 12, font_weight: 400 } }),
+      node({ text: 'Plain copy' }),
+      { ...checkbox('Far away'), rect: { x: 0, y: 1900, width: 20, height: 20 } }
+    ]), [0, 0, 500, 1000]);
+    expect(digest.split('\n')).toEqual([
+      '[checkbox checked] "Newsletter"',
+      '[hidden: display:none] "Service fee $2.00"',
+      '[a] "No thanks" contrast 1.6:1'
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { addedScan, buildFeedbackDataset, moveScan, normalizeBox, reviewScan, updateStepScans } from '../services/feedback';
+import { DEFAULT_RULE_PACK } from '../services/rulePack';
+import { calculateSafetyMetrics } from '../services/scoring';
+import { appendStep, createSession } from '../services/sessionStore';
+import { DarkPatternScan, DefensiveStatus, PatternType, ScanResponse, Severity, isLowConfidence } from '../types';
+
+const now = new Date('2026-03-01T12:00:00.000Z');
+
+const scan = (pattern_type: PatternType, severity = Severity.High, coordinates: DarkPatternScan['coordinates'] = [100, 100, 200, 300]): DarkPatternScan => ({
+  pattern_type,
+  severity,
+  coordinates,
+  truth_label: 't',
+  action_fix: 'f'
+});
+
+const response = (scans: DarkPatternScan[]): ScanResponse => ({
+  viewport_meta: calculateSafetyMetrics(scans),
+  scans,
+  thought_signature: { reasoning_path: '', security_brief: '', catalog_anchors: [] }
+});
+
+describe('reviewScan', () => {
+  it('sets, replaces and clears the verdict', () => {
+    const confirmed = reviewScan(scan(PatternType.FakeUrgency), 'confirmed', now);
+    expect(confirmed.review).toEqual({ verdict: 'confirmed', reviewed_at: now.toISOString() });
+    expect(reviewScan(confirmed, 'disputed', now).review?.verdict).toBe('disputed');
+    expect(reviewScan(confirmed, null, now)).not.toHaveProperty('review');
+  });
+
+  it('keeps a corrected box when the verdict is cleared', () => {
+    const moved = moveScan(scan(PatternType.FakeUrgency), [110, 120, 210, 320], now);
+    expect(reviewScan(moved, null, now).review).toEqual({ verdict: 'confirmed', reviewed_at: now.toISOString(), original_coordinates: [100, 100, 200, 300] });
+  });
+
+  it('lets a disputed finding override the verifier and the model', () => {
+    const confirmedByVerifier = { ...scan(PatternType.FakeUrgency), verification: { verdict: 'confirmed' as const, reason: '' } };
+    expect(isLowConfidence(reviewScan(confirmedByVerifier, 'disputed', now))).toBe(true);
+    const rejected = { ...scan(PatternType.FakeUrgency), verification: { verdict: 'rejected' as const, reason: '' } };
+    expect(isLowConfidence(reviewScan(rejected, 'confirmed', now))).toBe(false);
+  });
+});
+
+describe('moveScan', () => {
+  it('remembers the first reported box across several moves', () => {
+    const once = moveScan(scan(PatternType.FakeUrgency), [110, 120, 210, 320], now);
+    const twice = moveScan(once, [0, 0, 50, 50], now);
+    expect(twice.coordinates).toEqual([0, 0, 50, 50]);
+    expect(twice.review?.original_coordinates).toEqual([100, 100, 200, 300]);
+  });
+
+  it('orders dragged corners and keeps boxes on the grid', () => {
+    expect(normalizeBox([300, 400, 100, -20])).toEqual([100, 0, 300, 400]);
+    expect(normalizeBox([998, 10, 998, 10])).toEqual([998, 10, 1000, 15]);
+  });
+});
+
+describe('reviewed scoring', () => {
+  it('excludes disputed findings and counts drawn-in ones', () => {
+    const disputed = reviewScan(scan(PatternType.HiddenCosts), 'disputed', now);
+    const metrics = calculateSafetyMetrics([disputed]);
+    expect(metrics.status).toBe(DefensiveStatus.Safe);
+    expect(metrics.breakdown.contributions[0].excluded).toBe('disputed by a reviewer');
+
+    const drawn = addedScan(PatternType.SneakIntoBasket, [10, 10, 40, 40], DEFAULT_RULE_PACK, now);
+    expect(drawn).toMatchObject({ severity: Severity.High, review: { verdict: 'added' } });
+    expect(calculateSafetyMetrics([disputed, drawn]).status).toBe(DefensiveStatus.Compromised);
+  });
+
+  it('rescores the reviewed step only', () => {
+    let session = createSession();
+    session = appendStep(session, null, response([scan(PatternType.HiddenCosts)]));
+    session = appendStep(session, null, response([scan(PatternType.HiddenCosts)]));
+    const updated = updateStepScans(session, 0, [reviewScan(scan(PatternType.HiddenCosts), 'disputed', now)], DEFAULT_RULE_PACK);
+    expect(updated.steps[0].response.viewport_meta.status).toBe(DefensiveStatus.Safe);
+    expect(updated.steps[1]).toBe(session.steps[1]);
+  });
+
+  it('keeps the consent summary when a step is rescored', () => {
+    const consent = { banner_found: true, passed: false, checks: [{ id: 'reject_first_layer' as const, passed: false, detail: 'No reject button.' }] };
+    const audited = response([scan(PatternType.Obstruction)]);
+    const session = appendStep(createSession(), null, { ...audited, viewport_meta: { ...audited.viewport_meta, consent } });
+    const updated = updateStepScans(session, 0, [reviewScan(scan(PatternType.Obstruction), 'disputed', now)], DEFAULT_RULE_PACK);
+    expect(updated.steps[0].response.viewport_meta).toMatchObject({ status: DefensiveStatus.Safe, consent });
+  });
+});
+
+describe('buildFeedbackDataset', () => {
+  it('exports reviewed steps with original predictions and corrected labels', () => {
+    let session = createSession();
+    session = appendStep(session, 'data:unreviewed', response([scan(PatternType.FakeUrgency)]));
+    const scans = [
+      moveScan(scan(PatternType.FakeScarcity, Severity.Medium), [100, 100, 150, 250], now),
+      reviewScan(scan(PatternType.HiddenCosts), 'disputed', now),
+      scan(PatternType.Nagging, Severity.Low),
+      addedScan(PatternType.Preselection, [500, 500, 520, 520], DEFAULT_RULE_PACK, now)
+    ];
+    session = appendStep(session, 'data:reviewed', response(scans), DEFAULT_RULE_PACK);
+
+    const dataset = buildFeedbackDataset(session, { now });
+    expect(dataset).toMatchObject({ format: 'optic-feedback-dataset', version: 1, exported_at: now.toISOString(), session_id: session.id });
+    expect(dataset.items).toHaveLength(1);
+    const [item] = dataset.items;
+    expect(item).toMatchObject({ step_index: 1, screenshot: 'data:reviewed', rule_pack: { id: 'core' } });
+    expect(item.predictions).toEqual([
+      { pattern_type: PatternType.FakeScarcity, severity: Severity.Medium, coordinates: [100, 100, 200, 300], source: 'model', verdict: 'confirmed' },
+      { pattern_type: PatternType.HiddenCosts, severity: Severity.High, coordinates: [100, 100, 200, 300], source: 'model', verdict: 'disputed' },
+      { pattern_type: PatternType.Nagging, severity: Severity.Low, coordinates: [100, 100, 200, 300], source: 'model' }
+    ]);
+    expect(item.labels).toEqual([
+      { pattern_type: PatternType.FakeScarcity, severity: Severity.Medium, coordinates: [100, 100, 150, 250] },
+      { pattern_type: PatternType.Preselection, severity: Severity.High, coordinates: [500, 500, 520, 520] }
+    ]);
+    expect(item.status).toBe(DefensiveStatus.Compromised);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { boxContainment, boxIoU, dedupeScans, textSimilarity } from '../services/findingMerge';
+import { calculateSafetyMetrics } from '../services/scoring';
+import { DarkPatternScan, DefensiveStatus, PatternType, Severity } from '../types';
+
+const scan = (overrides: Partial<DarkPatternScan>): DarkPatternScan => ({
+  pattern_type: PatternType.FakeScarcity,
+  coordinates: [100, 100, 200, 400],
+  severity: Severity.Medium,
+  truth_label: 'Only 2 left in stock badge',
+  action_fix: 'Ignore it.',
+  ...overrides
+});
+
+describe('geometry', () => {
+  it('computes IoU and containment', () => {
+    expect(boxIoU([0, 0, 100, 100], [0, 0, 100, 100])).toBe(1);
+    expect(boxIoU([0, 0, 100, 100], [0, 50, 100, 150])).toBeCloseTo(1 / 3);
+    expect(boxIoU([0, 0, 10, 10], [20, 20, 30, 30])).toBe(0);
+    expect(boxContainment([0, 0, 100, 100], [0, 0, 50, 100])).toBe(1);
+  });
+});
+
+describe('textSimilarity', () => {
+  it('ignores case and punctuation', () => {
+    expect(textSimilarity('Only 2 left!', 'only 2 LEFT')).toBe(1);
+    expect(textSimilarity('Hidden service fee', 'Pre-ticked newsletter')).toBe(0);
+  });
+});
+
+describe('dedupeScans', () => {
+  it('collapses the same element reported by two overlapping tiles', () => {
+    const merged = dedupeScans([
+      scan({ coordinates: [480, 100, 520, 400], source_tiles: [0] }),
+      scan({ coordinates: [482, 102, 521, 398], source_tiles: [1] })
+    ]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].source_tiles).toEqual([0, 1]);
+    expect(merged[0].coordinates).toEqual([480, 100, 521, 400]);
+  });
+
+  it('matches on the canonical type whatever the raw labels were', () => {
+    const merged = dedupeScans([
+      scan({ pattern_type: PatternType.SneakIntoBasket, raw_pattern_type: 'SNEAK-IN' }),
+      scan({ pattern_type: PatternType.SneakIntoBasket, raw_pattern_type: 'sneak in' })
+    ]);
+    expect(merged).toHaveLength(1);
+  });
+
+  it('keeps the more severe copy and its wording', () => {
+    const merged = dedupeScans([
+      scan({ severity: Severity.Low, truth_label: 'Only 2 left badge', source_tiles: [0] }),
+      scan({ severity: Severity.High, truth_label: 'Only 2 left badge, fake', action_fix: 'Leave.', source_tiles: [1] })
+    ]);
+    expect(merged[0]).toMatchObject({ severity: Severity.High, action_fix: 'Leave.' });
+  });
+
+  it('merges a box cut by the tile edge when the labels agree', () => {
+    const merged = dedupeScans([
+      scan({ coordinates: [450, 100, 550, 400], source_tiles: [0] }),
+      scan({ coordinates: [450, 100, 480, 400], source_tiles: [1] })
+    ]);
+    expect(merged).toHaveLength(1);
+  });
+
+  it('keeps a cut box separate when the labels disagree', () => {
+    const merged = dedupeScans([
+      scan({ coordinates: [450, 100, 550, 400] }),
+      scan({ coordinates: [450, 100, 480, 400], truth_label: 'Viewer counter fluctuates randomly' })
+    ]);
+    expect(merged).toHaveLength(2);
+  });
+
+  it('keeps different patterns on the same box apart', () => {
+    expect(dedupeScans([scan({}), scan({ pattern_type: PatternType.Confirmshaming })])).toHaveLength(2);
+  });
+
+  it('stops overlap duplicates from escalating the page status', () => {
+    const duplicates = [
+      scan({ severity: Severity.High, source_tiles: [0] }),
+      scan({ severity: Severity.High, coordinates: [101, 100, 200, 401], source_tiles: [1] })
+    ];
+    expect(calculateSafetyMetrics(duplicates).status).toBe(DefensiveStatus.Compromised);
+    expect(calculateSafetyMetrics(dedupeScans(duplicates))).toMatchObject({ threat_count: 1, status: DefensiveStatus.Caution });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ChangeDetector, changedFraction, DEFAULT_CHANGE_CONFIG, FrameSignature, frameSignature } from '../services/frameDiff';
+
+const GRID = 10;
+
+/** Solid grid signature, optionally with a rectangle of cells painted another luma. */
+const signature = (base: number, patch?: { rows: [number, number]; cols: [number, number]; luma: number }): FrameSignature => {
+  const cells = new Float32Array(GRID * GRID).fill(base);
+  if (patch) {
+    for (let r = patch.rows[0]; r < patch.rows[1]; r++) {
+      for (let c = patch.cols[0]; c < patch.cols[1]; c++) cells[r * GRID + c] = patch.luma;
+    }
+  }
+  return { grid: GRID, cells };
+};
+
+describe('frameSignature', () => {
+  it('box-averages pixels into luma cells', () => {
+    // 4x2 image: left half black, right half white
+    const rgba = new Uint8ClampedArray(4 * 2 * 4);
+    for (let y = 0; y < 2; y++) {
+      for (let x = 2; x < 4; x++) rgba.set([255, 255, 255, 255], (y * 4 + x) * 4);
+    }
+    const sig = frameSignature(rgba, 4, 2, 2);
+    expect(Array.from(sig.cells).map(Math.round)).toEqual([0, 255, 0, 255]);
+  });
+});
+
+describe('changedFraction', () => {
+  it('counts cells beyond the threshold only', () => {
+    const base = signature(100);
+    expect(changedFraction(base, signature(110))).toBe(0);
+    expect(changedFraction(base, signature(100, { rows: [0, 1], cols: [0, 5], luma: 200 }))).toBe(0.05);
+  });
+});
+
+describe('ChangeDetector', () => {
+  const config = { ...DEFAULT_CHANGE_CONFIG, settleFrames: 1, minIntervalMs: 1000 };
+
+  it('audits the first still frame, then ignores an unchanged view', () => {
+    const detector = new ChangeDetector(config);
+    expect(detector.observe(signature(50), 0).reason).toBe('settling');
+    expect(detector.observe(signature(50), 500)).toMatchObject({ audit: true, reason: 'first' });
+    detector.commit(signature(50), 500);
+    expect(detector.observe(signature(50), 5000)).toMatchObject({ audit: false, reason: 'unchanged' });
+  });
+
+  it('ignores a small ticking region such as a countdown', () => {
+    const detector = new ChangeDetector(config);
+    detector.observe(signature(50), 0);
+    detector.observe(signature(50), 500);
+    detector.commit(signature(50), 500);
+    const tick = signature(50, { rows: [0, 1], cols: [0, 1], luma: 250 });
+    expect(detector.observe(tick, 5000).reason).toBe('unchanged');
+  });
+
+  it('waits for a large change to settle before auditing it', () => {
+    const detector = new ChangeDetector(config);
+    detector.observe(signature(50), 0);
+    detector.observe(signature(50), 500);
+    detector.commit(signature(50), 500);
+    const modal = signature(50, { rows: [2, 8], cols: [2, 8], luma: 230 });
+    expect(detector.observe(modal, 5000).reason).toBe('settling');
+    expect(detector.observe(modal, 5500)).toMatchObject({ audit: true, reason: 'changed' });
+    detector.commit(modal, 5500);
+    expect(detector.observe(modal, 6000).reason).toBe('unchanged');
+  });
+
+  it('holds a settled change until the cooldown has passed', () => {
+    const detector = new ChangeDetector(config);
+    detector.observe(signature(50), 0);
+    detector.observe(signature(50), 100);
+    detector.observe(signature(200), 200);
+    expect(detector.observe(signature(200), 300).reason).toBe('cooldown');
+    expect(detector.observe(signature(200), 1200).audit).toBe(true);
+  });
+
+  it('offers a frame again after the cooldown when its audit was not committed', () => {
+    const detector = new ChangeDetector(config);
+    detector.observe(signature(50), 0);
+    expect(detector.observe(signature(50), 100).audit).toBe(true);
+    expect(detector.observe(signature(50), 600).reason).toBe('cooldown');
+    expect(detector.observe(signature(50), 1100)).toMatchObject({ audit: true, reason: 'first' });
+    detector.commit(signature(50), 1100);
+    expect(detector.observe(signature(50), 2200).reason).toBe('unchanged');
+  });
+});
@@ -0,0 +1,32 @@
+/** Minimal Storage for Node tests; `quota` (in characters) makes setItem throw like a full localStorage. */
+export class MemoryStorage implements Storage {
+  private data = new Map<string, string>();
+
+  constructor(private readonly quota = Infinity) {}
+
+  get length() {
+    return this.data.size;
+  }
+
+  clear() {
+    this.data.clear();
+  }
+
+  getItem(key: string) {
+    return this.data.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.data.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.data.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    const used = [...this.data.entries()].filter(([k]) => k !== key).reduce((n, [, v]) => n + v.length, 0);
+    if (used + value.length > this.quota) throw new Error('QuotaExceededError');
+    this.data.set(key, value);
+  }
+}
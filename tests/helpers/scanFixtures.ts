@@ -0,0 +1,48 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { AuditProvider } from '../../services/auditProvider';
+import type { ScanResponse } from '../../types';
+
+export const FIXTURE_ROOT = resolve(__dirname, '../fixtures');
+
+/**
+ * A recorded audit: the screenshot that was sent, the raw text the model answered with,
+ * and the ScanResponse the pipeline is expected to normalize it into.
+ */
+export interface ScanFixture {
+  name: string;
+  description: string;
+  /** Path relative to tests/fixtures. */
+  screenshot: string;
+  previous_signature?: Record<string, any>;
+  raw_text: string;
+  expected: ScanResponse;
+}
+
+export function loadScanFixtures(dir = join(FIXTURE_ROOT, 'scans')): ScanFixture[] {
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({ name: file.replace(/\.json$/, ''), ...JSON.parse(readFileSync(join(dir, file), 'utf8')) }));
+}
+
+export function loadScreenshot(relativePath: string): string {
+  const bytes = readFileSync(join(FIXTURE_ROOT, relativePath));
+  const mime = relativePath.endsWith('.png') ? 'image/png' : 'image/jpeg';
+  return `data:${mime};base64,${bytes.toString('base64')}`;
+}
+
+/** Provider that answers every request with the given raw texts in order, repeating the last one. */
+export function replayProvider(...texts: string[]): AuditProvider & { calls: number } {
+  const provider = {
+    id: 'replay',
+    label: 'Fixture Replay',
+    calls: 0,
+    async generate() {
+      const text = texts[Math.min(provider.calls, texts.length - 1)];
+      provider.calls++;
+      return text;
+    }
+  };
+  return provider;
+}
@@ -0,0 +1,112 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { chromium } from 'playwright-core';
+import { describe, expect, it } from 'vitest';
+import { decodeDataUrl, rasterPage } from '../server/nodeImage';
+import { BrowserDriver, JourneyOptions, formatTimeline, parseJourney, runJourney } from '../services/journey';
+import { TokenBucket } from '../services/tileScheduler';
+import { DefensiveStatus, PatternType } from '../types';
+import { FIXTURE_ROOT, loadScreenshot, replayProvider } from './helpers/scanFixtures';
+
+const SHOP = join(FIXTURE_ROOT, 'shop');
+const SHOP_URL = pathToFileURL(`${SHOP}/`).href;
+const journey = parseJourney(JSON.parse(readFileSync(join(SHOP, 'journey.json'), 'utf8')));
+
+const anchor = (price: string) => ({
+  id: 'shoe', name: 'Trail Runner Shoes', price, numeric_price: 0, original_price: '', original_numeric_price: 0,
+  coordinates: [200, 100, 260, 600], is_violation: false, is_currently_visible: true
+});
+const answer = (price: string, scans: object[] = []) => JSON.stringify({ scans, thought_signature: { reasoning_path: 'r', catalog_anchors: [anchor(price)] } });
+const SNEAK = { pattern_type: 'SNEAK_INTO_BASKET', coordinates: [300, 100, 360, 700], severity: 'High', truth_label: 'Protection plan pre-ticked.', action_fix: 'Untick it.', confidence: 0.9 };
+
+/**
+ * Walks the fixture shop's HTML without a browser: a click follows the link or form with that id.
+ * Every page "renders" as the same small screenshot, so the replay provider sees one tile per step.
+ */
+function fixtureShopDriver(): BrowserDriver {
+  let url = '';
+  const html = () => readFileSync(new URL(url), 'utf8');
+  const requireElement = (selector: string) => {
+    if (!html().includes(`id="${selector.slice(1)}"`)) throw new Error(`No element matches ${selector}`);
+  };
+  return {
+    async goto(next) { url = next; },
+    async click(selector) {
+      requireElement(selector);
+      const link = new RegExp(`id="${selector.slice(1)}"[^>]*href="([^"]+)"`).exec(html());
+      const form = /<form action="([^"]+)"/.exec(html());
+      url = new URL((link || form)![1], url).href;
+    },
+    fill: async (selector) => requireElement(selector),
+    check: async (selector) => requireElement(selector),
+    waitFor: async (selector) => requireElement(selector),
+    screenshot: async () => loadScreenshot('screenshots/checkout-tile.png'),
+    snapshot: async () => ({ url, captured_at: '', page: { width: 32, height: 48 }, nodes: [], scripts: [] }),
+    currentUrl: () => url
+  };
+}
+
+const options = (provider: JourneyOptions['provider']): JourneyOptions => ({
+  provider,
+  loadPage: (screenshot) => rasterPage(decodeDataUrl(screenshot)),
+  baseUrl: SHOP_URL,
+  rateLimiter: new TokenBucket(100, 100),
+  retryDelayMs: 0
+});
+
+describe('parseJourney', () => {
+  it('names the offending step and action', () => {
+    expect(journey.steps.map(s => s.name)).toEqual(['Land', 'Add to cart', 'Checkout', 'Place order', 'Cancel membership', 'Confirm cancellation']);
+    expect(() => parseJourney({ name: 'x', steps: [] })).toThrow('at least one step');
+    expect(() => parseJourney({ name: 'x', steps: [{ name: 'a', actions: [{ type: 'goto', url: '/' }, { type: 'tap', selector: '#b' }] }] })).toThrow('steps[0].actions[1] has unknown type "tap"');
+    expect(() => parseJourney({ name: 'x', steps: [{ name: 'a', actions: [{ type: 'goto', url: '/' }, { type: 'fill', selector: '#b' }] }] })).toThrow('needs a string "value"');
+    expect(() => parseJourney({ name: 'x', steps: [{ name: 'a', actions: [{ type: 'click', selector: '#b' }] }] })).toThrow('must start with a goto');
+  });
+});
+
+describe('runJourney', () => {
+  it('audits every step against the rolling session and reports price drift', async () => {
+    const provider = replayProvider(answer('$50.00'), answer('$50.00', [SNEAK]), answer('$55.00', [SNEAK]), answer('$55.00'));
+    const screenshots: (string | null)[] = [];
+    const timeline = await runJourney(journey, fixtureShopDriver(), { ...options(provider), onStep: (_, shot) => screenshots.push(shot) });
+
+    expect(timeline.completed).toBe(true);
+    expect(timeline.steps.map(s => s.url.slice(SHOP_URL.length))).toEqual(['index.html', 'cart.html', 'checkout.html', 'account.html', 'cancel.html', 'cancelled.html']);
+    expect(screenshots.every(Boolean)).toBe(true);
+    expect(timeline.steps[0].drift).toEqual([]);
+    expect(timeline.steps[1].new_types).toEqual([PatternType.SneakIntoBasket]);
+    expect(timeline.steps[2].new_types).not.toContain(PatternType.SneakIntoBasket);
+    expect(timeline.steps[2].drift).toHaveLength(1);
+    expect(timeline.steps[2].drift[0].evidence?.source).toBe('price_drift');
+    expect(timeline.steps[2].status).not.toBe(DefensiveStatus.Safe);
+    expect(formatTimeline(timeline)).toContain('3. Checkout');
+  });
+
+  it('stops at a step whose actions fail', async () => {
+    const broken = { ...journey, steps: [journey.steps[0], { name: 'Missing button', actions: [{ type: 'click' as const, selector: '#nope' }] }, journey.steps[2]] };
+    const timeline = await runJourney(broken, fixtureShopDriver(), options(replayProvider(answer('$50.00'))));
+
+    expect(timeline.completed).toBe(false);
+    expect(timeline.steps).toHaveLength(2);
+    expect(timeline.steps[1]).toMatchObject({ status: null, error: 'click #nope failed: No element matches #nope' });
+    expect(formatTimeline(timeline)).toContain('FAILED');
+  });
+});
+
+const browserPath = process.env.CHROME_PATH || chromium.executablePath();
+
+describe.skipIf(!existsSync(browserPath))('runJourney in headless Chromium', () => {
+  it('walks the fixture shop and snapshots each page', async () => {
+    const { launchChromiumDriver } = await import('../server/browserDriver');
+    const driver = await launchChromiumDriver({ executablePath: browserPath, tickSampleMs: 0 });
+    try {
+      const timeline = await runJourney(journey, driver, options(replayProvider(answer('$50.00'))));
+      expect(timeline.completed).toBe(true);
+      expect(timeline.steps.at(-1)!.url).toMatch(/cancelled\.html$/);
+      expect((await driver.snapshot()).nodes.some(n => n.text.includes('membership has been cancelled'))).toBe(true);
+    } finally {
+      await driver.close();
+    }
+  }, 60000);
+});
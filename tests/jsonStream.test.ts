@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { IncrementalJSONParser, JsonPath } from '../services/jsonStream';
+
+function collect(pattern: JsonPath, chunks: string[]) {
+  const seen: { value: any; afterChunk: number }[] = [];
+  let chunkIndex = 0;
+  const parser = new IncrementalJSONParser(pattern, (value) => seen.push({ value, afterChunk: chunkIndex }));
+  chunks.forEach((chunk, i) => {
+    chunkIndex = i;
+    parser.push(chunk);
+  });
+  return seen;
+}
+
+describe('IncrementalJSONParser', () => {
+  it('emits each array element as soon as it closes', () => {
+    const seen = collect(['scans', '*'], ['{"scans":[{"a":1}', ',{"a":', '2}', ']}']);
+    expect(seen).toEqual([
+      { value: { a: 1 }, afterChunk: 0 },
+      { value: { a: 2 }, afterChunk: 2 }
+    ]);
+  });
+
+  it('ignores braces and brackets inside strings', () => {
+    const seen = collect(['scans', '*'], ['{"scans":[{"t":"a } ] { [ \\" quoted"}]}']);
+    expect(seen.map(s => s.value)).toEqual([{ t: 'a } ] { [ " quoted' }]);
+  });
+
+  it('only matches the requested path', () => {
+    const doc = '{"thought_signature":{"catalog_anchors":[{"id":"x"}]},"scans":[{"id":"y","nested":{"z":1}}]}';
+    expect(collect(['scans', '*'], [doc]).map(s => s.value.id)).toEqual(['y']);
+    expect(collect(['thought_signature', 'catalog_anchors', '*'], [doc]).map(s => s.value.id)).toEqual(['x']);
+  });
+
+  it('skips prose and code fences before the document', () => {
+    const seen = collect(['scans', '*'], ['Sure! ```json\n', '{"scans":[{"a":1}]}\n```']);
+    expect(seen.map(s => s.value)).toEqual([{ a: 1 }]);
+  });
+
+  it('handles a document split one character at a time', () => {
+    const doc = '{"scans":[{"k":[1,2]},{"k":{"deep":"v,]"}}],"other":[{"x":1}]}';
+    const seen = collect(['scans', '*'], doc.split(''));
+    expect(seen.map(s => s.value)).toEqual([{ k: [1, 2] }, { k: { deep: 'v,]' } }]);
+  });
+
+  it('exposes the accumulated text', () => {
+    const parser = new IncrementalJSONParser(['*'], () => {});
+    parser.push('{"a"');
+    parser.push(':1}');
+    expect(parser.text).toBe('{"a":1}');
+  });
+});
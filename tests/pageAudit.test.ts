@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { AuditProvider } from '../services/auditProvider';
+import { PageImage, auditPage, pageResponse } from '../services/pageAudit';
+import { calculateSafetyMetrics } from '../services/scoring';
+import { appendStep, createSession } from '../services/sessionStore';
+import { TileRect } from '../services/tiler';
+import { TokenBucket } from '../services/tileScheduler';
+import { CatalogAnchor, DarkPatternScan, PatternType, Severity } from '../types';
+
+const finding = (coordinates: number[], pattern_type = 'FAKE_URGENCY') => ({
+  pattern_type, coordinates, severity: 'High', truth_label: 'Countdown resets on reload.', action_fix: 'Ignore it.', confidence: 0.9, evidence_text: 'Ends in 10:00'
+});
+// No rate limiting or retry backoff in tests
+const fast = () => ({ rateLimiter: new TokenBucket(100, 100), retryDelayMs: 0 });
+
+const answer = (scans: object[], anchors: object[] = []) => JSON.stringify({ scans, thought_signature: { reasoning_path: 'r', catalog_anchors: anchors } });
+
+/** A 1000x3000 page that renders each tile as a tag the provider can answer per tile. */
+function fakePage(rendered: TileRect[] = []): PageImage {
+  return {
+    width: 1000,
+    height: 3000,
+    renderTile: async (tile) => {
+      rendered.push(tile);
+      return `data:image/jpeg;base64,${tile.outputWidth}x${tile.outputHeight}@${tile.y}`;
+    }
+  };
+}
+
+function providerByTile(answers: Record<string, string>): AuditProvider {
+  return {
+    id: 'by-tile',
+    label: 'By Tile',
+    generate: async ({ image }) => {
+      const key = image.split(',')[1];
+      if (!(key in answers)) throw new Error(`unexpected tile ${key}`);
+      return answers[key];
+    }
+  };
+}
+
+describe('auditPage', () => {
+  it('maps every tile into page coordinates and folds the signatures', async () => {
+    const progress: number[] = [];
+    const provider = providerByTile({
+      '1000x1100@0': answer([finding([100, 100, 200, 200]), finding([0, 0, 0, 0], 'NAGGING')], [{ id: 'total', name: 'Total', coordinates: [500, 100, 520, 300] }]),
+      '1000x1100@950': answer([finding([100, 100, 200, 200])]),
+      '1000x1100@1900': answer([])
+    });
+    const result = await auditPage(fakePage(), { provider, ...fast(), concurrency: 1, onProgress: (current) => progress.push(current) });
+
+    expect(result.error).toBeUndefined();
+    expect(result.scans.map(s => [s.pattern_type, s.source_tiles])).toEqual([[PatternType.FakeUrgency, [0]], [PatternType.FakeUrgency, [1]]]);
+    expect(result.scans[0].coordinates[0]).toBeCloseTo(36.7, 0);
+    expect(result.scans[1].coordinates[0]).toBeCloseTo(353.3, 0);
+    expect(result.thought_signature.catalog_anchors.map(a => a.id)).toEqual(['total']);
+    expect(progress).toEqual([0, 1, 2, 3]);
+  });
+
+  it('keeps what finished tiles found when one fails', async () => {
+    const answers = providerByTile({ '1000x1100@0': answer([finding([100, 100, 200, 200])]) });
+    const provider: AuditProvider = {
+      ...answers,
+      generate: async (request) => {
+        if (request.image.endsWith('@950')) throw new Error('Provider HTTP 400');
+        return answers.generate(request);
+      }
+    };
+    const rendered: TileRect[] = [];
+    const result = await auditPage(fakePage(rendered), { provider, ...fast(), concurrency: 1 });
+
+    expect(result.error).toContain('Neural Link Failure');
+    expect(result.scans).toHaveLength(1);
+    // The third tile is never dispatched after the failure
+    expect(rendered.map(t => t.y)).toEqual([0, 950]);
+  });
+
+  it('only sends the tiles the coarse pass flagged', async () => {
+    const rendered: TileRect[] = [];
+    const provider = providerByTile({
+      // Overview of the whole page; the finding sits in the bottom third
+      '350x1050@0': answer([finding([800, 100, 850, 300])]),
+      '1000x1100@1900': answer([finding([500, 100, 560, 300])])
+    });
+    const stages: (string | undefined)[] = [];
+    const result = await auditPage(fakePage(rendered), { provider, ...fast(), coarsePass: true, onProgress: (_c, _t, stage) => stages.push(stage) });
+
+    expect(rendered.map(t => t.outputHeight === 1050 ? 'coarse' : t.y)).toEqual(['coarse', 1900]);
+    expect(result.scans).toHaveLength(1);
+    expect(result.scans[0].source_tiles).toEqual([2]);
+    expect(stages).toContain('Resolving Flagged Regions...');
+  });
+});
+
+describe('pageResponse', () => {
+  const shoe = (price: string): CatalogAnchor => ({
+    id: 'shoe', name: 'Shoe', price, numeric_price: 0, original_price: price, original_numeric_price: 0,
+    coordinates: [100, 100, 120, 300], is_violation: false, is_currently_visible: true
+  });
+  const scan = (pattern_type: PatternType, coordinates: DarkPatternScan['coordinates']): DarkPatternScan => ({
+    pattern_type, severity: Severity.Medium, coordinates, truth_label: 't', action_fix: 'f'
+  });
+
+  it('adds drift against earlier steps and local findings ahead of the page findings, then scores', () => {
+    const session = appendStep(createSession(), null, {
+      viewport_meta: calculateSafetyMetrics([]),
+      scans: [],
+      thought_signature: { reasoning_path: '', catalog_anchors: [shoe('$50.00')] }
+    });
+    const response = pageResponse(
+      { scans: [scan(PatternType.Nagging, [600, 100, 650, 300])], thought_signature: { reasoning_path: '', catalog_anchors: [shoe('$55.00')] }, tiles_audited: 1, error: 'tile 2 failed' },
+      session,
+      { localScans: [scan(PatternType.FakeUrgency, [300, 100, 350, 300])] }
+    );
+
+    expect(response.scans.map(s => s.pattern_type)).toEqual([PatternType.BaitAndSwitch, PatternType.FakeUrgency, PatternType.Nagging]);
+    expect(response.viewport_meta.breakdown?.contributions).toHaveLength(3);
+    expect(response.error).toBe('tile 2 failed');
+  });
+});
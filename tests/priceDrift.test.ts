@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { detectPriceDrift, DriftStep } from '../services/priceDrift';
+import { CatalogAnchor, PatternType, Severity } from '../types';
+
+const anchor = (id: string, price: string, overrides: Partial<CatalogAnchor> = {}): CatalogAnchor => ({
+  id,
+  name: id,
+  price,
+  numeric_price: 0,
+  original_price: price,
+  original_numeric_price: 0,
+  coordinates: [100, 100, 120, 300],
+  is_violation: false,
+  is_currently_visible: true,
+  ...overrides
+});
+
+const step = (index: number, ...anchors: CatalogAnchor[]): DriftStep => ({ index, anchors });
+
+describe('detectPriceDrift', () => {
+  it('reports nothing for a stable basket', () => {
+    expect(detectPriceDrift([
+      step(0, anchor('shoe', '$50.00')),
+      step(1, anchor('shoe', '$50.00'), anchor('total', '$50.00', { kind: 'total' }))
+    ])).toEqual([]);
+  });
+
+  it('flags an item price increase with the arithmetic as evidence', () => {
+    const [finding] = detectPriceDrift([step(0, anchor('shoe', '$50.00')), step(1, anchor('shoe', '$55.00'))]);
+    expect(finding).toMatchObject({ pattern_type: PatternType.BaitAndSwitch, severity: Severity.High });
+    expect(finding.evidence?.source).toBe('price_drift');
+    expect(finding.evidence?.math).toContain('Δ = +5.00 (+10.00%)');
+  });
+
+  it('does not flag a price drop', () => {
+    expect(detectPriceDrift([step(0, anchor('shoe', '$50.00')), step(1, anchor('shoe', '$45.00'))])).toEqual([]);
+  });
+
+  it('flags a currency switch', () => {
+    const [finding] = detectPriceDrift([step(0, anchor('shoe', '$50.00')), step(1, anchor('shoe', '€50.00'))]);
+    expect(finding.truth_label).toContain('USD to EUR');
+  });
+
+  it('flags a switch in billing period instead of comparing the amounts', () => {
+    const [finding] = detectPriceDrift([step(0, anchor('plan', '$9.99/mo')), step(1, anchor('plan', '$119.88 per year'))]);
+    expect(finding.truth_label).toContain('per month to per year');
+  });
+
+  it('only asks about billing when one sighting has no period', () => {
+    const findings = detectPriceDrift([step(0, anchor('plan', '$9.99/mo')), step(1, anchor('plan', '$9.99'))]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ pattern_type: PatternType.Unclear, severity: Severity.Medium });
+    expect(findings[0].truth_label).toBe('plan: shown per month at step 1 but without one at step 2.');
+  });
+
+  it('reports a change once, on the step that introduced it', () => {
+    const steps = [
+      step(0, anchor('shoe', '$50.00')),
+      step(1, anchor('shoe', '$60.00')),
+      step(2, anchor('shoe', '$60.00', { is_currently_visible: false })),
+      step(3, anchor('shoe', '$60.00'))
+    ];
+    expect(detectPriceDrift(steps.slice(0, 2))).toHaveLength(1);
+    expect(detectPriceDrift(steps.slice(0, 3))).toEqual([]);
+    expect(detectPriceDrift(steps)).toEqual([]);
+  });
+
+  it('compares consecutive sightings, so a rise after a drop is caught', () => {
+    const steps = [step(0, anchor('shoe', '$50.00')), step(1, anchor('shoe', '$45.00')), step(2, anchor('shoe', '$50.00'))];
+    const [finding] = detectPriceDrift(steps);
+    expect(finding.truth_label).toBe('shoe: price rose from $45.00 to $50.00 since step 2.');
+  });
+
+  it('checks quantity times unit price against the line', () => {
+    const [finding] = detectPriceDrift([step(0, anchor('socks', '$32.00', { quantity: 3, unit_price: '$10.00' }))]);
+    expect(finding.truth_label).toContain('3 × $10.00');
+    expect(finding.evidence?.data?.delta).toBeCloseTo(2);
+  });
+
+  it('flags a total that exceeds its visible lines', () => {
+    const findings = detectPriceDrift([step(0,
+      anchor('shoe', '$50.00'),
+      anchor('ship', '$5.00', { kind: 'shipping' }),
+      anchor('promo', '-$10.00', { kind: 'discount' }),
+      anchor('total', '$49.99', { kind: 'total' })
+    )]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ pattern_type: PatternType.HiddenCosts, severity: Severity.High });
+  });
+
+  it('skips the basket sum when some items are off screen', () => {
+    expect(detectPriceDrift([step(0,
+      anchor('shoe', '$50.00'),
+      anchor('hat', '$20.00', { is_currently_visible: false }),
+      anchor('total', '$80.00', { kind: 'total' })
+    )])).toEqual([]);
+  });
+
+  it('flags fees revealed after items were added', () => {
+    const findings = detectPriceDrift([
+      step(0, anchor('shoe', '$50.00')),
+      step(1, anchor('shoe', '$50.00', { is_currently_visible: false }), anchor('service', '$7.50', { kind: 'fee' }))
+    ]);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ pattern_type: PatternType.HiddenCosts, severity: Severity.Medium });
+  });
+});
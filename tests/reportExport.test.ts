@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { buildAuditReport, renderReportHtml } from '../services/reportExport';
+import { calculateSafetyMetrics } from '../services/scoring';
+import { appendStep, createSession } from '../services/sessionStore';
+import { CatalogAnchor, DefensiveStatus, PatternType, ScanResponse, Severity } from '../types';
+
+const anchor: CatalogAnchor = {
+  id: 'tv',
+  name: 'TV <55">',
+  price: '$520.00',
+  numeric_price: 520,
+  original_price: '$500.00',
+  original_numeric_price: 500,
+  coordinates: [100, 100, 150, 400],
+  is_violation: true,
+  is_currently_visible: true,
+  money: { amount: 520, currency: 'USD', raw: '$520.00' }
+};
+
+const response: ScanResponse = {
+  viewport_meta: { threat_count: 2, status: DefensiveStatus.Compromised, advice: 'Do not proceed.' },
+  scans: [
+    {
+      pattern_type: PatternType.BaitAndSwitch,
+      severity: Severity.High,
+      coordinates: [100, 100, 150, 400],
+      truth_label: 'Price rose <script>alert(1)</script>',
+      action_fix: 'Go back.',
+      evidence: { source: 'price_drift', summary: 'Up 20.00', math: ['Δ = +20.00'] }
+    },
+    { pattern_type: PatternType.HiddenCosts, severity: Severity.Medium, coordinates: [0, 0, 0, 0], truth_label: 'Fee added late', action_fix: 'Check.' }
+  ],
+  thought_signature: { reasoning_path: 'Anchoring on the earlier price.', security_brief: 'Checkout.', catalog_anchors: [anchor] }
+};
+
+const session = appendStep(createSession(), 'data:image/jpeg;base64,AAAA', response);
+const now = new Date('2026-01-02T03:04:05Z');
+
+describe('buildAuditReport', () => {
+  it('collects the verdict, findings, anchors and reasoning of a step', () => {
+    const report = buildAuditReport(session, 0, { provider: 'Local Replay', now });
+    expect(report).toMatchObject({
+      generated_at: '2026-01-02T03:04:05.000Z',
+      provider: 'Local Replay',
+      session_id: session.id,
+      step: { index: 0, total_steps: 1 },
+      verdict: response.viewport_meta,
+      reasoning_path: 'Anchoring on the earlier price.',
+      security_brief: 'Checkout.',
+      screenshot: 'data:image/jpeg;base64,AAAA'
+    });
+    expect(report.findings).toHaveLength(2);
+    expect(report.pattern_counts).toEqual([{ type: PatternType.BaitAndSwitch, count: 1 }, { type: PatternType.HiddenCosts, count: 1 }]);
+    expect(report.catalog_anchors[0].id).toBe('tv');
+  });
+
+  it('prefers an explicitly supplied full-resolution screenshot', () => {
+    expect(buildAuditReport(session, 0, { screenshot: 'data:full' }).screenshot).toBe('data:full');
+  });
+
+  it('rejects a step that does not exist', () => {
+    expect(() => buildAuditReport(session, 3)).toThrow();
+  });
+});
+
+describe('renderReportHtml', () => {
+  const html = renderReportHtml(buildAuditReport(session, 0, { now }), 'data:image/png;base64,BBBB');
+
+  it('embeds the annotated screenshot and the verdict', () => {
+    expect(html).toContain('src="data:image/png;base64,BBBB"');
+    expect(html).toContain(DefensiveStatus.Compromised);
+    expect(html).toContain('Do not proceed.');
+  });
+
+  it('lists every finding with its severity, fix and evidence', () => {
+    expect(html).toContain('#1 · Bait and Switch · High severity');
+    expect(html).toContain('#2 · Hidden Costs · Medium severity · not boxed');
+    expect(html).toContain('Δ = +20.00');
+  });
+
+  it('explains the verdict when the step has a score breakdown', () => {
+    const scored = { ...response, viewport_meta: calculateSafetyMetrics(response.scans) };
+    const explained = renderReportHtml(buildAuditReport(appendStep(createSession(), null, scored), 0, { now }), null);
+    expect(explained).toContain('<strong>Why:</strong> Finding #1 (Bait and Switch, High) is a critical pattern');
+    expect(explained).toContain('10 × 1 = 10 (critical)');
+  });
+
+  it('escapes page-derived text', () => {
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('TV &lt;55&quot;&gt;');
+  });
+
+  it('renders the anchor table with parsed amounts', () => {
+    expect(html).toContain('USD 520.00');
+    expect(html).toContain('$500.00');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { decodeDataUrl, rasterPage } from '../server/nodeImage';
+import { createMockProvider } from '../services/mockProvider';
+import { auditRoachMotel, flowEffort, formatRoachMotel, symmetryScore } from '../services/roachMotel';
+import { getRulePack } from '../services/rulePack';
+import { TokenBucket } from '../services/tileScheduler';
+import { DefensiveStatus, PatternType, Severity } from '../types';
+import { loadScreenshot, replayProvider } from './helpers/scanFixtures';
+
+const page = () => rasterPage(decodeDataUrl(loadScreenshot('screenshots/checkout-tile.png')));
+const screen = (clicks: number, extra: object = {}) => JSON.stringify({ summary: 's', clicks, form_fields: 0, retention_offers: [], confirmshaming: [], channel_switches: [], ...extra });
+const element = (text: string) => ({ text, coordinates: [700, 100, 760, 900] });
+const scheduling = { rateLimiter: new TokenBucket(100, 100), retryDelayMs: 0 };
+
+describe('symmetryScore', () => {
+  const effort = (clicks: number, extra: object = {}) => ({ ...flowEffort([]), steps: 1, clicks, effort: clicks, ...extra });
+
+  it('is 100 when cancelling is no harder than signing up', () => {
+    expect(symmetryScore(effort(3), effort(2)).score).toBe(100);
+    expect(symmetryScore(effort(0), effort(1)).score).toBe(100);
+  });
+
+  it('scales with the effort ratio and takes off points for gauntlet screens', () => {
+    expect(symmetryScore(effort(2), effort(8)).score).toBe(25);
+    const { score, math } = symmetryScore(effort(4), effort(4, { retention_offers: 3, confirmshaming: 1 }));
+    expect(score).toBe(70);
+    expect(math).toContain('− 10 × 2 retention offers after the first');
+  });
+
+  it('fails outright when cancelling moves to another channel', () => {
+    expect(symmetryScore(effort(2), effort(1, { channel_switches: 1, channels: ['phone'] })).score).toBe(0);
+    expect(symmetryScore(effort(2, { channels: ['phone'] }), effort(1, { channel_switches: 1, channels: ['phone'] })).score).toBe(100);
+  });
+});
+
+describe('auditRoachMotel', () => {
+  it('compares the two flows and reports the gauntlet', async () => {
+    const provider = replayProvider(
+      screen(2),
+      screen(1),
+      screen(3, { retention_offers: [element('Stay for 50% off')] }),
+      screen(2, { retention_offers: [element('Pause instead?')], confirmshaming: [element('No thanks, I like paying full price')] }),
+      screen(1, { channel_switches: [{ ...element('Call 800-555-0100 to finish cancelling'), channel: 'telephone' }] })
+    );
+    const report = await auditRoachMotel([page(), page()], [page(), page(), page()], { provider, ...scheduling });
+
+    expect(report.signup).toMatchObject({ steps: 2, clicks: 3, retention_offers: 0 });
+    expect(report.cancellation).toMatchObject({ steps: 3, clicks: 6, retention_offers: 2, confirmshaming: 1, channels: ['phone'] });
+    expect(report.symmetry_score).toBe(0);
+    expect(report.scans.map(s => s.pattern_type)).toEqual([PatternType.HardToCancel, PatternType.Nagging, PatternType.Confirmshaming, PatternType.Obstruction]);
+    expect(report.scans[0]).toMatchObject({ severity: Severity.High, coordinates: [0, 0, 0, 0], evidence: { source: 'flow_effort', summary: 'Click-to-cancel symmetry 0/100' } });
+    expect(report.scans[3]).toMatchObject({ coordinates: [700, 100, 760, 900], evidence_text: 'Call 800-555-0100 to finish cancelling', evidence: { data: { phase: 'cancellation', screen: 2 } } });
+    expect(report.viewport_meta.status).toBe(DefensiveStatus.Compromised);
+    expect(formatRoachMotel(report)).toContain('Click-to-cancel symmetry: 0/100');
+  });
+
+  it('scores through the rule pack it is given', async () => {
+    const provider = replayProvider(screen(1), screen(4));
+    const report = await auditRoachMotel([page()], [page()], { provider, rulePack: getRulePack('us-ftc-click-to-cancel'), ...scheduling });
+    expect(report.viewport_meta.breakdown?.source.rule_pack).toBe('us-ftc-click-to-cancel');
+    expect(report.scans.map(s => s.pattern_type)).toEqual([PatternType.HardToCancel]);
+  });
+
+  it('retries a screen that fails once', async () => {
+    let calls = 0;
+    const provider = { id: 'flaky', label: 'Flaky', generate: async () => { if (calls++ === 1) throw new Error('overloaded'); return screen(1); } };
+    const report = await auditRoachMotel([page()], [page(), page()], { provider, ...scheduling });
+    expect(calls).toBe(4);
+    expect(report.error).toBeUndefined();
+    expect(report.symmetry_score).toBe(50);
+  });
+
+  it('fails instead of scoring when the cancellation flow cannot be read', async () => {
+    let calls = 0;
+    const provider = { id: 'down', label: 'Down', generate: async () => { calls++; throw new Error('Service unavailable'); } };
+    const report = await auditRoachMotel([page()], [page(), page()], { provider, ...scheduling });
+    expect(calls).toBe(9);
+    expect(report).toMatchObject({ symmetry_score: null, audit_failed: true, scans: [], error: 'Sign-up screen 1 could not be read: Service unavailable' });
+    expect(report.cancellation.steps).toBe(2);
+    expect(report.viewport_meta.status).not.toBe(DefensiveStatus.Safe);
+    expect(formatRoachMotel(report)).toContain('Click-to-cancel symmetry: not scored');
+  });
+
+  it('gets an answer from the offline provider', async () => {
+    const report = await auditRoachMotel([page()], [page()], { provider: createMockProvider(), ...scheduling });
+    expect(report.symmetry_score).toBe(100);
+    expect(report.scans).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { buildScanResponseSchema, buildSystemInstruction } from '../services/auditPrompt';
+import { normalizeScan } from '../services/auditService';
+import { calculateSafetyMetrics } from '../services/scoring';
+import { DEFAULT_RULE_PACK, RULE_PACKS, findPattern, getRulePack, patternForType, resolvePatternType, validateRulePack } from '../services/rulePack';
+import { DarkPatternScan, DefensiveStatus, PatternType, Severity } from '../types';
+
+const scan = (pattern_type: PatternType, severity: Severity): DarkPatternScan => ({
+  pattern_type,
+  severity,
+  coordinates: [0, 0, 10, 10],
+  truth_label: '',
+  action_fix: ''
+});
+
+const clone = () => JSON.parse(JSON.stringify(DEFAULT_RULE_PACK));
+
+describe('validateRulePack', () => {
+  it('accepts every shipped pack', () => {
+    expect(RULE_PACKS.map(p => p.id)).toEqual(['core', 'eu-dsa', 'us-ftc-click-to-cancel', 'deceptive-design']);
+  });
+
+  it('rejects a pack with the wrong format marker', () => {
+    expect(() => validateRulePack({ ...clone(), format: 'other' })).toThrow('"format" must be "optic-rule-pack"');
+  });
+
+  it('rejects unknown default severities', () => {
+    const pack = clone();
+    pack.patterns[0].default_severity = 'Severe';
+    expect(() => validateRulePack(pack)).toThrow('patterns[0].default_severity');
+  });
+
+  it('rejects a label claimed by two patterns', () => {
+    const pack = clone();
+    pack.patterns[1].aliases = ['Bait & Switch'];
+    expect(() => validateRulePack(pack)).toThrow('used by more than one pattern');
+  });
+
+  it('rejects unknown types and types covered twice', () => {
+    const unknown = clone();
+    unknown.patterns[0].types = ['PRICE_GOUGING'];
+    expect(() => validateRulePack(unknown)).toThrow('patterns[0].types');
+    const twice = clone();
+    twice.patterns[1].types = ['BAIT_AND_SWITCH'];
+    expect(() => validateRulePack(twice)).toThrow('BAIT_AND_SWITCH is covered by more than one pattern');
+  });
+
+  it('derives types from a recognizable id and requires them otherwise', () => {
+    const pack = clone();
+    delete pack.patterns[0].types;
+    expect(validateRulePack(pack).patterns[0].types).toEqual([PatternType.BaitAndSwitch]);
+    pack.patterns[0].id = 'HOUSE-RULE-7';
+    expect(() => validateRulePack(pack)).toThrow('patterns[0].types is required');
+  });
+
+  it('rejects inverted thresholds', () => {
+    const pack = clone();
+    pack.scoring.thresholds = { caution: 20, compromised: 10 };
+    expect(() => validateRulePack(pack)).toThrow('caution <= compromised');
+  });
+});
+
+describe('findPattern', () => {
+  it('matches ids and aliases regardless of case, spacing and "and"', () => {
+    expect(findPattern(DEFAULT_RULE_PACK, 'bait and switch')?.id).toBe('BAIT-AND-SWITCH');
+    expect(findPattern(DEFAULT_RULE_PACK, 'Bait & Switch')?.id).toBe('BAIT-AND-SWITCH');
+    expect(findPattern(DEFAULT_RULE_PACK, 'hidden fees')?.id).toBe('HIDDEN_FEE');
+    expect(findPattern(DEFAULT_RULE_PACK, 'Something else')).toBeUndefined();
+  });
+
+  it('maps local detector labels onto a regulatory pack', () => {
+    const dsa = getRulePack('eu-dsa')!;
+    expect(findPattern(dsa, 'SNEAK-IN')?.id).toBe('PRESELECTION');
+    expect(findPattern(dsa, 'HIDDEN_FEE')?.id).toBe('HIDDEN-COSTS');
+  });
+});
+
+describe('resolvePatternType', () => {
+  it('maps pack ids onto the canonical type they cover', () => {
+    expect(resolvePatternType(getRulePack('eu-dsa')!, 'CANCELLATION-OBSTRUCTION')).toBe(PatternType.HardToCancel);
+    expect(resolvePatternType(DEFAULT_RULE_PACK, 'SCARCITY')).toBe(PatternType.FakeScarcity);
+  });
+
+  it('prefers the type a label names when its pattern covers several', () => {
+    expect(resolvePatternType(DEFAULT_RULE_PACK, 'FAKE URGENCY')).toBe(PatternType.FakeUrgency);
+    expect(resolvePatternType(getRulePack('eu-dsa')!, 'SNEAK-IN')).toBe(PatternType.SneakIntoBasket);
+  });
+
+  it('falls back to the general taxonomy outside the pack', () => {
+    expect(resolvePatternType(DEFAULT_RULE_PACK, 'Roach Motel')).toBe(PatternType.HardToCancel);
+    expect(patternForType(DEFAULT_RULE_PACK, PatternType.HardToCancel)).toBeUndefined();
+  });
+});
+
+describe('prompt and schema generation', () => {
+  it('builds the taxonomy and calibration from the pack', () => {
+    const dsa = getRulePack('eu-dsa')!;
+    const instruction = buildSystemInstruction(dsa);
+    expect(instruction).toContain('# DECEPTION TAXONOMY (EU Digital Services Act v1.1.0)');
+    expect(instruction).toContain('- CANCELLATION-OBSTRUCTION (Harder to Cancel than to Subscribe, default HIGH) [DSA Art. 25(3)(c)]');
+    expect(instruction).toContain(`- ${dsa.prompt.calibration[0]}`);
+  });
+
+  it('restricts pattern_type to the pack ids', () => {
+    const schema = buildScanResponseSchema(getRulePack('deceptive-design')!);
+    expect(schema.properties?.scans.items?.properties?.pattern_type.enum).toHaveLength(16);
+  });
+
+  it('asks for a confidence and an on-screen quote with every finding', () => {
+    const items = buildScanResponseSchema(DEFAULT_RULE_PACK).properties?.scans.items;
+    expect(items?.required).toEqual(expect.arrayContaining(['confidence', 'evidence_text']));
+    expect(buildSystemInstruction(DEFAULT_RULE_PACK)).toContain('# EVIDENCE & CONFIDENCE');
+  });
+});
+
+describe('pack-driven scoring', () => {
+  it('uses the pack thresholds and weights', () => {
+    const dsa = getRulePack('eu-dsa')!;
+    // 2 × Medium = 8 points: caution under core (15) and under DSA (10)
+    expect(calculateSafetyMetrics([scan(PatternType.FakeUrgency, Severity.Medium), scan(PatternType.FakeUrgency, Severity.Medium)], dsa).status).toBe(DefensiveStatus.Caution);
+    // 3 × Medium = 12 points: over the DSA threshold
+    const three = [1, 2, 3].map(() => scan(PatternType.FakeUrgency, Severity.Medium));
+    expect(calculateSafetyMetrics(three, dsa)).toMatchObject({ status: DefensiveStatus.Compromised, advice: dsa.scoring.advice.compromised });
+  });
+
+  it('scores a canonical type with the pack pattern that covers it', () => {
+    const ftc = getRulePack('us-ftc-click-to-cancel')!;
+    expect(calculateSafetyMetrics([scan(PatternType.SneakIntoBasket, Severity.Low)], ftc).status).toBe(DefensiveStatus.Compromised);
+  });
+
+  it('scores spelling variants of one pattern identically', () => {
+    const labels = ['Bait & Switch', 'bait-and-switch', 'BAIT_SWITCH'];
+    const results = labels.map(label => calculateSafetyMetrics([normalizeScan({ pattern_type: label, severity: 'low', coordinates: [0, 0, 1, 1] })]));
+    expect(new Set(results.map(r => r.status))).toEqual(new Set([DefensiveStatus.Compromised]));
+  });
+
+  it('falls back to the pattern default severity when the model gives none', () => {
+    expect(normalizeScan({ pattern_type: 'SNEAK-IN', coordinates: [0, 0, 1, 1] }).severity).toBe(Severity.High);
+    expect(normalizeScan({ pattern_type: 'SNEAK-IN', severity: 'low', coordinates: [0, 0, 1, 1] }).severity).toBe(Severity.Low);
+  });
+
+  it('keeps the raw label next to the canonical type', () => {
+    expect(normalizeScan({ pattern_type: 'SNEAK-IN', coordinates: [0, 0, 1, 1] })).toMatchObject({ pattern_type: PatternType.SneakIntoBasket, raw_pattern_type: 'SNEAK-IN' });
+    expect(normalizeScan({ pattern_type: 'CONFIRMSHAMING', coordinates: [0, 0, 1, 1] }).raw_pattern_type).toBeUndefined();
+  });
+});
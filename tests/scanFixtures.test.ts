@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeUIScreen } from '../services/auditService';
+import { loadScanFixtures, loadScreenshot, replayProvider } from './helpers/scanFixtures';
+
+describe('recorded scan fixtures', () => {
+  const fixtures = loadScanFixtures();
+
+  it('finds fixtures on disk', () => {
+    expect(fixtures.length).toBeGreaterThan(0);
+  });
+
+  for (const fixture of fixtures) {
+    it(`${fixture.name}: ${fixture.description}`, async () => {
+      const result = await analyzeUIScreen(
+        loadScreenshot(fixture.screenshot),
+        fixture.previous_signature,
+        undefined,
+        { provider: replayProvider(fixture.raw_text), retryDelayMs: 0 }
+      );
+      expect(result).toEqual(fixture.expected);
+    });
+  }
+});
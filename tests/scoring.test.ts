@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { calculateSafetyMetrics, loadScoringOverrides, validateScoringOverrides } from '../services/scoring';
+import { getRulePack } from '../services/rulePack';
+import { DarkPatternScan, DefensiveStatus, PatternType, Severity } from '../types';
+
+const scan = (pattern_type: PatternType, severity: Severity): DarkPatternScan => ({
+  pattern_type,
+  severity,
+  coordinates: [0, 0, 10, 10],
+  truth_label: '',
+  action_fix: ''
+});
+
+describe('calculateSafetyMetrics', () => {
+  it('reports a clean page as safe', () => {
+    expect(calculateSafetyMetrics([]).status).toBe(DefensiveStatus.Safe);
+  });
+
+  it('stays in caution below the critical threshold', () => {
+    const result = calculateSafetyMetrics([scan(PatternType.FakeScarcity, Severity.High), scan(PatternType.Confirmshaming, Severity.Medium)]);
+    expect(result).toMatchObject({ threat_count: 2, status: DefensiveStatus.Caution });
+  });
+
+  it('escalates at a score of 15', () => {
+    const scans = [scan(PatternType.FakeScarcity, Severity.High), scan(PatternType.FakeScarcity, Severity.Medium), scan(PatternType.FakeScarcity, Severity.Medium)];
+    expect(calculateSafetyMetrics(scans).status).toBe(DefensiveStatus.Compromised);
+  });
+
+  it('treats any bait-and-switch or sneak-in finding as critical', () => {
+    expect(calculateSafetyMetrics([scan(PatternType.BaitAndSwitch, Severity.Low)]).status).toBe(DefensiveStatus.Compromised);
+    expect(calculateSafetyMetrics([scan(PatternType.SneakIntoBasket, Severity.Low)]).status).toBe(DefensiveStatus.Compromised);
+    expect(calculateSafetyMetrics([scan(PatternType.HiddenCosts, Severity.Low)]).status).toBe(DefensiveStatus.Compromised);
+  });
+});
+
+describe('score breakdown', () => {
+  it('lists every finding with its points, weight and covering pattern', () => {
+    const { breakdown } = calculateSafetyMetrics([scan(PatternType.FakeScarcity, Severity.High), scan(PatternType.Nagging, Severity.Medium)]);
+    expect(breakdown.score).toBe(13);
+    expect(breakdown.contributions).toEqual([
+      { index: 0, pattern_type: PatternType.FakeScarcity, severity: Severity.High, severity_points: 10, weight: 1, score: 10, pattern_id: 'SCARCITY', critical: false },
+      { index: 1, pattern_type: PatternType.Nagging, severity: Severity.Medium, severity_points: 3, weight: 1, score: 3, critical: false }
+    ]);
+    expect(breakdown).toMatchObject({ rule: 'caution_threshold', source: { rule_pack: 'core', overridden: false } });
+    expect(breakdown.explanation).toBe('Score 13 reached the caution threshold of 1 but stayed under 15.');
+  });
+
+  it('names the critical finding that decided the status', () => {
+    const { breakdown } = calculateSafetyMetrics([scan(PatternType.Confirmshaming, Severity.Low), scan(PatternType.HiddenCosts, Severity.Low)]);
+    expect(breakdown.rule).toBe('critical_pattern');
+    expect(breakdown.explanation).toContain('Finding #2 (Hidden Costs, Low) is a critical pattern');
+  });
+
+  it('does not count verified-fair findings', () => {
+    expect(calculateSafetyMetrics([scan(PatternType.VerifiedFair, Severity.Low)])).toMatchObject({ status: DefensiveStatus.Safe, breakdown: { score: 0 } });
+  });
+
+  it('excludes findings the verifier rejected, critical ones included', () => {
+    const rejected = { ...scan(PatternType.HiddenCosts, Severity.High), verification: { verdict: 'rejected' as const, reason: 'No fee in view.' } };
+    const { status, breakdown } = calculateSafetyMetrics([rejected]);
+    expect(status).toBe(DefensiveStatus.Safe);
+    expect(breakdown.contributions[0]).toMatchObject({ weight: 0, score: 0, critical: false, excluded: 'rejected by the verifier: No fee in view.' });
+  });
+});
+
+describe('deployment overrides', () => {
+  const findings = [scan(PatternType.BaitAndSwitch, Severity.Low), scan(PatternType.FakeScarcity, Severity.Medium)];
+
+  it('can require a minimum severity before a critical pattern decides alone', () => {
+    const result = calculateSafetyMetrics(findings, undefined, { critical_min_severity: Severity.Medium });
+    expect(result.status).toBe(DefensiveStatus.Caution);
+    expect(result.breakdown.source.overridden).toBe(true);
+    expect(calculateSafetyMetrics(findings, undefined, { critical_min_severity: null }).breakdown.rule).toBe('caution_threshold');
+  });
+
+  it('replaces points, thresholds, weights and advice', () => {
+    const result = calculateSafetyMetrics(findings, undefined, {
+      critical_min_severity: null,
+      severity_points: { Low: 2 },
+      weights: { [PatternType.FakeScarcity]: 4 },
+      thresholds: { compromised: 14 },
+      advice: { compromised: 'Escalate to compliance.' }
+    });
+    expect(result.breakdown.score).toBe(2 + 3 * 4);
+    expect(result).toMatchObject({ status: DefensiveStatus.Compromised, advice: 'Escalate to compliance.' });
+  });
+
+  it('layers on top of the active pack', () => {
+    const dsa = getRulePack('eu-dsa')!;
+    const result = calculateSafetyMetrics([scan(PatternType.FakeUrgency, Severity.Medium)], dsa, { thresholds: { caution: 5 } });
+    expect(result.status).toBe(DefensiveStatus.Safe);
+    expect(result.breakdown.thresholds).toEqual({ caution: 5, compromised: dsa.scoring.thresholds.compromised });
+  });
+
+  it('validates overrides and ignores a malformed environment value', () => {
+    expect(() => validateScoringOverrides({ weights: { PRICE_GOUGING: 2 } })).toThrow('weights.PRICE_GOUGING is not a pattern type');
+    expect(() => validateScoringOverrides({ thresholds: { caution: 9, compromised: 3 } })).toThrow('caution <= compromised');
+    expect(loadScoringOverrides('{"thresholds":{"compromised":20}}')).toEqual({ thresholds: { compromised: 20 } });
+    expect(loadScoringOverrides('not json')).toEqual({});
+  });
+});
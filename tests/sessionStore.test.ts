@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { anchorChanges, appendStep, createSession, currentSignature, loadSession, saveSession } from '../services/sessionStore';
+import { CatalogAnchor, DefensiveStatus, ScanResponse } from '../types';
+import { MemoryStorage } from './helpers/memoryStorage';
+
+const anchor = (id: string, price: string): CatalogAnchor => ({
+  id,
+  name: id.toUpperCase(),
+  price,
+  numeric_price: parseFloat(price.replace(/[^\d.]/g, '')),
+  original_price: price,
+  original_numeric_price: parseFloat(price.replace(/[^\d.]/g, '')),
+  coordinates: [0, 0, 0, 0],
+  is_violation: false,
+  is_currently_visible: true
+});
+
+const response = (anchors: CatalogAnchor[], brief = ''): ScanResponse => ({
+  viewport_meta: { threat_count: 0, status: DefensiveStatus.Safe, advice: '' },
+  scans: [],
+  thought_signature: { reasoning_path: '', security_brief: brief, catalog_anchors: anchors }
+});
+
+describe('session steps', () => {
+  it('appends ordered steps and rolls the signature forward', () => {
+    let session = createSession();
+    expect(currentSignature(session)).toEqual({});
+    session = appendStep(session, 'data:cart', response([anchor('tv', '$500')], 'Cart.'));
+    session = appendStep(session, 'data:checkout', response([anchor('tv', '$520')], 'Checkout.'));
+    expect(session.steps.map(s => s.index)).toEqual([0, 1]);
+    expect(session.steps[0].anchors[0].price).toBe('$500');
+    expect(currentSignature(session).security_brief).toBe('Checkout.');
+  });
+
+  it('reports price changes and items that appear later', () => {
+    let session = createSession();
+    session = appendStep(session, null, response([anchor('tv', '$500')]));
+    session = appendStep(session, null, response([anchor('tv', '$500'), anchor('warranty', '$49')]));
+    session = appendStep(session, null, response([anchor('tv', '$520'), anchor('warranty', '$49')]));
+    expect(anchorChanges(session).filter(c => c.step_index > 0)).toEqual([
+      { step_index: 1, anchor_id: 'warranty', name: 'WARRANTY', kind: 'added', to: '$49' },
+      { step_index: 2, anchor_id: 'tv', name: 'TV', kind: 'changed', from: '$500', to: '$520' }
+    ]);
+  });
+});
+
+describe('session persistence', () => {
+  it('round-trips through storage', () => {
+    const storage = new MemoryStorage();
+    const session = appendStep(createSession(), 'data:shot', response([anchor('tv', '$500')]));
+    saveSession(session, storage);
+    expect(loadSession(storage)).toEqual(session);
+  });
+
+  it('migrates the legacy single-signature key', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('shadowguard_session_signature', JSON.stringify({ catalog_anchors: [anchor('tv', '$500')], security_brief: 'Old.' }));
+    const session = loadSession(storage);
+    expect(session.steps).toEqual([]);
+    expect(currentSignature(session).security_brief).toBe('Old.');
+    saveSession(session, storage);
+    expect(storage.getItem('shadowguard_session_signature')).toBeNull();
+  });
+
+  it('evicts the oldest screenshots first when the quota is hit', () => {
+    let session = createSession();
+    session = appendStep(session, 'A'.repeat(400), response([]));
+    session = appendStep(session, 'B'.repeat(400), response([]));
+    const saved = saveSession(session, new MemoryStorage(1200));
+    expect(saved.steps[0].screenshot).toBeNull();
+    expect(saved.steps[1].screenshot).toBe('B'.repeat(400));
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { maxCaptureHeight, planScrollPositions } from '../extension/stitch';
+
+describe('planScrollPositions', () => {
+  it('captures a short page once', () => {
+    expect(planScrollPositions(700, 800)).toEqual([0]);
+  });
+
+  it('steps one viewport at a time and pulls the last step back to the bottom', () => {
+    expect(planScrollPositions(2000, 800)).toEqual([0, 800, 1200]);
+  });
+
+  it('does not add a redundant step when the page is an exact multiple', () => {
+    expect(planScrollPositions(1600, 800)).toEqual([0, 800]);
+  });
+
+  it('stops at the height limit', () => {
+    expect(planScrollPositions(100000, 1000, 3500)).toEqual([0, 1000, 2000, 2500]);
+  });
+});
+
+describe('maxCaptureHeight', () => {
+  it('shrinks with the device pixel ratio', () => {
+    expect(maxCaptureHeight(1)).toBe(32000);
+    expect(maxCaptureHeight(2)).toBe(16000);
+    expect(maxCaptureHeight(0)).toBe(32000);
+  });
+});
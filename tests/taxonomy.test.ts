@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { PATTERN_TAXONOMY, canonicalPatternType, countPatternTypes, normalizeHistory, withCanonicalType } from '../services/taxonomy';
+import { PatternType, Severity } from '../types';
+
+describe('canonicalPatternType', () => {
+  it('accepts canonical ids and display labels in any spelling', () => {
+    expect(canonicalPatternType('HIDDEN_COSTS')).toBe(PatternType.HiddenCosts);
+    expect(canonicalPatternType('Bait & Switch')).toBe(PatternType.BaitAndSwitch);
+    expect(canonicalPatternType('bait-and-switch')).toBe(PatternType.BaitAndSwitch);
+    expect(canonicalPatternType('BAIT_SWITCH')).toBe(PatternType.BaitAndSwitch);
+  });
+
+  it('maps the labels earlier versions stored', () => {
+    expect(canonicalPatternType('HIDDEN_FEE')).toBe(PatternType.HiddenCosts);
+    expect(canonicalPatternType('SNEAK-IN')).toBe(PatternType.SneakIntoBasket);
+    expect(canonicalPatternType('SCARCITY')).toBe(PatternType.FakeScarcity);
+    expect(canonicalPatternType('Design Verified Fair')).toBe(PatternType.VerifiedFair);
+  });
+
+  it('classifies free text by keyword, hedged labels first', () => {
+    expect(canonicalPatternType('Suspicious pricing')).toBe(PatternType.Unclear);
+    expect(canonicalPatternType('Possible hidden fee')).toBe(PatternType.Unclear);
+    expect(canonicalPatternType('Fake countdown timer')).toBe(PatternType.FakeUrgency);
+    expect(canonicalPatternType('Pre-ticked insurance')).toBe(PatternType.Preselection);
+    expect(canonicalPatternType('Mystery meat navigation')).toBe(PatternType.Other);
+    expect(canonicalPatternType(undefined)).toBe(PatternType.Other);
+  });
+
+  it('has a taxonomy entry for every type', () => {
+    Object.values(PatternType).forEach(type => expect(PATTERN_TAXONOMY[type].category).toBeTruthy());
+  });
+});
+
+describe('stored data', () => {
+  it('re-keys legacy findings and keeps the old label', () => {
+    const legacy = { pattern_type: 'HIDDEN_FEE', severity: Severity.High, coordinates: [0, 0, 0, 0], truth_label: '', action_fix: '' } as any;
+    expect(withCanonicalType(legacy)).toMatchObject({ pattern_type: PatternType.HiddenCosts, raw_pattern_type: 'HIDDEN_FEE' });
+    const current = { ...legacy, pattern_type: PatternType.HiddenCosts };
+    expect(withCanonicalType(current)).toBe(current);
+  });
+
+  it('normalizes history entries', () => {
+    expect(normalizeHistory([{ type: 'SNEAK-IN', label: 'a' }, { type: PatternType.Nagging, label: 'b' }])).toEqual([
+      { type: PatternType.SneakIntoBasket, label: 'a' },
+      { type: PatternType.Nagging, label: 'b' }
+    ]);
+  });
+
+  it('counts findings per canonical type, most frequent first', () => {
+    expect(countPatternTypes([PatternType.Nagging, PatternType.HiddenCosts, PatternType.HiddenCosts])).toEqual([
+      { type: PatternType.HiddenCosts, count: 2 },
+      { type: PatternType.Nagging, count: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { TokenBucket, computeBackoff, runTileQueue } from '../services/tileScheduler';
+import { ProviderError, parseRetryAfter } from '../services/providerError';
+import { analyzeUIScreen, foldTileSignatures } from '../services/auditService';
+import { CatalogAnchor } from '../types';
+
+const fakeClock = (start = 0) => {
+  let now = start;
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+};
+
+const anchor = (id: string, price: number, visible = true): CatalogAnchor => ({
+  id,
+  name: id,
+  price: `$${price}`,
+  numeric_price: price,
+  original_price: `$${price}`,
+  original_numeric_price: price,
+  coordinates: [0, 0, 0, 0],
+  is_violation: false,
+  is_currently_visible: visible
+});
+
+describe('TokenBucket', () => {
+  it('allows a burst and then refills at the configured rate', () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(2, 1, clock.now);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.delayUntilAvailable()).toBe(1000);
+    clock.advance(1000);
+    expect(bucket.tryTake()).toBe(true);
+  });
+
+  it('blocks every caller during a server-imposed pause', () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket(5, 10, clock.now);
+    bucket.pause(3000);
+    expect(bucket.delayUntilAvailable()).toBe(3000);
+    clock.advance(3000);
+    expect(bucket.tryTake()).toBe(true);
+  });
+});
+
+describe('computeBackoff', () => {
+  it('honors the server retry hint', () => {
+    expect(computeBackoff(1, 7000)).toBe(7000);
+    expect(computeBackoff(1, 120000, 2000, 60000)).toBe(60000);
+  });
+
+  it('grows exponentially with jitter', () => {
+    expect(computeBackoff(1, undefined, 1000, 60000, () => 0)).toBe(500);
+    expect(computeBackoff(3, undefined, 1000, 60000, () => 1)).toBe(4000);
+    expect(computeBackoff(10, undefined, 1000, 5000, () => 1)).toBe(5000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('12')).toBe(12000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(10000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('runTileQueue', () => {
+  it('never exceeds the concurrency limit and returns results in task order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const delays = [30, 5, 20, 1, 10];
+    const completion: number[] = [];
+    const tasks = delays.map((ms, i) => async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(r => setTimeout(r, ms));
+      inFlight--;
+      return i;
+    });
+    const results = await runTileQueue(tasks, { concurrency: 2, onResult: (i) => completion.push(i) });
+    expect(peak).toBe(2);
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(completion).not.toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('stops dispatching after stopWhen matches', async () => {
+    const started: number[] = [];
+    const tasks = [0, 1, 2, 3].map(i => async () => {
+      started.push(i);
+      return i === 1 ? 'error' : 'ok';
+    });
+    const results = await runTileQueue(tasks, { concurrency: 1, stopWhen: r => r === 'error' });
+    expect(started).toEqual([0, 1]);
+    expect(results).toEqual(['ok', 'error', undefined, undefined]);
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(runTileQueue([async () => 1], { concurrency: 1, signal: controller.signal })).rejects.toThrow('AbortError');
+  });
+});
+
+describe('foldTileSignatures', () => {
+  const base = { catalog_anchors: [anchor('lamp', 10, false)], security_brief: 'Start.' };
+
+  it('ignores stale echoes of base anchors that a tile did not see', () => {
+    const tile1 = { catalog_anchors: [anchor('lamp', 12, true)], security_brief: 'Tile 1.' };
+    const tile2 = { catalog_anchors: [anchor('lamp', 10, false)], security_brief: 'Tile 2.' };
+    const folded = foldTileSignatures(base, [tile1, tile2]);
+    expect(folded.catalog_anchors).toHaveLength(1);
+    expect(folded.catalog_anchors[0]).toMatchObject({ numeric_price: 12, original_numeric_price: 10, is_violation: true });
+    expect(folded.security_brief).toBe('Tile 2.');
+  });
+
+  it('flags drift between tiles that each saw an item for the first time', () => {
+    const folded = foldTileSignatures(base, [
+      { catalog_anchors: [anchor('mug', 8)] },
+      { catalog_anchors: [anchor('mug', 9)] }
+    ]);
+    expect(folded.catalog_anchors.find((a: CatalogAnchor) => a.id === 'mug')).toMatchObject({ is_violation: true, original_numeric_price: 8 });
+  });
+});
+
+describe('analyzeUIScreen rate limiting', () => {
+  it('retries a 429 after the server hint and pauses the shared bucket', async () => {
+    let calls = 0;
+    const provider = {
+      id: 'limited',
+      label: 'Limited',
+      async generate() {
+        calls++;
+        if (calls === 1) throw new ProviderError('quota', 429, 20);
+        return '{"scans":[],"thought_signature":{"catalog_anchors":[]}}';
+      }
+    };
+    const bucket = new TokenBucket(10, 1000);
+    const started = Date.now();
+    const result = await analyzeUIScreen('AAAA', {}, undefined, { provider, rateLimiter: bucket, retryDelayMs: 0 });
+    expect(result.error).toBeUndefined();
+    expect(calls).toBe(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+  });
+
+  it('reports a rate-limit failure once retries are exhausted', async () => {
+    const provider = { id: 'x', label: 'x', generate: async () => { throw new ProviderError('quota', 429, 0); } };
+    const result = await analyzeUIScreen('AAAA', {}, undefined, { provider, retryDelayMs: 0 });
+    expect(result.error).toBe('Neural Link Failure (Rate Limited).');
+  });
+});
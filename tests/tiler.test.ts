@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TILE_LIMITS, TileRect, planCoarseTiles, planTiles, selectTilesForRegions, tileBounds, toGlobalCoordinates } from '../services/tiler';
+
+/** Every source pixel must fall inside at least one tile. */
+function coversImage(tiles: TileRect[], width: number, height: number): boolean {
+  const step = 37;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (!tiles.some(t => x >= t.x && x < t.x + t.width && y >= t.y && y < t.y + t.height)) return false;
+    }
+  }
+  return true;
+}
+
+describe('planTiles', () => {
+  it('keeps a small screenshot in one tile', () => {
+    expect(planTiles(1200, 900)).toEqual([
+      { index: 0, row: 0, col: 0, x: 0, y: 0, width: 1200, height: 900, outputWidth: 1200, outputHeight: 900 }
+    ]);
+  });
+
+  it('splits a 4K-wide capture into columns within the edge limit', () => {
+    const tiles = planTiles(3840, 2160);
+    const columns = new Set(tiles.map(t => t.col));
+    expect(columns.size).toBe(3);
+    tiles.forEach(t => {
+      expect(t.width).toBeLessThanOrEqual(DEFAULT_TILE_LIMITS.maxEdge);
+      expect(t.height).toBeLessThanOrEqual(DEFAULT_TILE_LIMITS.maxEdge);
+      expect(t.width * t.height).toBeLessThanOrEqual(DEFAULT_TILE_LIMITS.maxPixels);
+    });
+    expect(coversImage(tiles, 3840, 2160)).toBe(true);
+  });
+
+  it('gives narrow pages taller tiles than wide pages', () => {
+    const narrow = planTiles(400, 12000);
+    const wide = planTiles(1500, 12000);
+    expect(narrow[0].height).toBeGreaterThan(wide[0].height);
+    expect(narrow.length).toBeLessThan(wide.length);
+    expect(coversImage(narrow, 400, 12000)).toBe(true);
+  });
+
+  it('overlaps neighbouring tiles and ends flush with the image edge', () => {
+    const tiles = planTiles(1000, 5000);
+    for (let i = 1; i < tiles.length; i++) {
+      expect(tiles[i - 1].y + tiles[i - 1].height - tiles[i].y).toBeGreaterThanOrEqual(DEFAULT_TILE_LIMITS.overlap);
+    }
+    const last = tiles[tiles.length - 1];
+    expect(last.y + last.height).toBe(5000);
+  });
+
+  it('honours provider limits', () => {
+    const tiles = planTiles(2000, 2000, { ...DEFAULT_TILE_LIMITS, maxEdge: 800, maxPixels: 800 * 800 });
+    tiles.forEach(t => expect(Math.max(t.width, t.height)).toBeLessThanOrEqual(800));
+  });
+});
+
+describe('planCoarseTiles', () => {
+  it('covers the page with fewer, downsampled tiles', () => {
+    const fine = planTiles(3840, 9000);
+    const coarse = planCoarseTiles(3840, 9000);
+    expect(coarse.length).toBeLessThan(fine.length);
+    coarse.forEach(t => {
+      expect(t.outputWidth).toBeLessThan(t.width);
+      expect(Math.max(t.outputWidth, t.outputHeight)).toBeLessThanOrEqual(DEFAULT_TILE_LIMITS.maxEdge);
+    });
+    expect(coversImage(coarse, 3840, 9000)).toBe(true);
+  });
+});
+
+describe('toGlobalCoordinates', () => {
+  it('remaps both axes', () => {
+    const tile: TileRect = { index: 4, row: 1, col: 1, x: 1000, y: 500, width: 1000, height: 500, outputWidth: 1000, outputHeight: 500 };
+    expect(toGlobalCoordinates([0, 0, 1000, 1000], tile, 2000, 1000)).toEqual([500, 500, 1000, 1000]);
+    expect(toGlobalCoordinates([500, 500, 600, 600], tile, 2000, 1000)).toEqual([750, 750, 800, 800]);
+  });
+
+  it('is unaffected by the output scale', () => {
+    const tile: TileRect = { index: 0, row: 0, col: 0, x: 0, y: 0, width: 4000, height: 4000, outputWidth: 1000, outputHeight: 1000 };
+    expect(toGlobalCoordinates([100, 100, 200, 200], tile, 4000, 4000)).toEqual([100, 100, 200, 200]);
+  });
+});
+
+describe('selectTilesForRegions', () => {
+  it('picks only tiles touching a flagged region', () => {
+    const tiles = planTiles(1000, 6000);
+    const target = tiles[2];
+    const [y1, , y2] = tileBounds(target, 1000, 6000);
+    const mid = (y1 + y2) / 2;
+    const selected = selectTilesForRegions(tiles, [[mid - 1, 100, mid + 1, 200]], 1000, 6000, 0);
+    expect(selected.map(t => t.index)).toEqual([target.index]);
+  });
+
+  it('selects nothing for a clean overview', () => {
+    expect(selectTilesForRegions(planTiles(1000, 6000), [], 1000, 6000)).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { OcrLine, TextRecognizer } from '../services/ocr';
+import {
+  analyzeCountdown,
+  analyzeCounter,
+  locateWatchRegions,
+  parseCountdown,
+  parseCounter,
+  runTimerWatch,
+  timerWatchScans,
+  WatchReading,
+  WatchTrack
+} from '../services/timerWatch';
+import { PatternType, Severity } from '../types';
+
+/** Readings one every `stepMs`, starting at zero. */
+const series = (values: (number | null)[], stepMs = 2000): WatchReading[] =>
+  values.map((value, i) => ({ t: i * stepMs, text: String(value), value }));
+
+const line = (text: string, x0 = 100, y0 = 100, x1 = 200, y1 = 120): OcrLine => ({ text, confidence: 90, bbox: { x0, y0, x1, y1 } });
+
+describe('parseCountdown / parseCounter', () => {
+  it('reads clock and unit countdowns', () => {
+    expect(parseCountdown('Offer ends in 04:59')).toBe(299);
+    expect(parseCountdown('1:02:03 left')).toBe(3723);
+    expect(parseCountdown('Sale ends 2h 15m 10s')).toBe(8110);
+    expect(parseCountdown('O4:3O')).toBe(270);
+  });
+
+  it('ignores single units and non-times', () => {
+    expect(parseCountdown('Delivery in 2 hours')).toBeNull();
+    expect(parseCountdown('Ratio 16:9:4:3')).toBeNull();
+    expect(parseCountdown('Size 10')).toBeNull();
+  });
+
+  it('reads viewer and stock counters', () => {
+    expect(parseCounter('14 people are viewing this')).toBe(14);
+    expect(parseCounter('Only 3 rooms left!')).toBe(3);
+    expect(parseCounter('1,204 shoppers bought this')).toBe(1204);
+    expect(parseCounter('Add to cart')).toBeNull();
+  });
+});
+
+describe('locateWatchRegions', () => {
+  it('keeps timer and counter lines with padded boxes', () => {
+    const tracks = locateWatchRegions([line('Ends in 09:59'), line('Free returns'), line('23 people viewing', 500, 900, 700, 940)], 1000, 1000);
+    expect(tracks.map(t => t.kind)).toEqual(['timer', 'counter']);
+    expect(tracks[0].rect).toEqual({ left: 75, top: 90, width: 150, height: 40 });
+    expect(tracks[0].coordinates).toEqual([90, 75, 130, 225]);
+  });
+});
+
+describe('analyzeCountdown', () => {
+  it('accepts a countdown that follows real time', () => {
+    expect(analyzeCountdown(series([300, 298, 296, 294, 292]))).toEqual([]);
+  });
+
+  it('ignores text that never changes', () => {
+    expect(analyzeCountdown(series([540, 540, 540]))).toEqual([]);
+  });
+
+  it('flags a timer that goes back up mid-countdown', () => {
+    const [anomaly] = analyzeCountdown(series([300, 298, 600, 598]));
+    expect(anomaly).toMatchObject({ type: 'restart', at: 4000 });
+  });
+
+  it('flags a timer that restarts after reaching zero as never expiring', () => {
+    expect(analyzeCountdown(series([4, 2, 0, 300, 298])).map(a => a.type)).toEqual(['never-expires']);
+  });
+
+  it('flags a timer that drops faster than real time', () => {
+    expect(analyzeCountdown(series([300, 298, 240, 238])).map(a => a.type)).toEqual(['jump']);
+  });
+
+  it('drops a single misread between consistent neighbours', () => {
+    expect(analyzeCountdown(series([300, 298, 896, 294, 292]))).toEqual([]);
+  });
+});
+
+describe('analyzeCounter', () => {
+  it('flags a counter that keeps reversing direction', () => {
+    const [anomaly] = analyzeCounter(series([12, 17, 9, 15, 11]));
+    expect(anomaly.type).toBe('fluctuation');
+  });
+
+  it('accepts a count that drifts one way', () => {
+    expect(analyzeCounter(series([5, 5, 4, 4, 3]))).toEqual([]);
+  });
+});
+
+describe('timerWatchScans', () => {
+  const track = (kind: WatchTrack['kind'], readings: WatchReading[]): WatchTrack => ({
+    id: `${kind}-0`, kind, label: 'Ends in 05:00', rect: { left: 0, top: 0, width: 10, height: 10 }, coordinates: [10, 20, 30, 40], readings
+  });
+
+  it('turns a restarted timer into a high-severity SCARCITY finding with the series as evidence', () => {
+    const [scan] = timerWatchScans([track('timer', series([300, 298, 600]))]);
+    expect(scan).toMatchObject({ pattern_type: PatternType.FakeUrgency, severity: Severity.High, coordinates: [10, 20, 30, 40] });
+    expect(scan.evidence?.source).toBe('timer_watch');
+    expect(scan.evidence?.math[0]).toMatch(/^⚠ restart at \+4\.0s/);
+    expect(scan.evidence?.data?.readings).toHaveLength(3);
+  });
+
+  it('reports nothing for well-behaved tracks', () => {
+    expect(timerWatchScans([track('timer', series([300, 298])), track('counter', series([4, 4]))])).toEqual([]);
+  });
+});
+
+describe('runTimerWatch', () => {
+  it('locates regions in the first frame and then reads only the tracked rectangles', async () => {
+    const displayed = ['Deal ends 00:04', 'Deal ends 00:02', 'Deal ends 10:00'];
+    let frame = 0;
+    let clock = 0;
+    const calls: (string | undefined)[] = [];
+    const recognizer: TextRecognizer = {
+      recognize: async (_image, rect) => {
+        calls.push(rect ? 'rect' : 'full');
+        return [line(displayed[frame - 1])];
+      },
+      terminate: async () => {}
+    };
+    const tracks = await runTimerWatch(() => {
+      frame++;
+      clock += 2000;
+      return { width: 1000, height: 1000 } as HTMLCanvasElement;
+    }, recognizer, { intervalMs: 0, durationMs: 6000, now: () => clock });
+    expect(calls).toEqual(['full', 'rect', 'rect']);
+    expect(tracks[0].readings.map(r => r.value)).toEqual([4, 2, 600]);
+    expect(timerWatchScans(tracks)[0].evidence?.data?.anomalies[0].type).toBe('never-expires');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { cleanPrice, parseMoney } from '../utils';
+
+describe('parseMoney', () => {
+  it.each([
+    ['$1,299.99', 1299.99, 'USD'],
+    ['€1.234', 1234, 'EUR'],
+    ['1,5 €', 1.5, 'EUR'],
+    ['1 234,50 €', 1234.5, 'EUR'],
+    ["CHF 1'234.50", 1234.5, 'CHF'],
+    ['₹1,23,456.00', 123456, 'INR'],
+    ['Rs. 1,23,456', 123456, 'INR'],
+    ['₩12,000', 12000, 'KRW'],
+    ['R$ 49,90', 49.9, 'BRL'],
+    ['99 kr', 99, 'SEK'],
+    ['KWD 1.250', 1.25, 'KWD'],
+    ['USD 15', 15, 'USD'],
+    ['$12.5', 12.5, 'USD']
+  ])('reads %s', (raw, amount, currency) => {
+    expect(parseMoney(raw)).toMatchObject({ amount, currency, raw });
+  });
+
+  it('prefers the number next to the currency over quantities', () => {
+    expect(parseMoney('2 x $10.50')?.amount).toBe(10.5);
+  });
+
+  it('captures billing periods and starting-price qualifiers', () => {
+    expect(parseMoney('from $9.99/mo')).toMatchObject({ amount: 9.99, period: 'month', starting_at: true });
+    expect(parseMoney('Starting at €99 per year')).toMatchObject({ period: 'year', starting_at: true });
+    expect(parseMoney('ab 19,99 € monatlich')).toMatchObject({ amount: 19.99, period: 'month', starting_at: true });
+    expect(parseMoney('$20')).not.toHaveProperty('period');
+  });
+
+  it('resolves shared symbols through the locale', () => {
+    expect(parseMoney('$20', { locale: 'en-CA' })?.currency).toBe('CAD');
+    expect(parseMoney('99 kr', { locale: 'da-DK' })?.currency).toBe('DKK');
+  });
+
+  it('keeps the sign of discounts', () => {
+    expect(parseMoney('-$10.00')?.amount).toBe(-10);
+  });
+
+  it('does not read letters inside words as currency', () => {
+    expect(parseMoney('RRP 40')?.currency).toBeNull();
+  });
+
+  it('returns null when there is no amount', () => {
+    expect(parseMoney('Add to cart')).toBeNull();
+    expect(cleanPrice('')).toBeNaN();
+  });
+
+  it('treats free as zero', () => {
+    expect(cleanPrice('FREE')).toBe(0);
+  });
+});
@@ -11,6 +11,38 @@ export enum DefensiveStatus {
   Compromised = 'CRITICAL DECEPTION'
 }
 
+/**
+ * Canonical pattern ids. Model labels, rule pack ids and local detectors are all normalized onto these,
+ * so scoring, history and statistics never depend on how a label happened to be spelled.
+ */
+export enum PatternType {
+  BaitAndSwitch = 'BAIT_AND_SWITCH',
+  HiddenCosts = 'HIDDEN_COSTS',
+  SneakIntoBasket = 'SNEAK_INTO_BASKET',
+  HiddenSubscription = 'HIDDEN_SUBSCRIPTION',
+  FakeUrgency = 'FAKE_URGENCY',
+  FakeScarcity = 'FAKE_SCARCITY',
+  FakeSocialProof = 'FAKE_SOCIAL_PROOF',
+  Confirmshaming = 'CONFIRMSHAMING',
+  VisualInterference = 'VISUAL_INTERFERENCE',
+  TrickWording = 'TRICK_WORDING',
+  Preselection = 'PRESELECTION',
+  DisguisedAds = 'DISGUISED_ADS',
+  HardToCancel = 'HARD_TO_CANCEL',
+  Obstruction = 'OBSTRUCTION',
+  ComparisonPrevention = 'COMPARISON_PREVENTION',
+  ForcedAction = 'FORCED_ACTION',
+  Nagging = 'NAGGING',
+  /** The model was unsure; shown as a caution rather than a confirmed pattern. */
+  Unclear = 'UNCLEAR',
+  VerifiedFair = 'VERIFIED_FAIR',
+  /** A label nothing else matched; the original text is kept in `raw_pattern_type`. */
+  Other = 'OTHER'
+}
+
+/** Top level of the taxonomy, after Mathur et al. (2019). */
+export type PatternCategory = 'sneaking' | 'urgency' | 'scarcity' | 'social_proof' | 'misdirection' | 'obstruction' | 'forced_action' | 'unclassified' | 'fair';
+
 export const CONSTANTS = {
   DESIGN_VERIFIED_FAIR: "Design Verified Fair"
 } as const;
@@ -32,26 +64,175 @@ export interface CatalogAnchor {
   coordinates: [number, number, number, number];
   is_violation: boolean;
   is_currently_visible: boolean;
+  /** Role of the line on the page; undefined is treated as a purchasable item. */
+  kind?: AnchorKind;
+  quantity?: number;
+  /** Per-unit price as displayed, for quantity × unit checks. */
+  unit_price?: string;
+  /** Parsed locally from `price`; absent when the string holds no readable amount. */
+  money?: Money;
+}
+
+export type BillingPeriod = 'day' | 'week' | 'month' | 'year';
+
+export interface Money {
+  amount: number;
+  /** ISO 4217 code, or null when the string carries no currency marker. */
+  currency: string | null;
+  raw: string;
+  period?: BillingPeriod;
+  /** Set for "from" / "starting at" prices, which are a lower bound rather than the price. */
+  starting_at?: boolean;
 }
 
+export type AnchorKind = 'item' | 'fee' | 'tax' | 'shipping' | 'discount' | 'subtotal' | 'total';
+
 export interface DarkPatternScan {
-  pattern_type: string;
+  pattern_type: PatternType;
+  /** The label as the model or an older session wrote it, when it differs from `pattern_type`. */
+  raw_pattern_type?: string;
   coordinates: [number, number, number, number]; // [ymin, xmin, ymax, xmax]
   severity: Severity;
   truth_label: string;
   action_fix: string;
+  /** Indices of the tiles that reported this finding, after cross-tile deduplication. */
+  source_tiles?: number[];
+  /** Present on findings produced by local engines rather than the model. */
+  evidence?: FindingEvidence;
+  /** Model's certainty (0-1) that this is deception rather than ordinary marketing. */
+  confidence?: number;
+  /** The on-screen text the finding rests on, quoted verbatim by the model. */
+  evidence_text?: string;
+  /** Outcome of the second-look verifier pass, when it ran on this finding. */
+  verification?: FindingVerification;
+  /** A reviewer's verdict and box correction; drawn-in findings carry `added`. */
+  review?: FindingReview;
+}
+
+export type ReviewVerdict = 'confirmed' | 'disputed' | 'added';
+
+export interface FindingReview {
+  verdict: ReviewVerdict;
+  reviewed_at: string;
+  /** The box as first reported, kept once a reviewer moves or resizes it. */
+  original_coordinates?: [number, number, number, number];
+}
+
+export interface FindingVerification {
+  verdict: 'confirmed' | 'rejected';
+  reason: string;
+}
+
+/** Below this confidence a finding is shown as doubtful. */
+export const LOW_CONFIDENCE = 0.5;
+
+/** A reviewer's verdict outranks the verifier's and the model's own confidence. */
+export function isLowConfidence(scan: DarkPatternScan): boolean {
+  if (scan.review) return scan.review.verdict === 'disputed';
+  return scan.verification?.verdict === 'rejected' || (scan.confidence !== undefined && scan.confidence < LOW_CONFIDENCE);
+}
+
+export interface FindingEvidence {
+  source: 'price_drift' | 'dom_rule' | 'timer_watch' | 'flow_effort' | 'consent_check';
+  summary: string;
+  /** Human-readable working, one line per step of the calculation. */
+  math: string[];
+  data?: Record<string, any>;
+}
+
+/** Serializable view of a rendered page, taken in the page itself (extension) or from a pasted HTML file. */
+export interface DomSnapshot {
+  url?: string;
+  captured_at: string;
+  /** Document size in CSS px; node rects are relative to its top-left corner. */
+  page: { width: number; height: number };
+  nodes: DomNode[];
+  /** Inline script sources (truncated), for spotting client-side timers in static HTML. */
+  scripts: string[];
+}
+
+export interface DomNode {
+  id: number;
+  tag: string;
+  selector: string;
+  /** Text content, whitespace-collapsed and truncated. */
+  text: string;
+  rect: { x: number; y: number; width: number; height: number };
+  /** Why the element is not rendered ("display:none", "opacity:0", ...), or "ancestor" when a parent hides it. */
+  hidden_by?: string;
+  /** id, class, type, name, role, href and aria-/data- attributes. */
+  attrs: Record<string, string>;
+  checked?: boolean;
+  /** Label text of a form control. */
+  label?: string;
+  style: { color: string; background: string; font_size: number; font_weight: number };
+  /** Text changed between two samples taken about a second apart. */
+  ticking?: boolean;
 }
 
 export interface HistoryItem {
-  type: string;
+  type: PatternType;
   label: string;
 }
 
+/** Which rule decided the page status. */
+export type ScoreRule = 'critical_pattern' | 'compromised_threshold' | 'caution_threshold' | 'below_caution';
+
+/** What one finding added to the page score. */
+export interface ScoreContribution {
+  /** Position of the finding in the scored list. */
+  index: number;
+  pattern_type: PatternType;
+  severity: Severity;
+  severity_points: number;
+  weight: number;
+  /** severity_points × weight. */
+  score: number;
+  /** Pack pattern that covers the type, when there is one. */
+  pattern_id?: string;
+  /** This finding alone makes the page Compromised. */
+  critical: boolean;
+  /** Why the finding was scored as zero, e.g. the verifier rejected it. */
+  excluded?: string;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  contributions: ScoreContribution[];
+  rule: ScoreRule;
+  /** One sentence naming the rule that decided the status, for people asking "why this label?". */
+  explanation: string;
+  thresholds: { caution: number; compromised: number };
+  /** Where the numbers came from; `overridden` when deployment settings replaced part of the pack's scoring. */
+  source: { rule_pack: string; version: string; overridden: boolean };
+}
+
+export type ConsentCheckId = 'reject_first_layer' | 'button_size' | 'button_color' | 'pre_ticked' | 'legitimate_interest';
+
+export interface ConsentCheck {
+  id: ConsentCheckId;
+  /** null when the banner gives nothing to check, e.g. no toggles on the first layer. */
+  passed: boolean | null;
+  detail: string;
+}
+
+export interface ConsentSummary {
+  banner_found: boolean;
+  cmp?: string;
+  /** No check failed. A page without a banner passes. */
+  passed: boolean;
+  checks: ConsentCheck[];
+}
+
 export interface ScanResponse {
   viewport_meta: {
     threat_count: number;
     status: DefensiveStatus;
     advice: string;
+    /** Absent on responses stored before scores were explained. */
+    breakdown?: ScoreBreakdown;
+    /** Set by the consent banner audit only. */
+    consent?: ConsentSummary;
   };
   scans: DarkPatternScan[];
   thought_signature: {
@@ -62,4 +243,28 @@ export interface ScanResponse {
     [key: string]: any;
   };
   error?: string;
+  /** No provider request succeeded, so nothing was checked; the status is a placeholder, never a verdict. */
+  audit_failed?: boolean;
+}
+
+/** One audited screen in a multi-step flow (e.g. cart → checkout → payment). */
+export interface SessionStep {
+  id: string;
+  index: number;
+  captured_at: string;
+  /** Downscaled JPEG data URL; dropped for older steps when storage runs out. */
+  screenshot: string | null;
+  response: ScanResponse;
+  /** Catalog as it stood right after this step was merged in. */
+  anchors: CatalogAnchor[];
+  /** Rule pack the step was audited and scored with. */
+  rule_pack?: { id: string; version: string };
+}
+
+export interface AuditSession {
+  id: string;
+  started_at: string;
+  steps: SessionStep[];
+  /** Signature carried over from before steps were recorded (pre-timeline sessions). */
+  baseline_signature?: Record<string, any>;
 }
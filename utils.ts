@@ -3,49 +3,163 @@
  * Utility functions for ShadowGuard
  */
 
+import { BillingPeriod, Money } from './types';
+
+const ISO_CODES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'KRW', 'BRL', 'CHF', 'SEK', 'NOK', 'DKK', 'ISK', 'PLN', 'CZK',
+  'HUF', 'RON', 'BGN', 'RUB', 'UAH', 'TRY', 'ILS', 'AED', 'SAR', 'QAR', 'KWD', 'BHD', 'OMR', 'JOD', 'EGP',
+  'CAD', 'AUD', 'NZD', 'HKD', 'SGD', 'TWD', 'MXN', 'ARS', 'CLP', 'COP', 'PEN', 'ZAR', 'NGN', 'KES', 'THB',
+  'VND', 'IDR', 'MYR', 'PHP', 'PKR', 'BDT', 'LKR'
+]);
+
+// Symbols that stand for one currency. '$', '¥' and 'kr' are shared and resolved through the locale.
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD', 'CA$': 'CAD', 'C$': 'CAD', 'AU$': 'AUD', 'A$': 'AUD', 'NZ$': 'NZD', 'HK$': 'HKD', 'S$': 'SGD',
+  'MX$': 'MXN', 'R$': 'BRL', '€': 'EUR', '£': 'GBP', '₹': 'INR', 'Rs.': 'INR', 'Rs': 'INR', '₩': 'KRW',
+  '₽': 'RUB', '₴': 'UAH', '₺': 'TRY', '₪': 'ILS', '₱': 'PHP', '฿': 'THB', '₫': 'VND', '₦': 'NGN', 'zł': 'PLN',
+  'Kč': 'CZK', 'Ft': 'HUF', 'lei': 'RON', 'Fr.': 'CHF', 'RM': 'MYR', 'Rp': 'IDR', 'R': 'ZAR'
+};
+
+const SHARED_SYMBOLS: Record<string, { fallback: string; byLocale: Record<string, string> }> = {
+  '$': { fallback: 'USD', byLocale: { CA: 'CAD', AU: 'AUD', NZ: 'NZD', SG: 'SGD', HK: 'HKD', MX: 'MXN', AR: 'ARS', CL: 'CLP', CO: 'COP' } },
+  '¥': { fallback: 'JPY', byLocale: { zh: 'CNY', CN: 'CNY' } },
+  'kr': { fallback: 'SEK', byLocale: { sv: 'SEK', nb: 'NOK', nn: 'NOK', no: 'NOK', da: 'DKK', is: 'ISK' } }
+};
+
+// Currencies whose minor unit has three digits, where "1.234" really is one and a bit
+const THREE_DECIMAL = new Set(['KWD', 'BHD', 'OMR', 'JOD']);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first so "R$" wins over "R" and "$". Letter symbols must not touch other letters ("R" in "RRP").
+const CURRENCY_PATTERN = new RegExp(
+  [...Object.keys(CURRENCY_SYMBOLS), ...Object.keys(SHARED_SYMBOLS)]
+    .sort((a, b) => b.length - a.length)
+    .map(symbol => /^\p{L}/u.test(symbol) ? `(?<!\\p{L})${escapeRegExp(symbol)}(?!\\p{L})` : escapeRegExp(symbol))
+    .concat('\\b[A-Z]{3}\\b')
+    .join('|'),
+  'gu'
+);
+
+// Digit groups joined by separators. A space only groups when exactly three digits follow ("1 234,50").
+const NUMBER_PATTERN = /\d+(?:(?:[.,'’]|[ \u00a0\u202f](?=\d{3}(?!\d)))\d+)*/g;
+
+const PERIOD_UNITS: [RegExp, BillingPeriod][] = [
+  [/^(?:day|d|tag|jour|día|dia|giorno)$/i, 'day'],
+  [/^(?:week|wk|w|woche|semaine|semana|settimana)$/i, 'week'],
+  [/^(?:month|mo|mth|monat|mois|mes|mese|maand|mês)$/i, 'month'],
+  [/^(?:year|yr|y|annum|jahr|an|año|ano|anno|jaar)$/i, 'year']
+];
+const PERIOD_PATTERN = /(?:\/\s*|(?<!\p{L})(?:per|a\s+la|a|each|every|pro|par|al|por)\s+)(\p{L}+)/giu;
+const PERIOD_WORDS: [RegExp, BillingPeriod][] = [
+  [/(?<!\p{L})daily(?!\p{L})/iu, 'day'],
+  [/(?<!\p{L})weekly(?!\p{L})/iu, 'week'],
+  [/(?<!\p{L})(?:monthly|monatlich|mensuel|mensual)(?!\p{L})/iu, 'month'],
+  [/(?<!\p{L})(?:yearly|annually|p\.a\.|jährlich|annuel|anual)(?!\p{L})/iu, 'year']
+];
+
+const STARTING_AT = /(?<!\p{L})(?:from|starting\s+(?:at|from)|as\s+low\s+as|ab|à\s+partir\s+de|a\s+partir\s+de|desde|a\s+partire\s+da|vanaf)(?!\p{L})/iu;
+const FREE = /(?<!\p{L})(?:free|gratis|kostenlos|gratuit|gratuito)(?!\p{L})/iu;
+
+function resolveSymbol(symbol: string, locale?: string): string {
+  if (CURRENCY_SYMBOLS[symbol]) return CURRENCY_SYMBOLS[symbol];
+  const shared = SHARED_SYMBOLS[symbol];
+  if (!shared) return symbol;
+  const [language, region] = (locale || '').split(/[-_]/);
+  return (region && shared.byLocale[region.toUpperCase()]) || shared.byLocale[language] || shared.fallback;
+}
+
 /**
- * Normalizes price strings into numeric values for mathematical auditing.
- * Handles various global currency formats and free-tier terminology.
+ * Reads a digit token. Apostrophes and spaces always group. When both '.' and ',' appear the last one is
+ * the decimal mark; a single mark followed by exactly three digits groups thousands (Indian "1,23,456"
+ * included) unless the currency has a three-digit minor unit.
  */
-export const cleanPrice = (val: string | undefined | null): number => {
-  if (!val || val.trim() === "") return NaN;
-  const lower = val.toLowerCase();
-  if (lower.includes('free') || lower.includes('gratis')) return 0;
-  
-  // Use a targeted regex to look for numeric patterns adjacent to currency anchors
-  // This prevents merging separate numbers like quantity or date into the price.
-  const priceMatch = val.match(/([\$€£¥]|USD|EUR|GBP|CAD|AUD)\s?([\d,.]+\d)|([\d,.]+\d)\s?([\$€£¥]|USD|EUR|GBP|CAD|AUD)/i);
-  
-  let raw = "";
-  if (priceMatch) {
-    // Priority 1: Pick the numeric part of the currency-anchored match
-    raw = (priceMatch[2] || priceMatch[3]).replace(/[^\d,.]/g, '');
-  } else {
-    // Priority 2: Fallback to the first numeric word in the string
-    const parts = val.trim().split(/\s+/);
-    raw = parts[0].replace(/[^\d,.]/g, '');
+function parseAmount(token: string, currency: string | null): number {
+  const compact = token.replace(/[ \u00a0\u202f'’]/g, '');
+  const lastDot = compact.lastIndexOf('.');
+  const lastComma = compact.lastIndexOf(',');
+  let decimalAt = -1;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimalAt = Math.max(lastDot, lastComma);
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const mark = lastDot !== -1 ? '.' : ',';
+    const at = Math.max(lastDot, lastComma);
+    const fractionDigits = compact.length - 1 - at;
+    const single = compact.indexOf(mark) === at;
+    if (single && (fractionDigits !== 3 || (currency !== null && THREE_DECIMAL.has(currency)))) decimalAt = at;
   }
-  
-  if (!/\d/.test(raw)) return NaN;
-  
-  const lastComma = raw.lastIndexOf(',');
-  const lastDot = raw.lastIndexOf('.');
-  
-  let cleaned = '';
-  if (lastComma !== -1 && lastDot !== -1) {
-    // Mixed format: 1.200,50 or 1,200.50
-    if (lastComma > lastDot) cleaned = raw.replace(/\./g, '').replace(',', '.');
-    else cleaned = raw.replace(/,/g, '');
-  } else if (lastComma !== -1) {
-    // Comma only: 1200,50 or 1,200
-    cleaned = (raw.length - 1 - lastComma === 2) ? raw.replace(',', '.') : raw.replace(',', '');
-  } else if (lastDot !== -1) {
-    // Dot only: 1200.50 or 1.200
-    cleaned = (raw.length - 1 - lastDot === 2) ? raw : raw.replace(/\./g, '');
-  } else {
-    cleaned = raw;
+  const whole = (decimalAt === -1 ? compact : compact.slice(0, decimalAt)).replace(/[.,]/g, '');
+  const fraction = decimalAt === -1 ? '' : compact.slice(decimalAt + 1);
+  return parseFloat(fraction ? `${whole}.${fraction}` : whole);
+}
+
+function detectPeriod(val: string): BillingPeriod | undefined {
+  for (const match of val.matchAll(PERIOD_PATTERN)) {
+    const unit = PERIOD_UNITS.find(([pattern]) => pattern.test(match[1]));
+    if (unit) return unit[1];
   }
-  
-  const result = parseFloat(cleaned);
-  return isNaN(result) ? NaN : result;
+  return PERIOD_WORDS.find(([pattern]) => pattern.test(val))?.[1];
+}
+
+/**
+ * Parses a displayed price into a Money value. Prefers the number sitting next to a currency marker so
+ * quantities and dates in the same string are ignored. `locale` (BCP 47, e.g. "en-CA") only disambiguates
+ * shared symbols such as '$' and 'kr'. Returns null when no amount can be read.
+ */
+export const parseMoney = (val: string | undefined | null, options: { locale?: string } = {}): Money | null => {
+  if (!val || val.trim() === "") return null;
+  const raw = val.trim();
+
+  const currencyMatch = [...raw.matchAll(CURRENCY_PATTERN)].find(m => /^[A-Z]{3}$/.test(m[0]) ? ISO_CODES.has(m[0]) : true);
+  const currency = currencyMatch ? resolveSymbol(currencyMatch[0], options.locale) : null;
+  const period = detectPeriod(raw);
+
+  const numbers = [...raw.matchAll(NUMBER_PATTERN)];
+  const adjacent = currencyMatch && numbers.find(n => {
+    const before = raw.slice(currencyMatch.index! + currencyMatch[0].length, n.index!);
+    const after = raw.slice(n.index! + n[0].length, currencyMatch.index!);
+    return (n.index! >= currencyMatch.index! && /^[\s-−]*$/.test(before)) || (n.index! < currencyMatch.index! && /^\s*$/.test(after));
+  });
+
+  const build = (amount: number, at: number): Money => ({
+    amount,
+    currency,
+    raw,
+    ...(period ? { period } : {}),
+    ...(STARTING_AT.test(raw.slice(0, at)) ? { starting_at: true } : {})
+  });
+
+  if (FREE.test(raw)) return build(0, raw.length);
+  const number = adjacent || numbers[0];
+  if (!number) return null;
+
+  const amount = parseAmount(number[0], currency);
+  if (isNaN(amount)) return null;
+  const start = Math.min(number.index!, adjacent ? currencyMatch!.index! : number.index!);
+  const negative = /[-−]\s*$/.test(raw.slice(0, start)) || /[-−]\s*$/.test(raw.slice(0, number.index!)) || (raw.startsWith('(') && raw.endsWith(')'));
+  return build(negative ? -amount : amount, start);
+};
+
+/**
+ * Normalizes price strings into numeric values for mathematical auditing.
+ * Handles various global currency formats and free-tier terminology.
+ */
+export const cleanPrice = (val: string | undefined | null): number => parseMoney(val)?.amount ?? NaN;
+
+/**
+ * Currency of a displayed price as an ISO code, or null. Bare "$" is read as USD;
+ * compare codes only between strings from the same storefront.
+ */
+export const detectCurrency = (val: string | undefined | null): string | null => parseMoney(val)?.currency ?? null;
+
+/** Splits a data URL into its mime type and base64 payload. Bare base64 is assumed to be JPEG. */
+export const splitDataUrl = (image: string): { mimeType: string; data: string } => {
+  const match = image.match(/^data:([^;,]+);base64,(.*)$/);
+  if (match) return { mimeType: match[1], data: match[2] };
+  return { mimeType: 'image/jpeg', data: image.split(',')[1] || image };
+};
+
+export const toDataUrl = (image: string): string => {
+  const { mimeType, data } = splitDataUrl(image);
+  return `data:${mimeType};base64,${data}`;
 };
@@ -1,19 +1,38 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createAuditHandler } from './server/auditHandler';
+import { parseUsers } from './server/auth';
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
 
 export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+    // Provider keys stay in this process: the dev server answers /api/audit itself, the bundle never sees them
+    for (const [name, value] of Object.entries(loadEnv(mode, '.', ''))) process.env[name] ??= value;
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
-      },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        host: 'localhost',
       },
+      plugins: [
+        react(),
+        {
+          name: 'audit-server',
+          apply: 'serve',
+          configureServer(server) {
+            const users = parseUsers(process.env.AUDIT_USERS);
+            const host = server.config.server.host;
+            const loopback = host === undefined || (typeof host === 'string' && LOOPBACK_HOSTS.includes(host));
+            // Without configured users the stand-in is open, but only to this machine: anyone who can reach it spends the provider key
+            const allowAnonymous = users.length === 0 && (loopback || process.env.AUDIT_ALLOW_ANONYMOUS === 'true');
+            if (users.length === 0 && !allowAnonymous) {
+              server.config.logger.warn(`/api/audit is disabled: the dev server listens on ${host === true ? 'all addresses' : host}. Add AUDIT_USERS, set AUDIT_ALLOW_ANONYMOUS=true or serve on localhost.`);
+              return;
+            }
+            server.middlewares.use(createAuditHandler({ users, allowAnonymous }));
+          }
+        }
+      ],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
@@ -0,0 +1,41 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+
+/**
+ * Manifest V3 build. Runs twice (see `build:extension`): `--mode background` emits the service worker as
+ * an ES module plus the manifest, `--mode content` emits the content script as a single classic script,
+ * since content scripts cannot load chunks. The web app loads Tailwind from a CDN, which extensions may
+ * not do, so the overlay's CSS is compiled here and injected into its shadow root.
+ */
+export default defineConfig(({ mode }) => {
+  const isContent = mode === 'content';
+  return {
+    plugins: [react()],
+    publicDir: isContent ? false : 'extension/public',
+    define: {
+      'process.env.NODE_ENV': JSON.stringify('production')
+    },
+    css: {
+      postcss: {
+        plugins: [tailwindcss({ content: ['./components/**/*.tsx', './extension/**/*.tsx'] })]
+      }
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
+      }
+    },
+    build: {
+      outDir: 'dist-extension',
+      emptyOutDir: !isContent,
+      lib: {
+        entry: path.resolve(__dirname, isContent ? 'extension/content.tsx' : 'extension/background.ts'),
+        name: 'opticContent',
+        formats: [isContent ? 'iife' : 'es'],
+        fileName: () => isContent ? 'content.js' : 'background.js'
+      }
+    }
+  };
+});